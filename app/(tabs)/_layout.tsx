@@ -1,11 +1,15 @@
 import { Tabs, Redirect } from "expo-router";
-import { Mic, FolderOpen, Settings, Users } from "lucide-react-native";
+import { Mic, FolderOpen, Settings, Users, ListChecks } from "lucide-react-native";
 import { Platform } from "react-native";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRecordingRecovery } from "@/hooks/useRecordingRecovery";
 import Colors from "@/constants/colors";
 
 export default function TabsLayout() {
-  const { isAuthenticated, hasCompletedOnboarding, isAuthLoading, isProfileLoading } = useAuth();
+  const { user, isAuthenticated, hasCompletedOnboarding, isAuthLoading, isProfileLoading } = useAuth();
+
+  // Offer to upload recordings that were interrupted by a crash on a previous launch
+  useRecordingRecovery(isAuthenticated && hasCompletedOnboarding ? user?.id : null);
 
   // Show nothing while auth is loading to prevent flash
   if (isAuthLoading) {
@@ -56,6 +60,13 @@ export default function TabsLayout() {
           tabBarIcon: ({ color, size }) => <FolderOpen size={size} color={color} />,
         }}
       />
+      <Tabs.Screen
+        name="tasks"
+        options={{
+          title: "Tasks",
+          tabBarIcon: ({ color, size }) => <ListChecks size={size} color={color} />,
+        }}
+      />
       <Tabs.Screen
         name="contacts"
         options={{
@@ -1,4 +1,4 @@
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useState, useMemo } from "react";
 import {
   View,
   Text,
@@ -7,23 +7,114 @@ import {
   Animated,
   Platform,
   TouchableOpacity,
+  Switch,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Mic, User, Users } from "lucide-react-native";
+import { Mic, User, Users, FileUp, Languages, Briefcase, ChevronRight, Check, Phone } from "lucide-react-native";
 import { lightImpact, heavyImpact, warningNotification } from "@/lib/haptics";
 import { useMeetings } from "@/contexts/MeetingContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUsage } from "@/contexts/UsageContext";
+import { useContacts } from "@/contexts/ContactContext";
 import Colors from "@/constants/colors";
+import DraggableBottomSheet from "@/components/DraggableBottomSheet";
+import { createOfflineMeeting, isNetworkError } from "@/lib/offline-meetings";
+import {
+  DEFAULT_TRANSCRIPTION_LANGUAGE,
+  TRANSCRIPTION_LANGUAGE_OPTIONS,
+  formatContactName,
+  getLanguageLabel,
+  type ContactWithCategory,
+  type RecordingMode,
+  type TranscriptionLanguageSetting,
+} from "@/types";
 
 // Meeting type options: 1 = Solo, 2 = Two People, 3 = Three or more
 type ExpectedSpeakers = 1 | 2 | 3;
 
+/**
+ * Language Picker Sheet
+ * Transcription language for the next recording
+ */
+const LanguagePickerSheet = ({
+  visible,
+  onClose,
+  selected,
+  onSelect,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  selected: TranscriptionLanguageSetting;
+  onSelect: (language: TranscriptionLanguageSetting) => void;
+}) => (
+  <DraggableBottomSheet visible={visible} onClose={onClose} title="Language" height={60}>
+    {TRANSCRIPTION_LANGUAGE_OPTIONS.map((option) => (
+      <Pressable
+        key={option.code}
+        style={[styles.sheetOption, selected === option.code && styles.sheetOptionSelected]}
+        onPress={() => onSelect(option.code)}
+      >
+        <View style={styles.sheetOptionInfo}>
+          <Text style={styles.sheetOptionName}>{option.label}</Text>
+          {option.code === "auto" && (
+            <Text style={styles.sheetOptionDetail}>Detects the spoken language</Text>
+          )}
+        </View>
+        {selected === option.code && <Check size={20} color={Colors.accentLight} />}
+      </Pressable>
+    ))}
+  </DraggableBottomSheet>
+);
+
+/**
+ * Client Picker Sheet
+ * Optional contact for the next recording - their default language is applied
+ */
+const ClientPickerSheet = ({
+  visible,
+  onClose,
+  contacts,
+  selectedId,
+  onSelect,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  contacts: ContactWithCategory[];
+  selectedId: string | null;
+  onSelect: (contact: ContactWithCategory | null) => void;
+}) => (
+  <DraggableBottomSheet visible={visible} onClose={onClose} title="Client" height={70}>
+    <Pressable
+      style={[styles.sheetOption, selectedId === null && styles.sheetOptionSelected]}
+      onPress={() => onSelect(null)}
+    >
+      <Text style={styles.sheetOptionName}>No Client</Text>
+      {selectedId === null && <Check size={20} color={Colors.accentLight} />}
+    </Pressable>
+    {contacts.map((contact) => (
+      <Pressable
+        key={contact.id}
+        style={[styles.sheetOption, selectedId === contact.id && styles.sheetOptionSelected]}
+        onPress={() => onSelect(contact)}
+      >
+        <View style={styles.sheetOptionInfo}>
+          <Text style={styles.sheetOptionName}>{formatContactName(contact)}</Text>
+          {contact.default_language && (
+            <Text style={styles.sheetOptionDetail}>{getLanguageLabel(contact.default_language)}</Text>
+          )}
+        </View>
+        {selectedId === contact.id && <Check size={20} color={Colors.accentLight} />}
+      </Pressable>
+    ))}
+  </DraggableBottomSheet>
+);
+
 export default function HomeScreen() {
   const router = useRouter();
   const { createMeeting, isCreating } = useMeetings();
-  useAuth();
+  const { user } = useAuth();
+  const { contacts } = useContacts();
   const { 
     canRecord, 
     isTrialExpired,
@@ -35,6 +126,16 @@ export default function HomeScreen() {
   
   // Default to 2 people (most common meeting scenario)
   const [expectedSpeakers, setExpectedSpeakers] = useState<ExpectedSpeakers>(2);
+  const [language, setLanguage] = useState<TranscriptionLanguageSetting>(DEFAULT_TRANSCRIPTION_LANGUAGE);
+  const [contactId, setContactId] = useState<string | null>(null);
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>("standard");
+  const [showLanguagePicker, setShowLanguagePicker] = useState(false);
+  const [showClientPicker, setShowClientPicker] = useState(false);
+
+  const selectedContact = useMemo(
+    () => contacts.find((c) => c.id === contactId) ?? null,
+    [contacts, contactId]
+  );
   
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const scaleAnim = useRef(new Animated.Value(1)).current;
@@ -88,17 +189,66 @@ export default function HomeScreen() {
       }),
     ]).start();
 
+    // Phone calls always have two speakers, one per channel
+    const meetingOptions = {
+      expectedSpeakers: recordingMode === "phone_call" ? 2 : expectedSpeakers,
+      contactId,
+      language,
+      recordingMode,
+    };
+
     try {
       // Pass expected speakers for diarization configuration
-      const meeting = await createMeeting(expectedSpeakers);
-      router.push({ pathname: "/recording", params: { meetingId: meeting.id } });
+      const meeting = await createMeeting(meetingOptions);
+      router.push({ pathname: "/recording", params: { meetingId: meeting.id, language, recordingMode } });
     } catch (err: unknown) {
+      // No connection - record locally and create the meeting once back online
+      if (user?.id && isNetworkError(err)) {
+        console.log("[Home] Offline, recording to a local meeting");
+        const meeting = await createOfflineMeeting(user.id, meetingOptions);
+        router.push({ pathname: "/recording", params: { meetingId: meeting.id, offline: "1", language, recordingMode } });
+        return;
+      }
+
       const errorMessage = err instanceof Error ? err.message : String(err);
       console.error("[Home] Failed to create meeting:", errorMessage);
       alert(`Failed to start recording: ${errorMessage}`);
     }
   };
 
+  const handleImportAudio = () => {
+    lightImpact();
+    router.push({
+      pathname: "/import",
+      params: {
+        expectedSpeakers: String(expectedSpeakers),
+        language,
+        ...(contactId && { contactId }),
+      },
+    });
+  };
+
+  const handlePhoneCallToggle = (enabled: boolean) => {
+    lightImpact();
+    setRecordingMode(enabled ? "phone_call" : "standard");
+  };
+
+  const handleLanguageSelect = (selected: TranscriptionLanguageSetting) => {
+    lightImpact();
+    setLanguage(selected);
+    setShowLanguagePicker(false);
+  };
+
+  // Picking a client switches to their default language, if they have one
+  const handleClientSelect = (contact: ContactWithCategory | null) => {
+    lightImpact();
+    setContactId(contact?.id ?? null);
+    if (contact?.default_language) {
+      setLanguage(contact.default_language);
+    }
+    setShowClientPicker(false);
+  };
+
   const handleSpeakerSelect = (speakers: ExpectedSpeakers) => {
     if (Platform.OS !== "web") {
       lightImpact();
@@ -115,7 +265,10 @@ export default function HomeScreen() {
       {/* Meeting Type Selector */}
       <View style={styles.meetingTypeSection}>
         <Text style={styles.meetingTypeLabel}>Number of Speakers</Text>
-        <View style={styles.meetingTypeButtons}>
+        <View
+          style={[styles.meetingTypeButtons, recordingMode === "phone_call" && styles.meetingTypeButtonsDisabled]}
+          pointerEvents={recordingMode === "phone_call" ? "none" : "auto"}
+        >
           <TouchableOpacity
             style={[
               styles.meetingTypeButton,
@@ -189,6 +342,49 @@ export default function HomeScreen() {
         </View>
       </View>
 
+      {/* Client and Language */}
+      <View style={styles.optionsSection}>
+        <TouchableOpacity
+          style={styles.optionRow}
+          onPress={() => setShowClientPicker(true)}
+          activeOpacity={0.7}
+        >
+          <Briefcase size={18} color={Colors.textMuted} strokeWidth={2} />
+          <Text style={styles.optionLabel}>Client</Text>
+          <Text style={styles.optionValue} numberOfLines={1}>
+            {selectedContact ? formatContactName(selectedContact) : "None"}
+          </Text>
+          <ChevronRight size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+        <View style={styles.optionDivider} />
+        <TouchableOpacity
+          style={styles.optionRow}
+          onPress={() => setShowLanguagePicker(true)}
+          activeOpacity={0.7}
+        >
+          <Languages size={18} color={Colors.textMuted} strokeWidth={2} />
+          <Text style={styles.optionLabel}>Language</Text>
+          <Text style={styles.optionValue} numberOfLines={1}>
+            {getLanguageLabel(language)}
+          </Text>
+          <ChevronRight size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+        <View style={styles.optionDivider} />
+        <View style={styles.optionRow}>
+          <Phone size={18} color={Colors.textMuted} strokeWidth={2} />
+          <View style={styles.optionLabelGroup}>
+            <Text style={styles.optionLabel}>Phone Call</Text>
+            <Text style={styles.optionHint}>Your mic on the left channel, the call on the right</Text>
+          </View>
+          <Switch
+            value={recordingMode === "phone_call"}
+            onValueChange={handlePhoneCallToggle}
+            trackColor={{ false: Colors.border, true: Colors.accentLight + "80" }}
+            thumbColor={recordingMode === "phone_call" ? Colors.accentLight : Colors.textMuted}
+          />
+        </View>
+      </View>
+
       <View style={styles.recordSection}>
         <View style={styles.buttonContainer}>
           <Animated.View
@@ -224,8 +420,32 @@ export default function HomeScreen() {
             ? 'Subscribe to start recording' 
             : 'Tap to begin recording'}
         </Text>
+
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={handleImportAudio}
+          disabled={isCreating}
+          activeOpacity={0.7}
+        >
+          <FileUp size={18} color={Colors.textSecondary} strokeWidth={2} />
+          <Text style={styles.importButtonText}>Import audio file</Text>
+        </TouchableOpacity>
       </View>
 
+      <ClientPickerSheet
+        visible={showClientPicker}
+        onClose={() => setShowClientPicker(false)}
+        contacts={contacts}
+        selectedId={contactId}
+        onSelect={handleClientSelect}
+      />
+
+      <LanguagePickerSheet
+        visible={showLanguagePicker}
+        onClose={() => setShowLanguagePicker(false)}
+        selected={language}
+        onSelect={handleLanguageSelect}
+      />
     </SafeAreaView>
   );
 }
@@ -267,6 +487,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 4,
   },
+  meetingTypeButtonsDisabled: {
+    opacity: 0.4,
+  },
   meetingTypeButton: {
     flex: 1,
     flexDirection: "row",
@@ -296,6 +519,68 @@ const styles = StyleSheet.create({
   meetingTypeButtonTextActive: {
     color: Colors.text,
   },
+  optionsSection: {
+    marginHorizontal: 24,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.text,
+  },
+  optionLabelGroup: {
+    flex: 1,
+  },
+  optionHint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  optionValue: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.textSecondary,
+    textAlign: "right",
+  },
+  optionDivider: {
+    height: 1,
+    backgroundColor: Colors.border,
+    marginLeft: 44,
+  },
+  sheetOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: Colors.surface,
+  },
+  sheetOptionSelected: {
+    backgroundColor: Colors.surfaceLight,
+  },
+  sheetOptionInfo: {
+    flex: 1,
+  },
+  sheetOptionName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: Colors.text,
+  },
+  sheetOptionDetail: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
   recordSection: {
     flex: 1,
     alignItems: "center",
@@ -346,4 +631,21 @@ const styles = StyleSheet.create({
     color: Colors.textMuted,
     textAlign: "center",
   },
+  importButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 32,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  importButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
 });
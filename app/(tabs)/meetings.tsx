@@ -10,14 +10,16 @@ import {
   RefreshControl,
   Animated,
   Easing,
+  Alert,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Search, Clock, AlertCircle, CheckCircle, Loader, DollarSign, Lock } from "lucide-react-native";
+import { Search, Clock, AlertCircle, CheckCircle, Loader, DollarSign, Lock, CloudOff } from "lucide-react-native";
 import { lightImpact, mediumImpact } from "@/lib/haptics";
 import { useMeetings } from "@/contexts/MeetingContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUsage } from "@/contexts/UsageContext";
+import { useUploadQueue } from "@/contexts/UploadQueueContext";
 import type { MeetingWithContact, MeetingStatus, MeetingType } from "@/types";
 import { getStatusInfo, formatDuration, formatCurrency } from "@/types";
 import Colors from "@/constants/colors";
@@ -117,6 +119,9 @@ const StatusIndicator = ({ status, isLocked }: { status: MeetingStatus; isLocked
   if (status === 'failed') {
     return <AlertCircle size={16} color={Colors.error} />;
   }
+  if (status === 'pending_upload') {
+    return <CloudOff size={16} color={Colors.warning} />;
+  }
   // Processing states
   return <Loader size={16} color={Colors.accentLight} />;
 };
@@ -237,6 +242,7 @@ export default function MeetingsScreen() {
   const { meetings, isLoading, isRefreshing, refetchMeetings, meetingTypes } = useMeetings();
   const { profile } = useAuth();
   const { canAccessFeatures, isTrialExpired, hasActiveSubscription, hasActiveTrial } = useUsage();
+  const { retryUpload } = useUploadQueue();
   const [searchQuery, setSearchQuery] = useState("");
   const [showSyncIndicator, setShowSyncIndicator] = useState(false);
   const syncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -293,6 +299,19 @@ export default function MeetingsScreen() {
       return;
     }
     
+    // Recorded offline - nothing to open until it reaches the server
+    if (meeting.status === "pending_upload") {
+      Alert.alert(
+        "Pending Upload",
+        "This recording was made offline and is saved on your device. It will be uploaded and transcribed automatically once you're back online.",
+        [
+          { text: "OK", style: "cancel" },
+          { text: "Try Now", onPress: () => retryUpload(meeting.id) },
+        ]
+      );
+      return;
+    }
+    
     router.push(`/meeting/${meeting.id}`);
   };
 
@@ -15,7 +15,7 @@ import {
 } from "react-native";
 import { useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { LogOut, Trash2, ChevronRight, Info, MessageCircleHeart, Send, Fingerprint, Tag, Plus, Pencil, X, Check, Users, DollarSign, CreditCard, Zap, Clock, AlertTriangle, ExternalLink, Crown } from "lucide-react-native";
+import { LogOut, Trash2, ChevronRight, Info, MessageCircleHeart, Send, Fingerprint, Tag, Plus, Pencil, X, Check, Users, DollarSign, CreditCard, Zap, Clock, AlertTriangle, ExternalLink, Crown, BookOpen, Globe, ShieldCheck } from "lucide-react-native";
 import * as Linking from "expo-linking";
 import { lightImpact, mediumImpact, successNotification } from "@/lib/haptics";
 import { useAuth } from "@/contexts/AuthContext";
@@ -24,7 +24,8 @@ import { useContacts } from "@/contexts/ContactContext";
 import { useUsage } from "@/contexts/UsageContext";
 import Colors from "@/constants/colors";
 import { isBiometricSupported, getBiometricType, isBiometricEnabled, setBiometricEnabled } from "@/lib/biometrics";
-import { DEFAULT_TYPE_COLORS, MeetingType, ContactCategory, DEFAULT_CONTACT_CATEGORY_COLORS, CURRENCY_SYMBOLS } from "@/types";
+import { DEFAULT_TYPE_COLORS, MeetingType, ContactCategory, DEFAULT_CONTACT_CATEGORY_COLORS, CURRENCY_SYMBOLS, VocabularyTerm, DEFAULT_CONSENT_STATEMENT, DEFAULT_SUMMARY_TEMPLATE, SUMMARY_SECTION_TITLES, SUMMARY_TONE_LABELS, SummarySectionKey, SummaryTemplate, SummaryTone } from "@/types";
+import { ASSEMBLYAI_STREAMING_CONFIG } from "@/lib/audio-config";
 import DraggableBottomSheet from "@/components/DraggableBottomSheet";
 import { supabase } from "@/lib/supabase";
 
@@ -43,22 +44,36 @@ const MeetingTypeModal = ({
   onClose: () => void;
   type: MeetingType | null;
   existingTypes: MeetingType[];
-  onSave: (name: string, color: string) => Promise<void>;
+  onSave: (name: string, color: string, summaryTemplate: SummaryTemplate | null) => Promise<void>;
   onDelete?: (type: MeetingType) => void;
   isSaving: boolean;
   isDeleting?: boolean;
 }) => {
   const [name, setName] = useState(type?.name || "");
   const [selectedColor, setSelectedColor] = useState(type?.color || DEFAULT_TYPE_COLORS[0]);
+  const [template, setTemplate] = useState<SummaryTemplate>(type?.summary_template || DEFAULT_SUMMARY_TEMPLATE);
   const inputRef = useRef<TextInput>(null);
 
   useEffect(() => {
     if (visible) {
       setName(type?.name || "");
       setSelectedColor(type?.color || DEFAULT_TYPE_COLORS[0]);
+      setTemplate(type?.summary_template || DEFAULT_SUMMARY_TEMPLATE);
     }
   }, [visible, type]);
 
+  // Sections stay in display order however they're toggled
+  const toggleSection = (key: SummarySectionKey) => {
+    setTemplate((current) => ({
+      ...current,
+      sections: current.sections.includes(key)
+        ? current.sections.filter((section) => section !== key)
+        : DEFAULT_SUMMARY_TEMPLATE.sections.filter(
+            (section) => section === key || current.sections.includes(section)
+          ),
+    }));
+  };
+
   const handleSave = async () => {
     const trimmedName = name.trim();
     
@@ -84,7 +99,15 @@ const MeetingTypeModal = ({
     }
     
     Keyboard.dismiss();
-    await onSave(trimmedName, selectedColor);
+
+    // An unchanged default template is saved as null, so the type follows
+    // any later changes to the default
+    const summaryTemplate: SummaryTemplate = { ...template, instructions: template.instructions.trim() };
+    const isDefaultTemplate =
+      summaryTemplate.tone === DEFAULT_SUMMARY_TEMPLATE.tone &&
+      !summaryTemplate.instructions &&
+      summaryTemplate.sections.length === DEFAULT_SUMMARY_TEMPLATE.sections.length;
+    await onSave(trimmedName, selectedColor, isDefaultTemplate ? null : summaryTemplate);
   };
 
   const handleDelete = () => {
@@ -120,7 +143,7 @@ const MeetingTypeModal = ({
       visible={visible}
       onClose={onClose}
       title={type ? "Edit Type" : "New Meeting Type"}
-      height={70}
+      height={90}
     >
       <Text style={modalStyles.label}>Name</Text>
       <TextInput
@@ -166,6 +189,62 @@ const MeetingTypeModal = ({
         </View>
       </View>
 
+      <Text style={modalStyles.templateTitle}>Summary Template</Text>
+      <Text style={modalStyles.templateHint}>
+        Used for the summaries of meetings of this type. The overview is always included.
+      </Text>
+
+      <Text style={modalStyles.label}>Sections</Text>
+      <View style={modalStyles.sectionList}>
+        {DEFAULT_SUMMARY_TEMPLATE.sections.map((key) => {
+          const isIncluded = template.sections.includes(key);
+          return (
+            <Pressable
+              key={key}
+              style={modalStyles.sectionOption}
+              onPress={() => {
+                toggleSection(key);
+                Keyboard.dismiss();
+              }}
+            >
+              <View style={[modalStyles.sectionCheckbox, isIncluded && modalStyles.sectionCheckboxChecked]}>
+                {isIncluded && <Check size={14} color="#fff" />}
+              </View>
+              <Text style={modalStyles.sectionOptionText}>{SUMMARY_SECTION_TITLES[key]}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      <Text style={modalStyles.label}>Tone</Text>
+      <View style={modalStyles.toneRow}>
+        {(Object.keys(SUMMARY_TONE_LABELS) as SummaryTone[]).map((tone) => (
+          <Pressable
+            key={tone}
+            style={[modalStyles.toneOption, template.tone === tone && modalStyles.toneOptionSelected]}
+            onPress={() => {
+              setTemplate((current) => ({ ...current, tone }));
+              Keyboard.dismiss();
+            }}
+          >
+            <Text style={[modalStyles.toneOptionText, template.tone === tone && modalStyles.toneOptionTextSelected]}>
+              {SUMMARY_TONE_LABELS[tone]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={modalStyles.label}>Instructions</Text>
+      <TextInput
+        style={[modalStyles.input, modalStyles.instructionsInput]}
+        value={template.instructions}
+        onChangeText={(instructions) => setTemplate((current) => ({ ...current, instructions }))}
+        placeholder="e.g., List every deadline mentioned and who it applies to"
+        placeholderTextColor={Colors.textMuted}
+        multiline
+        textAlignVertical="top"
+      />
+
       <View style={modalStyles.footer}>
         {type && !type.is_default && onDelete && (
           <Pressable
@@ -379,6 +458,112 @@ const ContactCategoryModal = ({
   );
 };
 
+// Custom Vocabulary Manager Modal Component
+const VocabularyModal = ({
+  visible,
+  onClose,
+  terms,
+  onAdd,
+  onDelete,
+  isAdding,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  terms: VocabularyTerm[];
+  onAdd: (term: string) => Promise<void>;
+  onDelete: (term: VocabularyTerm) => void;
+  isAdding: boolean;
+}) => {
+  const [newTerm, setNewTerm] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setNewTerm("");
+    }
+  }, [visible]);
+
+  const handleAdd = async () => {
+    const trimmedTerm = newTerm.trim().replace(/\s+/g, " ");
+    if (!trimmedTerm) return;
+
+    // Check for duplicates (case-insensitive)
+    const isDuplicate = terms.some(
+      (existing) => existing.term.toLowerCase() === trimmedTerm.toLowerCase()
+    );
+    if (isDuplicate) {
+      Alert.alert("Already Added", `"${trimmedTerm}" is already in your vocabulary.`);
+      return;
+    }
+
+    await onAdd(trimmedTerm);
+    setNewTerm("");
+  };
+
+  return (
+    <DraggableBottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Custom Vocabulary"
+      height={75}
+    >
+      <Text style={vocabularyStyles.description}>
+        Names and terms transcription often gets wrong - parties, case captions, Latin terms, local
+        street names. Your contacts&apos; names and companies are added automatically.
+      </Text>
+
+      <View style={vocabularyStyles.inputRow}>
+        <TextInput
+          style={vocabularyStyles.input}
+          value={newTerm}
+          onChangeText={setNewTerm}
+          placeholder="e.g., res ipsa loquitur"
+          placeholderTextColor={Colors.textMuted}
+          maxLength={ASSEMBLYAI_STREAMING_CONFIG.KEYTERM_MAX_LENGTH}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="done"
+          onSubmitEditing={handleAdd}
+        />
+        <Pressable
+          style={[vocabularyStyles.addButton, (isAdding || !newTerm.trim()) && vocabularyStyles.addButtonDisabled]}
+          onPress={handleAdd}
+          disabled={isAdding || !newTerm.trim()}
+        >
+          {isAdding ? (
+            <ActivityIndicator size="small" color={Colors.text} />
+          ) : (
+            <Plus size={20} color={Colors.text} />
+          )}
+        </Pressable>
+      </View>
+
+      {terms.length > ASSEMBLYAI_STREAMING_CONFIG.MAX_KEYTERMS && (
+        <Text style={vocabularyStyles.limitHint}>
+          Only the first {ASSEMBLYAI_STREAMING_CONFIG.MAX_KEYTERMS} terms are used for each meeting.
+        </Text>
+      )}
+
+      {terms.length === 0 ? (
+        <Text style={vocabularyStyles.emptyText}>No terms added yet.</Text>
+      ) : (
+        <View style={vocabularyStyles.termList}>
+          {terms.map((term) => (
+            <View key={term.id} style={vocabularyStyles.termChip}>
+              <Text style={vocabularyStyles.termText}>{term.term}</Text>
+              <Pressable
+                onPress={() => onDelete(term)}
+                hitSlop={8}
+              >
+                <X size={14} color={Colors.textMuted} />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      )}
+    </DraggableBottomSheet>
+  );
+};
+
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, signOut, isSigningOut, profile, updateProfile } = useAuth();
@@ -392,6 +577,10 @@ export default function SettingsScreen() {
     isCreatingType,
     isUpdatingType,
     isDeletingType,
+    vocabularyTerms,
+    addVocabularyTerm,
+    deleteVocabularyTerm,
+    isAddingVocabularyTerm,
   } = useMeetings();
 
   const {
@@ -437,6 +626,14 @@ export default function SettingsScreen() {
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [editingCategory, setEditingCategory] = useState<ContactCategory | null>(null);
 
+  // Custom vocabulary modal state
+  const [showVocabularyModal, setShowVocabularyModal] = useState(false);
+
+  // Consent statement state
+  const [showConsentModal, setShowConsentModal] = useState(false);
+  const [consentStatementInput, setConsentStatementInput] = useState('');
+  const [isSavingConsent, setIsSavingConsent] = useState(false);
+
   // Billing settings state
   const [showBillingModal, setShowBillingModal] = useState(false);
   const [hourlyRateInput, setHourlyRateInput] = useState('');
@@ -509,12 +706,12 @@ export default function SettingsScreen() {
     }
   };
 
-  const handleSaveType = async (name: string, color: string) => {
+  const handleSaveType = async (name: string, color: string, summaryTemplate: SummaryTemplate | null) => {
     try {
       if (editingType) {
-        await updateMeetingType({ id: editingType.id, updates: { name, color } });
+        await updateMeetingType({ id: editingType.id, updates: { name, color, summary_template: summaryTemplate } });
       } else {
-        await createMeetingType({ name, color });
+        await createMeetingType({ name, color, summaryTemplate });
       }
       // Explicitly refetch to ensure the list updates
       await refetchMeetingTypes();
@@ -580,6 +777,98 @@ export default function SettingsScreen() {
     }
   };
 
+  // Custom vocabulary handlers
+  const handleOpenVocabulary = () => {
+    if (Platform.OS !== "web") {
+      lightImpact();
+    }
+    setShowVocabularyModal(true);
+  };
+
+  const handleAddVocabularyTerm = async (term: string) => {
+    try {
+      await addVocabularyTerm(term);
+      successNotification();
+    } catch (err) {
+      console.error("[Settings] Add vocabulary term error:", err);
+      Alert.alert("Error", "Could not add vocabulary term.");
+    }
+  };
+
+  const handleDeleteVocabularyTerm = async (term: VocabularyTerm) => {
+    if (Platform.OS !== "web") {
+      lightImpact();
+    }
+    try {
+      await deleteVocabularyTerm(term.id);
+    } catch (err) {
+      console.error("[Settings] Delete vocabulary term error:", err);
+      Alert.alert("Error", "Could not remove vocabulary term.");
+    }
+  };
+
+  // Data region handler - applies to recordings processed from now on
+  const handleToggleDataRegion = () => {
+    if (Platform.OS !== "web") {
+      lightImpact();
+    }
+
+    const nextRegion = profile?.data_region === "eu" ? "us" : "eu";
+    Alert.alert(
+      nextRegion === "eu" ? "Process Data in the EU?" : "Process Data in the US?",
+      nextRegion === "eu"
+        ? "Live and batch transcription and AI summaries will run on EU servers. Existing recordings are not moved."
+        : "Live and batch transcription and AI summaries will run on US servers. Existing recordings are not moved.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Switch",
+          onPress: async () => {
+            try {
+              await updateProfile({ data_region: nextRegion });
+              successNotification();
+            } catch (err) {
+              console.error("[Settings] Save data region error:", err);
+              Alert.alert("Error", "Could not change data region.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Consent statement handlers
+  const handleOpenConsent = () => {
+    if (Platform.OS !== "web") {
+      lightImpact();
+    }
+    setConsentStatementInput(profile?.consent_statement || DEFAULT_CONSENT_STATEMENT);
+    setShowConsentModal(true);
+  };
+
+  const handleSaveConsent = async () => {
+    const statement = consentStatementInput.trim();
+    if (!statement) {
+      Alert.alert("Statement Required", "Enter the statement to read before recording.");
+      return;
+    }
+
+    setIsSavingConsent(true);
+    try {
+      // The default is stored as NULL so it follows future wording changes
+      await updateProfile({
+        consent_statement: statement === DEFAULT_CONSENT_STATEMENT ? null : statement,
+      });
+      setShowConsentModal(false);
+      successNotification();
+    } catch (err) {
+      console.error("[Settings] Save consent statement error:", err);
+      Alert.alert("Error", "Could not save consent statement.");
+    } finally {
+      setIsSavingConsent(false);
+    }
+  };
+
   // Billing handlers
   const handleOpenBilling = () => {
     if (Platform.OS !== "web") {
@@ -937,6 +1226,59 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        <Text style={styles.sectionTitle}>Transcription</Text>
+        <View style={styles.section}>
+          <Pressable
+            style={[styles.settingRow, styles.pressableRow]}
+            onPress={handleOpenVocabulary}
+          >
+            <View style={styles.settingLeft}>
+              <BookOpen size={20} color={Colors.accentLight} />
+              <View>
+                <Text style={styles.settingLabel}>Custom Vocabulary</Text>
+                <Text style={styles.settingHint}>
+                  {vocabularyTerms.length > 0
+                    ? `${vocabularyTerms.length} ${vocabularyTerms.length === 1 ? "term" : "terms"}`
+                    : "Party names, Latin terms, street names"}
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={Colors.textMuted} />
+          </Pressable>
+          <Pressable
+            style={[styles.settingRow, styles.pressableRow]}
+            onPress={handleToggleDataRegion}
+          >
+            <View style={styles.settingLeft}>
+              <Globe size={20} color={Colors.accentLight} />
+              <View>
+                <Text style={styles.settingLabel}>Data Region</Text>
+                <Text style={styles.settingHint}>Where transcription and summaries run</Text>
+              </View>
+            </View>
+            <View style={[styles.toggleIndicator, profile?.data_region === "eu" && styles.toggleIndicatorActive]}>
+              <Text style={[styles.toggleText, profile?.data_region === "eu" && styles.toggleTextActive]}>
+                {profile?.data_region === "eu" ? "EU" : "US"}
+              </Text>
+            </View>
+          </Pressable>
+          <Pressable
+            style={[styles.settingRow, styles.pressableRow]}
+            onPress={handleOpenConsent}
+          >
+            <View style={styles.settingLeft}>
+              <ShieldCheck size={20} color={Colors.success} />
+              <View>
+                <Text style={styles.settingLabel}>Consent Statement</Text>
+                <Text style={styles.settingHint}>
+                  {profile?.consent_statement ? "Custom" : "Default"} - shown before every recording
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={Colors.textMuted} />
+          </Pressable>
+        </View>
+
         <Text style={styles.sectionTitle}>Contact Categories</Text>
         <View style={styles.section}>
           {isContactCategoriesLoading ? (
@@ -1294,6 +1636,62 @@ export default function SettingsScreen() {
         isDeleting={isDeletingCategory}
       />
 
+      {/* Custom Vocabulary Modal */}
+      <VocabularyModal
+        visible={showVocabularyModal}
+        onClose={() => setShowVocabularyModal(false)}
+        terms={vocabularyTerms}
+        onAdd={handleAddVocabularyTerm}
+        onDelete={handleDeleteVocabularyTerm}
+        isAdding={isAddingVocabularyTerm}
+      />
+
+      {/* Consent Statement Modal */}
+      <DraggableBottomSheet
+        visible={showConsentModal}
+        onClose={() => setShowConsentModal(false)}
+        title="Consent Statement"
+        height={60}
+      >
+        <View style={billingStyles.fieldGroup}>
+          <Text style={billingStyles.fieldLabel}>Statement</Text>
+          <TextInput
+            style={consentStyles.statementInput}
+            value={consentStatementInput}
+            onChangeText={setConsentStatementInput}
+            placeholder={DEFAULT_CONSENT_STATEMENT}
+            placeholderTextColor={Colors.textMuted}
+            multiline
+            maxLength={1000}
+          />
+          <Text style={billingStyles.fieldHint}>
+            Shown to read aloud before recording starts, and saved with each meeting&apos;s consent record
+          </Text>
+          {consentStatementInput.trim() !== DEFAULT_CONSENT_STATEMENT && (
+            <Pressable
+              style={consentStyles.resetButton}
+              onPress={() => setConsentStatementInput(DEFAULT_CONSENT_STATEMENT)}
+            >
+              <Text style={consentStyles.resetText}>Reset to default</Text>
+            </Pressable>
+          )}
+        </View>
+
+        <View style={billingStyles.footer}>
+          <Pressable
+            style={[billingStyles.saveButton, isSavingConsent && billingStyles.saveButtonDisabled]}
+            onPress={handleSaveConsent}
+            disabled={isSavingConsent}
+          >
+            {isSavingConsent ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <Text style={billingStyles.saveButtonText}>Save Statement</Text>
+            )}
+          </Pressable>
+        </View>
+      </DraggableBottomSheet>
+
       {/* Billing Settings Modal */}
       <DraggableBottomSheet
         visible={showBillingModal}
@@ -1803,6 +2201,74 @@ const modalStyles = StyleSheet.create({
     fontSize: 13,
     fontWeight: "600",
   },
+  templateTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: Colors.text,
+    marginTop: 28,
+    marginBottom: 4,
+  },
+  templateHint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  sectionList: {
+    marginBottom: 20,
+  },
+  sectionOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  sectionCheckbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sectionCheckboxChecked: {
+    backgroundColor: Colors.accentLight,
+    borderColor: Colors.accentLight,
+  },
+  sectionOptionText: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  toneRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 20,
+  },
+  toneOption: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: "center",
+    backgroundColor: Colors.background,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  toneOptionSelected: {
+    borderColor: Colors.accentLight,
+    backgroundColor: Colors.accentLight + "20",
+  },
+  toneOptionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
+  toneOptionTextSelected: {
+    color: Colors.accentLight,
+  },
+  instructionsInput: {
+    minHeight: 96,
+  },
   footer: {
     padding: 20,
     paddingTop: 0,
@@ -2007,3 +2473,95 @@ const billingStyles = StyleSheet.create({
     color: Colors.text,
   },
 });
+
+// Consent Statement Modal Styles
+const consentStyles = StyleSheet.create({
+  statementInput: {
+    backgroundColor: '#252b3d',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#374151',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#ffffff',
+    minHeight: 120,
+    textAlignVertical: "top",
+  },
+  resetButton: {
+    alignSelf: "flex-start",
+    marginTop: 12,
+  },
+  resetText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.accentLight,
+  },
+});
+
+// Vocabulary Modal Styles
+const vocabularyStyles = StyleSheet.create({
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  addButton: {
+    width: 52,
+    borderRadius: 12,
+    backgroundColor: Colors.accentLight,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  limitHint: {
+    fontSize: 13,
+    color: Colors.warning,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  termList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  termChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingLeft: 12,
+    paddingRight: 10,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+  },
+  termText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+});
@@ -0,0 +1,414 @@
+import { useState, useMemo, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  RefreshControl,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Check, ChevronDown, Calendar, User } from "lucide-react-native";
+import { lightImpact, mediumImpact, successNotification } from "@/lib/haptics";
+import { useMeetings, useOpenActionItems } from "@/contexts/MeetingContext";
+import { useContacts } from "@/contexts/ContactContext";
+import DraggableBottomSheet from "@/components/DraggableBottomSheet";
+import {
+  ACTION_ITEM_DUE_FILTER_LABELS,
+  formatContactName,
+  formatDueDate,
+  isActionItemOverdue,
+  matchesDueFilter,
+  type ActionItemDueFilter,
+  type ActionItemWithMeeting,
+} from "@/types";
+import Colors from "@/constants/colors";
+
+// The contact an item is filed under - the meeting's contact, or the
+// contact responsible for it when the meeting has none
+function getItemContactId(item: ActionItemWithMeeting): string | null {
+  return item.meeting?.contact_id ?? item.contact_id;
+}
+
+const TaskCard = ({
+  item,
+  onToggle,
+  onOpenMeeting,
+}: {
+  item: ActionItemWithMeeting;
+  onToggle: () => void;
+  onOpenMeeting: () => void;
+}) => {
+  const isOverdue = isActionItemOverdue(item);
+
+  return (
+    <View style={styles.card}>
+      <Pressable
+        style={styles.checkbox}
+        onPress={onToggle}
+        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      />
+      <View style={styles.cardContent}>
+        <Text style={styles.description}>{item.description}</Text>
+
+        <View style={styles.cardMeta}>
+          {item.responsible_party && (
+            <View style={styles.metaItem}>
+              <User size={12} color={Colors.textMuted} />
+              <Text style={styles.metaText}>{item.responsible_party}</Text>
+            </View>
+          )}
+          {item.due_date && (
+            <View style={styles.metaItem}>
+              <Calendar size={12} color={isOverdue ? Colors.error : Colors.textMuted} />
+              <Text style={[styles.metaText, isOverdue && styles.metaTextOverdue]}>
+                {isOverdue ? "Overdue · " : "Due "}{formatDueDate(item.due_date)}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {item.meeting && (
+          <Pressable onPress={onOpenMeeting}>
+            <Text style={styles.meetingLink} numberOfLines={1}>
+              {item.meeting.title}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    </View>
+  );
+};
+
+export default function TasksScreen() {
+  const router = useRouter();
+  const { data: items = [], isLoading, isRefetching, refetch } = useOpenActionItems();
+  const { setActionItemStatus } = useMeetings();
+  const { contacts } = useContacts();
+  const [dueFilter, setDueFilter] = useState<ActionItemDueFilter>("all");
+  const [contactFilter, setContactFilter] = useState<string | null>(null);
+  const [showContactFilter, setShowContactFilter] = useState(false);
+
+  // Contacts with open items, and how many each has
+  const contactCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      const contactId = getItemContactId(item);
+      if (contactId) counts.set(contactId, (counts.get(contactId) || 0) + 1);
+    }
+    return counts;
+  }, [items]);
+
+  const filterContacts = useMemo(
+    () => contacts.filter((contact) => contactCounts.has(contact.id)),
+    [contacts, contactCounts]
+  );
+
+  const selectedContact = contacts.find((contact) => contact.id === contactFilter);
+
+  const filteredItems = useMemo(() => {
+    const now = new Date();
+    return items.filter((item) => {
+      if (contactFilter && getItemContactId(item) !== contactFilter) return false;
+      return matchesDueFilter(item, dueFilter, now);
+    });
+  }, [items, contactFilter, dueFilter]);
+
+  const handleRefresh = useCallback(() => {
+    mediumImpact();
+    refetch();
+  }, [refetch]);
+
+  const handleComplete = async (item: ActionItemWithMeeting) => {
+    try {
+      await setActionItemStatus({ actionItemId: item.id, meetingId: item.meeting_id, status: "done" });
+      successNotification();
+    } catch (err) {
+      console.error("[Tasks] Complete action item error:", err);
+      Alert.alert("Error", "Could not update the action item.");
+    }
+  };
+
+  const handleOpenMeeting = (item: ActionItemWithMeeting) => {
+    lightImpact();
+    router.push(`/meeting/${item.meeting_id}`);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Tasks</Text>
+        <Text style={styles.subtitle}>
+          Open action items from your meetings
+        </Text>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterScroll}
+        contentContainerStyle={styles.filterRow}
+      >
+        <Pressable
+          style={[styles.filterChip, contactFilter !== null && styles.filterChipSelected]}
+          onPress={() => {
+            lightImpact();
+            setShowContactFilter(true);
+          }}
+        >
+          <Text style={[styles.filterChipText, contactFilter !== null && styles.filterChipTextSelected]}>
+            {selectedContact ? formatContactName(selectedContact) : "All Contacts"}
+          </Text>
+          <ChevronDown size={14} color={contactFilter !== null ? Colors.accentLight : Colors.textSecondary} />
+        </Pressable>
+
+        {(Object.keys(ACTION_ITEM_DUE_FILTER_LABELS) as ActionItemDueFilter[]).map((filter) => (
+          <Pressable
+            key={filter}
+            style={[styles.filterChip, dueFilter === filter && styles.filterChipSelected]}
+            onPress={() => {
+              lightImpact();
+              setDueFilter(filter);
+            }}
+          >
+            <Text style={[styles.filterChipText, dueFilter === filter && styles.filterChipTextSelected]}>
+              {ACTION_ITEM_DUE_FILTER_LABELS[filter]}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <FlatList
+        data={filteredItems}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <TaskCard
+            item={item}
+            onToggle={() => handleComplete(item)}
+            onOpenMeeting={() => handleOpenMeeting(item)}
+          />
+        )}
+        contentContainerStyle={styles.list}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={handleRefresh}
+            tintColor={Colors.accent}
+            colors={[Colors.accent]}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>
+              {isLoading
+                ? "Loading tasks..."
+                : items.length > 0
+                ? "No tasks match these filters"
+                : "No open action items"}
+            </Text>
+            {!isLoading && items.length === 0 && (
+              <Text style={styles.emptyHint}>
+                Action items agreed in your meetings will show up here
+              </Text>
+            )}
+          </View>
+        }
+      />
+
+      {/* Contact Filter */}
+      <DraggableBottomSheet
+        visible={showContactFilter}
+        onClose={() => setShowContactFilter(false)}
+        title="Filter by Contact"
+        height={60}
+      >
+        <Pressable
+          style={[styles.contactOption, contactFilter === null && styles.contactOptionSelected]}
+          onPress={() => {
+            setContactFilter(null);
+            setShowContactFilter(false);
+          }}
+        >
+          <Text style={styles.contactOptionName}>All Contacts</Text>
+          <View style={styles.contactOptionRight}>
+            <Text style={styles.contactOptionCount}>{items.length}</Text>
+            {contactFilter === null && <Check size={20} color={Colors.accentLight} />}
+          </View>
+        </Pressable>
+
+        {filterContacts.map((contact) => (
+          <Pressable
+            key={contact.id}
+            style={[styles.contactOption, contactFilter === contact.id && styles.contactOptionSelected]}
+            onPress={() => {
+              setContactFilter(contact.id);
+              setShowContactFilter(false);
+            }}
+          >
+            <Text style={styles.contactOptionName}>{formatContactName(contact)}</Text>
+            <View style={styles.contactOptionRight}>
+              <Text style={styles.contactOptionCount}>{contactCounts.get(contact.id)}</Text>
+              {contactFilter === contact.id && <Check size={20} color={Colors.accentLight} />}
+            </View>
+          </Pressable>
+        ))}
+      </DraggableBottomSheet>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: 16,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "700",
+    color: Colors.text,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  filterScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  filterRow: {
+    paddingHorizontal: 24,
+    gap: 8,
+  },
+  filterChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  filterChipSelected: {
+    borderColor: Colors.accentLight,
+    backgroundColor: Colors.accentLight + "20",
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.textSecondary,
+  },
+  filterChipTextSelected: {
+    color: Colors.accentLight,
+  },
+  list: {
+    paddingHorizontal: 24,
+    paddingBottom: 100,
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 14,
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 18,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: Colors.textMuted,
+    marginTop: 1,
+  },
+  cardContent: {
+    flex: 1,
+    gap: 8,
+  },
+  description: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: Colors.text,
+    lineHeight: 22,
+  },
+  cardMeta: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 12,
+  },
+  metaItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  metaTextOverdue: {
+    color: Colors.error,
+    fontWeight: "600",
+  },
+  meetingLink: {
+    fontSize: 13,
+    color: Colors.accentLight,
+    fontWeight: "500",
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  emptyHint: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    textAlign: "center",
+  },
+  contactOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 16,
+    paddingHorizontal: 16,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    marginBottom: 10,
+  },
+  contactOptionSelected: {
+    borderWidth: 2,
+    borderColor: Colors.accentLight,
+  },
+  contactOptionName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: Colors.text,
+  },
+  contactOptionRight: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  contactOptionCount: {
+    fontSize: 14,
+    color: Colors.textMuted,
+  },
+});
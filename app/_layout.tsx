@@ -11,6 +11,7 @@ import { AppConfigProvider, useAppConfig } from "@/contexts/AppConfigContext";
 import { MeetingProvider } from "@/contexts/MeetingContext";
 import { ContactProvider } from "@/contexts/ContactContext";
 import { UsageProvider, useUsage } from "@/contexts/UsageContext";
+import { UploadQueueProvider } from "@/contexts/UploadQueueContext";
 import { supabase } from "@/lib/supabase";
 import Colors from "@/constants/colors";
 
@@ -212,6 +213,7 @@ function RootLayoutNav() {
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="recording" options={{ headerShown: false, gestureEnabled: false }} />
       <Stack.Screen name="processing" options={{ headerShown: false, gestureEnabled: false }} />
+      <Stack.Screen name="import" options={{ headerShown: false, presentation: "modal" }} />
       <Stack.Screen name="meeting/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="contact/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="edit-meeting" options={{ headerShown: false, presentation: "modal" }} />
@@ -236,8 +238,10 @@ export default function RootLayout() {
               <DeepLinkHandler>
                 <MeetingProvider>
                   <ContactProvider>
-                    <StatusBar style="light" />
-                    <RootLayoutNav />
+                    <UploadQueueProvider>
+                      <StatusBar style="light" />
+                      <RootLayoutNav />
+                    </UploadQueueProvider>
                   </ContactProvider>
                 </MeetingProvider>
               </DeepLinkHandler>
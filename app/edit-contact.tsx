@@ -9,6 +9,7 @@
  * - Phone
  * - Notes
  * - Category
+ * - Default Language (preselected when recording with this contact)
  * 
  * When coming from a meeting detail screen with meetingId param,
  * the new contact will be automatically assigned to that meeting.
@@ -34,7 +35,8 @@ import { lightImpact, mediumImpact, successNotification } from "@/lib/haptics";
 import { useContactDetails, useContacts } from "@/contexts/ContactContext";
 import { useMeetings } from "@/contexts/MeetingContext";
 import Colors from "@/constants/colors";
-import type { ContactCategory } from "@/types";
+import { TRANSCRIPTION_LANGUAGE_OPTIONS, getLanguageLabel } from "@/types";
+import type { ContactCategory, TranscriptionLanguageSetting } from "@/types";
 
 export default function EditContactScreen() {
   const router = useRouter();
@@ -63,6 +65,8 @@ export default function EditContactScreen() {
   const [notes, setNotes] = useState("");
   const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
   const [showCategorySelector, setShowCategorySelector] = useState(false);
+  const [defaultLanguage, setDefaultLanguage] = useState<TranscriptionLanguageSetting | null>(null);
+  const [showLanguageSelector, setShowLanguageSelector] = useState(false);
 
   // Load existing contact data when editing
   useEffect(() => {
@@ -74,6 +78,7 @@ export default function EditContactScreen() {
       setPhone(existingContact.phone || "");
       setNotes(existingContact.notes || "");
       setSelectedCategoryId(existingContact.category_id || null);
+      setDefaultLanguage(existingContact.default_language || null);
     }
   }, [existingContact]);
 
@@ -102,6 +107,7 @@ export default function EditContactScreen() {
         phone: phone.trim() || null,
         notes: notes.trim() || null,
         category_id: selectedCategoryId,
+        default_language: defaultLanguage,
       };
 
       if (isEditing && id) {
@@ -151,6 +157,14 @@ export default function EditContactScreen() {
     setShowCategorySelector(false);
   };
 
+  const handleSelectLanguage = (language: TranscriptionLanguageSetting | null) => {
+    if (Platform.OS !== "web") {
+      lightImpact();
+    }
+    setDefaultLanguage(language);
+    setShowLanguageSelector(false);
+  };
+
   // Loading state for editing
   if (isEditing && isLoadingContact) {
     return (
@@ -329,6 +343,60 @@ export default function EditContactScreen() {
             )}
           </View>
 
+          {/* Default Language Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Default Language</Text>
+            <Pressable
+              style={styles.categorySelector}
+              onPress={() => setShowLanguageSelector(!showLanguageSelector)}
+            >
+              {defaultLanguage ? (
+                <Text style={styles.selectedCategoryText}>{getLanguageLabel(defaultLanguage)}</Text>
+              ) : (
+                <Text style={styles.categoryPlaceholder}>Language for recordings (optional)</Text>
+              )}
+              <ChevronDown 
+                size={20} 
+                color={Colors.textMuted}
+                style={showLanguageSelector ? { transform: [{ rotate: '180deg' }] } : undefined}
+              />
+            </Pressable>
+
+            {/* Language Options Dropdown */}
+            {showLanguageSelector && (
+              <View style={styles.categoryDropdown}>
+                <Pressable
+                  style={[
+                    styles.categoryOption,
+                    defaultLanguage === null && styles.categoryOptionSelected,
+                  ]}
+                  onPress={() => handleSelectLanguage(null)}
+                >
+                  <Text style={styles.categoryOptionText}>No Default</Text>
+                  {defaultLanguage === null && (
+                    <Check size={18} color={Colors.accentLight} />
+                  )}
+                </Pressable>
+
+                {TRANSCRIPTION_LANGUAGE_OPTIONS.map((option) => (
+                  <Pressable
+                    key={option.code}
+                    style={[
+                      styles.categoryOption,
+                      defaultLanguage === option.code && styles.categoryOptionSelected,
+                    ]}
+                    onPress={() => handleSelectLanguage(option.code)}
+                  >
+                    <Text style={styles.categoryOptionText}>{option.label}</Text>
+                    {defaultLanguage === option.code && (
+                      <Check size={18} color={Colors.accentLight} />
+                    )}
+                  </Pressable>
+                ))}
+              </View>
+            )}
+          </View>
+
           {/* Notes Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Notes</Text>
@@ -0,0 +1,492 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import DateTimePicker, { type DateTimePickerEvent } from "@react-native-community/datetimepicker";
+import { X, FileAudio, Calendar, Clock, User, Users } from "lucide-react-native";
+import {
+  lightImpact,
+  mediumImpact,
+  successNotification,
+  errorNotification,
+  warningNotification,
+} from "@/lib/haptics";
+import { pickAudioFile, IMPORT_AUDIO_CONTENT_TYPES, type ImportedAudio } from "@/lib/audio-import";
+import { enqueueUpload } from "@/lib/upload-queue";
+import { useMeetings } from "@/contexts/MeetingContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUsage } from "@/contexts/UsageContext";
+import Colors from "@/constants/colors";
+import { formatDuration, DEFAULT_TRANSCRIPTION_LANGUAGE, type TranscriptionLanguageSetting } from "@/types";
+
+type ExpectedSpeakers = 1 | 2 | 3;
+
+type ImportStep = "idle" | "creating" | "uploading";
+
+const STEP_LABELS: Record<Exclude<ImportStep, "idle">, string> = {
+  creating: "Creating meeting...",
+  uploading: "Preparing upload...",
+};
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+export default function ImportAudioScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ expectedSpeakers?: string; language?: string; contactId?: string }>();
+  const { user } = useAuth();
+  const { canRecord } = useUsage();
+  const { createMeeting, updateMeeting, deleteMeeting } = useMeetings();
+
+  const initialSpeakers = Number(params.expectedSpeakers);
+  const [expectedSpeakers, setExpectedSpeakers] = useState<ExpectedSpeakers>(
+    initialSpeakers === 1 || initialSpeakers === 3 ? initialSpeakers : 2
+  );
+  const [audio, setAudio] = useState<ImportedAudio | null>(null);
+  const [title, setTitle] = useState("");
+  const [recordedAt, setRecordedAt] = useState<Date>(new Date());
+  const [pickerMode, setPickerMode] = useState<"date" | "time" | "datetime" | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const [step, setStep] = useState<ImportStep>("idle");
+
+  const isImporting = step !== "idle";
+
+  const handlePickFile = async () => {
+    lightImpact();
+    setIsPicking(true);
+    try {
+      const picked = await pickAudioFile();
+      if (!picked) return;
+
+      setAudio(picked);
+      setTitle(stripExtension(picked.fileName));
+      setRecordedAt(picked.recordedAt ? new Date(picked.recordedAt) : new Date());
+    } catch (err) {
+      console.error("[ImportAudio] Failed to read file:", err);
+      errorNotification();
+      Alert.alert("Can't Import File", err instanceof Error ? err.message : "Failed to read audio file");
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    if (event.type === "dismissed" || !date) {
+      setPickerMode(null);
+      return;
+    }
+
+    setRecordedAt(date);
+
+    // Android shows separate dialogs, so follow the date with the time
+    if (Platform.OS === "android") {
+      setPickerMode(pickerMode === "date" ? "time" : null);
+    }
+  };
+
+  const handleSpeakerSelect = (speakers: ExpectedSpeakers) => {
+    lightImpact();
+    setExpectedSpeakers(speakers);
+  };
+
+  const handleImport = async () => {
+    if (!audio || !user?.id) return;
+
+    mediumImpact();
+
+    if (!canRecord) {
+      warningNotification();
+      router.push("/subscription");
+      return;
+    }
+
+    let meetingId: string | null = null;
+
+    try {
+      setStep("creating");
+      const meeting = await createMeeting({
+        expectedSpeakers,
+        contactId: params.contactId ?? null,
+        language: (params.language as TranscriptionLanguageSetting | undefined) ?? DEFAULT_TRANSCRIPTION_LANGUAGE,
+      });
+      meetingId = meeting.id;
+
+      await updateMeeting({
+        meetingId: meeting.id,
+        updates: { title: title.trim() || stripExtension(audio.fileName) },
+      });
+
+      // The picker's copy may be temporary, so the queue stages its own copy
+      // before uploading in resumable parts and queueing the meeting
+      setStep("uploading");
+      await enqueueUpload({
+        meetingId: meeting.id,
+        userId: user.id,
+        file: audio.file,
+        audioFormat: audio.format,
+        contentType: IMPORT_AUDIO_CONTENT_TYPES[audio.format],
+        durationSeconds: audio.durationSeconds,
+        recordedAt: recordedAt.toISOString(),
+        cleanup: "file",
+        stageFile: true,
+      });
+
+      successNotification();
+      router.replace({ pathname: "/processing", params: { meetingId: meeting.id } });
+    } catch (err) {
+      console.error("[ImportAudio] Import failed:", err);
+      errorNotification();
+
+      // Don't leave an empty meeting behind if the audio never reached the queue
+      if (meetingId) {
+        deleteMeeting(meetingId).catch((deleteError) => {
+          console.warn("[ImportAudio] Failed to remove empty meeting:", deleteError);
+        });
+      }
+
+      Alert.alert("Import Failed", err instanceof Error ? err.message : "Failed to import audio");
+      setStep("idle");
+    }
+  };
+
+  const handleCancel = () => {
+    lightImpact();
+    router.back();
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["top"]}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.header}>
+          <Pressable style={styles.cancelButton} onPress={handleCancel} disabled={isImporting}>
+            <X size={24} color={Colors.text} />
+          </Pressable>
+          <Text style={styles.headerTitle}>Import Audio</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* File */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Audio File</Text>
+            <Pressable
+              style={styles.fileCard}
+              onPress={handlePickFile}
+              disabled={isPicking || isImporting}
+            >
+              <View style={styles.fileIcon}>
+                {isPicking ? (
+                  <ActivityIndicator color={Colors.accentLight} />
+                ) : (
+                  <FileAudio size={24} color={Colors.accentLight} />
+                )}
+              </View>
+              {audio ? (
+                <View style={styles.fileInfo}>
+                  <Text style={styles.fileName} numberOfLines={1}>{audio.fileName}</Text>
+                  <Text style={styles.fileMeta}>
+                    {audio.format.toUpperCase()} · {formatDuration(audio.durationSeconds)} · {formatFileSize(audio.sizeBytes)}
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.fileInfo}>
+                  <Text style={styles.fileName}>Choose a file</Text>
+                  <Text style={styles.fileMeta}>M4A, MP3 or WAV</Text>
+                </View>
+              )}
+              {audio && <Text style={styles.changeText}>Change</Text>}
+            </Pressable>
+          </View>
+
+          {audio && (
+            <>
+              <View style={styles.section}>
+                <Text style={styles.label}>Title</Text>
+                <TextInput
+                  style={styles.input}
+                  value={title}
+                  onChangeText={setTitle}
+                  placeholder="Meeting title"
+                  placeholderTextColor={Colors.textMuted}
+                  editable={!isImporting}
+                />
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.label}>Recorded</Text>
+                <View style={styles.dateRow}>
+                  <Pressable
+                    style={styles.dateButton}
+                    onPress={() => setPickerMode(Platform.OS === "ios" ? "datetime" : "date")}
+                    disabled={isImporting}
+                  >
+                    <Calendar size={18} color={Colors.textSecondary} />
+                    <Text style={styles.dateText}>{recordedAt.toLocaleDateString()}</Text>
+                    <Clock size={18} color={Colors.textSecondary} />
+                    <Text style={styles.dateText}>
+                      {recordedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                    </Text>
+                  </Pressable>
+                </View>
+                <Text style={styles.hint}>
+                  {audio.recordedAtFromMetadata
+                    ? "Read from the recording's metadata"
+                    : "Taken from the file date - adjust if needed"}
+                </Text>
+                {pickerMode && (
+                  <DateTimePicker
+                    value={recordedAt}
+                    mode={pickerMode}
+                    display={Platform.OS === "ios" ? "spinner" : "default"}
+                    maximumDate={new Date()}
+                    onChange={handleDateChange}
+                    themeVariant="dark"
+                  />
+                )}
+                {pickerMode && Platform.OS === "ios" && (
+                  <Pressable style={styles.doneButton} onPress={() => setPickerMode(null)}>
+                    <Text style={styles.doneButtonText}>Done</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.label}>Number of Speakers</Text>
+                <View style={styles.speakerButtons}>
+                  {([1, 2, 3] as ExpectedSpeakers[]).map((speakers) => {
+                    const isActive = expectedSpeakers === speakers;
+                    const Icon = speakers === 1 ? User : Users;
+                    return (
+                      <Pressable
+                        key={speakers}
+                        style={[styles.speakerButton, isActive && styles.speakerButtonActive]}
+                        onPress={() => handleSpeakerSelect(speakers)}
+                        disabled={isImporting}
+                      >
+                        <Icon size={18} color={isActive ? Colors.text : Colors.textMuted} strokeWidth={2} />
+                        <Text style={[styles.speakerButtonText, isActive && styles.speakerButtonTextActive]}>
+                          {speakers === 1 ? "Solo" : speakers === 2 ? "2 People" : "3+"}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <Pressable
+            style={[styles.importButton, (!audio || isImporting) && styles.importButtonDisabled]}
+            onPress={handleImport}
+            disabled={!audio || isImporting}
+          >
+            {isImporting && <ActivityIndicator color={Colors.text} />}
+            <Text style={styles.importButtonText}>
+              {step === "idle" ? "Import & Process" : STEP_LABELS[step]}
+            </Text>
+          </Pressable>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  cancelButton: {
+    width: 40,
+    height: 40,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: Colors.text,
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  fileCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  fileIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    backgroundColor: Colors.accentLight + "20",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.text,
+  },
+  fileMeta: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  changeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.accentLight,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  dateRow: {
+    flexDirection: "row",
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  dateText: {
+    fontSize: 16,
+    color: Colors.text,
+    marginRight: 8,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  doneButton: {
+    alignSelf: "flex-end",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  doneButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.accentLight,
+  },
+  speakerButtons: {
+    flexDirection: "row",
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 4,
+  },
+  speakerButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    gap: 6,
+    borderRadius: 8,
+  },
+  speakerButtonActive: {
+    backgroundColor: Colors.accentLight,
+  },
+  speakerButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.textMuted,
+  },
+  speakerButtonTextActive: {
+    color: Colors.text,
+  },
+  footer: {
+    paddingHorizontal: 24,
+    paddingVertical: 20,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  importButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 10,
+    backgroundColor: Colors.accentLight,
+    borderRadius: 14,
+    paddingVertical: 18,
+  },
+  importButtonDisabled: {
+    opacity: 0.5,
+  },
+  importButtonText: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: Colors.text,
+  },
+});
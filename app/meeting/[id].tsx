@@ -11,7 +11,7 @@
  * @see .cursor/expo-audio-documentation.md
  */
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, Fragment } from "react";
 import {
   View,
   Text,
@@ -59,9 +59,15 @@ import {
   Unlock,
   ExternalLink,
   Flag,
+  Mic,
+  Sparkles,
+  History,
+  ChevronDown,
+  ChevronUp,
 } from "lucide-react-native";
 import { lightImpact, successNotification } from "@/lib/haptics";
-import { useMeetingDetails, useMeetings, useMeetingShares } from "@/contexts/MeetingContext";
+import { useMeetingDetails, useMeetings, useMeetingShares, useTranscriptRedactions } from "@/contexts/MeetingContext";
+import { useUploadQueue } from "@/contexts/UploadQueueContext";
 import { useContacts } from "@/contexts/ContactContext";
 import { useUsage } from "@/contexts/UsageContext";
 import Colors from "@/constants/colors";
@@ -69,6 +75,7 @@ import { supabase } from "@/lib/supabase";
 import { 
   formatDuration, 
   formatTimestamp, 
+  ActionItem, 
   getStatusInfo, 
   MeetingType, 
   ContactWithCategory, 
@@ -83,6 +90,14 @@ import {
   formatCompactDateTime,
   formatRecordingTimeline,
   MeetingShareLink,
+  AudioQualityReport,
+  MeetingBookmark,
+  findBookmarkSegment,
+  getLanguageLabel,
+  formatConsentSummary,
+  PiiCategory,
+  TranscriptSegment,
+  MeetingChapter,
 } from "@/types";
 // Clipboard utility that works across platforms
 const copyToClipboard = async (text: string): Promise<boolean> => {
@@ -104,11 +119,19 @@ const copyToClipboard = async (text: string): Promise<boolean> => {
   }
 };
 import { PLAYBACK_AUDIO_MODE } from "@/lib/audio-config";
-import { User, Plus, DollarSign, Pencil } from "lucide-react-native";
+import { User, Plus, DollarSign, Pencil, BookOpen, Languages, ShieldCheck } from "lucide-react-native";
 import { useAuth } from "@/contexts/AuthContext";
 import { Switch } from "react-native";
 import DraggableBottomSheet from "@/components/DraggableBottomSheet";
+import type { BottomSheetScrollViewMethods } from "@gorhom/bottom-sheet";
 import SpeakerNamesModal from "@/components/SpeakerNamesModal";
+import BookmarkLabelModal from "@/components/BookmarkLabelModal";
+import MeetingSummaryCards from "@/components/MeetingSummaryCards";
+import MeetingActionItems from "@/components/MeetingActionItems";
+import MeetingEntities from "@/components/MeetingEntities";
+import ReprocessMeetingModal, { type ReprocessOptions } from "@/components/ReprocessMeetingModal";
+import TranscriptVersionsModal from "@/components/TranscriptVersionsModal";
+import RedactMeetingModal from "@/components/RedactMeetingModal";
 
 /**
  * Format speaker label from "A", "B", "C" to "Speaker A", "Speaker B", "Speaker C"
@@ -136,6 +159,27 @@ const formatSpeakerLabel = (
   return `Speaker ${speaker}`;
 };
 
+/**
+ * Summarize the silent and clipped stretches flagged while recording,
+ * e.g. "2 silent stretches (1m 5s), clipping for 4s"
+ */
+const describeAudioQualityIssues = (report: AudioQualityReport): string | null => {
+  const parts: string[] = [];
+  for (const type of ['silence', 'clipping'] as const) {
+    const issues = report.issues.filter((issue) => issue.type === type);
+    if (issues.length === 0) continue;
+
+    const totalMs = issues.reduce((sum, issue) => sum + issue.end_ms - issue.start_ms, 0);
+    const duration = formatDuration(Math.round(totalMs / 1000));
+    parts.push(
+      type === 'silence'
+        ? `${issues.length} silent stretch${issues.length === 1 ? '' : 'es'} (${duration})`
+        : `clipping for ${duration}`
+    );
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
 /**
  * Get color scheme for each speaker
  */
@@ -156,24 +200,49 @@ const getSpeakerColors = (speaker: string): { accent: string; text: string } =>
   }
 };
 
+/**
+ * Color of a chapter, by its position - the table of contents and the scrub
+ * bar regions match
+ */
+const CHAPTER_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4'];
+
+const getChapterColor = (index: number) => CHAPTER_COLORS[index % CHAPTER_COLORS.length];
+
 /**
  * Transcript Bottom Sheet Component
- * Displays full transcript with search and seek functionality
+ * Displays full transcript with search and seek functionality, split by
+ * chapter with a collapsible table of contents. Opened on a focused
+ * segment, it scrolls to and highlights that segment.
  */
 const TranscriptBottomSheet = ({
   visible,
   onClose,
   segments,
   speakerNames,
+  bookmarksBySegment,
   onSeek,
+  focusSegmentId,
+  chapters = [],
 }: {
   visible: boolean;
   onClose: () => void;
   segments?: Array<{ id: string; speaker: string; text: string; start_ms: number; end_ms: number }>;
   speakerNames?: Record<string, string> | null;
+  bookmarksBySegment?: Record<string, MeetingBookmark[]>;
   onSeek?: (ms: number) => void;
+  focusSegmentId?: string | null;
+  chapters?: MeetingChapter[];
 }) => {
   const [searchQuery, setSearchQuery] = useState("");
+  const [showChapters, setShowChapters] = useState(false);
+  const scrollRef = useRef<BottomSheetScrollViewMethods>(null);
+  // Where each chapter heading is in the scroll view
+  const chapterOffsets = useRef<Record<string, number>>({});
+
+  // A search could hide the focused segment
+  useEffect(() => {
+    if (focusSegmentId) setSearchQuery("");
+  }, [focusSegmentId]);
 
   const filteredSegments = segments?.filter((segment) => {
     if (!searchQuery.trim()) return true;
@@ -182,12 +251,30 @@ const TranscriptBottomSheet = ({
     return segment.text.toLowerCase().includes(query) || speakerLabel.includes(query);
   }) || [];
 
+  // Headings go before each chapter's first segment - not while searching,
+  // when the segments around them are filtered out
+  const chapterBySegment: Record<string, { chapter: MeetingChapter; index: number }> = {};
+  if (!searchQuery.trim()) {
+    chapters.forEach((chapter, index) => {
+      const first = segments?.find((segment) => segment.start_ms >= chapter.start_ms && segment.start_ms < chapter.end_ms);
+      if (first) chapterBySegment[first.id] = { chapter, index };
+    });
+  }
+
+  const handleChapterPress = (chapter: MeetingChapter) => {
+    lightImpact();
+    if (onSeek) onSeek(chapter.start_ms);
+    const y = chapterOffsets.current[chapter.id];
+    if (y !== undefined) scrollRef.current?.scrollTo({ y, animated: true });
+  };
+
   return (
     <DraggableBottomSheet
       visible={visible}
       onClose={onClose}
       title="Transcript"
       height={92}
+      scrollRef={scrollRef}
     >
       {/* Search Bar */}
       <View style={styles.transcriptSearchContainer}>
@@ -206,26 +293,88 @@ const TranscriptBottomSheet = ({
         )}
       </View>
 
-      {/* Transcript Segments */}
-      {filteredSegments.length > 0 ? (
-        filteredSegments.map((segment) => (
+      {/* Table of Contents */}
+      {chapters.length > 0 && !searchQuery.trim() && (
+        <View style={styles.chapterContents}>
           <Pressable
-            key={segment.id}
-            style={styles.transcriptSegmentCard}
+            style={styles.chapterContentsHeader}
             onPress={() => {
-              if (onSeek) onSeek(segment.start_ms);
               lightImpact();
+              setShowChapters(!showChapters);
             }}
           >
-            <View style={[styles.segmentAccentBar, { backgroundColor: getSpeakerColors(segment.speaker).accent }]} />
-            <View style={styles.segmentContent}>
-              <Text style={[styles.transcriptSpeakerLabel, { color: getSpeakerColors(segment.speaker).text }]}>
-                {formatSpeakerLabel(segment.speaker, speakerNames)}
-              </Text>
-              <Text style={styles.transcriptSegmentText}>{segment.text}</Text>
-              <Text style={styles.transcriptTimestamp}>{formatTimestamp(segment.start_ms)}</Text>
-            </View>
+            <Text style={styles.chapterContentsTitle}>Chapters ({chapters.length})</Text>
+            {showChapters ? (
+              <ChevronUp size={18} color={Colors.textMuted} />
+            ) : (
+              <ChevronDown size={18} color={Colors.textMuted} />
+            )}
           </Pressable>
+          {showChapters && chapters.map((chapter, index) => (
+            <Pressable
+              key={chapter.id}
+              style={styles.chapterContentsItem}
+              onPress={() => handleChapterPress(chapter)}
+            >
+              <View style={[styles.chapterDot, styles.chapterContentsDot, { backgroundColor: getChapterColor(index) }]} />
+              <View style={styles.chapterContentsText}>
+                <Text style={styles.chapterContentsItemTitle}>{chapter.title}</Text>
+                {chapter.gist && (
+                  <Text style={styles.chapterContentsGist} numberOfLines={2}>{chapter.gist}</Text>
+                )}
+              </View>
+              <Text style={styles.chapterContentsTime}>{formatTimestamp(chapter.start_ms)}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {/* Transcript Segments */}
+      {filteredSegments.length > 0 ? (
+        filteredSegments.map((segment) => (
+          <Fragment key={segment.id}>
+            {chapterBySegment[segment.id] && (
+              <View
+                style={styles.chapterHeading}
+                onLayout={(e) => {
+                  chapterOffsets.current[chapterBySegment[segment.id].chapter.id] = e.nativeEvent.layout.y;
+                }}
+              >
+                <View style={[styles.chapterDot, { backgroundColor: getChapterColor(chapterBySegment[segment.id].index) }]} />
+                <Text style={styles.chapterHeadingText}>{chapterBySegment[segment.id].chapter.title}</Text>
+              </View>
+            )}
+            <Pressable
+              style={[
+                styles.transcriptSegmentCard,
+                segment.id === focusSegmentId && styles.transcriptSegmentCardFocused,
+              ]}
+              onLayout={segment.id === focusSegmentId
+                ? (e) => scrollRef.current?.scrollTo({ y: e.nativeEvent.layout.y, animated: true })
+                : undefined}
+              onPress={() => {
+                if (onSeek) onSeek(segment.start_ms);
+                lightImpact();
+              }}
+            >
+              <View style={[styles.segmentAccentBar, { backgroundColor: getSpeakerColors(segment.speaker).accent }]} />
+              <View style={styles.segmentContent}>
+                <Text style={[styles.transcriptSpeakerLabel, { color: getSpeakerColors(segment.speaker).text }]}>
+                  {formatSpeakerLabel(segment.speaker, speakerNames)}
+                </Text>
+                <Text style={styles.transcriptSegmentText}>{segment.text}</Text>
+                <Text style={styles.transcriptTimestamp}>{formatTimestamp(segment.start_ms)}</Text>
+                {bookmarksBySegment?.[segment.id]?.map((bookmark) => (
+                  <View key={bookmark.id} style={styles.segmentBookmark}>
+                    <Flag size={12} color={Colors.warning} fill={Colors.warning} />
+                    <Text style={styles.segmentBookmarkText} numberOfLines={1}>
+                      {bookmark.label || "Bookmarked"} · {formatTimestamp(bookmark.offset_ms)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </Pressable>
+          </Fragment>
         ))
       ) : (
         <Text style={styles.noDataText}>
@@ -325,6 +474,90 @@ const TypeSelectorModal = ({
   );
 };
 
+/**
+ * Summary Template Modal
+ * Picks the meeting type whose summary template to regenerate the summary
+ * with - the summary is regenerated as soon as one is chosen
+ */
+const SummaryTemplateModal = ({
+  visible,
+  onClose,
+  types,
+  currentTypeId,
+  onSelect,
+  isRegenerating,
+}: {
+  visible: boolean;
+  onClose: () => void;
+  types: MeetingType[];
+  currentTypeId: string | null;
+  onSelect: (typeId: string | null) => Promise<void>;
+  isRegenerating: boolean;
+}) => {
+  return (
+    <DraggableBottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Regenerate Summary"
+      height={60}
+    >
+      <Text style={summaryTemplateStyles.hint}>
+        Choose a template. Only the summary is regenerated - the transcript stays as it is.
+      </Text>
+
+      {/* Default Template Option */}
+      <Pressable
+        style={[
+          typeSelectorStyles.typeOption,
+          currentTypeId === null && typeSelectorStyles.typeOptionSelected,
+        ]}
+        onPress={() => onSelect(null)}
+        disabled={isRegenerating}
+      >
+        <View style={typeSelectorStyles.typeLeft}>
+          <View style={[typeSelectorStyles.typeDot, { backgroundColor: Colors.textMuted }]} />
+          <Text style={typeSelectorStyles.typeName}>Default Template</Text>
+        </View>
+        {currentTypeId === null && (
+          <Check size={20} color={Colors.accentLight} />
+        )}
+      </Pressable>
+
+      {/* Meeting Type Templates */}
+      {types.map((type) => (
+        <Pressable
+          key={type.id}
+          style={[
+            typeSelectorStyles.typeOption,
+            currentTypeId === type.id && typeSelectorStyles.typeOptionSelected,
+          ]}
+          onPress={() => onSelect(type.id)}
+          disabled={isRegenerating}
+        >
+          <View style={typeSelectorStyles.typeLeft}>
+            <View style={[typeSelectorStyles.typeDot, { backgroundColor: type.color }]} />
+            <View>
+              <Text style={typeSelectorStyles.typeName}>{type.name}</Text>
+              {!type.summary_template && (
+                <Text style={summaryTemplateStyles.defaultLabel}>Uses the default template</Text>
+              )}
+            </View>
+          </View>
+          {currentTypeId === type.id && (
+            <Check size={20} color={Colors.accentLight} />
+          )}
+        </Pressable>
+      ))}
+
+      {isRegenerating && (
+        <View style={typeSelectorStyles.loadingOverlay}>
+          <ActivityIndicator size="small" color={Colors.accentLight} />
+        </View>
+      )}
+    </DraggableBottomSheet>
+  );
+};
+
 /**
  * Contact Selector Modal
  * Allows user to select or clear a contact for the meeting
@@ -1083,7 +1316,9 @@ const feedbackStyles = StyleSheet.create({
 
 /**
  * Quick Actions Menu Component
- * Bottom sheet with quick access to Share, Edit Name, Search Transcript, and Delete
+ * Bottom sheet with quick access to Share, Edit Name, Search Transcript,
+ * Regenerate Summary, Transcript Versions, Reprocess, Redact PII and Continue
+ * Recording (when the meeting allows them), and Delete
  */
 const QuickActionsMenu = ({
   visible,
@@ -1091,6 +1326,11 @@ const QuickActionsMenu = ({
   onShare,
   onEditName,
   onSearchTranscript,
+  onRegenerateSummary,
+  onTranscriptVersions,
+  onReprocess,
+  onRedact,
+  onContinueRecording,
   onDelete,
 }: {
   visible: boolean;
@@ -1098,6 +1338,11 @@ const QuickActionsMenu = ({
   onShare: () => void;
   onEditName: () => void;
   onSearchTranscript: () => void;
+  onRegenerateSummary?: () => void;
+  onTranscriptVersions?: () => void;
+  onReprocess?: () => void;
+  onRedact?: () => void;
+  onContinueRecording?: () => void;
   onDelete: () => void;
 }) => {
   return (
@@ -1105,7 +1350,7 @@ const QuickActionsMenu = ({
       visible={visible}
       onClose={onClose}
       title="Quick Actions"
-      height={40}
+      height={60}
     >
       <View style={quickActionsStyles.actionsList}>
         <Pressable 
@@ -1147,6 +1392,81 @@ const QuickActionsMenu = ({
           <Text style={quickActionsStyles.actionText}>Search Transcript</Text>
         </Pressable>
 
+        {onRegenerateSummary && (
+          <Pressable 
+            style={quickActionsStyles.actionItem} 
+            onPress={() => { 
+              onClose(); 
+              onRegenerateSummary(); 
+            }}
+          >
+            <View style={quickActionsStyles.actionIcon}>
+              <Sparkles size={20} color={Colors.text} />
+            </View>
+            <Text style={quickActionsStyles.actionText}>Regenerate Summary…</Text>
+          </Pressable>
+        )}
+
+        {onTranscriptVersions && (
+          <Pressable 
+            style={quickActionsStyles.actionItem} 
+            onPress={() => { 
+              onClose(); 
+              onTranscriptVersions(); 
+            }}
+          >
+            <View style={quickActionsStyles.actionIcon}>
+              <History size={20} color={Colors.text} />
+            </View>
+            <Text style={quickActionsStyles.actionText}>Transcript Versions</Text>
+          </Pressable>
+        )}
+
+        {onReprocess && (
+          <Pressable 
+            style={quickActionsStyles.actionItem} 
+            onPress={() => { 
+              onClose(); 
+              onReprocess(); 
+            }}
+          >
+            <View style={quickActionsStyles.actionIcon}>
+              <RefreshCw size={20} color={Colors.text} />
+            </View>
+            <Text style={quickActionsStyles.actionText}>Reprocess…</Text>
+          </Pressable>
+        )}
+
+        {onRedact && (
+          <Pressable 
+            style={quickActionsStyles.actionItem} 
+            onPress={() => { 
+              onClose(); 
+              onRedact(); 
+            }}
+          >
+            <View style={quickActionsStyles.actionIcon}>
+              <ShieldCheck size={20} color={Colors.text} />
+            </View>
+            <Text style={quickActionsStyles.actionText}>Redact PII…</Text>
+          </Pressable>
+        )}
+
+        {onContinueRecording && (
+          <Pressable 
+            style={quickActionsStyles.actionItem} 
+            onPress={() => { 
+              onClose(); 
+              onContinueRecording(); 
+            }}
+          >
+            <View style={quickActionsStyles.actionIcon}>
+              <Mic size={20} color={Colors.text} />
+            </View>
+            <Text style={quickActionsStyles.actionText}>Continue Recording</Text>
+          </Pressable>
+        )}
+
         <Pressable 
           style={quickActionsStyles.actionItem} 
           onPress={() => { 
@@ -1267,6 +1587,7 @@ const ShareMeetingModal = ({
   onDeleteShare,
   isCreating,
   isToggling,
+  hasRedaction,
 }: {
   visible: boolean;
   onClose: () => void;
@@ -1274,13 +1595,15 @@ const ShareMeetingModal = ({
   meetingTitle: string;
   shares: MeetingShareLink[];
   isLoadingShares: boolean;
-  onCreateShare: (password?: string) => Promise<MeetingShareLink>;
+  onCreateShare: (password: string | undefined, redactedOnly: boolean) => Promise<MeetingShareLink>;
   onToggleShare: (shareId: string, isActive: boolean) => Promise<void>;
   onDeleteShare: (shareId: string) => Promise<void>;
   isCreating: boolean;
   isToggling: boolean;
+  hasRedaction: boolean;
 }) => {
   const [usePassword, setUsePassword] = useState(false);
+  const [redactedOnly, setRedactedOnly] = useState(false);
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
@@ -1290,6 +1613,7 @@ const ShareMeetingModal = ({
   useEffect(() => {
     if (visible) {
       setUsePassword(false);
+      setRedactedOnly(false);
       setPassword('');
       setShowPassword(false);
       setNewShareUrl(null);
@@ -1298,13 +1622,14 @@ const ShareMeetingModal = ({
 
   const handleCreateShare = async () => {
     try {
-      const shareLink = await onCreateShare(usePassword ? password : undefined);
+      const shareLink = await onCreateShare(usePassword ? password : undefined, redactedOnly);
       setNewShareUrl(shareLink.shareUrl);
       // Auto-copy to clipboard
       await handleCopy(shareLink.shareUrl, shareLink.id);
       // Reset form
       setPassword('');
       setUsePassword(false);
+      setRedactedOnly(false);
     } catch (error) {
       console.error('[ShareModal] Error creating share:', error);
       if (Platform.OS !== 'web') {
@@ -1415,6 +1740,27 @@ const ShareMeetingModal = ({
           </View>
         )}
 
+        {/* Redacted Only Toggle - the viewer gets the latest redacted version
+            and never the original */}
+        <View style={shareModalStyles.passwordRow}>
+          <View style={shareModalStyles.passwordLeft}>
+            <ShieldCheck size={18} color={Colors.textMuted} />
+            <View>
+              <Text style={shareModalStyles.passwordLabel}>Redacted Version Only</Text>
+              {!hasRedaction && (
+                <Text style={shareModalStyles.redactedHint}>Create one with Redact PII first</Text>
+              )}
+            </View>
+          </View>
+          <Switch
+            value={redactedOnly}
+            onValueChange={setRedactedOnly}
+            disabled={!hasRedaction}
+            trackColor={{ false: Colors.border, true: Colors.accentLight + '80' }}
+            thumbColor={redactedOnly ? Colors.accentLight : Colors.textMuted}
+          />
+        </View>
+
         {/* Create Button */}
         <Pressable
           style={[
@@ -1466,6 +1812,9 @@ const ShareMeetingModal = ({
                   <Text style={shareModalStyles.shareDate}>
                     Created {formatShareDate(share.createdAt)}
                   </Text>
+                  {share.redactedOnly && (
+                    <Text style={shareModalStyles.redactedBadge}>Redacted</Text>
+                  )}
                 </View>
                 <View style={shareModalStyles.shareStats}>
                   <Eye size={12} color={Colors.textMuted} />
@@ -1560,7 +1909,20 @@ export default function MeetingDetailScreen() {
     isSubmittingFeedback,
     updateSpeakerNames,
     isUpdatingSpeakerNames,
+    updateBookmarkLabel,
+    deleteBookmark,
+    regenerateSummary,
+    isRegeneratingSummary,
+    setActionItemStatus,
+    reprocessMeeting,
+    isReprocessing,
+    setCurrentTranscript,
+    isSettingCurrentTranscript,
+    redactTranscript,
+    isRedactingTranscript,
   } = useMeetings();
+  const { getUpload } = useUploadQueue();
+  const upload = getUpload(id);
   const { contacts } = useContacts();
   const { profile } = useAuth();
   const { canAccessFeatures, isTrialExpired, hasActiveSubscription, hasActiveTrial } = useUsage();
@@ -1570,9 +1932,14 @@ export default function MeetingDetailScreen() {
   
   // Fetch existing share links
   const { data: shares = [], isLoading: isLoadingShares, refetch: refetchShares } = useMeetingShares(id || null);
+  
+  // Redacted versions, for offering redacted-only share links
+  const { data: redactions = [] } = useTranscriptRedactions(id || null);
+  const hasRedaction = redactions.some((redaction) => redaction.status === "completed");
 
   // UI state
   const [showTranscript, setShowTranscript] = useState(false);
+  const [focusedSegmentId, setFocusedSegmentId] = useState<string | null>(null);
   const [showTypeSelector, setShowTypeSelector] = useState(false);
   const [showContactSelector, setShowContactSelector] = useState(false);
   const [showBillableEditor, setShowBillableEditor] = useState(false);
@@ -1581,7 +1948,12 @@ export default function MeetingDetailScreen() {
   const [showShareModal, setShowShareModal] = useState(false);
   const [showSpeakerFeedback, setShowSpeakerFeedback] = useState(false);
   const [showSpeakerNames, setShowSpeakerNames] = useState(false);
+  const [showSummaryTemplates, setShowSummaryTemplates] = useState(false);
+  const [showReprocess, setShowReprocess] = useState(false);
+  const [showTranscriptVersions, setShowTranscriptVersions] = useState(false);
+  const [showRedact, setShowRedact] = useState(false);
   const [progressBarWidth, setProgressBarWidth] = useState(0);
+  const [editingBookmark, setEditingBookmark] = useState<MeetingBookmark | null>(null);
 
   // Audio loading state
   const [audioUri, setAudioUri] = useState<string | null>(null);
@@ -1591,6 +1963,8 @@ export default function MeetingDetailScreen() {
 
   // Blob URL ref for cleanup (web only)
   const blobUrlRef = useRef<string | null>(null);
+  // Storage path of the loaded audio, to notice when the playback file changes
+  const loadedAudioPathRef = useRef<string | null>(null);
 
   /**
    * Audio player using useAudioPlayer hook per Expo Audio docs
@@ -1607,6 +1981,8 @@ export default function MeetingDetailScreen() {
   const title = meeting?.title || "Meeting";
   const transcript = meeting?.transcript;
   const segments = meeting?.segments;
+  const bookmarks = meeting?.bookmarks;
+  const chapters = meeting?.chapters;
 
   /**
    * Load audio from Supabase Storage
@@ -1664,6 +2040,7 @@ export default function MeetingDetailScreen() {
 
       // Set the audio URI - this will update the player via useAudioPlayer
       setAudioUri(newAudioUri);
+      loadedAudioPathRef.current = audioPath;
       
       setAudioLoadError(false);
       setAudioErrorMessage(null);
@@ -1690,6 +2067,22 @@ export default function MeetingDetailScreen() {
     }
   }, [meeting?.mp3_audio_path, meeting?.raw_audio_path, meeting?.status, loadAudio]);
 
+  /**
+   * Drop the loaded audio when the playback file changes - a continued
+   * recording is stitched into a new file - so the new one gets loaded
+   */
+  useEffect(() => {
+    const audioPath = meeting?.mp3_audio_path || meeting?.raw_audio_path;
+    if (!audioUri || !loadedAudioPathRef.current || audioPath === loadedAudioPathRef.current) return;
+
+    if (blobUrlRef.current && Platform.OS === "web") {
+      URL.revokeObjectURL(blobUrlRef.current);
+      blobUrlRef.current = null;
+    }
+    loadedAudioPathRef.current = null;
+    setAudioUri(null);
+  }, [meeting?.mp3_audio_path, meeting?.raw_audio_path, audioUri]);
+
   /**
    * Cleanup on unmount
    */
@@ -1760,6 +2153,33 @@ export default function MeetingDetailScreen() {
     }
   };
 
+  /**
+   * Mark an action item done, or open again
+   */
+  const handleToggleActionItem = async (item: ActionItem) => {
+    lightImpact();
+    try {
+      await setActionItemStatus({
+        actionItemId: item.id,
+        meetingId: item.meeting_id,
+        status: item.status === "open" ? "done" : "open",
+      });
+    } catch (error) {
+      console.error("[MeetingDetail] Action item update error:", error);
+      Alert.alert("Error", "Could not update the action item.");
+    }
+  };
+
+  /**
+   * Jump to where an entity was mentioned - in the recording and the
+   * transcript
+   */
+  const handleEntitySelect = (segment: TranscriptSegment) => {
+    handleSeekToTimestamp(segment.start_ms);
+    setFocusedSegmentId(segment.id);
+    setShowTranscript(true);
+  };
+
   /**
    * Format time for display
    */
@@ -1773,6 +2193,45 @@ export default function MeetingDetailScreen() {
   // Calculate progress percentage
   const progress = status.duration > 0 ? (status.currentTime / status.duration) * 100 : 0;
 
+  // Group bookmarks under the transcript segment each one falls in
+  const bookmarksBySegment: Record<string, MeetingBookmark[]> = {};
+  for (const bookmark of bookmarks || []) {
+    const segment = segments ? findBookmarkSegment(bookmark, segments) : null;
+    if (segment) {
+      bookmarksBySegment[segment.id] = [...(bookmarksBySegment[segment.id] || []), bookmark];
+    }
+  }
+
+  /**
+   * Jump to a bookmark - start of its segment so the flagged words are heard
+   */
+  const handleBookmarkPress = (bookmark: MeetingBookmark) => {
+    const segment = segments ? findBookmarkSegment(bookmark, segments) : null;
+    handleSeekToTimestamp(segment ? segment.start_ms : bookmark.offset_ms);
+  };
+
+  /**
+   * Confirm and delete a bookmark
+   */
+  const handleDeleteBookmark = (bookmark: MeetingBookmark) => {
+    if (!id) return;
+
+    const performDelete = () => {
+      deleteBookmark({ bookmarkId: bookmark.id, meetingId: id }).catch((err) =>
+        console.error("[MeetingDetail] Delete bookmark error:", err)
+      );
+    };
+
+    if (Platform.OS === "web") {
+      performDelete();
+    } else {
+      Alert.alert("Delete Bookmark", "Remove this bookmark?", [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: performDelete },
+      ]);
+    }
+  };
+
   /**
    * Handle meeting deletion
    */
@@ -1817,6 +2276,30 @@ export default function MeetingDetailScreen() {
     }
   };
 
+  /**
+   * Continue recording into this meeting - the new audio is stitched after
+   * the existing recording as another part once processed
+   */
+  const canContinueRecording =
+    !!meeting?.raw_audio_path &&
+    (meeting.status === "ready" || meeting.status === "failed") &&
+    !upload;
+
+  const handleContinueRecording = useCallback(() => {
+    if (!id || !meeting) return;
+    lightImpact();
+    router.push({
+      pathname: "/recording",
+      params: {
+        meetingId: id,
+        continue: "1",
+        startOffsetMs: String(meeting.duration_seconds * 1000),
+        language: meeting.transcription_language,
+        recordingMode: meeting.recording_mode,
+      },
+    });
+  }, [id, meeting, router]);
+
   /**
    * Handle share - opens share modal for creating shareable links
    */
@@ -1828,11 +2311,12 @@ export default function MeetingDetailScreen() {
   /**
    * Create a new share link for the meeting
    */
-  const handleCreateShare = useCallback(async (password?: string): Promise<MeetingShareLink> => {
+  const handleCreateShare = useCallback(async (password: string | undefined, redactedOnly: boolean): Promise<MeetingShareLink> => {
     if (!id) throw new Error('No meeting ID');
     const shareLink = await createMeetingShare({
       meetingId: id,
       password,
+      redactedOnly,
     });
     await refetchShares();
     return shareLink;
@@ -1873,6 +2357,89 @@ export default function MeetingDetailScreen() {
     }
   };
 
+  /**
+   * Regenerate the summary with the chosen type's template
+   */
+  const canRegenerateSummary = meeting?.status === "ready" && !!transcript?.full_text;
+
+  const handleRegenerateSummary = async (typeId: string | null) => {
+    if (!id) return;
+    try {
+      await regenerateSummary({ meetingId: id, meetingTypeId: typeId });
+      await refetch();
+      setShowSummaryTemplates(false);
+      successNotification();
+    } catch (err) {
+      console.error("[MeetingDetail] Regenerate summary error:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Could not regenerate the summary."
+      );
+    }
+  };
+
+  /**
+   * Process the recording again with other settings - the result is saved
+   * as a new transcript version and becomes current once it finishes
+   */
+  const canReprocess =
+    !!meeting?.raw_audio_path &&
+    (meeting.status === "ready" || meeting.status === "failed") &&
+    !upload;
+
+  const handleReprocess = async (options: ReprocessOptions) => {
+    if (!id) return;
+    try {
+      await reprocessMeeting({ meetingId: id, ...options });
+      setShowReprocess(false);
+      router.push({ pathname: "/processing", params: { meetingId: id } });
+    } catch (err) {
+      console.error("[MeetingDetail] Reprocess error:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Could not reprocess the meeting."
+      );
+    }
+  };
+
+  /**
+   * Make another transcript version the one shown for the meeting
+   */
+  const handleMakeTranscriptCurrent = async (transcriptId: string) => {
+    if (!id) return;
+    try {
+      await setCurrentTranscript({ transcriptId, meetingId: id });
+      await refetch();
+      successNotification();
+    } catch (err) {
+      console.error("[MeetingDetail] Switch transcript version error:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Could not switch the transcript version."
+      );
+    }
+  };
+
+  /**
+   * Make a redacted copy for sharing - it shows up in the sheet as it is
+   * made, and the original is left as it is
+   */
+  const canRedact = meeting?.status === "ready" && !!meeting.mp3_audio_path;
+
+  const handleRedact = async (policies: PiiCategory[], includeAudio: boolean) => {
+    if (!id) return;
+    try {
+      await redactTranscript({ meetingId: id, policies, includeAudio });
+      successNotification();
+    } catch (err) {
+      console.error("[MeetingDetail] Redact error:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Could not redact the meeting."
+      );
+    }
+  };
+
   /**
    * Navigate to settings to manage meeting types
    */
@@ -2024,6 +2591,9 @@ export default function MeetingDetailScreen() {
 
   const shouldShowAudioBar = !!(meeting.mp3_audio_path || meeting.raw_audio_path) && meeting.status === "ready";
   const statusInfo = getStatusInfo(meeting.status);
+  const audioQualitySummary = meeting.audio_quality_report
+    ? describeAudioQualityIssues(meeting.audio_quality_report)
+    : null;
 
   return (
     <SafeAreaView style={styles.container} edges={["top"]}>
@@ -2052,9 +2622,13 @@ export default function MeetingDetailScreen() {
           <View style={styles.speakerDetectionBanner}>
             <ActivityIndicator size="small" color={Colors.accentLight} />
             <View style={styles.speakerDetectionTextContainer}>
-              <Text style={styles.speakerDetectionTitle}>Speaker detection in progress...</Text>
+              <Text style={styles.speakerDetectionTitle}>
+                {upload ? `Uploading audio... ${Math.round(upload.progress * 100)}%` : 'Speaker detection in progress...'}
+              </Text>
               <Text style={styles.speakerDetectionSubtitle}>
-                Your transcript is ready. Speaker labels will update automatically.
+                {upload?.isWaitingToRetry
+                  ? 'Upload interrupted. It will resume automatically when the connection returns.'
+                  : 'Your transcript is ready. Speaker labels will update automatically.'}
               </Text>
             </View>
           </View>
@@ -2076,6 +2650,16 @@ export default function MeetingDetailScreen() {
           </View>
         )}
 
+        {/* Audio Quality Notice - silence/clipping flagged while recording */}
+        {audioQualitySummary && (
+          <View style={styles.audioQualityBanner}>
+            <AlertTriangle size={16} color={Colors.warning} />
+            <Text style={styles.audioQualityText}>
+              Recording quality: {audioQualitySummary}. Parts of the transcript may be missing or inaccurate.
+            </Text>
+          </View>
+        )}
+
         {/* Meeting Details */}
         <View style={styles.detailsCard}>
           {/* HEADER SECTION - Prominent */}
@@ -2098,6 +2682,16 @@ export default function MeetingDetailScreen() {
                   )}
                 </Text>
               )}
+              {!!meeting.parts?.length && (
+                <Text style={styles.recordingTimeline}>
+                  Recorded in {meeting.parts.length + 1} parts
+                </Text>
+              )}
+              {meeting.recording_mode === 'phone_call' && (
+                <Text style={styles.recordingTimeline}>
+                  Phone call · one speaker per channel
+                </Text>
+              )}
             </View>
           </View>
 
@@ -2171,6 +2765,42 @@ export default function MeetingDetailScreen() {
               </View>
             </Pressable>
 
+            {/* Language - auto-detected meetings show what was detected */}
+            <View style={styles.typeRow}>
+              <View style={styles.typeRowLeft}>
+                <Languages size={18} color={Colors.textMuted} />
+                <Text style={styles.detailLabel}>Language</Text>
+              </View>
+              <Text style={styles.typeNotSet}>
+                {meeting.transcription_language === 'auto' && meeting.detected_language
+                  ? `${getLanguageLabel(meeting.detected_language)} (detected${
+                      meeting.language_confidence != null ? `, ${Math.round(meeting.language_confidence * 100)}%` : ''
+                    })`
+                  : getLanguageLabel(meeting.transcription_language)}
+              </Text>
+            </View>
+
+            {/* Consent - one record per recording part */}
+            <View style={styles.typeRow}>
+              <View style={styles.typeRowLeft}>
+                <ShieldCheck size={18} color={Colors.textMuted} />
+                <Text style={styles.detailLabel}>Consent</Text>
+              </View>
+              {meeting.consents?.length ? (
+                <View style={styles.consentList}>
+                  {meeting.consents.map((consent) => (
+                    <Text key={consent.id} style={styles.consentText}>
+                      {formatConsentSummary(consent)}
+                      {"\n"}
+                      {formatCompactDateTime(new Date(consent.consented_at))}
+                    </Text>
+                  ))}
+                </View>
+              ) : (
+                <Text style={styles.typeNotSet}>Not recorded</Text>
+              )}
+            </View>
+
             {/* Billable */}
             <View style={styles.typeRow}>
               <View style={styles.typeRowLeft}>
@@ -2239,26 +2869,29 @@ export default function MeetingDetailScreen() {
           </View>
         )}
 
-        {/* Summary Card */}
-        <View style={styles.card}>
-          <View style={styles.cardHeader}>
-            <Text style={styles.cardTitle}>Summary</Text>
-          </View>
-          {transcript?.summary && 
-           transcript.summary !== 'Summary not available.' && 
-           transcript.summary !== 'Summary generation failed. Please retry processing.' &&
-           transcript.summary !== 'Summary generation encountered an error.' ? (
-            <Text style={styles.summaryText}>{transcript.summary}</Text>
-          ) : (
-            <Text style={styles.noDataText}>
-              {meeting.status === "transcribing" || meeting.status === "converting"
-                ? "Summary is being generated..."
-                : meeting.status === "failed"
-                ? "Processing failed. Tap retry above."
-                : "No summary available"}
-            </Text>
-          )}
-        </View>
+        {/* Summary Cards */}
+        <MeetingSummaryCards
+          transcript={transcript}
+          meetingStatus={meeting.status}
+          templateName={meetingTypes.find((type) => type.id === transcript?.summary_meeting_type_id)?.name}
+          isRegenerating={isRegeneratingSummary}
+          hideActionItems={!!meeting.action_items?.length}
+        />
+
+        {/* Action Items */}
+        <MeetingActionItems
+          actionItems={meeting.action_items || []}
+          segments={segments}
+          onToggle={handleToggleActionItem}
+          onSeek={audioUri ? handleSeekToTimestamp : undefined}
+        />
+
+        {/* Dates, amounts, case numbers and the like from the transcript */}
+        <MeetingEntities
+          entities={meeting.entities || []}
+          segments={segments}
+          onSelect={handleEntitySelect}
+        />
 
         {/* Transcript Preview */}
         {(segments && segments.length > 0) || transcript?.full_text ? (
@@ -2332,6 +2965,65 @@ export default function MeetingDetailScreen() {
           </View>
         ) : null}
 
+        {/* Bookmarks flagged while recording */}
+        {bookmarks && bookmarks.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Bookmarks</Text>
+            </View>
+            {bookmarks.map((bookmark) => {
+              const segment = segments ? findBookmarkSegment(bookmark, segments) : null;
+              return (
+                <Pressable
+                  key={bookmark.id}
+                  style={styles.bookmarkRow}
+                  onPress={() => handleBookmarkPress(bookmark)}
+                  onLongPress={() => handleDeleteBookmark(bookmark)}
+                >
+                  <Flag size={16} color={Colors.warning} fill={Colors.warning} />
+                  <View style={styles.bookmarkContent}>
+                    <Text style={styles.bookmarkTitle} numberOfLines={1}>
+                      {formatTimestamp(bookmark.offset_ms)}
+                      {bookmark.label ? ` · ${bookmark.label}` : ""}
+                    </Text>
+                    {segment && (
+                      <Text style={styles.bookmarkExcerpt} numberOfLines={2}>
+                        {formatSpeakerLabel(segment.speaker, meeting.speaker_names)}: {segment.text}
+                      </Text>
+                    )}
+                  </View>
+                  <Pressable
+                    onPress={() => setEditingBookmark(bookmark)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  >
+                    <Pencil size={14} color={Colors.textMuted} />
+                  </Pressable>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Custom vocabulary sent with the transcription */}
+        {meeting.applied_vocabulary && meeting.applied_vocabulary.length > 0 && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={styles.vocabularyTitleRow}>
+                <BookOpen size={16} color={Colors.textMuted} />
+                <Text style={styles.vocabularyTitle}>Vocabulary Applied</Text>
+              </View>
+              <Text style={styles.vocabularyCount}>{meeting.applied_vocabulary.length}</Text>
+            </View>
+            <View style={styles.vocabularyList}>
+              {meeting.applied_vocabulary.map((term) => (
+                <View key={term} style={styles.vocabularyChip}>
+                  <Text style={styles.vocabularyChipText}>{term}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Error Message */}
         {meeting.error_message && (
           <View style={styles.errorCard}>
@@ -2390,7 +3082,29 @@ export default function MeetingDetailScreen() {
                   style={styles.audioProgress}
                   onLayout={(e) => setProgressBarWidth(e.nativeEvent.layout.width)}
                 >
+                  {status.duration > 0 && chapters?.map((chapter, index) => (
+                    <View
+                      key={chapter.id}
+                      style={[
+                        styles.audioChapterRegion,
+                        {
+                          left: `${Math.min((chapter.start_ms / 1000 / status.duration) * 100, 100)}%`,
+                          width: `${Math.max(Math.min(((chapter.end_ms - chapter.start_ms) / 1000 / status.duration) * 100, 100), 0)}%`,
+                          backgroundColor: getChapterColor(index),
+                        },
+                      ]}
+                    />
+                  ))}
                   <View style={[styles.audioProgressBar, { width: `${progress}%` }]} />
+                  {status.duration > 0 && bookmarks?.map((bookmark) => (
+                    <View
+                      key={bookmark.id}
+                      style={[
+                        styles.audioBookmarkMarker,
+                        { left: `${Math.min((bookmark.offset_ms / 1000 / status.duration) * 100, 100)}%` },
+                      ]}
+                    />
+                  ))}
                   <View style={[styles.audioProgressThumb, { left: `${progress}%` }]} />
                 </View>
               </Pressable>
@@ -2412,10 +3126,30 @@ export default function MeetingDetailScreen() {
       {/* Transcript Modal */}
       <TranscriptBottomSheet
         visible={showTranscript}
-        onClose={() => setShowTranscript(false)}
+        onClose={() => {
+          setShowTranscript(false);
+          setFocusedSegmentId(null);
+        }}
         segments={segments}
         speakerNames={meeting.speaker_names}
+        bookmarksBySegment={bookmarksBySegment}
         onSeek={handleSeekToTimestamp}
+        focusSegmentId={focusedSegmentId}
+        chapters={chapters}
+      />
+
+      {/* Bookmark Label Modal */}
+      <BookmarkLabelModal
+        visible={!!editingBookmark}
+        offsetMs={editingBookmark?.offset_ms ?? 0}
+        currentLabel={editingBookmark?.label ?? null}
+        onClose={() => setEditingBookmark(null)}
+        onSave={(label) => {
+          if (!editingBookmark || !id) return;
+          updateBookmarkLabel({ bookmarkId: editingBookmark.id, meetingId: id, label }).catch((err) =>
+            console.error("[MeetingDetail] Update bookmark error:", err)
+          );
+        }}
       />
 
       {/* Type Selector Modal */}
@@ -2505,9 +3239,54 @@ export default function MeetingDetailScreen() {
           setShowQuickActions(false);
           setShowTranscript(true);
         }}
+        onRegenerateSummary={canRegenerateSummary ? () => setShowSummaryTemplates(true) : undefined}
+        onTranscriptVersions={transcript ? () => setShowTranscriptVersions(true) : undefined}
+        onReprocess={canReprocess ? () => setShowReprocess(true) : undefined}
+        onRedact={canRedact ? () => setShowRedact(true) : undefined}
+        onContinueRecording={canContinueRecording ? handleContinueRecording : undefined}
         onDelete={handleDelete}
       />
 
+      {/* Summary Template Modal */}
+      <SummaryTemplateModal
+        visible={showSummaryTemplates}
+        onClose={() => setShowSummaryTemplates(false)}
+        types={meetingTypes}
+        currentTypeId={transcript?.summary_meeting_type_id ?? null}
+        onSelect={handleRegenerateSummary}
+        isRegenerating={isRegeneratingSummary}
+      />
+
+      {/* Reprocess Modal */}
+      <ReprocessMeetingModal
+        visible={showReprocess}
+        onClose={() => setShowReprocess(false)}
+        meeting={meeting}
+        onSubmit={handleReprocess}
+        isSubmitting={isReprocessing}
+      />
+
+      {/* Transcript Versions Modal */}
+      <TranscriptVersionsModal
+        visible={showTranscriptVersions}
+        onClose={() => setShowTranscriptVersions(false)}
+        meetingId={meeting.id}
+        currentSegments={segments || []}
+        currentSpeakerNames={meeting.speaker_names}
+        formatSpeaker={formatSpeakerLabel}
+        onMakeCurrent={handleMakeTranscriptCurrent}
+        isMakingCurrent={isSettingCurrentTranscript}
+      />
+
+      {/* Redact PII Modal */}
+      <RedactMeetingModal
+        visible={showRedact}
+        onClose={() => setShowRedact(false)}
+        meetingId={meeting.id}
+        onRedact={handleRedact}
+        isRedacting={isRedactingTranscript}
+      />
+
       {/* Edit Name Modal */}
       <EditNameModal
         visible={showEditName}
@@ -2530,6 +3309,7 @@ export default function MeetingDetailScreen() {
         onDeleteShare={handleDeleteShare}
         isCreating={isCreatingShare}
         isToggling={isTogglingShare}
+        hasRedaction={hasRedaction}
       />
     </SafeAreaView>
   );
@@ -2696,6 +3476,19 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: Colors.accentLight,
   },
+  audioQualityBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: `${Colors.warning}15`,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    gap: 10,
+  },
+  audioQualityText: {
+    flex: 1,
+    fontSize: 12,
+    color: Colors.warning,
+  },
   detailsCard: {
     backgroundColor: Colors.surface,
     marginHorizontal: 16,
@@ -2883,11 +3676,6 @@ const styles = StyleSheet.create({
     color: Colors.accentLight,
     fontWeight: "600",
   },
-  summaryText: {
-    fontSize: 15,
-    color: Colors.text,
-    lineHeight: 22,
-  },
   transcriptPreview: {
     fontSize: 14,
     color: Colors.textSecondary,
@@ -2978,6 +3766,23 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.accentLight,
     borderRadius: 2,
   },
+  audioChapterRegion: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    borderRightWidth: 1,
+    borderRightColor: Colors.surface,
+    opacity: 0.5,
+  },
+  audioBookmarkMarker: {
+    position: "absolute",
+    top: -3,
+    marginLeft: -1,
+    width: 2,
+    height: 10,
+    borderRadius: 1,
+    backgroundColor: Colors.warning,
+  },
   audioProgressThumb: {
     position: "absolute",
     top: -4,
@@ -3091,6 +3896,78 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  chapterContents: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 14,
+    marginBottom: 12,
+  },
+  chapterContentsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  chapterContentsTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  chapterContentsItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  chapterContentsText: {
+    flex: 1,
+    gap: 2,
+  },
+  chapterContentsItemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  chapterContentsGist: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
+  chapterContentsTime: {
+    fontSize: 12,
+    color: Colors.accentLight,
+    fontWeight: '500',
+  },
+  chapterDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  chapterContentsDot: {
+    marginTop: 5,
+  },
+  chapterHeading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  chapterHeadingText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  transcriptSegmentCardFocused: {
+    borderColor: Colors.accentLight,
+    backgroundColor: Colors.accentLight + '15',
+  },
   segmentAccentBar: {
     width: 5,
     alignSelf: 'stretch',
@@ -3120,6 +3997,69 @@ const styles = StyleSheet.create({
     color: Colors.textMuted,
     marginTop: 4,
   },
+  segmentBookmark: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  segmentBookmarkText: {
+    flexShrink: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  bookmarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  bookmarkContent: {
+    flex: 1,
+  },
+  bookmarkTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  bookmarkExcerpt: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  // Applied vocabulary styles
+  vocabularyTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  vocabularyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.text,
+  },
+  vocabularyCount: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  vocabularyList: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 6,
+  },
+  vocabularyChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.surfaceLight,
+  },
+  vocabularyChipText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
   // Meeting Type styles
   typeRow: {
     flexDirection: "row",
@@ -3158,6 +4098,17 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.textMuted,
   },
+  consentList: {
+    flexShrink: 1,
+    alignItems: "flex-end",
+    gap: 6,
+    marginLeft: 16,
+  },
+  consentText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    textAlign: "right",
+  },
   // Contact Badge styles
   contactBadge: {
     flexDirection: "row",
@@ -3693,6 +4644,21 @@ const typeSelectorStyles = StyleSheet.create({
   },
 });
 
+// Summary Template Modal Styles
+const summaryTemplateStyles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  defaultLabel: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+});
+
 // Contact Selector Modal Styles
 const contactSelectorStyles = StyleSheet.create({
   overlay: {
@@ -4154,6 +5120,21 @@ const shareModalStyles = StyleSheet.create({
     fontSize: 13,
     color: Colors.textSecondary,
   },
+  redactedBadge: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: Colors.warning,
+    backgroundColor: Colors.warning + '20',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  redactedHint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
   shareStats: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -12,34 +12,45 @@ import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { 
   Upload, 
+  Clock,
   FileAudio, 
   FileText, 
   CheckCircle,
   AlertCircle,
   RefreshCw,
+  Users,
+  Sparkles,
 } from "lucide-react-native";
-import { mediumImpact, successNotification } from "@/lib/haptics";
-import { useMeetingDetails, useMeetings } from "@/contexts/MeetingContext";
+import { lightImpact, mediumImpact, successNotification } from "@/lib/haptics";
+import { useMeetingDetails, useMeetings, useProcessingProgress } from "@/contexts/MeetingContext";
+import { useUploadQueue } from "@/contexts/UploadQueueContext";
 import Colors from "@/constants/colors";
-import type { MeetingStatus } from "@/types";
+import { formatEta, PROCESSING_STAGE_LABELS, type MeetingStatus, type ProcessingStage } from "@/types";
 
-// Processing steps matching the new statuses
-const STEPS: { key: MeetingStatus; label: string; icon: typeof Upload }[] = [
-  { key: "queued", label: "Queued", icon: Upload },
+// Processing steps - the statuses, with the steps after transcription
+// told apart by progress events
+const STEPS: { key: string; label: string; icon: typeof Upload }[] = [
+  { key: "uploading", label: "Uploading Audio", icon: Upload },
+  { key: "queued", label: "Queued", icon: Clock },
   { key: "converting", label: "Converting Audio", icon: FileAudio },
   { key: "transcribing", label: "Transcribing", icon: FileText },
+  { key: "speakers", label: "Identifying Speakers", icon: Users },
+  { key: "summary", label: "Writing Summary", icon: Sparkles },
 ];
 
-// Get step index from status
-function getStepIndex(status: MeetingStatus): number {
+// Get step index from status and the latest progress stage
+function getStepIndex(status: MeetingStatus, stage: ProcessingStage | null): number {
   switch (status) {
     case 'uploading':
-    case 'queued':
       return 0;
-    case 'converting':
+    case 'queued':
       return 1;
-    case 'transcribing':
+    case 'converting':
       return 2;
+    case 'transcribing':
+      if (stage === 'diarization' || stage === 'speaker_naming') return 4;
+      if (stage === 'summary' || stage === 'saving') return 5;
+      return 3;
     case 'ready':
       return STEPS.length; // All complete
     default:
@@ -51,7 +62,13 @@ export default function ProcessingScreen() {
   const router = useRouter();
   const { meetingId } = useLocalSearchParams<{ meetingId: string }>();
   const { data: meeting, refetch } = useMeetingDetails(meetingId || null);
+  // Progress is only published while the pipeline is running
+  const isRunning = meeting?.status === "converting" || meeting?.status === "transcribing";
+  const { data: progressEvent } = useProcessingProgress(meetingId || null, isRunning);
+  const progress = isRunning ? progressEvent ?? null : null;
   const { retryProcessing } = useMeetings();
+  const { getUpload, retryUpload } = useUploadQueue();
+  const upload = getUpload(meetingId);
 
   const spinAnim = useRef(new Animated.Value(0)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -115,6 +132,12 @@ export default function ProcessingScreen() {
     }
   };
 
+  const handleRetryUpload = () => {
+    if (!meetingId) return;
+    lightImpact();
+    retryUpload(meetingId);
+  };
+
   const handleViewAnyway = () => {
     if (Platform.OS !== "web") {
       lightImpact();
@@ -127,19 +150,34 @@ export default function ProcessingScreen() {
     outputRange: ["0deg", "360deg"],
   });
 
-  const currentStep = meeting?.status ? getStepIndex(meeting.status) : 0;
+  const currentStep = meeting?.status ? getStepIndex(meeting.status, progress?.stage ?? null) : 0;
   const isFailed = meeting?.status === "failed";
   const isComplete = meeting?.status === "ready";
 
   // Get status label
   const getStatusLabel = () => {
     switch (meeting?.status) {
-      case 'queued':
+      case 'uploading':
+        if (upload?.isWaitingToRetry) {
+          return 'Upload interrupted - retrying automatically';
+        }
+        return upload
+          ? `Uploading audio (${Math.round(upload.progress * 100)}%)`
+          : 'Waiting for audio upload';
+      case 'queued': {
+        // Back in the queue after a failed attempt
+        const job = meeting?.processing_job;
+        if (job?.status === 'pending' && job.attempts > 0) {
+          return `Retrying after an error (attempt ${job.attempts + 1} of ${job.max_attempts})`;
+        }
         return 'Queued for processing';
+      }
       case 'converting':
-        return 'Converting audio to MP3';
       case 'transcribing':
-        return 'Transcribing with AssemblyAI';
+        if (progress) {
+          return PROCESSING_STAGE_LABELS[progress.stage];
+        }
+        return meeting.status === 'converting' ? 'Converting audio to MP3' : 'Transcribing audio';
       case 'ready':
         return 'Processing complete!';
       case 'failed':
@@ -201,9 +239,24 @@ export default function ProcessingScreen() {
             <Text style={styles.title}>
               {isComplete ? "Processing Complete!" : "Processing Meeting"}
             </Text>
-            <Text style={styles.subtitle}>
+            <Text style={[styles.subtitle, progress && styles.subtitleWithProgress]}>
               {getStatusLabel()}
             </Text>
+            {progress && (
+              <View style={styles.overallProgress}>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.round(Number(progress.progress ?? 0) * 100)}%` },
+                    ]}
+                  />
+                </View>
+                {progress.eta_at && (
+                  <Text style={styles.etaText}>{formatEta(progress.eta_at)}</Text>
+                )}
+              </View>
+            )}
 
             <View style={styles.steps}>
               {STEPS.map((step, index) => {
@@ -230,20 +283,49 @@ export default function ProcessingScreen() {
                         />
                       )}
                     </Animated.View>
-                    <Text
-                      style={[
-                        styles.stepLabel,
-                        isDone && styles.stepLabelDone,
-                        isActive && styles.stepLabelActive,
-                      ]}
-                    >
-                      {step.label}{isActive ? "..." : ""}
-                    </Text>
+                    <View style={styles.stepContent}>
+                      <Text
+                        style={[
+                          styles.stepLabel,
+                          isDone && styles.stepLabelDone,
+                          isActive && styles.stepLabelActive,
+                        ]}
+                      >
+                        {step.label}{isActive ? "..." : ""}
+                      </Text>
+                      {isActive && progress?.message && (
+                        <Text style={styles.stepMessage}>{progress.message}</Text>
+                      )}
+                      {step.key === "uploading" && isActive && upload && (
+                        <View style={styles.progressTrack}>
+                          <View
+                            style={[
+                              styles.progressFill,
+                              { width: `${Math.round(upload.progress * 100)}%` },
+                            ]}
+                          />
+                        </View>
+                      )}
+                    </View>
                   </View>
                 );
               })}
             </View>
 
+            {meeting?.status === "uploading" && upload?.isWaitingToRetry && (
+              <View style={styles.uploadRetry}>
+                {upload.task.lastError && (
+                  <Text style={styles.uploadRetryError} numberOfLines={2}>
+                    {upload.task.lastError}
+                  </Text>
+                )}
+                <Pressable style={styles.uploadRetryButton} onPress={handleRetryUpload}>
+                  <RefreshCw size={16} color={Colors.accentLight} />
+                  <Text style={styles.uploadRetryText}>Retry Now</Text>
+                </Pressable>
+              </View>
+            )}
+
             <Text style={styles.hint}>
               Audio converted via CloudConvert, transcribed with AssemblyAI
             </Text>
@@ -309,6 +391,20 @@ const styles = StyleSheet.create({
     marginBottom: 48,
     textAlign: "center",
   },
+  subtitleWithProgress: {
+    marginBottom: 16,
+  },
+  overallProgress: {
+    width: "100%",
+    maxWidth: 300,
+    gap: 8,
+    marginBottom: 40,
+  },
+  etaText: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    textAlign: "center",
+  },
   hint: {
     marginTop: 32,
     fontSize: 13,
@@ -343,10 +439,52 @@ const styles = StyleSheet.create({
     backgroundColor: `${Colors.accentLight}20`,
     borderColor: Colors.accentLight,
   },
+  stepContent: {
+    flex: 1,
+    gap: 6,
+  },
   stepLabel: {
     fontSize: 16,
     color: Colors.textMuted,
   },
+  stepMessage: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.surfaceLight,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.accentLight,
+  },
+  uploadRetry: {
+    marginTop: 24,
+    alignItems: "center",
+    gap: 8,
+  },
+  uploadRetryError: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    textAlign: "center",
+    paddingHorizontal: 20,
+  },
+  uploadRetryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  uploadRetryText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: Colors.accentLight,
+  },
   stepLabelDone: {
     color: Colors.success,
   },
@@ -8,6 +8,10 @@
  * - Continuous recording (never interrupts)
  * - Real-time transcription display
  * - Simple controls (pause/stop)
+ * - Input level meter with silence/clipping warnings
+ * - Consent step before recording starts, logged on the meeting
+ * - Flag button to bookmark important moments
+ * - Offline mode: records locally, transcribed once the upload gets through
  * - No technical details shown to user
  */
 
@@ -21,26 +25,66 @@ import {
   Alert,
   Animated,
   BackHandler,
+  ActivityIndicator,
 } from "react-native";
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Pause, Play, Square, Mic } from "lucide-react-native";
-import { mediumImpact, heavyImpact, successNotification } from "@/lib/haptics";
+import { Pause, Play, Square, Mic, MicOff, AlertTriangle, Flag, CloudOff } from "lucide-react-native";
+import { lightImpact, mediumImpact, heavyImpact, successNotification, warningNotification } from "@/lib/haptics";
 import { useMeetings } from "@/contexts/MeetingContext";
 import { useAuth } from "@/contexts/AuthContext";
 import Colors from "@/constants/colors";
 import { useLiveAudioStream } from "@/hooks/useLiveAudioStream";
 import LiveTranscript from "@/components/LiveTranscript";
+import BookmarkLabelModal from "@/components/BookmarkLabelModal";
+import RecordingConsentStep, { type CapturedConsent } from "@/components/RecordingConsentStep";
+import { AUDIO_QUALITY_CONFIG } from "@/lib/audio-config";
+import { updateOfflineMeeting, removeOfflineMeeting } from "@/lib/offline-meetings";
+import { DEFAULT_CONSENT_STATEMENT, type RecordingMode } from "@/types";
+
+const METER_SEGMENTS = 24;
+
+const QUALITY_WARNING_TEXT = {
+  silence: `No sound for ${AUDIO_QUALITY_CONFIG.SILENCE_WARNING_SECONDS}s - check the mic isn't covered`,
+  clipping: "Audio is distorting - move the phone further from the speaker",
+} as const;
+
+// A bookmark tapped during this recording. id is null until it has been saved.
+interface RecordingBookmark {
+  key: string;
+  offsetMs: number;
+  label: string | null;
+  id: string | null;
+}
 
 export default function RecordingScreen() {
   const router = useRouter();
-  const { meetingId } = useLocalSearchParams<{ meetingId: string }>();
-  const { updateMeeting } = useMeetings();
-  const { user } = useAuth();
+  const { meetingId, offline, continue: continueParam, startOffsetMs: startOffsetParam, language, recordingMode } = useLocalSearchParams<{
+    meetingId: string;
+    offline?: string;
+    continue?: string;
+    startOffsetMs?: string;
+    language?: string;
+    recordingMode?: RecordingMode;
+  }>();
+  // Meeting only exists on the device - see lib/offline-meetings
+  const isOffline = offline === "1";
+  // Recording another part of an existing meeting, stitched after what's
+  // already there - the timer and bookmarks continue from its end
+  const isContinuing = continueParam === "1";
+  const startOffsetMs = isContinuing ? Number(startOffsetParam) || 0 : 0;
+  const { updateMeeting, deleteMeeting, addBookmark, updateBookmarkLabel, recordConsent } = useMeetings();
+  const { user, profile, updateProfile } = useAuth();
+  const consentStatement = profile?.consent_statement || DEFAULT_CONSENT_STATEMENT;
 
   // Local state
   const [recordedAt, setRecordedAt] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [bookmarks, setBookmarks] = useState<RecordingBookmark[]>([]);
+  const [labelingKey, setLabelingKey] = useState<string | null>(null);
+  // Recording only starts once consent has been captured and saved
+  const [consentCaptured, setConsentCaptured] = useState(false);
+  const [isSavingConsent, setIsSavingConsent] = useState(false);
 
   // Animation ref for pulsing recording indicator
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -53,8 +97,11 @@ export default function RecordingScreen() {
     durationMs,
     isConnected,
     isConnecting,
+    isReconnecting,
     turns,
     currentPartial,
+    inputLevel,
+    qualityWarning,
     error: streamError,
     startRecording,
     stopRecording,
@@ -62,9 +109,9 @@ export default function RecordingScreen() {
     resumeRecording,
   } = useLiveAudioStream();
 
-  // Initialize recording on mount
+  // Initialize recording once consent is captured
   useEffect(() => {
-    if (hasInitialized.current || !meetingId) return;
+    if (hasInitialized.current || !meetingId || !consentCaptured) return;
     hasInitialized.current = true;
 
     const initializeRecording = async () => {
@@ -79,7 +126,12 @@ export default function RecordingScreen() {
         setRecordedAt(new Date().toISOString());
         
         // Start live streaming recording
-        await startRecording(meetingId);
+        await startRecording(
+          meetingId,
+          isContinuing
+            ? { newPart: true, startOffsetMs, language, recordingMode }
+            : { offline: isOffline, language, recordingMode }
+        );
         
         console.log("[Recording] Recording started successfully");
       } catch (err) {
@@ -100,7 +152,7 @@ export default function RecordingScreen() {
     };
 
     initializeRecording();
-  }, [meetingId, user, startRecording, router]);
+  }, [meetingId, consentCaptured, isOffline, isContinuing, startOffsetMs, language, recordingMode, user, startRecording, router]);
 
   // Pulse animation for recording indicator
   useEffect(() => {
@@ -124,9 +176,79 @@ export default function RecordingScreen() {
     }
   }, [isRecording, isPaused, isSaving, pulseAnim]);
 
+  // Buzz once each time a quality warning appears
+  useEffect(() => {
+    if (qualityWarning && Platform.OS !== "web") {
+      warningNotification();
+    }
+  }, [qualityWarning]);
+
+  // Save the consent record, then let recording start
+  const handleConsentConfirm = async (consent: CapturedConsent) => {
+    if (!meetingId) return;
+
+    setIsSavingConsent(true);
+    const consentedAt = new Date().toISOString();
+
+    try {
+      if (isOffline) {
+        // Saved with the meeting when it syncs
+        await updateOfflineMeeting(meetingId, {
+          consent: {
+            method: consent.method,
+            consented_by: consent.consentedBy,
+            statement: consentStatement,
+            jurisdiction: consent.jurisdiction,
+            consented_at: consentedAt,
+          },
+        });
+      } else {
+        await recordConsent({
+          meetingId,
+          method: consent.method,
+          consentedBy: consent.consentedBy,
+          statement: consentStatement,
+          jurisdiction: consent.jurisdiction,
+          consentedAt,
+        });
+
+        // Prefill the same jurisdiction next time
+        if (consent.jurisdiction !== profile?.consent_jurisdiction) {
+          updateProfile({ consent_jurisdiction: consent.jurisdiction }).catch((err) =>
+            console.warn("[Recording] Failed to save consent jurisdiction:", err)
+          );
+        }
+      }
+
+      successNotification();
+      setConsentCaptured(true);
+    } catch (err) {
+      console.error("[Recording] Failed to save consent:", err);
+      Alert.alert(
+        "Consent Not Saved",
+        err instanceof Error ? err.message : "Failed to save consent. Please try again."
+      );
+    } finally {
+      setIsSavingConsent(false);
+    }
+  };
+
+  // Leave without recording - a meeting created for this recording is removed
+  const handleConsentCancel = useCallback(() => {
+    if (meetingId && !isContinuing) {
+      const removal = isOffline ? removeOfflineMeeting(meetingId) : deleteMeeting(meetingId);
+      removal.catch((err) => console.warn("[Recording] Failed to remove unrecorded meeting:", err));
+    }
+    router.back();
+  }, [meetingId, isContinuing, isOffline, deleteMeeting, router]);
+
   // Handle back button - show confirmation
   useEffect(() => {
     const backHandler = BackHandler.addEventListener("hardwareBackPress", () => {
+      if (!consentCaptured) {
+        handleConsentCancel();
+        return true;
+      }
       if (isRecording) {
         handleStop();
         return true;
@@ -135,7 +257,7 @@ export default function RecordingScreen() {
     });
 
     return () => backHandler.remove();
-  }, [isRecording]);
+  }, [isRecording, consentCaptured, handleConsentCancel]);
 
   // Handle pause/resume
   const handlePauseResume = async () => {
@@ -150,6 +272,65 @@ export default function RecordingScreen() {
     }
   };
 
+  // Save a bookmark, picking up any label added while the insert was in flight
+  const saveBookmark = useCallback(async (bookmark: RecordingBookmark) => {
+    if (!meetingId) return;
+
+    try {
+      const saved = await addBookmark({
+        meetingId,
+        offsetMs: bookmark.offsetMs,
+        label: bookmark.label,
+      });
+      setBookmarks((prev) =>
+        prev.map((b) => {
+          if (b.key !== bookmark.key) return b;
+          if (b.label !== bookmark.label) {
+            updateBookmarkLabel({ bookmarkId: saved.id, meetingId, label: b.label }).catch((err) =>
+              console.warn("[Recording] Failed to save bookmark label:", err)
+            );
+          }
+          return { ...b, id: saved.id };
+        })
+      );
+    } catch (err) {
+      // Left unsaved - retried when recording stops
+      console.warn("[Recording] Failed to save bookmark:", err);
+    }
+  }, [meetingId, addBookmark, updateBookmarkLabel]);
+
+  // Flag the current moment
+  const handleBookmark = () => {
+    if (!isRecording || isSaving) return;
+    mediumImpact();
+
+    const bookmark: RecordingBookmark = {
+      key: `${Date.now()}`,
+      offsetMs: startOffsetMs + durationMs,
+      label: null,
+      id: null,
+    };
+    setBookmarks((prev) => [...prev, bookmark]);
+    // Offline bookmarks are saved with the meeting when it stops
+    if (!isOffline) {
+      saveBookmark(bookmark);
+    }
+  };
+
+  // Set the label of a bookmark from the label modal
+  const handleBookmarkLabel = (label: string | null) => {
+    const bookmark = bookmarks.find((b) => b.key === labelingKey);
+    if (!bookmark || !meetingId) return;
+
+    lightImpact();
+    setBookmarks((prev) => prev.map((b) => (b.key === bookmark.key ? { ...b, label } : b)));
+    if (bookmark.id) {
+      updateBookmarkLabel({ bookmarkId: bookmark.id, meetingId, label }).catch((err) =>
+        console.warn("[Recording] Failed to save bookmark label:", err)
+      );
+    }
+  };
+
   // Handle stop recording
   const handleStop = async () => {
     heavyImpact();
@@ -178,6 +359,11 @@ export default function RecordingScreen() {
 
     setIsSaving(true);
 
+    if (isOffline) {
+      await performOfflineStop();
+      return;
+    }
+
     try {
       // Stop recording - this also:
       // 1. Saves segments to database
@@ -186,39 +372,57 @@ export default function RecordingScreen() {
       // 4. Updates meeting status appropriately
       await stopRecording();
 
+      // Retry any bookmarks that failed to save while recording
+      const unsaved = bookmarks.filter((b) => !b.id);
+      if (unsaved.length > 0) {
+        console.log("[Recording] Retrying", unsaved.length, "unsaved bookmarks");
+        await Promise.all(unsaved.map((b) => saveBookmark(b)));
+      }
+
       // Calculate duration
       const durationSeconds = Math.round(durationMs / 1000);
       console.log("[Recording] Duration:", durationSeconds, "seconds");
 
-      // Update meeting with recording timestamp only
+      // Update meeting with recording timestamp only - a continued part keeps
+      // the meeting's original start time
       // Note: Don't set status here - the hook handles status based on batch processing
-      await updateMeeting({
-        meetingId,
-        updates: {
-          recorded_at: recordedAt || new Date().toISOString(),
-        },
-      });
+      if (!isContinuing) {
+        await updateMeeting({
+          meetingId,
+          updates: {
+            recorded_at: recordedAt || new Date().toISOString(),
+          },
+        });
+      }
 
       // Navigate to meeting detail
       // User will see transcript immediately with "Speaker detection in progress" banner
       successNotification();
       
-      router.replace(`/meeting/${meetingId}`);
+      // A continued recording goes back to the meeting it was started from
+      if (isContinuing) {
+        router.back();
+      } else {
+        router.replace(`/meeting/${meetingId}`);
+      }
     } catch (err) {
       console.error("[Recording] Stop/save error:", err);
       setIsSaving(false);
 
-      // Update meeting status to failed
-      try {
-        await updateMeeting({
-          meetingId,
-          updates: {
-            status: "failed",
-            error_message: err instanceof Error ? err.message : "Save failed",
-          },
-        });
-      } catch (updateErr) {
-        console.error("[Recording] Failed to update meeting status:", updateErr);
+      // Update meeting status to failed - unless this was a continued part,
+      // in which case the meeting's existing recording is still fine
+      if (!isContinuing) {
+        try {
+          await updateMeeting({
+            meetingId,
+            updates: {
+              status: "failed",
+              error_message: err instanceof Error ? err.message : "Save failed",
+            },
+          });
+        } catch (updateErr) {
+          console.error("[Recording] Failed to update meeting status:", updateErr);
+        }
       }
 
       if (Platform.OS !== "web") {
@@ -230,6 +434,42 @@ export default function RecordingScreen() {
     }
   };
 
+  // Stop an offline recording. The meeting, its bookmarks and audio are sent
+  // by the upload queue once the device is back online.
+  const performOfflineStop = async () => {
+    if (!meetingId) return;
+
+    try {
+      // Written before stopping, which hands the audio to the upload queue
+      await updateOfflineMeeting(meetingId, {
+        recorded_at: recordedAt || new Date().toISOString(),
+        bookmarks: bookmarks.map((b) => ({ offset_ms: b.offsetMs, label: b.label })),
+      });
+
+      await stopRecording();
+
+      successNotification();
+      router.replace("/(tabs)/meetings");
+
+      if (Platform.OS !== "web") {
+        Alert.alert(
+          "Saved Offline",
+          "This recording is saved on your device. It will be uploaded and transcribed automatically when you're back online."
+        );
+      }
+    } catch (err) {
+      console.error("[Recording] Offline stop error:", err);
+      setIsSaving(false);
+
+      if (Platform.OS !== "web") {
+        Alert.alert(
+          "Save Error",
+          err instanceof Error ? err.message : "Failed to save recording"
+        );
+      }
+    }
+  };
+
   // Format time display
   const formatTime = (millis: number) => {
     const totalSeconds = Math.floor(millis / 1000);
@@ -247,11 +487,31 @@ export default function RecordingScreen() {
   const getStatusText = () => {
     if (isSaving) return "Saving...";
     if (isPaused) return "Paused";
-    if (isConnecting) return "Connecting...";
-    if (isRecording) return "Recording";
+    // Reconnects happen while recording continues, so only show this at start
+    if (isConnecting && !isRecording) return "Connecting...";
+    if (isRecording) return isContinuing ? "Continuing recording" : "Recording";
     return "Starting...";
   };
 
+  const latestBookmark = bookmarks[bookmarks.length - 1];
+  const labelingBookmark = bookmarks.find((b) => b.key === labelingKey);
+
+  if (!consentCaptured) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <RecordingConsentStep
+            statement={consentStatement}
+            defaultJurisdiction={profile?.consent_jurisdiction ?? null}
+            isSaving={isSavingConsent}
+            onConfirm={handleConsentConfirm}
+            onCancel={handleConsentCancel}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
@@ -273,7 +533,45 @@ export default function RecordingScreen() {
 
         {/* Status and Timer */}
         <Text style={styles.statusText}>{getStatusText()}</Text>
-        <Text style={styles.timer}>{formatTime(durationMs)}</Text>
+        <Text style={styles.timer}>{formatTime(startOffsetMs + durationMs)}</Text>
+
+        {/* Input Level Meter */}
+        <View style={styles.levelMeter}>
+          {Array.from({ length: METER_SEGMENTS }, (_, i) => {
+            const position = (i + 1) / METER_SEGMENTS;
+            const isLit = isRecording && !isPaused && inputLevel >= position;
+            const litColor =
+              position > 0.9 ? Colors.error : position > 0.75 ? Colors.warning : Colors.success;
+            return (
+              <View
+                key={i}
+                style={[styles.levelSegment, isLit && { backgroundColor: litColor }]}
+              />
+            );
+          })}
+        </View>
+
+        {/* Quality Warning */}
+        {qualityWarning && !isPaused && (
+          <View style={styles.qualityBanner}>
+            {qualityWarning === "silence" ? (
+              <MicOff size={16} color={Colors.warning} />
+            ) : (
+              <AlertTriangle size={16} color={Colors.warning} />
+            )}
+            <Text style={styles.qualityText}>{QUALITY_WARNING_TEXT[qualityWarning]}</Text>
+          </View>
+        )}
+
+        {/* Offline - no live transcript, audio saved on device */}
+        {isOffline && (
+          <View style={styles.offlineBanner}>
+            <CloudOff size={16} color={Colors.textSecondary} />
+            <Text style={styles.offlineText}>
+              No connection. Recording on this device - it will upload later.
+            </Text>
+          </View>
+        )}
 
         {/* Connection indicator (subtle) */}
         {isConnected && (
@@ -283,8 +581,18 @@ export default function RecordingScreen() {
           </View>
         )}
 
+        {/* Reconnecting - live transcript paused, audio still recording */}
+        {isReconnecting && !isSaving && (
+          <View style={styles.reconnectingBanner}>
+            <ActivityIndicator size="small" color={Colors.warning} />
+            <Text style={styles.reconnectingText}>
+              Reconnecting live transcript... Audio is still being recorded.
+            </Text>
+          </View>
+        )}
+
         {/* Error Display (only if critical) */}
-        {streamError && (
+        {streamError && !isReconnecting && (
           <View style={styles.errorBanner}>
             <Text style={styles.errorText}>{streamError}</Text>
           </View>
@@ -296,11 +604,38 @@ export default function RecordingScreen() {
             turns={turns}
             currentPartial={currentPartial}
             isConnected={isConnected}
+            isOffline={isOffline}
           />
         </View>
 
+        {/* Latest bookmark - tap to add a label */}
+        {latestBookmark && (
+          <Pressable
+            style={styles.bookmarkChip}
+            onPress={() => setLabelingKey(latestBookmark.key)}
+          >
+            <Flag size={14} color={Colors.warning} fill={Colors.warning} />
+            <Text style={styles.bookmarkChipText} numberOfLines={1}>
+              {latestBookmark.label
+                ? `${formatTime(latestBookmark.offsetMs)} · ${latestBookmark.label}`
+                : `Flagged at ${formatTime(latestBookmark.offsetMs)} · Add label`}
+            </Text>
+            {bookmarks.length > 1 && (
+              <Text style={styles.bookmarkCount}>{bookmarks.length}</Text>
+            )}
+          </Pressable>
+        )}
+
         {/* Controls */}
         <View style={styles.controls}>
+          <Pressable
+            style={[styles.controlButton, styles.bookmarkButton]}
+            onPress={handleBookmark}
+            disabled={isSaving || !isRecording}
+          >
+            <Flag size={24} color={Colors.warning} />
+          </Pressable>
+
           <Pressable
             style={[styles.controlButton, styles.pauseButton]}
             onPress={handlePauseResume}
@@ -323,9 +658,17 @@ export default function RecordingScreen() {
         </View>
 
         <Text style={styles.hint}>
-          {isPaused ? "Tap play to resume" : "Tap stop when finished"}
+          {isPaused ? "Tap play to resume" : "Tap the flag to bookmark a moment"}
         </Text>
       </View>
+
+      <BookmarkLabelModal
+        visible={!!labelingBookmark}
+        offsetMs={labelingBookmark?.offsetMs ?? 0}
+        currentLabel={labelingBookmark?.label ?? null}
+        onClose={() => setLabelingKey(null)}
+        onSave={handleBookmarkLabel}
+      />
     </SafeAreaView>
   );
 }
@@ -381,6 +724,36 @@ const styles = StyleSheet.create({
     letterSpacing: -1,
     textAlign: "center",
   },
+  levelMeter: {
+    flexDirection: "row",
+    alignSelf: "center",
+    gap: 3,
+    height: 8,
+    marginBottom: 16,
+  },
+  levelSegment: {
+    width: 6,
+    height: 8,
+    borderRadius: 2,
+    backgroundColor: Colors.surfaceLight,
+  },
+  qualityBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: `${Colors.warning}20`,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  qualityText: {
+    flexShrink: 1,
+    color: Colors.warning,
+    fontSize: 13,
+    textAlign: "center",
+  },
   liveIndicator: {
     flexDirection: "row",
     alignItems: "center",
@@ -400,6 +773,40 @@ const styles = StyleSheet.create({
     color: "#10B981",
     letterSpacing: 1,
   },
+  reconnectingBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: `${Colors.warning}20`,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  reconnectingText: {
+    flexShrink: 1,
+    color: Colors.warning,
+    fontSize: 13,
+    textAlign: "center",
+  },
+  offlineBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    backgroundColor: Colors.surfaceLight,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  offlineText: {
+    flexShrink: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+    textAlign: "center",
+  },
   errorBanner: {
     backgroundColor: `${Colors.error}20`,
     paddingHorizontal: 16,
@@ -429,6 +836,37 @@ const styles = StyleSheet.create({
     alignItems: "center",
     borderRadius: 40,
   },
+  bookmarkButton: {
+    width: 56,
+    height: 56,
+    backgroundColor: Colors.surfaceLight,
+  },
+  bookmarkChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "center",
+    gap: 6,
+    maxWidth: "100%",
+    backgroundColor: `${Colors.warning}20`,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 16,
+  },
+  bookmarkChipText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: Colors.warning,
+  },
+  bookmarkCount: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: Colors.background,
+    backgroundColor: Colors.warning,
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    overflow: "hidden",
+  },
   pauseButton: {
     width: 64,
     height: 64,
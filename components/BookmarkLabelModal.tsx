@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Pressable,
+  TextInput,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Flag } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { formatTimestamp } from '@/types';
+
+interface BookmarkLabelModalProps {
+  visible: boolean;
+  offsetMs: number;
+  currentLabel: string | null;
+  onClose: () => void;
+  onSave: (label: string | null) => void;
+}
+
+// Quick picks for the kinds of moments attorneys usually flag
+const SUGGESTED_LABELS = ['Admission', 'Date', 'Amount', 'Follow up'];
+
+const BookmarkLabelModal: React.FC<BookmarkLabelModalProps> = ({
+  visible,
+  offsetMs,
+  currentLabel,
+  onClose,
+  onSave,
+}) => {
+  const [label, setLabel] = useState(currentLabel || '');
+
+  useEffect(() => {
+    if (visible) {
+      setLabel(currentLabel || '');
+    }
+  }, [visible, currentLabel]);
+
+  const handleSave = () => {
+    onSave(label.trim() || null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}
+      >
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={styles.container}>
+          <View style={styles.titleRow}>
+            <Flag size={18} color={Colors.warning} />
+            <Text style={styles.title}>Bookmark at {formatTimestamp(offsetMs)}</Text>
+          </View>
+          <TextInput
+            style={styles.input}
+            value={label}
+            onChangeText={setLabel}
+            placeholder="What happened here? (optional)"
+            placeholderTextColor={Colors.textMuted}
+            autoFocus
+            maxLength={120}
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+          <View style={styles.suggestions}>
+            {SUGGESTED_LABELS.map((suggestion) => (
+              <Pressable
+                key={suggestion}
+                style={styles.suggestionChip}
+                onPress={() => setLabel(suggestion)}
+              >
+                <Text style={styles.suggestionText}>{suggestion}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.buttonRow}>
+            <Pressable style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+            <Pressable style={[styles.button, styles.saveButton]} onPress={handleSave}>
+              <Text style={styles.buttonText}>Save</Text>
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+  },
+  container: {
+    backgroundColor: Colors.surface,
+    borderRadius: 20,
+    width: '85%',
+    maxWidth: 400,
+    padding: 24,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  input: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  suggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  suggestionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: Colors.surfaceLight,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: Colors.surfaceLight,
+  },
+  saveButton: {
+    backgroundColor: Colors.accentLight,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+});
+
+export default BookmarkLabelModal;
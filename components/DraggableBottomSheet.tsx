@@ -1,6 +1,6 @@
 import React, { useCallback, useMemo, forwardRef, useImperativeHandle, useRef, useEffect } from "react";
 import { StyleSheet, View, Text, Pressable, Dimensions } from "react-native";
-import BottomSheet, { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetView } from "@gorhom/bottom-sheet";
+import BottomSheet, { BottomSheetBackdrop, BottomSheetScrollView, BottomSheetView, type BottomSheetScrollViewMethods } from "@gorhom/bottom-sheet";
 import { X } from "lucide-react-native";
 import Colors from "@/constants/colors";
 import { lightImpact } from "@/lib/haptics";
@@ -26,6 +26,8 @@ interface DraggableBottomSheetProps {
   keyboardEnabled?: boolean;
   /** Use non-scrollable view instead of scroll view - useful for simple forms */
   useSimpleView?: boolean;
+  /** Ref to the scroll view, for scrolling to content */
+  scrollRef?: React.Ref<BottomSheetScrollViewMethods>;
 }
 
 /**
@@ -46,6 +48,7 @@ const DraggableBottomSheet = forwardRef<DraggableBottomSheetRef, DraggableBottom
       showCloseButton = true,
       keyboardEnabled = true,
       useSimpleView = false,
+      scrollRef,
     },
     ref
   ) => {
@@ -144,6 +147,7 @@ const DraggableBottomSheet = forwardRef<DraggableBottomSheetRef, DraggableBottom
           </BottomSheetView>
         ) : (
           <BottomSheetScrollView 
+            ref={scrollRef}
             style={styles.scrollView}
             contentContainerStyle={styles.scrollContent}
             showsVerticalScrollIndicator={true}
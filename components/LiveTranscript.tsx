@@ -24,7 +24,7 @@ import {
   ScrollView,
   Animated,
 } from "react-native";
-import { Mic, Volume2 } from "lucide-react-native";
+import { Mic, Volume2, CloudOff } from "lucide-react-native";
 import Colors from "@/constants/colors";
 import type { TranscriptTurn } from "@/types";
 
@@ -68,6 +68,7 @@ interface LiveTranscriptProps {
   turns: TranscriptTurn[];
   currentPartial: string;
   isConnected: boolean;
+  isOffline?: boolean;
 }
 
 /**
@@ -77,6 +78,7 @@ const LiveTranscript: React.FC<LiveTranscriptProps> = ({
   turns,
   currentPartial,
   isConnected,
+  isOffline = false,
 }) => {
   const scrollViewRef = useRef<ScrollView>(null);
   const previousContentLength = useRef(0);
@@ -193,6 +195,21 @@ const LiveTranscript: React.FC<LiveTranscriptProps> = ({
     );
   }
 
+  // Offline state - recorded locally, transcribed after upload
+  if (isOffline) {
+    return (
+      <View style={styles.emptyContainer}>
+        <View style={styles.listeningIndicator}>
+          <CloudOff size={28} color={Colors.textMuted} />
+        </View>
+        <Text style={styles.listeningText}>Recording offline</Text>
+        <Text style={styles.listeningSubtext}>
+          The transcript will be ready once the recording uploads
+        </Text>
+      </View>
+    );
+  }
+
   // Connecting state
   if (!isConnected && turns.length === 0) {
     return (
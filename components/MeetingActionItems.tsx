@@ -0,0 +1,158 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Check, Calendar, User } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import {
+  formatDueDate,
+  formatTimestamp,
+  isActionItemOverdue,
+  type ActionItem,
+  type TranscriptSegment,
+} from '@/types';
+
+interface MeetingActionItemsProps {
+  actionItems: ActionItem[];
+  segments: TranscriptSegment[] | undefined;
+  onToggle: (item: ActionItem) => void;
+  /** Jump to the moment in the recording the item was agreed */
+  onSeek?: (ms: number) => void;
+}
+
+/**
+ * The meeting's action items, open ones first, each with a checkbox and a
+ * link to the part of the transcript it came from.
+ */
+function MeetingActionItems({ actionItems, segments, onToggle, onSeek }: MeetingActionItemsProps) {
+  if (actionItems.length === 0) return null;
+
+  const sorted = [...actionItems].sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'open' ? -1 : 1;
+    return a.created_at.localeCompare(b.created_at);
+  });
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Action Items</Text>
+      {sorted.map((item) => {
+        const isDone = item.status === 'done';
+        const isOverdue = isActionItemOverdue(item);
+        const source = segments?.find((segment) => segment.id === item.source_segment_id);
+
+        return (
+          <View key={item.id} style={styles.item}>
+            <Pressable
+              style={[styles.checkbox, isDone && styles.checkboxDone]}
+              onPress={() => onToggle(item)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              {isDone && <Check size={14} color={Colors.text} />}
+            </Pressable>
+            <View style={styles.itemContent}>
+              <Text style={[styles.itemText, isDone && styles.itemTextDone]}>{item.description}</Text>
+              {(item.responsible_party || item.due_date || source) && (
+                <View style={styles.itemMeta}>
+                  {item.responsible_party && (
+                    <View style={styles.metaItem}>
+                      <User size={12} color={Colors.textMuted} />
+                      <Text style={styles.metaText}>{item.responsible_party}</Text>
+                    </View>
+                  )}
+                  {item.due_date && (
+                    <View style={styles.metaItem}>
+                      <Calendar size={12} color={isOverdue ? Colors.error : Colors.textMuted} />
+                      <Text style={[styles.metaText, isOverdue && styles.metaTextOverdue]}>
+                        {formatDueDate(item.due_date)}
+                      </Text>
+                    </View>
+                  )}
+                  {source && onSeek && (
+                    <Pressable onPress={() => onSeek(source.start_ms)}>
+                      <Text style={styles.sourceLink}>{formatTimestamp(source.start_ms)}</Text>
+                    </Pressable>
+                  )}
+                </View>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 12,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: Colors.textMuted,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 1,
+  },
+  checkboxDone: {
+    backgroundColor: Colors.success,
+    borderColor: Colors.success,
+  },
+  itemContent: {
+    flex: 1,
+    gap: 4,
+  },
+  itemText: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 22,
+  },
+  itemTextDone: {
+    color: Colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  itemMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 12,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  metaTextOverdue: {
+    color: Colors.error,
+    fontWeight: '600',
+  },
+  sourceLink: {
+    fontSize: 13,
+    color: Colors.accentLight,
+    fontWeight: '500',
+  },
+});
+
+export default MeetingActionItems;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import Colors from '@/constants/colors';
+import {
+  ENTITY_TYPE_OPTIONS,
+  formatEntityValue,
+  formatTimestamp,
+  type TranscriptEntity,
+  type TranscriptSegment,
+} from '@/types';
+
+interface MeetingEntitiesProps {
+  entities: TranscriptEntity[];
+  segments: TranscriptSegment[] | undefined;
+  /** Jump to where the entity was mentioned in the transcript and recording */
+  onSelect: (segment: TranscriptSegment) => void;
+}
+
+/**
+ * Dates, deadlines, amounts, case numbers, citations, people and
+ * organizations mentioned in the meeting, grouped by type. Each links to
+ * the segment it was mentioned in.
+ */
+function MeetingEntities({ entities, segments, onSelect }: MeetingEntitiesProps) {
+  if (entities.length === 0) return null;
+
+  const groups = ENTITY_TYPE_OPTIONS
+    .map((option) => ({
+      ...option,
+      entities: entities.filter((entity) => entity.entity_type === option.value),
+    }))
+    .filter((group) => group.entities.length > 0);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Entities</Text>
+      {groups.map((group) => (
+        <View key={group.value} style={styles.group}>
+          <Text style={styles.groupLabel}>{group.label}</Text>
+          {group.entities.map((entity) => {
+            const segment = segments?.find((s) => s.id === entity.segment_id);
+            const value = formatEntityValue(entity);
+
+            return (
+              <Pressable
+                key={entity.id}
+                style={styles.entity}
+                onPress={segment ? () => onSelect(segment) : undefined}
+                disabled={!segment}
+              >
+                <View style={styles.entityContent}>
+                  <Text style={styles.entityText}>{entity.text}</Text>
+                  {value && <Text style={styles.entityValue}>{value}</Text>}
+                </View>
+                {segment && (
+                  <Text style={styles.sourceLink}>{formatTimestamp(segment.start_ms)}</Text>
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  group: {
+    marginBottom: 12,
+  },
+  groupLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textMuted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  entity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  entityContent: {
+    flex: 1,
+    gap: 2,
+  },
+  entityText: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 21,
+  },
+  entityValue: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  sourceLink: {
+    fontSize: 13,
+    color: Colors.accentLight,
+    fontWeight: '500',
+  },
+});
+
+export default MeetingEntities;
@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import Colors from '@/constants/colors';
+import {
+  getSummarySectionItems,
+  type MeetingStatus,
+  type SummaryErrorCode,
+  type Transcript,
+} from '@/types';
+
+interface MeetingSummaryCardsProps {
+  transcript: Transcript | null | undefined;
+  meetingStatus: MeetingStatus;
+  /** Meeting type whose template the summary was generated with */
+  templateName?: string | null;
+  isRegenerating?: boolean;
+  /** Leave out the action items section - shown as tracked items instead */
+  hideActionItems?: boolean;
+}
+
+const ERROR_MESSAGES: Record<SummaryErrorCode, string> = {
+  provider_error: "The summary couldn't be generated.",
+  invalid_response: "The summary came back in a form that couldn't be read.",
+};
+
+// Placeholder for a meeting without a summary to show
+function getPlaceholder(transcript: Transcript | null | undefined, meetingStatus: MeetingStatus): string {
+  if (meetingStatus === 'transcribing' || meetingStatus === 'converting') {
+    return 'Summary is being generated...';
+  }
+  if (meetingStatus === 'failed') {
+    return 'Processing failed. Tap retry above.';
+  }
+  if (transcript?.summary_status === 'failed') {
+    return ERROR_MESSAGES[transcript.summary_error_code ?? 'provider_error'];
+  }
+  return 'No summary available';
+}
+
+// Which template the summary came from, or that it is being regenerated
+function SummaryCaption({ templateName, isRegenerating }: Pick<MeetingSummaryCardsProps, 'templateName' | 'isRegenerating'>) {
+  if (isRegenerating) {
+    return (
+      <View style={styles.caption}>
+        <ActivityIndicator size="small" color={Colors.accentLight} />
+        <Text style={styles.captionText}>Regenerating summary...</Text>
+      </View>
+    );
+  }
+  if (!templateName) return null;
+  return (
+    <View style={styles.caption}>
+      <Text style={styles.captionText}>{templateName} template</Text>
+    </View>
+  );
+}
+
+/**
+ * The meeting summary: an overview card and a card per section. Summaries
+ * from before sections were stored show as one card of text.
+ */
+function MeetingSummaryCards({ transcript, meetingStatus, templateName, isRegenerating, hideActionItems }: MeetingSummaryCardsProps) {
+  const sections = transcript?.summary_sections;
+  const hasSummary = transcript?.summary_status === 'completed' || (!transcript?.summary_status && !!transcript?.summary);
+
+  if (!transcript || !hasSummary || (!sections && !transcript.summary)) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Summary</Text>
+        <Text style={styles.noDataText}>{getPlaceholder(transcript, meetingStatus)}</Text>
+      </View>
+    );
+  }
+
+  if (!sections) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Summary</Text>
+        <SummaryCaption isRegenerating={isRegenerating} />
+        <Text style={styles.summaryText}>{transcript.summary}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Summary</Text>
+        <SummaryCaption templateName={templateName} isRegenerating={isRegenerating} />
+        <Text style={styles.summaryText}>{sections.overview}</Text>
+      </View>
+
+      {getSummarySectionItems(sections)
+        .filter((section) => !hideActionItems || section.key !== 'action_items')
+        .map((section) => (
+          <View key={section.key} style={styles.card}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            {section.items.map((item, index) => (
+              <View key={index} style={styles.item}>
+                <View style={styles.bullet} />
+                <Text style={styles.itemText}>{item}</Text>
+              </View>
+            ))}
+          </View>
+        ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  caption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: -6,
+    marginBottom: 12,
+  },
+  captionText: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 22,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginBottom: 8,
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.accentLight,
+    marginTop: 8,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 22,
+  },
+  noDataText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default MeetingSummaryCards;
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { ShieldCheck } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import { lightImpact } from '@/lib/haptics';
+import { CONSENT_METHOD_LABELS, type ConsentMethod } from '@/types';
+
+export interface CapturedConsent {
+  method: ConsentMethod;
+  consentedBy: string[];
+  jurisdiction: string;
+}
+
+interface RecordingConsentStepProps {
+  statement: string;
+  defaultJurisdiction: string | null;
+  isSaving: boolean;
+  onConfirm: (consent: CapturedConsent) => void;
+  onCancel: () => void;
+}
+
+const METHOD_HINTS: Record<ConsentMethod, string> = {
+  verbal: 'Read the statement aloud - everyone answers once recording starts',
+  written: 'Everyone has signed a consent form for this recording',
+  pre_existing: 'Consent is already on file, e.g. in the engagement letter',
+};
+
+// Names can be separated by commas or new lines
+function parseNames(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Shown before recording starts: displays the consent statement to read out
+ * and captures who consented, how, and where
+ */
+const RecordingConsentStep: React.FC<RecordingConsentStepProps> = ({
+  statement,
+  defaultJurisdiction,
+  isSaving,
+  onConfirm,
+  onCancel,
+}) => {
+  const [method, setMethod] = useState<ConsentMethod>('verbal');
+  const [namesText, setNamesText] = useState('');
+  const [jurisdiction, setJurisdiction] = useState(defaultJurisdiction || '');
+
+  // The profile may load after the screen mounts
+  useEffect(() => {
+    if (defaultJurisdiction) {
+      setJurisdiction((current) => current || defaultJurisdiction);
+    }
+  }, [defaultJurisdiction]);
+
+  const names = parseNames(namesText);
+  const canConfirm = names.length > 0 && jurisdiction.trim().length > 0 && !isSaving;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm({ method, consentedBy: names, jurisdiction: jurisdiction.trim() });
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.titleRow}>
+          <ShieldCheck size={22} color={Colors.success} />
+          <Text style={styles.title}>Consent to Record</Text>
+        </View>
+
+        <View style={styles.statementCard}>
+          <Text style={styles.statementText}>{statement}</Text>
+        </View>
+
+        <Text style={styles.label}>How was consent given?</Text>
+        <View style={styles.methodRow}>
+          {(Object.keys(CONSENT_METHOD_LABELS) as ConsentMethod[]).map((option) => (
+            <Pressable
+              key={option}
+              style={[styles.methodOption, method === option && styles.methodOptionActive]}
+              onPress={() => {
+                lightImpact();
+                setMethod(option);
+              }}
+            >
+              <Text style={[styles.methodText, method === option && styles.methodTextActive]}>
+                {CONSENT_METHOD_LABELS[option]}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+        <Text style={styles.hint}>{METHOD_HINTS[method]}</Text>
+
+        <Text style={styles.label}>Who consented?</Text>
+        <TextInput
+          style={[styles.input, styles.namesInput]}
+          value={namesText}
+          onChangeText={setNamesText}
+          placeholder="Names, separated by commas"
+          placeholderTextColor={Colors.textMuted}
+          multiline
+          autoCapitalize="words"
+        />
+
+        <Text style={styles.label}>Where is this being recorded?</Text>
+        <TextInput
+          style={styles.input}
+          value={jurisdiction}
+          onChangeText={setJurisdiction}
+          placeholder="e.g. California, US"
+          placeholderTextColor={Colors.textMuted}
+          autoCapitalize="words"
+          maxLength={100}
+        />
+      </ScrollView>
+
+      <View style={styles.buttonRow}>
+        <Pressable style={[styles.button, styles.cancelButton]} onPress={onCancel} disabled={isSaving}>
+          <Text style={styles.buttonText}>Cancel</Text>
+        </Pressable>
+        <Pressable
+          style={[styles.button, styles.confirmButton, !canConfirm && styles.buttonDisabled]}
+          onPress={handleConfirm}
+          disabled={!canConfirm}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={Colors.text} />
+          ) : (
+            <Text style={styles.buttonText}>Start Recording</Text>
+          )}
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingBottom: 24,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  statementCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 24,
+  },
+  statementText: {
+    fontSize: 18,
+    lineHeight: 26,
+    color: Colors.text,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 8,
+  },
+  methodOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  methodOptionActive: {
+    backgroundColor: Colors.accentLight,
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  methodTextActive: {
+    color: Colors.text,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 20,
+  },
+  namesInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 16,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: Colors.surfaceLight,
+  },
+  confirmButton: {
+    backgroundColor: Colors.recording,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+});
+
+export default RecordingConsentStep;
@@ -0,0 +1,408 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, Switch, StyleSheet, ActivityIndicator, Platform } from 'react-native';
+import * as Linking from 'expo-linking';
+import { AlertTriangle, Check, Play, ShieldCheck } from 'lucide-react-native';
+import DraggableBottomSheet from '@/components/DraggableBottomSheet';
+import { useTranscriptRedactions, getRedactedAudioUrl } from '@/contexts/MeetingContext';
+import { lightImpact } from '@/lib/haptics';
+import Colors from '@/constants/colors';
+import {
+  DEFAULT_PII_CATEGORIES,
+  PII_CATEGORY_OPTIONS,
+  formatPiiCategories,
+  formatTimestamp,
+  type PiiCategory,
+  type TranscriptRedaction,
+} from '@/types';
+
+interface RedactMeetingModalProps {
+  visible: boolean;
+  onClose: () => void;
+  meetingId: string;
+  onRedact: (policies: PiiCategory[], includeAudio: boolean) => Promise<void>;
+  isRedacting: boolean;
+}
+
+/**
+ * Redacted copies of a meeting for sending outside the firm. The recording
+ * is transcribed again with the chosen PII blacked out - the original
+ * transcript, summary and audio stay as they are.
+ */
+function RedactMeetingModal({ visible, onClose, meetingId, onRedact, isRedacting }: RedactMeetingModalProps) {
+  const { data: redactions = [], isLoading } = useTranscriptRedactions(visible ? meetingId : null);
+  const [categories, setCategories] = useState<PiiCategory[]>(DEFAULT_PII_CATEGORIES);
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [viewing, setViewing] = useState<TranscriptRedaction | null>(null);
+  const [openingAudioId, setOpeningAudioId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setCategories(DEFAULT_PII_CATEGORIES);
+      setIncludeAudio(false);
+      setViewing(null);
+    }
+  }, [visible]);
+
+  const toggleCategory = (category: PiiCategory) => {
+    lightImpact();
+    setCategories((current) =>
+      current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+    );
+  };
+
+  const handleRedact = async () => {
+    lightImpact();
+    await onRedact(categories, includeAudio);
+  };
+
+  const handlePlayAudio = async (redaction: TranscriptRedaction) => {
+    lightImpact();
+    setOpeningAudioId(redaction.id);
+    try {
+      const url = await getRedactedAudioUrl(redaction);
+      if (!url) return;
+      if (Platform.OS === 'web') {
+        window.open(url, '_blank');
+      } else {
+        await Linking.openURL(url);
+      }
+    } finally {
+      setOpeningAudioId(null);
+    }
+  };
+
+  const renderRedaction = (redaction: TranscriptRedaction) => (
+    <View key={redaction.id} style={styles.redactionRow}>
+      <View style={styles.redactionHeader}>
+        <Text style={styles.redactionDate}>{new Date(redaction.created_at).toLocaleString()}</Text>
+        {redaction.status === 'processing' && (
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color={Colors.warning} />
+            <Text style={[styles.statusText, { color: Colors.warning }]}>Redacting…</Text>
+          </View>
+        )}
+        {redaction.status === 'completed' && (
+          <View style={styles.statusRow}>
+            <Check size={14} color={Colors.success} />
+            <Text style={[styles.statusText, { color: Colors.success }]}>Ready</Text>
+          </View>
+        )}
+        {redaction.status === 'failed' && (
+          <View style={styles.statusRow}>
+            <AlertTriangle size={14} color={Colors.error} />
+            <Text style={[styles.statusText, { color: Colors.error }]}>Failed</Text>
+          </View>
+        )}
+      </View>
+      <Text style={styles.redactionCategories}>{formatPiiCategories(redaction.policies)}</Text>
+      {redaction.status === 'failed' && redaction.error_message && (
+        <Text style={styles.errorText}>{redaction.error_message}</Text>
+      )}
+      {redaction.status === 'completed' && (
+        <View style={styles.redactionActions}>
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => {
+              lightImpact();
+              setViewing(redaction);
+            }}
+          >
+            <Text style={styles.secondaryButtonText}>View</Text>
+          </Pressable>
+          {redaction.audio_path && (
+            <Pressable
+              style={styles.secondaryButton}
+              onPress={() => handlePlayAudio(redaction)}
+              disabled={openingAudioId === redaction.id}
+            >
+              {openingAudioId === redaction.id ? (
+                <ActivityIndicator size="small" color={Colors.text} />
+              ) : (
+                <>
+                  <Play size={14} color={Colors.text} />
+                  <Text style={styles.secondaryButtonText}>Bleeped Audio</Text>
+                </>
+              )}
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderRedactedTranscript = (redaction: TranscriptRedaction) => (
+    <View>
+      <Pressable onPress={() => setViewing(null)} hitSlop={8}>
+        <Text style={styles.backLink}>All redacted versions</Text>
+      </Pressable>
+      <Text style={styles.viewTitle}>Redacted: {formatPiiCategories(redaction.policies)}</Text>
+
+      {redaction.summary_sections?.overview ? (
+        <>
+          <Text style={styles.label}>Summary</Text>
+          <Text style={styles.summaryText}>{redaction.summary_sections.overview}</Text>
+        </>
+      ) : null}
+
+      <Text style={styles.label}>Transcript</Text>
+      {(redaction.segments || []).length === 0 ? (
+        <Text style={styles.summaryText}>{redaction.full_text || 'No transcript'}</Text>
+      ) : (
+        (redaction.segments || []).map((segment, index) => (
+          <View key={`${segment.start_ms}-${index}`} style={styles.segment}>
+            <Text style={styles.segmentMeta}>
+              {segment.speaker} · {formatTimestamp(segment.start_ms)}
+            </Text>
+            <Text style={styles.segmentText}>{segment.text}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <DraggableBottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Redact PII"
+      height={85}
+    >
+      {viewing ? (
+        renderRedactedTranscript(viewing)
+      ) : (
+        <>
+          <Text style={styles.hint}>
+            Makes a redacted copy of the transcript and summary for sharing. The original stays as it is.
+          </Text>
+
+          <Text style={styles.label}>Redact</Text>
+          <View style={styles.chips}>
+            {PII_CATEGORY_OPTIONS.map((option) => {
+              const selected = categories.includes(option.value);
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[styles.chip, selected && styles.chipSelected]}
+                  onPress={() => toggleCategory(option.value)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchLabel}>
+              <Text style={styles.switchTitle}>Bleep audio</Text>
+              <Text style={styles.switchHint}>Also make a copy of the recording with the PII bleeped out</Text>
+            </View>
+            <Switch
+              value={includeAudio}
+              onValueChange={setIncludeAudio}
+              trackColor={{ false: Colors.border, true: Colors.accentLight + '80' }}
+              thumbColor={includeAudio ? Colors.accentLight : Colors.textMuted}
+            />
+          </View>
+
+          <Pressable
+            style={[styles.submitButton, (isRedacting || categories.length === 0) && styles.submitButtonDisabled]}
+            onPress={handleRedact}
+            disabled={isRedacting || categories.length === 0}
+          >
+            {isRedacting ? (
+              <ActivityIndicator size="small" color={Colors.text} />
+            ) : (
+              <>
+                <ShieldCheck size={18} color={Colors.text} />
+                <Text style={styles.submitButtonText}>Create Redacted Version</Text>
+              </>
+            )}
+          </Pressable>
+
+          {isLoading ? (
+            <ActivityIndicator color={Colors.accentLight} style={styles.loading} />
+          ) : redactions.length > 0 ? (
+            <>
+              <Text style={[styles.label, styles.listLabel]}>Redacted Versions</Text>
+              {redactions.map(renderRedaction)}
+            </>
+          ) : null}
+        </>
+      )}
+    </DraggableBottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+  listLabel: {
+    marginTop: 28,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    borderColor: Colors.accentLight,
+    backgroundColor: Colors.accentLight + '20',
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.accentLight,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  switchLabel: {
+    flex: 1,
+  },
+  switchTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  switchHint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.accentLight,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  redactionRow: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  redactionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  redactionDate: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  redactionCategories: {
+    fontSize: 14,
+    color: Colors.text,
+    marginTop: 6,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 6,
+  },
+  redactionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  backLink: {
+    fontSize: 14,
+    color: Colors.accentLight,
+    marginBottom: 12,
+  },
+  viewTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  segment: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  segmentMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 4,
+  },
+  segmentText: {
+    fontSize: 15,
+    color: Colors.text,
+    lineHeight: 21,
+  },
+});
+
+export default RedactMeetingModal;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, TextInput, StyleSheet, ActivityIndicator } from 'react-native';
+import { Minus, Plus, RefreshCw } from 'lucide-react-native';
+import DraggableBottomSheet from '@/components/DraggableBottomSheet';
+import { lightImpact } from '@/lib/haptics';
+import Colors from '@/constants/colors';
+import { TRANSCRIPTION_LANGUAGE_OPTIONS, type Meeting } from '@/types';
+
+const MIN_SPEAKERS = 1;
+const MAX_SPEAKERS = 10;
+
+export interface ReprocessOptions {
+  expectedSpeakers: number;
+  language: string;
+  /** Edited vocabulary, or null to keep using the user and contact terms */
+  vocabularyOverride: string[] | null;
+}
+
+interface ReprocessMeetingModalProps {
+  visible: boolean;
+  onClose: () => void;
+  meeting: Pick<Meeting, 'expected_speakers' | 'transcription_language' | 'applied_vocabulary' | 'vocabulary_override'>;
+  onSubmit: (options: ReprocessOptions) => Promise<void>;
+  isSubmitting: boolean;
+}
+
+// Helper: Terms from a comma or line separated list
+function parseVocabulary(text: string): string[] {
+  return [...new Set(text.split(/[,\n]/).map((term) => term.trim()).filter(Boolean))];
+}
+
+/**
+ * Options for processing a meeting again. The new run is saved as another
+ * transcript version, so the current one can still be compared or restored.
+ */
+function ReprocessMeetingModal({ visible, onClose, meeting, onSubmit, isSubmitting }: ReprocessMeetingModalProps) {
+  const initialVocabulary = (meeting.vocabulary_override ?? meeting.applied_vocabulary ?? []).join(', ');
+
+  const [expectedSpeakers, setExpectedSpeakers] = useState(meeting.expected_speakers || 2);
+  const [language, setLanguage] = useState(meeting.transcription_language || 'en');
+  const [vocabularyText, setVocabularyText] = useState(initialVocabulary);
+
+  // Start from the meeting's settings each time the sheet opens, or when
+  // they change while it's open
+  useEffect(() => {
+    if (visible) {
+      setExpectedSpeakers(meeting.expected_speakers || 2);
+      setLanguage(meeting.transcription_language || 'en');
+      setVocabularyText(initialVocabulary);
+    }
+  }, [visible, meeting.expected_speakers, meeting.transcription_language, initialVocabulary]);
+
+  const changeSpeakers = (delta: number) => {
+    lightImpact();
+    setExpectedSpeakers((count) => Math.min(MAX_SPEAKERS, Math.max(MIN_SPEAKERS, count + delta)));
+  };
+
+  const handleSubmit = async () => {
+    lightImpact();
+    // An untouched list keeps the meeting's current vocabulary setting
+    const vocabularyOverride = vocabularyText.trim() === initialVocabulary.trim()
+      ? meeting.vocabulary_override
+      : parseVocabulary(vocabularyText);
+    await onSubmit({ expectedSpeakers, language, vocabularyOverride });
+  };
+
+  return (
+    <DraggableBottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Reprocess Meeting"
+      height={85}
+    >
+      <Text style={styles.hint}>
+        The recording is transcribed again with these settings and saved as a new version. The current transcript is kept - you can compare the two or switch back.
+      </Text>
+
+      <Text style={styles.label}>Speakers</Text>
+      <View style={styles.stepper}>
+        <Pressable
+          style={styles.stepperButton}
+          onPress={() => changeSpeakers(-1)}
+          disabled={expectedSpeakers <= MIN_SPEAKERS}
+        >
+          <Minus size={18} color={expectedSpeakers <= MIN_SPEAKERS ? Colors.textMuted : Colors.text} />
+        </Pressable>
+        <Text style={styles.stepperValue}>{expectedSpeakers}</Text>
+        <Pressable
+          style={styles.stepperButton}
+          onPress={() => changeSpeakers(1)}
+          disabled={expectedSpeakers >= MAX_SPEAKERS}
+        >
+          <Plus size={18} color={expectedSpeakers >= MAX_SPEAKERS ? Colors.textMuted : Colors.text} />
+        </Pressable>
+      </View>
+
+      <Text style={styles.label}>Language</Text>
+      <View style={styles.chips}>
+        {TRANSCRIPTION_LANGUAGE_OPTIONS.map((option) => (
+          <Pressable
+            key={option.code}
+            style={[styles.chip, language === option.code && styles.chipSelected]}
+            onPress={() => {
+              lightImpact();
+              setLanguage(option.code);
+            }}
+          >
+            <Text style={[styles.chipText, language === option.code && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Vocabulary</Text>
+      <TextInput
+        style={styles.vocabularyInput}
+        value={vocabularyText}
+        onChangeText={setVocabularyText}
+        placeholder="Names and terms, separated by commas"
+        placeholderTextColor={Colors.textMuted}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      <Text style={styles.vocabularyHint}>
+        {meeting.vocabulary_override
+          ? 'This meeting uses its own list instead of your vocabulary settings.'
+          : 'From your vocabulary settings and the contact. Editing it applies only to this meeting.'}
+      </Text>
+
+      <Pressable
+        style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+        onPress={handleSubmit}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator size="small" color={Colors.text} />
+        ) : (
+          <>
+            <RefreshCw size={18} color={Colors.text} />
+            <Text style={styles.submitButtonText}>Reprocess</Text>
+          </>
+        )}
+      </Pressable>
+    </DraggableBottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 20,
+    marginBottom: 24,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: Colors.text,
+    minWidth: 24,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    borderColor: Colors.accentLight,
+    backgroundColor: Colors.accentLight + '20',
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.accentLight,
+    fontWeight: '600',
+  },
+  vocabularyInput: {
+    minHeight: 80,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 12,
+    fontSize: 15,
+    color: Colors.text,
+    textAlignVertical: 'top',
+  },
+  vocabularyHint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.accentLight,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+});
+
+export default ReprocessMeetingModal;
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, Pressable, StyleSheet, ActivityIndicator } from 'react-native';
+import { Check, GitCompare } from 'lucide-react-native';
+import DraggableBottomSheet from '@/components/DraggableBottomSheet';
+import { useTranscriptVersions, useTranscriptVersionSegments } from '@/contexts/MeetingContext';
+import { lightImpact } from '@/lib/haptics';
+import Colors from '@/constants/colors';
+import {
+  diffTranscriptSegments,
+  formatTimestamp,
+  formatTranscriptParameters,
+  type TranscriptSegment,
+  type TranscriptVersion,
+} from '@/types';
+
+interface TranscriptVersionsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  meetingId: string;
+  /** Segments of the current version, shown in the app */
+  currentSegments: TranscriptSegment[];
+  currentSpeakerNames: Record<string, string> | null;
+  formatSpeaker: (speaker: string, speakerNames?: Record<string, string> | null) => string;
+  onMakeCurrent: (transcriptId: string) => Promise<void>;
+  isMakingCurrent: boolean;
+}
+
+/**
+ * Transcript versions from each processing run. An earlier version can be
+ * compared with the current one and made current again.
+ */
+function TranscriptVersionsModal({
+  visible,
+  onClose,
+  meetingId,
+  currentSegments,
+  currentSpeakerNames,
+  formatSpeaker,
+  onMakeCurrent,
+  isMakingCurrent,
+}: TranscriptVersionsModalProps) {
+  const { data: versions = [], isLoading } = useTranscriptVersions(visible ? meetingId : null);
+  const [comparing, setComparing] = useState<TranscriptVersion | null>(null);
+  const { data: comparedSegments, isLoading: isLoadingSegments } = useTranscriptVersionSegments(comparing?.id ?? null);
+
+  useEffect(() => {
+    if (!visible) setComparing(null);
+  }, [visible]);
+
+  const diff = useMemo(() => {
+    if (!comparing || !comparedSegments) return undefined;
+    return diffTranscriptSegments(comparedSegments, currentSegments);
+  }, [comparing, comparedSegments, currentSegments]);
+
+  const handleMakeCurrent = async (version: TranscriptVersion) => {
+    lightImpact();
+    await onMakeCurrent(version.id);
+    setComparing(null);
+  };
+
+  const renderVersion = (version: TranscriptVersion) => (
+    <View key={version.id} style={styles.versionRow}>
+      <View style={styles.versionHeader}>
+        <Text style={styles.versionTitle}>Version {version.version}</Text>
+        {version.is_current && (
+          <View style={styles.currentBadge}>
+            <Check size={12} color={Colors.success} />
+            <Text style={styles.currentBadgeText}>Current</Text>
+          </View>
+        )}
+      </View>
+      <Text style={styles.versionDate}>{new Date(version.created_at).toLocaleString()}</Text>
+      <Text style={styles.versionParameters}>{formatTranscriptParameters(version.parameters)}</Text>
+      {!version.is_current && (
+        <View style={styles.versionActions}>
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => {
+              lightImpact();
+              setComparing(version);
+            }}
+          >
+            <GitCompare size={16} color={Colors.text} />
+            <Text style={styles.secondaryButtonText}>Compare</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.primaryButton, isMakingCurrent && styles.buttonDisabled]}
+            onPress={() => handleMakeCurrent(version)}
+            disabled={isMakingCurrent}
+          >
+            <Text style={styles.primaryButtonText}>Make Current</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderComparison = (version: TranscriptVersion) => (
+    <View>
+      <Pressable onPress={() => setComparing(null)} hitSlop={8}>
+        <Text style={styles.backLink}>All versions</Text>
+      </Pressable>
+      <Text style={styles.compareTitle}>Version {version.version} → current</Text>
+
+      {isLoadingSegments || diff === undefined ? (
+        <ActivityIndicator color={Colors.accentLight} style={styles.loading} />
+      ) : diff === null ? (
+        <Text style={styles.emptyText}>This transcript is too long to compare on the device.</Text>
+      ) : diff.length === 0 ? (
+        <Text style={styles.emptyText}>No differences.</Text>
+      ) : (
+        <>
+          <Text style={styles.compareCount}>
+            {diff.length} change{diff.length === 1 ? '' : 's'}
+          </Text>
+          {diff.map((entry, index) => (
+            <View key={`${entry.start_ms}-${index}`} style={styles.diffEntry}>
+              <Text style={styles.diffTime}>
+                {formatTimestamp(entry.start_ms)}
+                {entry.type === 'speaker' ? ' · speaker changed' : ''}
+              </Text>
+              {entry.before && (
+                <Text style={styles.diffRemoved}>
+                  − {formatSpeaker(entry.before.speaker, version.speaker_names)}: {entry.before.text}
+                </Text>
+              )}
+              {entry.after && (
+                <Text style={styles.diffAdded}>
+                  + {formatSpeaker(entry.after.speaker, currentSpeakerNames)}: {entry.after.text}
+                </Text>
+              )}
+            </View>
+          ))}
+        </>
+      )}
+
+      <Pressable
+        style={[styles.primaryButton, styles.compareMakeCurrent, isMakingCurrent && styles.buttonDisabled]}
+        onPress={() => handleMakeCurrent(version)}
+        disabled={isMakingCurrent}
+      >
+        {isMakingCurrent ? (
+          <ActivityIndicator size="small" color={Colors.text} />
+        ) : (
+          <Text style={styles.primaryButtonText}>Make Version {version.version} Current</Text>
+        )}
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <DraggableBottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Transcript Versions"
+      height={85}
+    >
+      {comparing ? (
+        renderComparison(comparing)
+      ) : isLoading ? (
+        <ActivityIndicator color={Colors.accentLight} style={styles.loading} />
+      ) : versions.length === 0 ? (
+        <Text style={styles.emptyText}>No transcript yet.</Text>
+      ) : (
+        versions.map(renderVersion)
+      )}
+    </DraggableBottomSheet>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    marginVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  versionRow: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  versionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  currentBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: Colors.success + '20',
+  },
+  currentBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.success,
+  },
+  versionDate: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  versionParameters: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  versionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.accentLight,
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  backLink: {
+    fontSize: 14,
+    color: Colors.accentLight,
+    marginBottom: 12,
+  },
+  compareTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  compareCount: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginBottom: 12,
+  },
+  diffEntry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  diffTime: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 4,
+  },
+  diffRemoved: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Colors.error,
+  },
+  diffAdded: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: Colors.success,
+  },
+  compareMakeCurrent: {
+    flex: 0,
+    paddingVertical: 14,
+    marginTop: 20,
+  },
+});
+
+export default TranscriptVersionsModal;
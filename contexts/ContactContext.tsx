@@ -2,7 +2,7 @@ import createContextHook from '@nkzw/create-context-hook';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from './AuthContext';
-import type { Contact, ContactCategory, ContactWithCategory, Meeting, ContactBillingSummary } from '@/types';
+import type { Contact, ContactCategory, ContactWithCategory, Meeting, ContactBillingSummary, TranscriptionLanguageSetting } from '@/types';
 
 export const [ContactProvider, useContacts] = createContextHook(() => {
   const { user } = useAuth();
@@ -168,6 +168,7 @@ export const [ContactProvider, useContacts] = createContextHook(() => {
       phone?: string | null;
       notes?: string | null;
       category_id?: string | null;
+      default_language?: TranscriptionLanguageSetting | null;
     }): Promise<Contact> => {
       if (!user?.id) throw new Error('Not authenticated');
       console.log('[ContactContext] Creating contact:', contactData.first_name);
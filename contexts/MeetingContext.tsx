@@ -1,16 +1,31 @@
 import createContextHook from '@nkzw/create-context-hook';
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from './AuthContext';
-import type { Meeting, MeetingWithContact, MeetingWithDetails, MeetingType, MeetingShare, MeetingShareLink } from '@/types';
-import { generateShareToken } from '@/types';
+import type { Meeting, MeetingWithContact, MeetingWithDetails, MeetingType, SummaryTemplate, ActionItemStatus, ActionItemWithMeeting, ProcessingEvent, TranscriptVersion, TranscriptSegment, TranscriptRedaction, PiiCategory, MeetingShare, MeetingShareLink, MeetingBookmark, MeetingConsent, ConsentMethod, VocabularyTerm, TranscriptionLanguageSetting, RecordingMode } from '@/types';
+import { generateShareToken, getDefaultMeetingTitle, DEFAULT_TRANSCRIPTION_LANGUAGE } from '@/types';
+import { getOfflineMeetings, subscribeToOfflineMeetings, toPendingMeeting, type OfflineMeeting } from '@/lib/offline-meetings';
 import * as Crypto from 'expo-crypto';
 
+/**
+ * JSON body of a failed Edge Function call. On a non-2xx response invoke()
+ * returns no data - the body is only on the error's Response.
+ */
+async function readFunctionErrorBody(error: { name?: string; context?: unknown }): Promise<Record<string, unknown> | null> {
+  if (error.name !== 'FunctionsHttpError' || !(error.context instanceof Response)) return null;
+  try {
+    return await error.context.json();
+  } catch {
+    return null;
+  }
+}
+
 export const [MeetingProvider, useMeetings] = createContextHook(() => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [activeMeetingId, setActiveMeetingId] = useState<string | null>(null);
+  const [offlineMeetings, setOfflineMeetings] = useState<OfflineMeeting[]>([]);
 
   // ============================================
   // MEETING TYPES
@@ -42,7 +57,15 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
 
   // Create a new meeting type
   const createMeetingTypeMutation = useMutation({
-    mutationFn: async ({ name, color }: { name: string; color: string }): Promise<MeetingType> => {
+    mutationFn: async ({
+      name,
+      color,
+      summaryTemplate = null,
+    }: {
+      name: string;
+      color: string;
+      summaryTemplate?: SummaryTemplate | null;
+    }): Promise<MeetingType> => {
       if (!user?.id) throw new Error('Not authenticated');
       console.log('[MeetingContext] Creating meeting type:', name);
       
@@ -60,6 +83,7 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
           color,
           is_default: false,
           display_order: maxOrder + 1,
+          summary_template: summaryTemplate,
         })
         .select()
         .single();
@@ -131,6 +155,80 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     },
   });
 
+  // ============================================
+  // CUSTOM VOCABULARY
+  // ============================================
+
+  // Fetch the user's custom vocabulary terms
+  const vocabularyQuery = useQuery({
+    queryKey: ['vocabularyTerms', user?.id],
+    queryFn: async (): Promise<VocabularyTerm[]> => {
+      if (!user?.id) return [];
+      console.log('[MeetingContext] Fetching vocabulary terms...');
+      
+      const { data, error } = await supabase
+        .from('vocabulary_terms')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching vocabulary terms:', error.message);
+        return [];
+      }
+      
+      return data || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  // Add a vocabulary term
+  const addVocabularyTermMutation = useMutation({
+    mutationFn: async (term: string): Promise<VocabularyTerm> => {
+      if (!user?.id) throw new Error('Not authenticated');
+      console.log('[MeetingContext] Adding vocabulary term:', term);
+      
+      const { data, error } = await supabase
+        .from('vocabulary_terms')
+        .insert({
+          user_id: user.id,
+          term,
+        })
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('[MeetingContext] Error adding vocabulary term:', error.message);
+        throw new Error(error.message || 'Failed to add vocabulary term');
+      }
+      
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vocabularyTerms', user?.id] });
+    },
+  });
+
+  // Remove a vocabulary term
+  const deleteVocabularyTermMutation = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      console.log('[MeetingContext] Deleting vocabulary term:', id);
+      
+      const { error } = await supabase
+        .from('vocabulary_terms')
+        .delete()
+        .eq('id', id);
+      
+      if (error) {
+        console.error('[MeetingContext] Error deleting vocabulary term:', error.message);
+        throw new Error(error.message || 'Failed to delete vocabulary term');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vocabularyTerms', user?.id] });
+    },
+  });
+
   // ============================================
   // MEETINGS
   // ============================================
@@ -174,15 +272,48 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     staleTime: 30000,
   });
 
+  // Meetings recorded offline that haven't reached the server yet
+  useEffect(() => {
+    getOfflineMeetings().then(setOfflineMeetings);
+
+    return subscribeToOfflineMeetings((next) => {
+      setOfflineMeetings(next);
+      // A meeting leaving the offline store has just been created server-side
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+    });
+  }, [queryClient]);
+
+  // Server meetings plus pending offline ones, newest first
+  const meetings = useMemo((): MeetingWithContact[] => {
+    const serverMeetings = meetingsQuery.data || [];
+    const userOfflineMeetings = offlineMeetings.filter(
+      (m) => m.user_id === user?.id && !serverMeetings.some((s) => s.id === m.id)
+    );
+    if (userOfflineMeetings.length === 0) return serverMeetings;
+
+    return [...userOfflineMeetings.map(toPendingMeeting), ...serverMeetings].sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+  }, [meetingsQuery.data, offlineMeetings, user?.id]);
+
   // Create a new meeting (when user starts recording)
   // expectedSpeakers: 1 = solo, 2 = two people (default), 3 = three or more
   const createMeetingMutation = useMutation({
-    mutationFn: async (expectedSpeakers: number = 2): Promise<Meeting> => {
+    mutationFn: async ({
+      expectedSpeakers = 2,
+      contactId = null,
+      language = DEFAULT_TRANSCRIPTION_LANGUAGE,
+      recordingMode = 'standard',
+    }: {
+      expectedSpeakers?: number;
+      contactId?: string | null;
+      language?: TranscriptionLanguageSetting;
+      recordingMode?: RecordingMode;
+    } = {}): Promise<Meeting> => {
       if (!user?.id) throw new Error('Not authenticated');
-      console.log('[MeetingContext] Creating new meeting with expected speakers:', expectedSpeakers);
+      console.log('[MeetingContext] Creating new meeting with expected speakers:', expectedSpeakers, 'language:', language, 'mode:', recordingMode);
       
-      const now = new Date();
-      const title = `Meeting ${now.toLocaleDateString()} ${now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+      const title = getDefaultMeetingTitle();
       
       const { data, error } = await supabase
         .from('meetings')
@@ -192,6 +323,9 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
           status: 'uploading',
           duration_seconds: 0,
           expected_speakers: expectedSpeakers,
+          contact_id: contactId,
+          transcription_language: language,
+          recording_mode: recordingMode,
         })
         .select()
         .single();
@@ -333,7 +467,7 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
       // Get the meeting to find audio paths
       const { data: meeting } = await supabase
         .from('meetings')
-        .select('raw_audio_path, mp3_audio_path')
+        .select('raw_audio_path, mp3_audio_path, parts:meeting_recording_parts(audio_path), redactions:transcript_redactions(audio_path)')
         .eq('id', meetingId)
         .single();
       
@@ -341,6 +475,12 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
       const pathsToDelete: string[] = [];
       if (meeting?.raw_audio_path) pathsToDelete.push(meeting.raw_audio_path);
       if (meeting?.mp3_audio_path) pathsToDelete.push(meeting.mp3_audio_path);
+      for (const part of (meeting?.parts || []) as { audio_path: string }[]) {
+        pathsToDelete.push(part.audio_path);
+      }
+      for (const redaction of (meeting?.redactions || []) as { audio_path: string | null }[]) {
+        if (redaction.audio_path) pathsToDelete.push(redaction.audio_path);
+      }
       
       if (pathsToDelete.length > 0) {
         await supabase.storage.from('meeting-audio').remove(pathsToDelete);
@@ -374,25 +514,13 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     mutationFn: async (meetingId: string) => {
       console.log('[MeetingContext] Retrying processing for:', meetingId);
       
-      // Reset meeting status to queued
+      // Reset meeting status to queued - this also resets (or creates) the
+      // meeting's processing job with a fresh set of attempts
       await supabase
         .from('meetings')
         .update({ status: 'queued', error_message: null })
         .eq('id', meetingId);
       
-      // Reset or create processing job
-      await supabase
-        .from('processing_jobs')
-        .upsert({
-          meeting_id: meetingId,
-          status: 'pending',
-          step: null,
-          attempts: 0,
-          error: null,
-          started_at: null,
-          completed_at: null,
-        });
-      
       // Trigger the Edge Function
       console.log('[MeetingContext] Triggering Edge Function for retry...');
       const { data, error } = await supabase.functions.invoke('process-recording', {
@@ -403,17 +531,18 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
         console.error('[MeetingContext] Error retrying processing:', error);
         
         // Try to get more details from the error response
-        let errorMessage = error.message || 'Edge Function failed';
+        const errorData = await readFunctionErrorBody(error);
+        const errorMessage = typeof errorData?.error === 'string'
+          ? errorData.error
+          : error.message || 'Edge Function failed';
+        const jobStatus = errorData?.job_status;
         
-        if (error.name === 'FunctionsHttpError' && data) {
-          try {
-            const errorData = typeof data === 'string' ? JSON.parse(data) : data;
-            if (errorData?.error) {
-              errorMessage = errorData.error;
-            }
-          } catch {
-            // Ignore parse errors
-          }
+        // Only a job that has given up fails the meeting. A pending job is
+        // retried with backoff, and without a job status the attempt never
+        // started - either way the queue picks the meeting up again.
+        if (jobStatus !== 'failed' && jobStatus !== 'dead_letter') {
+          console.warn('[MeetingContext] Processing attempt failed, will be retried:', errorMessage);
+          return;
         }
         
         // Update meeting status to failed
@@ -435,6 +564,71 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     },
   });
 
+  // Process a meeting again with other settings. The run is saved as a new
+  // transcript version - earlier versions are kept.
+  const reprocessMeetingMutation = useMutation({
+    mutationFn: async ({
+      meetingId,
+      expectedSpeakers,
+      language,
+      vocabularyOverride,
+    }: {
+      meetingId: string;
+      expectedSpeakers: number;
+      language: string;
+      vocabularyOverride: string[] | null;
+    }): Promise<void> => {
+      if (!user?.id) throw new Error('Not authenticated');
+      console.log('[MeetingContext] Reprocessing meeting:', meetingId, { expectedSpeakers, language });
+      
+      const { error } = await supabase
+        .from('meetings')
+        .update({
+          expected_speakers: expectedSpeakers,
+          transcription_language: language,
+          vocabulary_override: vocabularyOverride,
+        })
+        .eq('id', meetingId)
+        .eq('user_id', user.id);
+      
+      if (error) {
+        console.error('[MeetingContext] Error saving reprocessing settings:', error.message);
+        throw new Error(error.message || 'Failed to save reprocessing settings');
+      }
+      
+      await retryProcessingMutation.mutateAsync(meetingId);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['transcriptVersions', variables.meetingId] });
+    },
+  });
+
+  // Make an earlier (or later) transcript version the one shown
+  const setCurrentTranscriptMutation = useMutation({
+    mutationFn: async ({
+      transcriptId,
+    }: {
+      transcriptId: string;
+      meetingId: string;
+    }): Promise<void> => {
+      console.log('[MeetingContext] Setting current transcript:', transcriptId);
+      
+      const { error } = await supabase.rpc('set_current_transcript', {
+        p_transcript_id: transcriptId,
+      });
+      
+      if (error) {
+        console.error('[MeetingContext] Error setting current transcript:', error.message);
+        throw new Error(error.message || 'Failed to switch transcript version');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+      queryClient.invalidateQueries({ queryKey: ['transcriptVersions', variables.meetingId] });
+    },
+  });
+
   // ============================================
   // BILLING
   // ============================================
@@ -493,10 +687,12 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
       meetingId,
       password,
       expiresAt,
+      redactedOnly = false,
     }: {
       meetingId: string;
       password?: string;
       expiresAt?: string;
+      redactedOnly?: boolean;
     }): Promise<MeetingShareLink> => {
       if (!user?.id) throw new Error('Not authenticated');
       console.log('[MeetingContext] Creating share link for meeting:', meetingId);
@@ -524,6 +720,7 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
           share_token: shareToken,
           password_hash: passwordHash,
           expires_at: expiresAt || null,
+          redacted_only: redactedOnly,
           is_active: true,
           view_count: 0,
         })
@@ -547,6 +744,7 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
         id: data.id,
         shareUrl,
         hasPassword: !!passwordHash,
+        redactedOnly: data.redacted_only,
         isActive: data.is_active,
         viewCount: data.view_count,
         lastViewedAt: data.last_viewed_at,
@@ -609,6 +807,144 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     },
   });
 
+  // ============================================
+  // BOOKMARKS
+  // ============================================
+
+  // Flag a moment in a meeting, usually while it is being recorded
+  const addBookmarkMutation = useMutation({
+    mutationFn: async ({
+      meetingId,
+      offsetMs,
+      label,
+    }: {
+      meetingId: string;
+      offsetMs: number;
+      label?: string | null;
+    }): Promise<MeetingBookmark> => {
+      if (!user?.id) throw new Error('Not authenticated');
+      console.log('[MeetingContext] Adding bookmark to meeting:', meetingId, 'at', offsetMs, 'ms');
+      
+      const { data, error } = await supabase
+        .from('meeting_bookmarks')
+        .insert({
+          meeting_id: meetingId,
+          user_id: user.id,
+          offset_ms: Math.max(0, Math.round(offsetMs)),
+          label: label?.trim() || null,
+        })
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('[MeetingContext] Error adding bookmark:', error.message);
+        throw new Error(error.message || 'Failed to add bookmark');
+      }
+      
+      return data as MeetingBookmark;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+    },
+  });
+
+  // Set or clear a bookmark's label
+  const updateBookmarkLabelMutation = useMutation({
+    mutationFn: async ({
+      bookmarkId,
+      label,
+    }: {
+      bookmarkId: string;
+      meetingId: string;
+      label: string | null;
+    }): Promise<void> => {
+      console.log('[MeetingContext] Updating bookmark label:', bookmarkId);
+      
+      const { error } = await supabase
+        .from('meeting_bookmarks')
+        .update({ label: label?.trim() || null })
+        .eq('id', bookmarkId);
+      
+      if (error) {
+        console.error('[MeetingContext] Error updating bookmark:', error.message);
+        throw new Error(error.message || 'Failed to update bookmark');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+    },
+  });
+
+  // Remove a bookmark
+  const deleteBookmarkMutation = useMutation({
+    mutationFn: async ({ bookmarkId }: { bookmarkId: string; meetingId: string }): Promise<void> => {
+      console.log('[MeetingContext] Deleting bookmark:', bookmarkId);
+      
+      const { error } = await supabase
+        .from('meeting_bookmarks')
+        .delete()
+        .eq('id', bookmarkId);
+      
+      if (error) {
+        console.error('[MeetingContext] Error deleting bookmark:', error.message);
+        throw new Error(error.message || 'Failed to delete bookmark');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+    },
+  });
+
+  // ============================================
+  // RECORDING CONSENT
+  // ============================================
+
+  // Log consent to record, captured before recording starts
+  const recordConsentMutation = useMutation({
+    mutationFn: async ({
+      meetingId,
+      method,
+      consentedBy,
+      statement,
+      jurisdiction,
+      consentedAt,
+    }: {
+      meetingId: string;
+      method: ConsentMethod;
+      consentedBy: string[];
+      statement: string | null;
+      jurisdiction: string | null;
+      consentedAt?: string;
+    }): Promise<MeetingConsent> => {
+      if (!user?.id) throw new Error('Not authenticated');
+      console.log('[MeetingContext] Recording', method, 'consent for meeting:', meetingId);
+      
+      const { data, error } = await supabase
+        .from('meeting_consents')
+        .insert({
+          meeting_id: meetingId,
+          user_id: user.id,
+          method,
+          consented_by: consentedBy.map((name) => name.trim()).filter(Boolean),
+          statement: statement?.trim() || null,
+          jurisdiction: jurisdiction?.trim() || null,
+          consented_at: consentedAt || new Date().toISOString(),
+        })
+        .select()
+        .single();
+      
+      if (error) {
+        console.error('[MeetingContext] Error recording consent:', error.message);
+        throw new Error(error.message || 'Failed to record consent');
+      }
+      
+      return data as MeetingConsent;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+    },
+  });
+
   // ============================================
   // SPEAKER FEEDBACK
   // ============================================
@@ -706,18 +1042,38 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
         throw new Error(meetingError.message || 'Failed to update speaker names');
       }
       
+      // Keep them with the current transcript version too, so they come back
+      // when switching versions and carry over when reprocessing
+      const { data: currentTranscript, error: transcriptError } = await supabase
+        .from('transcripts')
+        .update({ speaker_names: speakerNames })
+        .eq('meeting_id', meetingId)
+        .eq('is_current', true)
+        .select('id')
+        .maybeSingle();
+      
+      if (transcriptError) {
+        console.warn('[MeetingContext] Error saving speaker names on transcript:', transcriptError.message);
+      }
+      const currentTranscriptId: string | null = currentTranscript?.id ?? null;
+      
       // Optionally update transcript segments with new speaker names
       if (updateSegments) {
         console.log('[MeetingContext] Updating transcript segments with new speaker names...');
         
-        // Update each speaker label in the segments
+        // Update each speaker label in the current version's segments only -
+        // earlier versions keep the names they were saved with. Without a
+        // transcript, those are the live streaming results.
         for (const [oldLabel, newName] of Object.entries(speakerNames)) {
           if (oldLabel !== newName) {
-            const { error: segmentError } = await supabase
+            const segmentsQuery = supabase
               .from('transcript_segments')
               .update({ speaker: newName })
               .eq('meeting_id', meetingId)
               .eq('speaker', oldLabel);
+            const { error: segmentError } = currentTranscriptId
+              ? await segmentsQuery.eq('transcript_id', currentTranscriptId)
+              : await segmentsQuery.is('transcript_id', null);
             
             if (segmentError) {
               console.warn('[MeetingContext] Error updating segment for', oldLabel, ':', segmentError.message);
@@ -736,9 +1092,117 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     },
   });
 
+  // Rerun only the summary step, with the template of the given meeting type
+  // (null for the default template). The existing summary is kept if it fails.
+  const regenerateSummaryMutation = useMutation({
+    mutationFn: async ({
+      meetingId,
+      meetingTypeId,
+    }: {
+      meetingId: string;
+      meetingTypeId: string | null;
+    }): Promise<void> => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      console.log('[MeetingContext] Regenerating summary for meeting:', meetingId, 'with type:', meetingTypeId);
+
+      const { data, error } = await supabase.functions.invoke('regenerate-summary', {
+        body: { meeting_id: meetingId, meeting_type_id: meetingTypeId },
+      });
+
+      if (error) {
+        console.error('[MeetingContext] Error regenerating summary:', error.message);
+        throw new Error(error.message || 'Failed to regenerate summary');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to regenerate summary');
+      }
+
+      console.log('[MeetingContext] Summary regenerated');
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+      queryClient.invalidateQueries({ queryKey: ['openActionItems', user?.id] });
+    },
+  });
+
+  // Make a redacted copy of the meeting. The redact-transcript function
+  // returns straight away; useTranscriptRedactions follows its status.
+  const redactTranscriptMutation = useMutation({
+    mutationFn: async ({
+      meetingId,
+      policies,
+      includeAudio,
+    }: {
+      meetingId: string;
+      policies: PiiCategory[];
+      includeAudio: boolean;
+    }): Promise<void> => {
+      if (!user?.id) throw new Error('Not authenticated');
+
+      console.log('[MeetingContext] Redacting meeting:', meetingId, policies);
+
+      const { data, error } = await supabase.functions.invoke('redact-transcript', {
+        body: { meeting_id: meetingId, policies, include_audio: includeAudio },
+      });
+
+      if (error) {
+        console.error('[MeetingContext] Error redacting meeting:', error.message);
+        throw new Error(error.message || 'Failed to redact the meeting');
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to redact the meeting');
+      }
+
+      console.log('[MeetingContext] Redaction started:', data.redaction_id);
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['transcriptRedactions', variables.meetingId] });
+    },
+  });
+
+  // ============================================
+  // ACTION ITEMS
+  // ============================================
+
+  // Mark an action item done, or open again
+  const setActionItemStatusMutation = useMutation({
+    mutationFn: async ({
+      actionItemId,
+      status,
+    }: {
+      actionItemId: string;
+      meetingId: string;
+      status: ActionItemStatus;
+    }): Promise<void> => {
+      if (!user?.id) throw new Error('Not authenticated');
+      console.log('[MeetingContext] Setting action item', actionItemId, 'to', status);
+      
+      const { error } = await supabase
+        .from('action_items')
+        .update({
+          status,
+          completed_at: status === 'done' ? new Date().toISOString() : null,
+        })
+        .eq('id', actionItemId)
+        .eq('user_id', user.id);
+      
+      if (error) {
+        console.error('[MeetingContext] Error updating action item:', error.message);
+        throw new Error(error.message || 'Failed to update action item');
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', variables.meetingId] });
+      queryClient.invalidateQueries({ queryKey: ['openActionItems', user?.id] });
+    },
+  });
+
   return {
     // Meeting data
-    meetings: meetingsQuery.data || [],
+    meetings,
     isLoading: meetingsQuery.isLoading,
     isRefreshing: meetingsQuery.isRefetching,
     refetchMeetings: meetingsQuery.refetch,
@@ -759,6 +1223,12 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     isDeleting: deleteMeetingMutation.isPending,
     isRetrying: retryProcessingMutation.isPending,
     
+    // Transcript versions
+    reprocessMeeting: reprocessMeetingMutation.mutateAsync,
+    isReprocessing: reprocessMeetingMutation.isPending,
+    setCurrentTranscript: setCurrentTranscriptMutation.mutateAsync,
+    isSettingCurrentTranscript: setCurrentTranscriptMutation.isPending,
+    
     // Meeting types data
     meetingTypes: meetingTypesQuery.data || [],
     isMeetingTypesLoading: meetingTypesQuery.isLoading,
@@ -774,6 +1244,13 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     isUpdatingType: updateMeetingTypeMutation.isPending,
     isDeletingType: deleteMeetingTypeMutation.isPending,
     
+    // Custom vocabulary
+    vocabularyTerms: vocabularyQuery.data || [],
+    isVocabularyLoading: vocabularyQuery.isLoading,
+    addVocabularyTerm: addVocabularyTermMutation.mutateAsync,
+    deleteVocabularyTerm: deleteVocabularyTermMutation.mutateAsync,
+    isAddingVocabularyTerm: addVocabularyTermMutation.isPending,
+    
     // Billing actions
     updateMeetingBilling: updateMeetingBillingMutation.mutateAsync,
     isUpdatingBilling: updateMeetingBillingMutation.isPending,
@@ -788,6 +1265,14 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     isTogglingShare: toggleMeetingShareMutation.isPending,
     isDeletingShare: deleteMeetingShareMutation.isPending,
     
+    // Bookmark actions
+    addBookmark: addBookmarkMutation.mutateAsync,
+    updateBookmarkLabel: updateBookmarkLabelMutation.mutateAsync,
+    deleteBookmark: deleteBookmarkMutation.mutateAsync,
+    
+    // Consent actions
+    recordConsent: recordConsentMutation.mutateAsync,
+    
     // Speaker feedback actions
     submitSpeakerFeedback: submitSpeakerFeedbackMutation.mutateAsync,
     isSubmittingFeedback: submitSpeakerFeedbackMutation.isPending,
@@ -795,14 +1280,27 @@ export const [MeetingProvider, useMeetings] = createContextHook(() => {
     // Speaker names actions
     updateSpeakerNames: updateSpeakerNamesMutation.mutateAsync,
     isUpdatingSpeakerNames: updateSpeakerNamesMutation.isPending,
+    
+    // Summary regeneration actions
+    regenerateSummary: regenerateSummaryMutation.mutateAsync,
+    isRegeneratingSummary: regenerateSummaryMutation.isPending,
+    redactTranscript: redactTranscriptMutation.mutateAsync,
+    isRedactingTranscript: redactTranscriptMutation.isPending,
+    
+    // Action item actions
+    setActionItemStatus: setActionItemStatusMutation.mutateAsync,
   };
 });
 
+// Statuses the pipeline moves a meeting out of by itself
+const PROCESSING_STATUSES = ['uploading', 'queued', 'converting', 'transcribing'];
+
 // Hook to get a single meeting with all details
 export function useMeetingDetails(meetingId: string | null) {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   
-  return useQuery({
+  const query = useQuery({
     queryKey: ['meeting', meetingId, user?.id],
     queryFn: async (): Promise<MeetingWithDetails | null> => {
       if (!meetingId || !user?.id) return null;
@@ -821,19 +1319,69 @@ export function useMeetingDetails(meetingId: string | null) {
         return null;
       }
       
-      // Fetch transcript
+      // Fetch the current transcript version
       const { data: transcript } = await supabase
         .from('transcripts')
         .select('*')
         .eq('meeting_id', meetingId)
-        .single();
+        .eq('is_current', true)
+        .maybeSingle();
       
-      // Fetch transcript segments
-      const { data: segments } = await supabase
+      // Fetch its segments - live streaming results until there is one
+      let segmentsQuery = supabase
         .from('transcript_segments')
         .select('*')
+        .eq('meeting_id', meetingId);
+      segmentsQuery = transcript
+        ? segmentsQuery.eq('transcript_id', transcript.id)
+        : segmentsQuery.is('transcript_id', null);
+      const { data: segments } = await segmentsQuery.order('start_ms', { ascending: true });
+      
+      // Fetch bookmarks flagged while recording
+      const { data: bookmarks } = await supabase
+        .from('meeting_bookmarks')
+        .select('*')
         .eq('meeting_id', meetingId)
-        .order('start_ms', { ascending: true });
+        .order('offset_ms', { ascending: true });
+      
+      // Fetch parts recorded after the first (continued recordings)
+      const { data: parts } = await supabase
+        .from('meeting_recording_parts')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .order('recorded_at', { ascending: true });
+      
+      // Fetch consent captured before each recording
+      const { data: consents } = await supabase
+        .from('meeting_consents')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .order('consented_at', { ascending: true });
+      
+      // Fetch action items from the summary
+      const { data: actionItems } = await supabase
+        .from('action_items')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .order('created_at', { ascending: true });
+      
+      // Fetch entities extracted from the current transcript version
+      const { data: entities } = transcript
+        ? await supabase
+            .from('transcript_entities')
+            .select('*')
+            .eq('transcript_id', transcript.id)
+            .order('created_at', { ascending: true })
+        : { data: null };
+      
+      // Fetch chapters of the current transcript version
+      const { data: chapters } = transcript
+        ? await supabase
+            .from('meeting_chapters')
+            .select('*')
+            .eq('transcript_id', transcript.id)
+            .order('start_ms', { ascending: true })
+        : { data: null };
       
       // Fetch processing job
       const { data: processingJob } = await supabase
@@ -871,23 +1419,214 @@ export function useMeetingDetails(meetingId: string | null) {
         ...meeting,
         transcript: transcript || undefined,
         segments: segments || undefined,
+        bookmarks: bookmarks || undefined,
+        parts: parts || undefined,
+        consents: consents || undefined,
+        action_items: actionItems || undefined,
+        entities: entities || undefined,
+        chapters: chapters || undefined,
         processing_job: processingJob || undefined,
         meeting_type: meetingType,
         contact: contact,
       };
     },
     enabled: !!meetingId && !!user?.id,
-    // Poll while processing
+    // Changes arrive over Realtime while processing - this only catches up
+    // if the connection drops
     refetchInterval: (query) => {
-      const data = query.state.data;
-      const status = data?.status;
-      // Poll every 3 seconds while not ready or failed
-      if (status && !['ready', 'failed'].includes(status)) {
-        return 3000;
+      const status = query.state.data?.status;
+      if (status && PROCESSING_STATUSES.includes(status)) {
+        return 30000;
       }
       return false;
     },
   });
+  
+  const isProcessing = !!query.data && PROCESSING_STATUSES.includes(query.data.status);
+  
+  // Refetch when the pipeline changes the meeting or its job
+  useEffect(() => {
+    if (!meetingId || !user?.id || !isProcessing) return;
+    
+    const refetchMeeting = () => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', meetingId] });
+    };
+    
+    const channel = supabase
+      .channel(`meeting-status:${meetingId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'meetings', filter: `id=eq.${meetingId}` },
+        refetchMeeting
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'processing_jobs', filter: `meeting_id=eq.${meetingId}` },
+        refetchMeeting
+      )
+      .subscribe();
+    
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [meetingId, user?.id, isProcessing, queryClient]);
+  
+  return query;
+}
+
+// Hook to get the latest processing progress event for a meeting, kept
+// current over Realtime while enabled
+export function useProcessingProgress(meetingId: string | null, enabled: boolean) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => ['processingProgress', meetingId, user?.id], [meetingId, user?.id]);
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ProcessingEvent | null> => {
+      if (!meetingId || !user?.id) return null;
+      
+      const { data, error } = await supabase
+        .from('processing_events')
+        .select('*')
+        .eq('meeting_id', meetingId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching processing progress:', error.message);
+        return null;
+      }
+      
+      return data;
+    },
+    enabled: !!meetingId && !!user?.id && enabled,
+  });
+  
+  useEffect(() => {
+    if (!meetingId || !user?.id || !enabled) return;
+    
+    const channel = supabase
+      .channel(`processing-events:${meetingId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'processing_events', filter: `meeting_id=eq.${meetingId}` },
+        (payload) => {
+          const event = payload.new as ProcessingEvent;
+          console.log('[MeetingContext] Processing progress:', event.stage);
+          queryClient.setQueryData<ProcessingEvent | null>(queryKey, (current) =>
+            current && current.created_at > event.created_at ? current : event
+          );
+        }
+      )
+      .subscribe();
+    
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [meetingId, user?.id, enabled, queryClient, queryKey]);
+  
+  return query;
+}
+
+// Hook to get every transcript version of a meeting, newest first
+export function useTranscriptVersions(meetingId: string | null) {
+  const { user } = useAuth();
+  
+  return useQuery({
+    queryKey: ['transcriptVersions', meetingId],
+    queryFn: async (): Promise<TranscriptVersion[]> => {
+      if (!meetingId || !user?.id) return [];
+      console.log('[MeetingContext] Fetching transcript versions:', meetingId);
+      
+      const { data, error } = await supabase
+        .from('transcripts')
+        .select('id, meeting_id, version, is_current, parameters, speaker_names, summary_status, created_at')
+        .eq('meeting_id', meetingId)
+        .order('version', { ascending: false });
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching transcript versions:', error.message);
+        return [];
+      }
+      
+      return data || [];
+    },
+    enabled: !!meetingId && !!user?.id,
+  });
+}
+
+// Hook to get the segments of one transcript version, for comparing
+export function useTranscriptVersionSegments(transcriptId: string | null) {
+  const { user } = useAuth();
+  
+  return useQuery({
+    queryKey: ['transcriptVersionSegments', transcriptId],
+    queryFn: async (): Promise<TranscriptSegment[]> => {
+      if (!transcriptId || !user?.id) return [];
+      
+      const { data, error } = await supabase
+        .from('transcript_segments')
+        .select('*')
+        .eq('transcript_id', transcriptId)
+        .order('start_ms', { ascending: true });
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching version segments:', error.message);
+        return [];
+      }
+      
+      return data || [];
+    },
+    enabled: !!transcriptId && !!user?.id,
+  });
+}
+
+// Hook to get a meeting's redacted copies, newest first. Checks again every
+// few seconds while one is being made.
+export function useTranscriptRedactions(meetingId: string | null) {
+  const { user } = useAuth();
+  
+  return useQuery({
+    queryKey: ['transcriptRedactions', meetingId],
+    queryFn: async (): Promise<TranscriptRedaction[]> => {
+      if (!meetingId || !user?.id) return [];
+      console.log('[MeetingContext] Fetching redactions:', meetingId);
+      
+      const { data, error } = await supabase
+        .from('transcript_redactions')
+        .select('id, meeting_id, user_id, policies, include_audio, status, full_text, segments, summary, summary_sections, summary_status, audio_path, error_message, created_at, completed_at')
+        .eq('meeting_id', meetingId)
+        .order('created_at', { ascending: false });
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching redactions:', error.message);
+        return [];
+      }
+      
+      return data || [];
+    },
+    enabled: !!meetingId && !!user?.id,
+    refetchInterval: (query) =>
+      query.state.data?.some((redaction) => redaction.status === 'processing') ? 5000 : false,
+  });
+}
+
+// Helper: Link to a redaction's bleeped audio (valid for an hour)
+export async function getRedactedAudioUrl(redaction: TranscriptRedaction): Promise<string | null> {
+  if (!redaction.audio_path) return null;
+  
+  const { data, error } = await supabase.storage
+    .from('meeting-audio')
+    .createSignedUrl(redaction.audio_path, 3600);
+  
+  if (error) {
+    console.error('[MeetingContext] Error signing redacted audio URL:', error.message);
+    return null;
+  }
+  
+  return data?.signedUrl || null;
 }
 
 // Hook to get all share links for a meeting
@@ -918,6 +1657,7 @@ export function useMeetingShares(meetingId: string | null) {
         id: share.id,
         shareUrl: `${viewerUrl}?token=${share.share_token}`,
         hasPassword: !!share.password_hash,
+        redactedOnly: share.redacted_only,
         isActive: share.is_active,
         viewCount: share.view_count,
         lastViewedAt: share.last_viewed_at,
@@ -931,3 +1671,37 @@ export function useMeetingShares(meetingId: string | null) {
     enabled: !!meetingId && !!user?.id,
   });
 }
+
+// Hook to get open action items across all meetings, soonest due first
+export function useOpenActionItems() {
+  const { user } = useAuth();
+  
+  return useQuery({
+    queryKey: ['openActionItems', user?.id],
+    queryFn: async (): Promise<ActionItemWithMeeting[]> => {
+      if (!user?.id) return [];
+      console.log('[MeetingContext] Fetching open action items...');
+      
+      const { data, error } = await supabase
+        .from('action_items')
+        .select(`
+          *,
+          meeting:meetings(id, title, created_at, contact_id),
+          contact:contacts(id, first_name, last_name)
+        `)
+        .eq('user_id', user.id)
+        .eq('status', 'open')
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false });
+      
+      if (error) {
+        console.error('[MeetingContext] Error fetching action items:', error.message);
+        return [];
+      }
+      
+      console.log('[MeetingContext] Fetched', data?.length, 'open action items');
+      return data || [];
+    },
+    enabled: !!user?.id,
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * UploadQueueContext
+ *
+ * Drives the persistent audio upload queue (lib/upload-queue) from the app
+ * lifecycle and exposes per-meeting upload progress to screens.
+ *
+ * Features:
+ * - Resumes queued uploads on launch and whenever the app returns to the foreground
+ * - Wakes up when the next backed-off retry is due
+ * - Refreshes meeting queries once an upload has queued its meeting
+ *
+ * Usage:
+ * - Wrap app with UploadQueueProvider (inside AuthProvider)
+ * - Use useUploadQueue().getUpload(meetingId) for progress
+ */
+
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import {
+  processUploadQueue,
+  retryUploadNow,
+  getUploadTasks,
+  getNextAttemptAt,
+  subscribeToUploadQueue,
+  subscribeToUploadComplete,
+  type UploadTask,
+} from '@/lib/upload-queue';
+
+const LOG_PREFIX = '[UploadQueue]';
+
+// Upper bound between queue runs while uploads are waiting to retry
+const MAX_WAKE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Upload progress for a single meeting
+ */
+export interface UploadProgress {
+  task: UploadTask;
+  /** 0-1 fraction of bytes acknowledged by storage */
+  progress: number;
+  isWaitingToRetry: boolean;
+}
+
+interface UploadQueueState {
+  uploads: UploadTask[];
+  hasPendingUploads: boolean;
+  getUpload: (meetingId: string | null | undefined) => UploadProgress | null;
+  retryUpload: (meetingId: string) => Promise<void>;
+}
+
+export const [UploadQueueProvider, useUploadQueue] = createContextHook(() => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const appStateRef = useRef<AppStateStatus>(AppState.currentState);
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
+
+  // ============================================
+  // QUEUE SUBSCRIPTIONS
+  // ============================================
+
+  useEffect(() => {
+    getUploadTasks().then(setUploads);
+
+    const unsubscribeQueue = subscribeToUploadQueue(setUploads);
+    const unsubscribeComplete = subscribeToUploadComplete((meetingId) => {
+      console.log(`${LOG_PREFIX} Upload finished, refreshing meeting ${meetingId}`);
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+      queryClient.invalidateQueries({ queryKey: ['meeting', meetingId] });
+    });
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeComplete();
+    };
+  }, [queryClient]);
+
+  // Start uploading as soon as we have a signed-in user
+  useEffect(() => {
+    if (user?.id) {
+      processUploadQueue();
+    }
+  }, [user?.id]);
+
+  // ============================================
+  // RETRY TIMER - Wake up when the next retry is due
+  // ============================================
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const nextAttemptAt = getNextAttemptAt();
+    if (nextAttemptAt === null) return;
+
+    const delay = Math.min(Math.max(nextAttemptAt - Date.now(), 0), MAX_WAKE_INTERVAL_MS);
+    const timer = setTimeout(() => {
+      processUploadQueue();
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [uploads, user?.id]);
+
+  // ============================================
+  // APP STATE LISTENER - Resume on foreground
+  // ============================================
+
+  useEffect(() => {
+    const handleAppStateChange = (nextAppState: AppStateStatus) => {
+      // Network often changes while backgrounded, so retry right away
+      if (
+        appStateRef.current.match(/inactive|background/) &&
+        nextAppState === 'active'
+      ) {
+        console.log(`${LOG_PREFIX} App became active, resuming uploads...`);
+        processUploadQueue();
+      }
+      appStateRef.current = nextAppState;
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  // ============================================
+  // ACTIONS
+  // ============================================
+
+  const getUpload = useCallback((meetingId: string | null | undefined): UploadProgress | null => {
+    const task = meetingId ? uploads.find((t) => t.meetingId === meetingId) : undefined;
+    if (!task) return null;
+
+    return {
+      task,
+      progress: task.totalBytes > 0 ? Math.min(task.bytesUploaded / task.totalBytes, 1) : 0,
+      isWaitingToRetry: task.status === 'pending' && task.attempts > 0,
+    };
+  }, [uploads]);
+
+  const retryUpload = useCallback(async (meetingId: string) => {
+    console.log(`${LOG_PREFIX} Manual retry for ${meetingId}`);
+    await retryUploadNow(meetingId);
+  }, []);
+
+  // ============================================
+  // RETURN STATE
+  // ============================================
+
+  return {
+    uploads,
+    hasPendingUploads: uploads.length > 0,
+    getUpload,
+    retryUpload,
+  } satisfies UploadQueueState;
+});
@@ -10,72 +10,145 @@
  * - Auth: token query parameter (no auth message needed)
  * - Audio: Raw binary PCM chunks (not JSON wrapped)
  * - Messages: Begin, Turn, Termination
+ * 
+ * If the socket drops mid-recording, it reconnects with a fresh token and
+ * replays the audio captured meanwhile. Capture and the on-disk journal never
+ * depend on the socket.
+ * 
+ * Offline meetings (lib/offline-meetings) are recorded without a socket at
+ * all and transcribed by batch processing once the upload queue gets through.
+ * 
+ * Recording can be continued into a meeting that already has audio. The new
+ * audio is uploaded as another part, which process-recording stitches after
+ * the earlier ones.
  */
 
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Platform, PermissionsAndroid } from "react-native";
 import LiveAudioStream from "react-native-live-audio-stream";
 import { File, Paths } from "expo-file-system";
+import * as Crypto from "expo-crypto";
 import { supabase, getAssemblyToken, getFunctionsAuthStatus } from "@/lib/supabase";
+import {
+  base64ToUint8Array,
+  createWavHeader,
+  openJournal,
+  appendToJournal,
+  closeJournal,
+  finalizeJournal,
+  getCompressedJournal,
+  type RecordingJournal,
+} from "@/lib/recording-journal";
+import { enqueueUpload, type EnqueueUploadParams } from "@/lib/upload-queue";
+import { updateOfflineMeeting } from "@/lib/offline-meetings";
+import { fetchMeetingVocabulary } from "@/lib/vocabulary";
+import {
+  measureChannelLevels,
+  toMeterLevel,
+  createAudioQualityMonitor,
+  updateAudioQuality,
+  buildChannelQualityReport,
+  appendAudioQualityReport,
+  type AudioQualityMonitor,
+  type AudioQualityWarning,
+} from "@/lib/audio-levels";
 import { 
   ASSEMBLYAI_STREAMING_CONFIG, 
   LIVE_AUDIO_CONFIG,
+  PHONE_CALL_AUDIO_CONFIG,
+  STREAMING_RECONNECT_CONFIG,
   type AssemblyAIV3Message,
   type AssemblyAIV3Begin,
   type AssemblyAIV3Turn,
   type AssemblyAIV3Termination,
 } from "@/lib/audio-config";
-import type { TranscriptTurn } from "@/types";
+import type { DataRegion, RecordingMode, TranscriptTurn } from "@/types";
 
 // Debug logging prefix
 const LOG_PREFIX = "[useLiveAudioStream]";
 
 // Configuration
 const SAMPLE_RATE = ASSEMBLYAI_STREAMING_CONFIG.SAMPLE_RATE;
-const WS_URL = ASSEMBLYAI_STREAMING_CONFIG.WS_URL;
+const WS_URLS: Record<DataRegion, string> = {
+  us: ASSEMBLYAI_STREAMING_CONFIG.WS_URL,
+  eu: ASSEMBLYAI_STREAMING_CONFIG.WS_URL_EU,
+};
+const MAX_BACKFILL_MS = STREAMING_RECONNECT_CONFIG.MAX_BACKFILL_SECONDS * 1000;
+const MAX_UNCONFIRMED_MS = STREAMING_RECONNECT_CONFIG.MAX_UNCONFIRMED_SECONDS * 1000;
+// Buffers closer than this (float rounding of chunk durations) are contiguous
+const CONTIGUITY_TOLERANCE_MS = 1;
 
 /**
- * Decode base64 string to Uint8Array
+ * PCM chunks held for (re)sending to the streaming socket.
+ * startMs is the recording offset of the first chunk.
  */
-function base64ToUint8Array(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+interface BufferedAudio {
+  chunks: Uint8Array[];
+  startMs: number;
+  durationMs: number;
+}
+
+function createBufferedAudio(): BufferedAudio {
+  return { chunks: [], startMs: 0, durationMs: 0 };
+}
+
+function getChunkDurationMs(chunk: Uint8Array): number {
+  return (chunk.length / 2 / SAMPLE_RATE) * 1000;
+}
+
+/**
+ * Remove and return the oldest chunk
+ */
+function shiftBufferedAudio(buffer: BufferedAudio): Uint8Array | undefined {
+  const chunk = buffer.chunks.shift();
+  if (chunk) {
+    const chunkMs = getChunkDurationMs(chunk);
+    buffer.startMs += chunkMs;
+    buffer.durationMs -= chunkMs;
   }
-  return bytes;
+  return chunk;
 }
 
 /**
- * Create WAV header as Uint8Array
+ * Append a chunk, dropping the oldest audio beyond maxMs
  */
-function createWavHeader(dataLength: number, sampleRate: number, channels: number, bitsPerSample: number): Uint8Array {
-  const header = new Uint8Array(44);
-  const view = new DataView(header.buffer);
-  
-  const byteRate = sampleRate * channels * (bitsPerSample / 8);
-  const blockAlign = channels * (bitsPerSample / 8);
-  
-  // "RIFF" chunk descriptor
-  view.setUint32(0, 0x52494646, false); // "RIFF"
-  view.setUint32(4, 36 + dataLength, true); // File size - 8
-  view.setUint32(8, 0x57415645, false); // "WAVE"
-  
-  // "fmt " sub-chunk
-  view.setUint32(12, 0x666d7420, false); // "fmt "
-  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
-  view.setUint16(22, channels, true); // NumChannels
-  view.setUint32(24, sampleRate, true); // SampleRate
-  view.setUint32(28, byteRate, true); // ByteRate
-  view.setUint16(32, blockAlign, true); // BlockAlign
-  view.setUint16(34, bitsPerSample, true); // BitsPerSample
-  
-  // "data" sub-chunk
-  view.setUint32(36, 0x64617461, false); // "data"
-  view.setUint32(40, dataLength, true); // Subchunk2Size
-  
-  return header;
+function pushBufferedAudio(buffer: BufferedAudio, chunk: Uint8Array, chunkStartMs: number, maxMs: number): void {
+  if (buffer.chunks.length === 0) {
+    buffer.startMs = chunkStartMs;
+    buffer.durationMs = 0;
+  }
+  buffer.chunks.push(chunk);
+  buffer.durationMs += getChunkDurationMs(chunk);
+
+  while (buffer.durationMs > maxMs && buffer.chunks.length > 1) {
+    shiftBufferedAudio(buffer);
+  }
+}
+
+/**
+ * Drop chunks that end at or before the given recording offset
+ */
+function trimBufferedAudio(buffer: BufferedAudio, beforeMs: number): void {
+  while (buffer.chunks.length > 0 && buffer.startMs + getChunkDurationMs(buffer.chunks[0]) <= beforeMs) {
+    shiftBufferedAudio(buffer);
+  }
+}
+
+/**
+ * Average interleaved multichannel PCM down to mono, for live transcription
+ */
+function downmixToMono(pcm: Uint8Array, channels: number): Uint8Array {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const frameCount = Math.floor(samples.length / channels);
+  const mono = new Int16Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += samples[i * channels + c];
+    }
+    mono[i] = Math.round(sum / channels);
+  }
+  return new Uint8Array(mono.buffer);
 }
 
 /**
@@ -83,7 +156,7 @@ function createWavHeader(dataLength: number, sampleRate: number, channels: numbe
  * Uses new expo-file-system File API (v19+)
  * @returns The File instance for the saved WAV file
  */
-async function saveAudioChunksToWavFile(chunks: string[], meetingId: string): Promise<File> {
+async function saveAudioChunksToWavFile(chunks: string[], meetingId: string, channels: number): Promise<File> {
   console.log(`${LOG_PREFIX} Saving ${chunks.length} audio chunks to WAV file...`);
   
   // 1. Decode all base64 chunks to byte arrays
@@ -107,7 +180,7 @@ async function saveAudioChunksToWavFile(chunks: string[], meetingId: string): Pr
   }
   
   // 2. Create WAV header
-  const wavHeader = createWavHeader(totalDataLength, SAMPLE_RATE, 1, 16);
+  const wavHeader = createWavHeader(totalDataLength, SAMPLE_RATE, channels, 16);
   
   // 3. Combine header + all audio data into single buffer
   const totalSize = wavHeader.length + totalDataLength;
@@ -148,12 +221,17 @@ export interface LiveAudioStreamState {
   // Connection state
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting: boolean;          // Socket dropped mid-recording, recording continues
   sessionId: string | null;
   
   // Transcript state
   turns: TranscriptTurn[];
   currentPartial: string;
   
+  // Input level state
+  inputLevel: number;               // 0-1 meter position of the latest buffer
+  qualityWarning: AudioQualityWarning | null;
+  
   // Permission state
   hasPermission: boolean;
   
@@ -161,11 +239,27 @@ export interface LiveAudioStreamState {
   error: string | null;
 }
 
+/**
+ * Options for starting a recording
+ */
+export interface StartRecordingOptions {
+  /** Meeting only exists on the device - record without live transcription */
+  offline?: boolean;
+  /** Meeting already has audio - record another part of it */
+  newPart?: boolean;
+  /** Where the new part starts in the meeting's timeline, for saved segments */
+  startOffsetMs?: number;
+  /** Meeting's transcription language - 'auto' detects it (default: en) */
+  language?: string;
+  /** 'phone_call' captures two channels - see PHONE_CALL_AUDIO_CONFIG */
+  recordingMode?: RecordingMode;
+}
+
 /**
  * Actions returned by the hook
  */
 export interface LiveAudioStreamActions {
-  startRecording: (meetingId: string) => Promise<void>;
+  startRecording: (meetingId: string, options?: StartRecordingOptions) => Promise<void>;
   stopRecording: () => Promise<void>;
   pauseRecording: () => void;
   resumeRecording: () => void;
@@ -177,18 +271,6 @@ export interface LiveAudioStreamActions {
  */
 export type UseLiveAudioStreamReturn = LiveAudioStreamState & LiveAudioStreamActions;
 
-/**
- * Convert base64 to ArrayBuffer for binary WebSocket sending
- */
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
-}
-
 /**
  * Custom hook for live audio streaming with real-time transcription (v3 API)
  */
@@ -201,12 +283,17 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
   // Connection state
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   
   // Transcript state
   const [turns, setTurns] = useState<TranscriptTurn[]>([]);
   const [currentPartial, setCurrentPartial] = useState("");
   
+  // Input level state
+  const [inputLevel, setInputLevel] = useState(0);
+  const [qualityWarning, setQualityWarning] = useState<AudioQualityWarning | null>(null);
+  
   // Permission state
   const [hasPermission, setHasPermission] = useState(false);
   
@@ -221,9 +308,36 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
   const isStreamingRef = useRef(false);
   const currentTurnRef = useRef<string>("");
   
-  // Audio chunk collection for post-recording batch processing
+  // Streaming reconnect - audio is buffered while the socket is down and replayed
+  const capturedAudioMsRef = useRef(0);            // Recording offset of the next chunk
+  const sessionOffsetMsRef = useRef(0);            // Recording offset where the current session's audio starts
+  const unsentAudioRef = useRef<BufferedAudio>(createBufferedAudio());
+  const unconfirmedAudioRef = useRef<BufferedAudio>(createBufferedAudio());  // Sent, not yet in a final turn
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const backfillTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleReconnectRef = useRef<() => void>(() => {});
+  
+  // On-disk journal for post-recording batch processing (survives crashes)
+  const journalRef = useRef<RecordingJournal | null>(null);
+  // In-memory fallback, only used if the journal couldn't be opened
   const audioChunksRef = useRef<string[]>([]);
   const userIdRef = useRef<string | null>(null);
+  const isOfflineRef = useRef(false);
+  // Set while recording another part of an existing meeting
+  const partRef = useRef<{ id: string; recordedAt: string; startOffsetMs: number } | null>(null);
+  // Custom vocabulary sent as keyterms, kept for reconnects
+  const keytermsRef = useRef<string[]>([]);
+  // Meeting language, and the latest language reported by detection
+  const languageRef = useRef<string>(ASSEMBLYAI_STREAMING_CONFIG.LANGUAGE);
+  const detectedLanguageRef = useRef<{ code: string; confidence: number } | null>(null);
+  // Captured channels - 2 for phone calls, downmixed before streaming
+  const channelsRef = useRef(1);
+  // Data region from the last token - picks the streaming endpoint
+  const dataRegionRef = useRef<DataRegion | null>(null);
+  // Silence/clipping tracking for the meeting's audio quality report, per
+  // captured channel
+  const qualityMonitorsRef = useRef<AudioQualityMonitor[]>([createAudioQualityMonitor()]);
 
   /**
    * Request microphone permission
@@ -301,9 +415,11 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     console.log(`${LOG_PREFIX} Token received:`, {
       tokenLength: data.token.length,
       wsUrl: data.websocket_url,
+      dataRegion: data.data_region,
       apiVersion: data.api_version,
     });
     
+    dataRegionRef.current = data.data_region === "eu" ? "eu" : "us";
     return data.token;
   }, []);
 
@@ -326,6 +442,14 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       word_count: turn.words?.length,
     });
 
+    // Only sent when language detection is on - the latest turn wins
+    if (turn.end_of_turn && turn.language_code) {
+      detectedLanguageRef.current = {
+        code: turn.language_code,
+        confidence: turn.language_confidence ?? 0,
+      };
+    }
+
     // Update current partial with transcript
     if (turn.transcript && !turn.end_of_turn) {
       setCurrentPartial(turn.transcript);
@@ -342,12 +466,14 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       // v3 doesn't have speaker diarization in streaming yet
       // We'll use turn_order to simulate different speakers for now
 
+      // Word times are relative to this session - shift them onto the recording timeline
+      const sessionOffsetMs = sessionOffsetMsRef.current;
       const newTurn: TranscriptTurn = {
         id: generateTurnId(),
         speaker,
         text,
-        startMs: turn.words?.[0]?.start ?? 0,
-        endMs: turn.words?.[turn.words.length - 1]?.end ?? 0,
+        startMs: sessionOffsetMs + (turn.words?.[0]?.start ?? 0),
+        endMs: sessionOffsetMs + (turn.words?.[turn.words.length - 1]?.end ?? 0),
         confidence: turn.end_of_turn_confidence,
         isFinal: true,
       };
@@ -378,17 +504,21 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       // Clear partial after receiving final
       setCurrentPartial("");
       currentTurnRef.current = "";
+      
+      // Audio up to the end of this turn no longer needs replaying after a reconnect
+      trimBufferedAudio(unconfirmedAudioRef.current, newTurn.endMs);
 
-      // Save to database (fire and forget)
+      // Save to database (fire and forget), placed after any earlier parts
       if (meetingIdRef.current) {
+        const partOffsetMs = partRef.current?.startOffsetMs ?? 0;
         supabase
           .from("transcript_segments")
           .insert({
             meeting_id: meetingIdRef.current,
             speaker: newTurn.speaker,
             text: newTurn.text,
-            start_ms: newTurn.startMs,
-            end_ms: newTurn.endMs,
+            start_ms: newTurn.startMs + partOffsetMs,
+            end_ms: newTurn.endMs + partOffsetMs,
             confidence: newTurn.confidence,
             is_streaming_result: true,
           })
@@ -451,10 +581,20 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
    */
   const connectWebSocket = useCallback(async (token: string): Promise<WebSocket> => {
     return new Promise((resolve, reject) => {
-      // Build v3 WebSocket URL with token in query params
-      const wsUrl = `${WS_URL}?sample_rate=${SAMPLE_RATE}&token=${encodeURIComponent(token)}`;
+      // Build v3 WebSocket URL with token (and custom vocabulary) in query params.
+      // Anything but English uses the multilingual model with language detection.
+      const keyterms = keytermsRef.current;
+      const keytermsParam = keyterms.length > 0
+        ? `&keyterms_prompt=${encodeURIComponent(JSON.stringify(keyterms))}`
+        : "";
+      const language = languageRef.current;
+      const languageParam = language !== ASSEMBLYAI_STREAMING_CONFIG.LANGUAGE
+        ? `&speech_model=${ASSEMBLYAI_STREAMING_CONFIG.MULTILINGUAL_SPEECH_MODEL}&language_detection=true`
+        : "";
+      const baseUrl = WS_URLS[dataRegionRef.current ?? "us"];
+      const wsUrl = `${baseUrl}?sample_rate=${SAMPLE_RATE}${languageParam}${keytermsParam}&token=${encodeURIComponent(token)}`;
       console.log(`${LOG_PREFIX} Connecting to AssemblyAI v3...`);
-      console.log(`${LOG_PREFIX} URL: ${WS_URL}?sample_rate=${SAMPLE_RATE}&token=***`);
+      console.log(`${LOG_PREFIX} URL: ${baseUrl}?sample_rate=${SAMPLE_RATE}${languageParam}&token=*** (${keyterms.length} keyterms, language: ${language})`);
       
       setIsConnecting(true);
       const ws = new WebSocket(wsUrl);
@@ -501,13 +641,150 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       ws.onclose = (event) => {
         console.log(`${LOG_PREFIX} WebSocket closed:`, event.code, event.reason);
         clearTimeout(connectionTimeout);
+        
+        // Ignore sockets that were replaced or never became active
+        if (wsRef.current !== ws) return;
+        
         setIsConnected(false);
         setIsConnecting(false);
         wsRef.current = null;
+        
+        // Dropped mid-recording - keep recording and reconnect in the background
+        if (isStreamingRef.current) {
+          scheduleReconnectRef.current();
+        }
       };
     });
   }, [handleWebSocketMessage]);
 
+  /**
+   * Send a chunk to the streaming socket
+   * @returns false if the socket isn't open or the send failed
+   */
+  const sendToSocket = useCallback((chunk: Uint8Array, chunkStartMs: number): boolean => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    
+    try {
+      // v3 API: Send raw binary audio, not JSON
+      ws.send(chunk.buffer);
+    } catch (err) {
+      console.error(`${LOG_PREFIX} Error sending audio:`, err);
+      return false;
+    }
+    
+    pushBufferedAudio(unconfirmedAudioRef.current, chunk, chunkStartMs, MAX_UNCONFIRMED_MS);
+    return true;
+  }, []);
+
+  /**
+   * Replay buffered audio to the socket faster than real time.
+   * Live chunks queue behind the backlog until it drains.
+   */
+  const drainUnsentAudio = useCallback(() => {
+    if (backfillTimerRef.current) return;
+    
+    const sendNext = () => {
+      backfillTimerRef.current = null;
+      const unsent = unsentAudioRef.current;
+      const chunk = unsent.chunks[0];
+      if (!chunk) {
+        console.log(`${LOG_PREFIX} Backfill complete`);
+        return;
+      }
+      
+      // Leave the rest for the next reconnect if the socket is gone
+      if (!sendToSocket(chunk, unsent.startMs)) return;
+      shiftBufferedAudio(unsent);
+      
+      backfillTimerRef.current = setTimeout(
+        sendNext,
+        getChunkDurationMs(chunk) / STREAMING_RECONNECT_CONFIG.BACKFILL_SPEED,
+      );
+    };
+    
+    console.log(`${LOG_PREFIX} Backfilling ${Math.round(unsentAudioRef.current.durationMs)}ms of audio`);
+    sendNext();
+  }, [sendToSocket]);
+
+  /**
+   * Reopen the streaming socket with a fresh token, backing off between attempts
+   */
+  const scheduleReconnect = useCallback(() => {
+    if (!isStreamingRef.current || reconnectTimerRef.current) return;
+    
+    const attempt = reconnectAttemptRef.current;
+    const delay = Math.min(
+      STREAMING_RECONNECT_CONFIG.INITIAL_DELAY_MS * Math.pow(2, attempt),
+      STREAMING_RECONNECT_CONFIG.MAX_DELAY_MS,
+    );
+    reconnectAttemptRef.current = attempt + 1;
+    setIsReconnecting(true);
+    
+    console.log(`${LOG_PREFIX} Reconnecting in ${delay}ms (attempt ${attempt + 1})`);
+    
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      if (!isStreamingRef.current) return;
+      
+      try {
+        const token = await getAssemblyAIToken();
+        if (!isStreamingRef.current) return;
+        
+        const ws = await connectWebSocket(token);
+        if (!isStreamingRef.current) {
+          ws.close();
+          return;
+        }
+        
+        // Replay what the old session never finalized, then what it never
+        // received. The two only join up if none of the backlog was trimmed -
+        // otherwise just the backlog is replayed, so the session offset still
+        // matches the recording.
+        const unconfirmed = unconfirmedAudioRef.current;
+        const unsent = unsentAudioRef.current;
+        const gapMs = unsent.startMs - (unconfirmed.startMs + unconfirmed.durationMs);
+        const isContiguous = unconfirmed.chunks.length === 0
+          || unsent.chunks.length === 0
+          || Math.abs(gapMs) < CONTIGUITY_TOLERANCE_MS;
+        if (!isContiguous) {
+          console.warn(`${LOG_PREFIX} ${Math.round(gapMs)}ms of backlog was trimmed, replaying from ${Math.round(unsent.startMs)}ms`);
+        }
+        
+        const replay: BufferedAudio = createBufferedAudio();
+        for (const buffer of isContiguous ? [unconfirmed, unsent] : [unsent]) {
+          let offsetMs = buffer.startMs;
+          for (const chunk of buffer.chunks) {
+            pushBufferedAudio(replay, chunk, offsetMs, MAX_BACKFILL_MS);
+            offsetMs += getChunkDurationMs(chunk);
+          }
+        }
+        unsentAudioRef.current = replay;
+        unconfirmedAudioRef.current = createBufferedAudio();
+        sessionOffsetMsRef.current = replay.chunks.length > 0 ? replay.startMs : capturedAudioMsRef.current;
+        
+        // The old session's partial will be re-transcribed from the replay
+        setCurrentPartial("");
+        currentTurnRef.current = "";
+        
+        wsRef.current = ws;
+        reconnectAttemptRef.current = 0;
+        setIsReconnecting(false);
+        setError(null);
+        
+        console.log(`${LOG_PREFIX} Reconnected, session offset ${Math.round(sessionOffsetMsRef.current)}ms`);
+        drainUnsentAudio();
+      } catch (err) {
+        console.warn(`${LOG_PREFIX} Reconnect failed:`, err);
+        scheduleReconnectRef.current();
+      }
+    }, delay);
+  }, [getAssemblyAIToken, connectWebSocket, drainUnsentAudio]);
+
+  useEffect(() => {
+    scheduleReconnectRef.current = scheduleReconnect;
+  }, [scheduleReconnect]);
+
   /**
    * Handle incoming audio data from LiveAudioStream
    */
@@ -515,103 +792,125 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     // data is base64 encoded PCM audio
     if (!isStreamingRef.current || isPaused) return;
     
-    // Save audio chunk for post-recording batch processing (speaker diarization)
-    audioChunksRef.current.push(data);
+    const captured = base64ToUint8Array(data);
+    const channels = channelsRef.current;
+    const bytes = channels > 1 ? downmixToMono(captured, channels) : captured;
+    const chunkStartMs = capturedAudioMsRef.current;
+    const chunkMs = getChunkDurationMs(bytes);
+    capturedAudioMsRef.current += chunkMs;
     
-    const ws = wsRef.current;
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      // v3 API: Send raw binary audio, not JSON
+    // Measure input level and check for silence/clipping on each channel
+    // before the downmix - averaging would hide one side of a call going
+    // quiet and soften the other side's clipping
+    const channelLevels = measureChannelLevels(captured, channels);
+    const warnings = channelLevels.map((levels, channel) => updateAudioQuality(
+      qualityMonitorsRef.current[channel],
+      levels,
+      Math.floor(bytes.length / 2),
+      chunkMs,
+    ));
+    setInputLevel(toMeterLevel(Math.max(...channelLevels.map((levels) => levels.rms))));
+    setQualityWarning(warnings.find((warning) => warning !== null) ?? null);
+    
+    // Save audio chunk for post-recording batch processing (speaker diarization)
+    const journal = journalRef.current;
+    if (journal) {
       try {
-        const audioBuffer = base64ToArrayBuffer(data);
-        ws.send(audioBuffer);
+        appendToJournal(journal, captured);
       } catch (err) {
-        console.error(`${LOG_PREFIX} Error sending audio:`, err);
+        console.error(`${LOG_PREFIX} Journal write failed, buffering in memory:`, err);
+        audioChunksRef.current.push(data);
       }
+    } else {
+      audioChunksRef.current.push(data);
+    }
+    
+    // Stream live unless a backlog is still replaying. Anything not sent is
+    // buffered for the next session - the journal above is unaffected.
+    const isBackfilling = unsentAudioRef.current.chunks.length > 0;
+    if (isBackfilling || !sendToSocket(bytes, chunkStartMs)) {
+      pushBufferedAudio(unsentAudioRef.current, bytes, chunkStartMs, MAX_BACKFILL_MS);
     }
-  }, [isPaused]);
+  }, [isPaused, sendToSocket]);
 
   /**
    * Upload audio and trigger batch processing for speaker diarization
    */
-  const uploadAudioAndTriggerProcessing = useCallback(async (meetingId: string, userId: string): Promise<void> => {
+  const uploadAudioAndTriggerProcessing = useCallback(async (
+    meetingId: string,
+    userId: string,
+    journal: RecordingJournal | null,
+    part: Pick<EnqueueUploadParams, "partId" | "durationSeconds" | "recordedAt"> = {},
+  ): Promise<void> => {
     const chunks = audioChunksRef.current;
+    const channels = channelsRef.current;
+    audioChunksRef.current = [];
     
-    if (chunks.length === 0) {
+    if (!journal && chunks.length === 0) {
       console.log(`${LOG_PREFIX} No audio chunks to upload`);
       return;
     }
     
     console.log(`${LOG_PREFIX} ========================================`);
     console.log(`${LOG_PREFIX} Starting post-recording batch processing`);
-    console.log(`${LOG_PREFIX} Chunks collected: ${chunks.length}`);
+    console.log(`${LOG_PREFIX} Source: ${journal ? `journal (${journal.bytesWritten} bytes)` : `${chunks.length} in-memory chunks`}`);
     console.log(`${LOG_PREFIX} ========================================`);
     
     try {
-      // 1. Save audio chunks to WAV file on device using new File API
-      console.log(`${LOG_PREFIX} Saving audio chunks to WAV file...`);
-      const wavFile = await saveAudioChunksToWavFile(chunks, meetingId);
-      
-      // 2. Read the file bytes directly using new File API
-      const audioBytes = await wavFile.bytes();
-      
-      // 3. Upload to Supabase Storage
-      const audioPath = `${userId}/${meetingId}/recording.wav`;
-      console.log(`${LOG_PREFIX} Uploading to: ${audioPath} (${audioBytes.length} bytes)`);
-      
-      const { error: uploadError } = await supabase.storage
-        .from('meeting-audio')
-        .upload(audioPath, audioBytes.buffer, {
-          contentType: 'audio/wav',
-          upsert: true,
+      // 1. Prefer the compressed copy encoded during recording
+      const compressed = journal ? getCompressedJournal(journal) : null;
+      if (journal && compressed) {
+        console.log(`${LOG_PREFIX} Uploading compressed ${compressed.format} (${compressed.bytesWritten} bytes vs ${journal.bytesWritten} PCM)`);
+        await enqueueUpload({
+          meetingId,
+          ...part,
+          userId,
+          file: compressed.file,
+          audioFormat: compressed.format,
+          contentType: compressed.contentType,
+          cleanup: 'journal',
         });
-      
-      if (uploadError) {
-        console.error(`${LOG_PREFIX} Upload error:`, uploadError);
-        throw new Error(`Failed to upload audio: ${uploadError.message}`);
-      }
-      
-      console.log(`${LOG_PREFIX} Audio uploaded successfully`);
-      
-      // Clean up local file using new File API
-      try {
-        wavFile.delete();
-      } catch (cleanupError) {
-        console.warn(`${LOG_PREFIX} Failed to clean up local file:`, cleanupError);
+        return;
       }
       
-      // 3. Update meeting with audio path and queue for processing
-      const { error: updateError } = await supabase
-        .from('meetings')
-        .update({
-          raw_audio_path: audioPath,
-          raw_audio_format: 'wav',
-          status: 'queued',
-        })
-        .eq('id', meetingId);
-      
-      if (updateError) {
-        console.error(`${LOG_PREFIX} Update error:`, updateError);
-        throw new Error(`Failed to update meeting: ${updateError.message}`);
+      // 2. Otherwise get a WAV file on device - finalize the journal, or write buffered chunks
+      let wavFile: File;
+      if (journal) {
+        if (chunks.length > 0) {
+          console.warn(`${LOG_PREFIX} ${chunks.length} chunks failed to reach the journal and will be dropped`);
+        }
+        wavFile = finalizeJournal(journal.file, journal.metadata).file;
+      } else {
+        console.log(`${LOG_PREFIX} Saving audio chunks to WAV file...`);
+        wavFile = await saveAudioChunksToWavFile(chunks, part.partId ?? meetingId, channels);
       }
       
-      console.log(`${LOG_PREFIX} Meeting updated, triggering batch processing...`);
-      
-      // 4. Trigger batch processing edge function
-      const { error: fnError } = await supabase.functions.invoke('process-recording', {
-        body: { meeting_id: meetingId },
+      // 3. Hand off to the resumable upload queue. It retries in the background
+      // until the audio is in storage and the meeting is queued for processing.
+      await enqueueUpload({
+        meetingId,
+        ...part,
+        userId,
+        file: wavFile,
+        audioFormat: 'wav',
+        contentType: 'audio/wav',
+        cleanup: journal ? 'journal' : 'file',
+        // The in-memory fallback is written to the cache, which the OS may purge
+        stageFile: !journal,
       });
       
-      if (fnError) {
-        console.error(`${LOG_PREFIX} Edge function error:`, fnError);
-        // Don't throw - the meeting is queued, processing can be retried
-        console.warn(`${LOG_PREFIX} Batch processing will be retried`);
-      } else {
-        console.log(`${LOG_PREFIX} Batch processing triggered successfully`);
+      if (!journal) {
+        try {
+          wavFile.delete();
+        } catch (cleanupError) {
+          console.warn(`${LOG_PREFIX} Failed to clean up local file:`, cleanupError);
+        }
       }
       
     } catch (err) {
       console.error(`${LOG_PREFIX} Upload/processing error:`, err);
-      // Update meeting status to indicate error but keep streaming transcript
+      // Update meeting status to indicate error but keep streaming transcript.
+      // A journal stays on disk and is offered for recovery on next launch.
       await supabase
         .from('meetings')
         .update({
@@ -624,21 +923,64 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
   /**
    * Start recording session
    */
-  const startRecording = useCallback(async (meetingId: string): Promise<void> => {
+  const startRecording = useCallback(async (
+    meetingId: string,
+    options: StartRecordingOptions = {},
+  ): Promise<void> => {
+    const offline = options.offline ?? false;
+    const part = options.newPart
+      ? {
+          id: Crypto.randomUUID(),
+          recordedAt: new Date().toISOString(),
+          startOffsetMs: options.startOffsetMs ?? 0,
+        }
+      : null;
     console.log(`${LOG_PREFIX} ========================================`);
     console.log(`${LOG_PREFIX} startRecording CALLED (v3 API)`);
-    console.log(`${LOG_PREFIX} Meeting ID: ${meetingId}`);
+    console.log(`${LOG_PREFIX} Meeting ID: ${meetingId}${offline ? ' (offline)' : ''}${part ? ` (part ${part.id})` : ''}`);
     console.log(`${LOG_PREFIX} ========================================`);
     
     try {
       setError(null);
       meetingIdRef.current = meetingId;
+      isOfflineRef.current = offline;
+      partRef.current = part;
       audioChunksRef.current = []; // Clear any previous chunks
+      keytermsRef.current = [];
+      languageRef.current = options.language ?? ASSEMBLYAI_STREAMING_CONFIG.LANGUAGE;
+      detectedLanguageRef.current = null;
+      dataRegionRef.current = null;
+      channelsRef.current = options.recordingMode === "phone_call" ? PHONE_CALL_AUDIO_CONFIG.channels : LIVE_AUDIO_CONFIG.channels;
+      capturedAudioMsRef.current = 0;
+      sessionOffsetMsRef.current = 0;
+      unsentAudioRef.current = createBufferedAudio();
+      unconfirmedAudioRef.current = createBufferedAudio();
+      reconnectAttemptRef.current = 0;
+      qualityMonitorsRef.current = Array.from({ length: channelsRef.current }, () => createAudioQualityMonitor());
+      setInputLevel(0);
+      setQualityWarning(null);
       
-      // Get current user ID for storage path
-      const { data: { user } } = await supabase.auth.getUser();
+      // Get current user ID for storage path (from the local session - works offline)
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (user?.id) {
         userIdRef.current = user.id;
+
+        // Open the on-disk journal so audio survives a crash mid-recording
+        try {
+          journalRef.current = openJournal({
+            meetingId,
+            ...(part && { partId: part.id }),
+            userId: user.id,
+            startedAt: new Date().toISOString(),
+            sampleRate: SAMPLE_RATE,
+            channels: channelsRef.current,
+            bitsPerSample: 16,
+          });
+        } catch (journalError) {
+          console.warn(`${LOG_PREFIX} Failed to open recording journal, buffering in memory:`, journalError);
+          journalRef.current = null;
+        }
       }
 
       // Step 1: Check/request permission
@@ -650,18 +992,33 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
         }
       }
 
-      // Step 2: Get AssemblyAI token
-      console.log(`${LOG_PREFIX} Step 2: Getting AssemblyAI token...`);
-      const token = await getAssemblyAIToken();
+      // Step 2-3: Get AssemblyAI token and connect to WebSocket.
+      // Without them we still record - the socket is retried in the background.
+      let needsReconnect = false;
+      if (offline) {
+        console.log(`${LOG_PREFIX} Offline meeting, skipping live transcription`);
+      } else {
+        try {
+          // Loaded first so reconnects use it even if this connection fails
+          if (user?.id) {
+            keytermsRef.current = await fetchMeetingVocabulary(meetingId, user.id);
+          }
 
-      // Step 3: Connect to WebSocket
-      console.log(`${LOG_PREFIX} Step 3: Connecting to v3 WebSocket...`);
-      const ws = await connectWebSocket(token);
-      wsRef.current = ws;
+          console.log(`${LOG_PREFIX} Step 2: Getting AssemblyAI token...`);
+          const token = await getAssemblyAIToken();
+
+          console.log(`${LOG_PREFIX} Step 3: Connecting to v3 WebSocket...`);
+          const ws = await connectWebSocket(token);
+          wsRef.current = ws;
+        } catch (connectError) {
+          console.warn(`${LOG_PREFIX} Live transcription unavailable, recording anyway:`, connectError);
+          needsReconnect = true;
+        }
+      }
 
       // Step 4: Initialize audio stream
       console.log(`${LOG_PREFIX} Step 4: Initializing LiveAudioStream...`);
-      LiveAudioStream.init(LIVE_AUDIO_CONFIG);
+      LiveAudioStream.init(channelsRef.current > 1 ? PHONE_CALL_AUDIO_CONFIG : LIVE_AUDIO_CONFIG);
       
       // Set up audio data handler
       LiveAudioStream.on("data", handleAudioData);
@@ -673,6 +1030,10 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       
       setIsRecording(true);
       setDurationMs(0);
+      
+      if (needsReconnect) {
+        scheduleReconnect();
+      }
 
       // Start duration timer
       durationIntervalRef.current = setInterval(() => {
@@ -685,7 +1046,7 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       setError(err instanceof Error ? err.message : "Failed to start recording");
       throw err;
     }
-  }, [hasPermission, requestPermission, getAssemblyAIToken, connectWebSocket, handleAudioData]);
+  }, [hasPermission, requestPermission, getAssemblyAIToken, connectWebSocket, handleAudioData, scheduleReconnect]);
 
   /**
    * Stop recording session
@@ -697,7 +1058,19 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     
     const currentMeetingId = meetingIdRef.current;
     const currentUserId = userIdRef.current;
+    const currentJournal = journalRef.current;
+    const isOffline = isOfflineRef.current;
+    const currentPart = partRef.current;
+    // Batch processing re-detects on the full recording; this shows meanwhile
+    const detectedLanguage = languageRef.current === "auto" ? detectedLanguageRef.current : null;
+    const streamedRegion = dataRegionRef.current;
     const currentDurationMs = durationMs;
+    const qualityReport = buildChannelQualityReport(qualityMonitorsRef.current);
+    console.log(`${LOG_PREFIX} Audio quality:`, {
+      silence_ms: qualityReport.silence_ms,
+      clipping_ms: qualityReport.clipping_ms,
+      issues: qualityReport.issues.length,
+    });
 
     // Stop duration timer
     if (durationIntervalRef.current) {
@@ -705,6 +1078,18 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       durationIntervalRef.current = null;
     }
 
+    // Stop reconnecting/backfilling - batch processing covers any untranscribed audio
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (backfillTimerRef.current) {
+      clearTimeout(backfillTimerRef.current);
+      backfillTimerRef.current = null;
+    }
+    unsentAudioRef.current = createBufferedAudio();
+    unconfirmedAudioRef.current = createBufferedAudio();
+
     // Stop audio stream
     try {
       LiveAudioStream.stop();
@@ -712,6 +1097,12 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       console.warn(`${LOG_PREFIX} Error stopping audio stream:`, err);
     }
 
+    // Close the journal - it is finalized and uploaded below
+    if (currentJournal) {
+      closeJournal(currentJournal);
+      journalRef.current = null;
+    }
+
     // Close WebSocket
     const ws = wsRef.current;
     if (ws) {
@@ -734,21 +1125,67 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     // Status will be updated to 'queued' when we trigger batch processing
     if (currentMeetingId) {
       const durationSeconds = Math.round(currentDurationMs / 1000);
-      await supabase
-        .from("meetings")
-        .update({
+      if (currentPart) {
+        // process-recording sets the meeting's duration once the parts are stitched
+        console.log(`${LOG_PREFIX} Recorded part ${currentPart.id}: ${durationSeconds}s`);
+        
+        // The part's silence and clipping join the meeting's report, so the
+        // quality review covers every part
+        const { data: existing } = await supabase
+          .from("meetings")
+          .select("audio_quality_report")
+          .eq("id", currentMeetingId)
+          .single();
+        const { error: reportError } = await supabase
+          .from("meetings")
+          .update({
+            audio_quality_report: appendAudioQualityReport(
+              existing?.audio_quality_report ?? null,
+              qualityReport,
+              currentPart.startOffsetMs,
+            ),
+          })
+          .eq("id", currentMeetingId);
+        if (reportError) {
+          console.warn(`${LOG_PREFIX} Error saving part audio quality:`, reportError.message);
+        }
+      } else if (isOffline) {
+        // Saved with the meeting when the upload queue creates it server-side
+        await updateOfflineMeeting(currentMeetingId, {
           duration_seconds: durationSeconds,
-          used_streaming_transcription: true,
-          // Keep status as 'uploading' until batch processing starts
-          // This will show "Speaker detection in progress" banner
-        })
-        .eq("id", currentMeetingId);
+          audio_quality_report: qualityReport,
+        });
+      } else {
+        await supabase
+          .from("meetings")
+          .update({
+            duration_seconds: durationSeconds,
+            used_streaming_transcription: true,
+            audio_quality_report: qualityReport,
+            // Batch processing records its region too, once it runs
+            ...(streamedRegion && { data_region: streamedRegion }),
+            ...(detectedLanguage && {
+              detected_language: detectedLanguage.code,
+              language_confidence: detectedLanguage.confidence,
+            }),
+            // Keep status as 'uploading' until batch processing starts
+            // This will show "Speaker detection in progress" banner
+          })
+          .eq("id", currentMeetingId);
+      }
       
       // Trigger batch processing for speaker diarization (async, don't await)
       // This happens in the background while user sees the streaming transcript
       if (currentUserId) {
         console.log(`${LOG_PREFIX} Initiating background batch processing for speaker diarization...`);
-        uploadAudioAndTriggerProcessing(currentMeetingId, currentUserId);
+        uploadAudioAndTriggerProcessing(
+          currentMeetingId,
+          currentUserId,
+          currentJournal,
+          currentPart
+            ? { partId: currentPart.id, durationSeconds, recordedAt: currentPart.recordedAt }
+            : {},
+        );
       } else {
         console.warn(`${LOG_PREFIX} No user ID available, skipping batch processing`);
         // Mark as ready since we can't do batch processing
@@ -762,9 +1199,19 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     setIsRecording(false);
     setIsPaused(false);
     setIsConnected(false);
+    setIsReconnecting(false);
     setSessionId(null);
+    setInputLevel(0);
+    setQualityWarning(null);
     meetingIdRef.current = null;
     userIdRef.current = null;
+    isOfflineRef.current = false;
+    partRef.current = null;
+    keytermsRef.current = [];
+    languageRef.current = ASSEMBLYAI_STREAMING_CONFIG.LANGUAGE;
+    detectedLanguageRef.current = null;
+    channelsRef.current = 1;
+    dataRegionRef.current = null;
 
     console.log(`${LOG_PREFIX} Recording stopped, batch processing initiated`);
   }, [durationMs, uploadAudioAndTriggerProcessing]);
@@ -815,6 +1262,12 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
       if (durationIntervalRef.current) {
         clearInterval(durationIntervalRef.current);
       }
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+      }
+      if (backfillTimerRef.current) {
+        clearTimeout(backfillTimerRef.current);
+      }
 
       try {
         LiveAudioStream.stop();
@@ -822,6 +1275,12 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
         // Ignore
       }
 
+      // Leave the journal on disk so the recording can be recovered
+      if (journalRef.current) {
+        closeJournal(journalRef.current);
+        journalRef.current = null;
+      }
+
       if (wsRef.current) {
         wsRef.current.close();
       }
@@ -835,9 +1294,12 @@ export function useLiveAudioStream(): UseLiveAudioStreamReturn {
     durationMs,
     isConnected,
     isConnecting,
+    isReconnecting,
     sessionId,
     turns,
     currentPartial,
+    inputLevel,
+    qualityWarning,
     hasPermission,
     error,
 
@@ -0,0 +1,185 @@
+/**
+ * useRecordingRecovery Hook
+ *
+ * Checks for orphaned recording journals once per app launch. A journal is
+ * left on disk when a live recording crashed or was killed by the OS before
+ * its audio reached the upload queue. For each journal belonging to the
+ * signed-in user, the user is offered to upload the rebuilt WAV and process it
+ * into the original meeting, or to discard it. Meetings recorded offline are
+ * still only on the device, so their journals are offered without a lookup.
+ * Journals of continued recordings are recovered as another part of their
+ * meeting.
+ */
+
+import { useEffect } from "react";
+import { Alert } from "react-native";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import {
+  findOrphanedJournals,
+  finalizeJournal,
+  deleteJournal,
+  getJournalId,
+  type OrphanedJournal,
+} from "@/lib/recording-journal";
+import { enqueueUpload, getUploadTasks } from "@/lib/upload-queue";
+import { getOfflineMeeting, removeOfflineMeeting } from "@/lib/offline-meetings";
+import { successNotification, errorNotification } from "@/lib/haptics";
+import { formatDuration } from "@/types";
+
+const LOG_PREFIX = "[useRecordingRecovery]";
+
+type RecoveryChoice = "upload" | "discard" | "later";
+
+// Only prompt once per app launch, even if the tabs remount
+let hasCheckedThisLaunch = false;
+
+function promptForRecovery(journal: OrphanedJournal): Promise<RecoveryChoice> {
+  const startedAt = new Date(journal.metadata.startedAt).toLocaleString();
+  const destination = journal.metadata.partId
+    ? "add it to the original meeting as another part"
+    : "process it into the original meeting";
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      "Recover Recording?",
+      `A recording started ${startedAt} (${formatDuration(journal.durationSeconds)}) was interrupted before it was uploaded. Upload it and ${destination}?`,
+      [
+        { text: "Later", style: "cancel", onPress: () => resolve("later") },
+        { text: "Discard", style: "destructive", onPress: () => resolve("discard") },
+        { text: "Upload & Process", onPress: () => resolve("upload") },
+      ],
+      { cancelable: false }
+    );
+  });
+}
+
+async function recoverJournal(journal: OrphanedJournal): Promise<void> {
+  const { meetingId, partId, userId, startedAt } = journal.metadata;
+  const { file } = finalizeJournal(journal.file, journal.metadata);
+
+  // The upload queue deletes the journal once the audio is in storage
+  await enqueueUpload({
+    meetingId,
+    partId,
+    userId,
+    file,
+    audioFormat: "wav",
+    contentType: "audio/wav",
+    durationSeconds: journal.durationSeconds,
+    // Parts are stitched in recording order
+    ...(partId && { recordedAt: startedAt }),
+    cleanup: "journal",
+  });
+}
+
+async function discardJournal(journal: OrphanedJournal): Promise<void> {
+  const { meetingId, partId } = journal.metadata;
+  deleteJournal(getJournalId(journal.metadata));
+
+  // The meeting still has its earlier recording
+  if (partId) return;
+
+  // An offline meeting never reached the server - without audio there's nothing left
+  if (await getOfflineMeeting(meetingId)) {
+    await removeOfflineMeeting(meetingId);
+    return;
+  }
+
+  // Surface the lost audio on the meeting instead of leaving it stuck uploading
+  const { error } = await supabase
+    .from("meetings")
+    .update({
+      status: "failed",
+      error_message: "Recording was interrupted and the audio was discarded",
+    })
+    .eq("id", meetingId)
+    .eq("status", "uploading");
+
+  if (error) {
+    console.warn(`${LOG_PREFIX} Failed to mark discarded meeting:`, error);
+  }
+}
+
+/**
+ * Offer recovery for orphaned recording journals
+ * @param userId - Signed-in user, or null while auth is loading
+ */
+export function useRecordingRecovery(userId: string | null | undefined): void {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId || hasCheckedThisLaunch) return;
+    hasCheckedThisLaunch = true;
+
+    const run = async () => {
+      const journals = await findOrphanedJournals();
+      const queuedTaskIds = new Set((await getUploadTasks()).map((task) => task.id));
+
+      for (const journal of journals) {
+        const { meetingId, partId } = journal.metadata;
+        const journalId = getJournalId(journal.metadata);
+
+        // Already handed to the upload queue, which retries on its own
+        if (queuedTaskIds.has(journalId)) continue;
+
+        // Journals from another account on this device stay until that user signs in
+        if (journal.metadata.userId !== userId) continue;
+
+        // Skip journals whose meeting was deleted or already received its audio
+        if (!(await getOfflineMeeting(meetingId))) {
+          const { data: meeting, error } = await supabase
+            .from("meetings")
+            .select("id, raw_audio_path, parts:meeting_recording_parts(id)")
+            .eq("id", meetingId)
+            .maybeSingle();
+
+          if (error) {
+            console.warn(`${LOG_PREFIX} Failed to look up meeting ${meetingId}:`, error);
+            continue;
+          }
+
+          // Parts are only ever added to meetings that already have audio
+          const hasAudio = partId
+            ? (meeting?.parts || []).some((part: { id: string }) => part.id === partId)
+            : !!meeting?.raw_audio_path;
+
+          if (!meeting || hasAudio) {
+            console.log(`${LOG_PREFIX} Journal ${journalId} is stale, removing`);
+            deleteJournal(journalId);
+            continue;
+          }
+        }
+
+        const choice = await promptForRecovery(journal);
+        console.log(`${LOG_PREFIX} Recovery choice for ${meetingId}: ${choice}`);
+
+        try {
+          if (choice === "upload") {
+            await recoverJournal(journal);
+            successNotification();
+          } else if (choice === "discard") {
+            await discardJournal(journal);
+          }
+        } catch (err) {
+          console.error(`${LOG_PREFIX} Recovery failed for ${meetingId}:`, err);
+          errorNotification();
+          Alert.alert(
+            "Recovery Failed",
+            `${err instanceof Error ? err.message : "Unknown error"}. The recording is still saved on this device and will be offered again next launch.`
+          );
+        }
+      }
+
+      if (journals.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["meetings"] });
+      }
+    };
+
+    run().catch((err) => {
+      console.error(`${LOG_PREFIX} Recovery check failed:`, err);
+    });
+  }, [userId, queryClient]);
+}
+
+export default useRecordingRecovery;
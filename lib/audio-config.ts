@@ -27,14 +27,39 @@ import {
 export const ASSEMBLYAI_STREAMING_CONFIG = {
   // v3 WebSocket endpoint
   WS_URL: "wss://streaming.assemblyai.com/v3/ws",
-  // EU endpoint (if needed)
+  // EU endpoint, for users whose data region is EU
   WS_URL_EU: "wss://streaming.eu.assemblyai.com/v3/ws",
   // Required sample rate
   SAMPLE_RATE: 16000,
   // Audio encoding (pcm_s16le or pcm_mulaw)
   ENCODING: "pcm_s16le" as const,
-  // Default language
+  // Default language - meetings can choose another (or auto-detect)
   LANGUAGE: "en" as const,
+  // Used for any language other than English, with language_detection on so
+  // turns report the spoken language. Covers en, es, fr, de, it and pt.
+  MULTILINGUAL_SPEECH_MODEL: "universal-streaming-multilingual",
+  // Custom vocabulary is sent as the keyterms_prompt query param, limited to
+  // this many terms of at most KEYTERM_MAX_LENGTH characters each
+  MAX_KEYTERMS: 100,
+  KEYTERM_MAX_LENGTH: 50,
+} as const;
+
+/**
+ * Streaming reconnect behaviour.
+ * A dropped socket is reopened with a fresh token using exponential backoff.
+ * Audio captured while disconnected - plus audio the old session never
+ * finalized - is held in memory and replayed faster than real time once the
+ * new session begins, so the live transcript has no gaps.
+ */
+export const STREAMING_RECONNECT_CONFIG = {
+  INITIAL_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30000,
+  // Oldest audio is dropped beyond this (~9.6 MB of 16 kHz PCM)
+  MAX_BACKFILL_SECONDS: 300,
+  // Sent audio kept for replay in case the session drops before finalizing it
+  MAX_UNCONFIRMED_SECONDS: 30,
+  // Replay speed relative to real time
+  BACKFILL_SPEED: 2,
 } as const;
 
 /**
@@ -54,6 +79,54 @@ export const LIVE_AUDIO_CONFIG = {
   bufferSize: 4096,
 } as const;
 
+/**
+ * Phone call recording mode.
+ * The user's mic and the call audio are routed to separate channels and
+ * captured as interleaved stereo PCM. The journal and upload keep both
+ * channels; live transcription gets a mono downmix.
+ * Channel 1 (left) is always the user, channel 2 (right) the other party.
+ */
+export const PHONE_CALL_AUDIO_CONFIG = {
+  ...LIVE_AUDIO_CONFIG,
+  channels: 2 as const,
+} as const;
+
+/**
+ * On-device compression for uploads.
+ * Live PCM is encoded to MP3 as it is captured, so uploads are roughly 1/8th
+ * the size of the WAV and process-recording can skip CloudConvert.
+ * 32 kbps mono at 16 kHz is ample for speech (~14 MB per hour).
+ */
+export const COMPRESSED_AUDIO_CONFIG = {
+  FORMAT: "mp3" as const,
+  CONTENT_TYPE: "audio/mpeg",
+  EXTENSION: ".mp3",
+  BITRATE_KBPS: 32,
+  // Phone calls keep both channels (~21 MB per hour)
+  STEREO_BITRATE_KBPS: 48,
+} as const;
+
+/**
+ * Live input quality monitoring.
+ * Each captured buffer is measured for RMS and peak level. Long stretches of
+ * near-silence (covered mic, phone in a pocket) or sustained clipping raise a
+ * warning during recording and are saved to the meeting's quality report.
+ */
+export const AUDIO_QUALITY_CONFIG = {
+  // Buffers quieter than this (RMS) count as silence
+  SILENCE_THRESHOLD_DBFS: -50,
+  // Seconds of continuous silence before warning
+  SILENCE_WARNING_SECONDS: 10,
+  // Samples at or above this fraction of full scale count as clipped
+  CLIPPING_THRESHOLD: 0.99,
+  // Seconds of sustained clipping before warning
+  CLIPPING_WARNING_SECONDS: 2,
+  // Unclipped gap that ends a clipping stretch (speech clips in bursts)
+  CLIPPING_GAP_TOLERANCE_MS: 750,
+  // Level meter floor - anything quieter shows as empty
+  METER_FLOOR_DBFS: -60,
+} as const;
+
 // =============================================================================
 // AssemblyAI v3 Message Types
 // =============================================================================
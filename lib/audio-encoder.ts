@@ -0,0 +1,117 @@
+/**
+ * Streaming Audio Encoder
+ *
+ * Encodes live 16-bit PCM to MP3 incrementally as chunks arrive, appending
+ * frames to a file. Encoding each ~128ms buffer as it is captured spreads the
+ * CPU cost over the recording, so the compressed file is ready the moment
+ * recording stops instead of after a long post-processing pass.
+ *
+ * Uses a pure JavaScript LAME port, so no native encoder module is needed.
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import type { File, FileHandle } from 'expo-file-system';
+import { COMPRESSED_AUDIO_CONFIG } from '@/lib/audio-config';
+
+const LOG_PREFIX = '[AudioEncoder]';
+
+/**
+ * An encoder writing to an open file
+ */
+export interface StreamingAudioEncoder {
+  file: File;
+  format: typeof COMPRESSED_AUDIO_CONFIG.FORMAT;
+  contentType: string;
+  encoder: Mp3Encoder;
+  channels: number;
+  handle: FileHandle;
+  bytesWritten: number;
+  /** Set once an encode or write fails - the file is incomplete */
+  failed: boolean;
+  /** Set once the encoder has been flushed and its file closed */
+  finished: boolean;
+}
+
+/**
+ * Create an encoder that writes to the given file, replacing its contents
+ */
+export function createStreamingEncoder(file: File, sampleRate: number, channels: number): StreamingAudioEncoder {
+  file.create({ overwrite: true });
+  const handle = file.open();
+
+  return {
+    file,
+    format: COMPRESSED_AUDIO_CONFIG.FORMAT,
+    contentType: COMPRESSED_AUDIO_CONFIG.CONTENT_TYPE,
+    encoder: new Mp3Encoder(
+      channels,
+      sampleRate,
+      channels > 1 ? COMPRESSED_AUDIO_CONFIG.STEREO_BITRATE_KBPS : COMPRESSED_AUDIO_CONFIG.BITRATE_KBPS
+    ),
+    channels,
+    handle,
+    bytesWritten: 0,
+    failed: false,
+    finished: false,
+  };
+}
+
+function writeFrames(encoder: StreamingAudioEncoder, frames: Uint8Array): void {
+  if (frames.length === 0) return;
+  encoder.handle.writeBytes(frames);
+  encoder.bytesWritten += frames.length;
+}
+
+/**
+ * Encode a chunk of 16-bit little-endian PCM - mono, or interleaved stereo
+ * for a two-channel encoder. Failures mark the encoder as failed rather than
+ * throwing, since the WAV journal remains the fallback.
+ */
+export function encodePcmChunk(encoder: StreamingAudioEncoder, pcm: Uint8Array): void {
+  if (encoder.failed || encoder.finished) return;
+
+  try {
+    // Int16Array needs an even byte length and a 2-byte aligned offset
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+    if (encoder.channels > 1) {
+      const frameCount = Math.floor(samples.length / 2);
+      const left = new Int16Array(frameCount);
+      const right = new Int16Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        left[i] = samples[i * 2];
+        right[i] = samples[i * 2 + 1];
+      }
+      writeFrames(encoder, encoder.encoder.encodeBuffer(left, right));
+    } else {
+      writeFrames(encoder, encoder.encoder.encodeBuffer(samples));
+    }
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Encoding failed, falling back to WAV upload:`, err);
+    encoder.failed = true;
+  }
+}
+
+/**
+ * Flush remaining frames and close the file
+ */
+export function finishEncoder(encoder: StreamingAudioEncoder): void {
+  if (encoder.finished) return;
+
+  try {
+    if (!encoder.failed) {
+      writeFrames(encoder, encoder.encoder.flush());
+    }
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Flush failed:`, err);
+    encoder.failed = true;
+  } finally {
+    try {
+      encoder.handle.close();
+    } catch (err) {
+      console.warn(`${LOG_PREFIX} Failed to close encoder handle:`, err);
+    }
+    encoder.finished = true;
+  }
+
+  console.log(`${LOG_PREFIX} Encoder finished: ${encoder.bytesWritten} bytes, failed: ${encoder.failed}`);
+}
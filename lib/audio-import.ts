@@ -0,0 +1,288 @@
+/**
+ * Audio Import
+ *
+ * Picks an existing audio file (voicemail, Zoom/Teams export, dictation) and
+ * probes it for the metadata a meeting needs: format, real duration and the
+ * original recorded date.
+ *
+ * - WAV: duration from the fmt/data chunks
+ * - M4A: duration and creation time from the moov/mvhd box
+ * - MP3 (and anything the header probes can't read): duration from a
+ *   throwaway expo-audio player
+ *
+ * When the file carries no recording date, the file's own creation or
+ * modification time is used instead.
+ */
+
+import { File, type FileHandle } from 'expo-file-system';
+import { createAudioPlayer } from 'expo-audio';
+
+const LOG_PREFIX = '[AudioImport]';
+
+// Seconds between the MP4 epoch (1904-01-01) and the Unix epoch
+const MP4_EPOCH_OFFSET_SECONDS = 2082844800;
+const PLAYER_PROBE_TIMEOUT_MS = 10000;
+
+export type ImportAudioFormat = 'm4a' | 'mp3' | 'wav';
+
+export const IMPORT_AUDIO_CONTENT_TYPES: Record<ImportAudioFormat, string> = {
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+/**
+ * A picked audio file with its probed metadata
+ */
+export interface ImportedAudio {
+  file: File;
+  fileName: string;
+  format: ImportAudioFormat;
+  sizeBytes: number;
+  durationSeconds: number;
+  /** ISO timestamp of the original recording, or null if unknown */
+  recordedAt: string | null;
+  /** Whether recordedAt came from the audio metadata rather than file times */
+  recordedAtFromMetadata: boolean;
+}
+
+/**
+ * Detect the import format from the file name and MIME type
+ */
+export function detectImportFormat(fileName: string, mimeType?: string | null): ImportAudioFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'm4a' || extension === 'mp4' || extension === 'aac') return 'm4a';
+  if (extension === 'mp3') return 'mp3';
+  if (extension === 'wav' || extension === 'wave') return 'wav';
+
+  const mime = mimeType?.toLowerCase() ?? '';
+  if (mime.includes('mp4') || mime.includes('m4a') || mime.includes('aac')) return 'm4a';
+  if (mime.includes('mpeg') || mime.includes('mp3')) return 'mp3';
+  if (mime.includes('wav')) return 'wav';
+
+  return null;
+}
+
+function readUint32(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, littleEndian);
+}
+
+function readUint64(bytes: Uint8Array, offset: number): number {
+  // Safe for durations and timestamps well below 2^53
+  return readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function readAt(handle: FileHandle, offset: number, length: number): Uint8Array {
+  handle.offset = offset;
+  return handle.readBytes(length);
+}
+
+/**
+ * Parse a WAV file's fmt and data chunks for its duration
+ */
+function probeWavDuration(file: File): number | null {
+  const handle = file.open();
+  try {
+    const header = readAt(handle, 0, Math.min(file.size, 4096));
+    if (header.length < 12 || readAscii(header, 0, 4) !== 'RIFF' || readAscii(header, 8, 4) !== 'WAVE') {
+      return null;
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= header.length) {
+      const chunkId = readAscii(header, offset, 4);
+      const chunkSize = readUint32(header, offset + 4, true);
+
+      if (chunkId === 'fmt ' && offset + 20 <= header.length) {
+        byteRate = readUint32(header, offset + 16, true);
+      } else if (chunkId === 'data') {
+        if (byteRate === 0) return null;
+        // Streaming writers leave the data size unset, so fall back to the file size
+        const available = file.size - (offset + 8);
+        const dataSize = chunkSize === 0 || chunkSize === 0xffffffff ? available : Math.min(chunkSize, available);
+        return dataSize / byteRate;
+      }
+
+      offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * Walk the MP4 box tree to the moov/mvhd box for duration and creation time
+ */
+function probeMp4Header(file: File): { durationSeconds: number | null; recordedAt: string | null } | null {
+  const handle = file.open();
+  try {
+    const findBox = (type: string, start: number, end: number): { dataStart: number; dataEnd: number } | null => {
+      let offset = start;
+      while (offset + 8 <= end) {
+        const header = readAt(handle, offset, 16);
+        let size = readUint32(header, 0);
+        const boxType = readAscii(header, 4, 4);
+        let headerSize = 8;
+
+        if (size === 1) {
+          size = readUint64(header, 8);
+          headerSize = 16;
+        } else if (size === 0) {
+          size = end - offset;
+        }
+
+        if (size < headerSize) return null;
+        if (boxType === type) {
+          return { dataStart: offset + headerSize, dataEnd: Math.min(offset + size, end) };
+        }
+        offset += size;
+      }
+      return null;
+    };
+
+    const moov = findBox('moov', 0, file.size);
+    if (!moov) return null;
+
+    const mvhd = findBox('mvhd', moov.dataStart, moov.dataEnd);
+    if (!mvhd) return null;
+
+    const body = readAt(handle, mvhd.dataStart, 32);
+    const version = body[0];
+    const creationTime = version === 1 ? readUint64(body, 4) : readUint32(body, 4);
+    const timescale = version === 1 ? readUint32(body, 20) : readUint32(body, 12);
+    const duration = version === 1 ? readUint64(body, 24) : readUint32(body, 16);
+
+    const unixSeconds = creationTime - MP4_EPOCH_OFFSET_SECONDS;
+
+    return {
+      durationSeconds: timescale > 0 ? duration / timescale : null,
+      // Encoders that don't set a creation time write 0 (1904)
+      recordedAt: creationTime > 0 && unixSeconds > 0 ? new Date(unixSeconds * 1000).toISOString() : null,
+    };
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * Load the file into a throwaway player (never played) and wait for it to report a duration
+ */
+function probeDurationWithPlayer(uri: string): Promise<number | null> {
+  return new Promise((resolve) => {
+    const player = createAudioPlayer(uri);
+    let settled = false;
+
+    const finish = (duration: number | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      subscription.remove();
+      player.remove();
+      resolve(duration);
+    };
+
+    const timeout = setTimeout(() => {
+      console.warn(`${LOG_PREFIX} Timed out waiting for player duration`);
+      finish(null);
+    }, PLAYER_PROBE_TIMEOUT_MS);
+
+    const subscription = player.addListener('playbackStatusUpdate', (status) => {
+      if (status.isLoaded && status.duration > 0) {
+        finish(status.duration);
+      }
+    });
+
+    if (player.isLoaded && player.duration > 0) {
+      finish(player.duration);
+    }
+  });
+}
+
+/**
+ * Fall back to the file's own timestamps for the recorded date
+ */
+function getFileTimestamp(file: File): string | null {
+  const times = [file.creationTime, file.modificationTime].filter(
+    (time): time is number => typeof time === 'number' && time > 0
+  );
+  return times.length > 0 ? new Date(Math.min(...times)).toISOString() : null;
+}
+
+/**
+ * Probe a picked file for format, duration and recorded date
+ * @throws Error if the format is unsupported or the duration can't be read
+ */
+export async function probeAudioFile(file: File): Promise<ImportedAudio> {
+  const format = detectImportFormat(file.name, file.type);
+  if (!format) {
+    throw new Error('Unsupported file type. Please choose an M4A, MP3 or WAV file.');
+  }
+
+  let durationSeconds: number | null = null;
+  let metadataRecordedAt: string | null = null;
+
+  try {
+    if (format === 'wav') {
+      durationSeconds = probeWavDuration(file);
+    } else if (format === 'm4a') {
+      const mp4 = probeMp4Header(file);
+      durationSeconds = mp4?.durationSeconds ?? null;
+      metadataRecordedAt = mp4?.recordedAt ?? null;
+    }
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Header probe failed, falling back to player:`, err);
+  }
+
+  if (!durationSeconds) {
+    durationSeconds = await probeDurationWithPlayer(file.uri);
+  }
+
+  if (!durationSeconds) {
+    throw new Error('Could not read the duration of this audio file');
+  }
+
+  const result: ImportedAudio = {
+    file,
+    fileName: file.name,
+    format,
+    sizeBytes: file.size,
+    durationSeconds: Math.round(durationSeconds),
+    recordedAt: metadataRecordedAt ?? getFileTimestamp(file),
+    recordedAtFromMetadata: metadataRecordedAt !== null,
+  };
+
+  console.log(`${LOG_PREFIX} Probed ${result.fileName}:`, {
+    format: result.format,
+    sizeBytes: result.sizeBytes,
+    durationSeconds: result.durationSeconds,
+    recordedAt: result.recordedAt,
+  });
+
+  return result;
+}
+
+/**
+ * Open the system file picker for an audio file and probe it
+ * @returns The probed file, or null if the user cancelled
+ */
+export async function pickAudioFile(): Promise<ImportedAudio | null> {
+  let pickedUri: string | undefined;
+  try {
+    const picked = await File.pickFileAsync(undefined, 'audio/*');
+    pickedUri = Array.isArray(picked) ? picked[0]?.uri : picked.uri;
+  } catch (err) {
+    // The picker rejects when the user dismisses it
+    console.log(`${LOG_PREFIX} Picker dismissed:`, err);
+    return null;
+  }
+
+  if (!pickedUri) return null;
+
+  return probeAudioFile(new File(pickedUri));
+}
@@ -0,0 +1,257 @@
+/**
+ * Audio Levels
+ *
+ * Measures live 16-bit PCM buffers and tracks input quality over a recording.
+ * Each buffer's RMS and peak level feed a monitor that detects long stretches
+ * of near-silence (covered mic, phone in a pocket) and sustained clipping, so
+ * the recording screen can warn while there is still time to fix it.
+ */
+
+import { AUDIO_QUALITY_CONFIG } from '@/lib/audio-config';
+import type { AudioQualityIssue, AudioQualityReport } from '@/types';
+
+export type AudioQualityWarning = AudioQualityIssue['type'];
+
+/**
+ * Levels of a single buffer, as fractions of full scale (0-1)
+ */
+export interface AudioLevels {
+  rms: number;
+  peak: number;
+}
+
+/**
+ * Running state of the quality monitor for one recording
+ */
+export interface AudioQualityMonitor {
+  analyzedMs: number;
+  sumSquares: number;
+  sampleCount: number;
+  peak: number;
+  silenceMs: number;
+  clippingMs: number;
+  /** Start of the current silent stretch, null while there is signal */
+  silenceStartMs: number | null;
+  /** Current clipping stretch, null while the input is clean */
+  clippingStartMs: number | null;
+  clippingLastMs: number;
+  issues: AudioQualityIssue[];
+}
+
+/**
+ * Convert a 0-1 amplitude to dBFS. Silence is clamped to the meter floor.
+ */
+export function toDbfs(amplitude: number): number {
+  if (amplitude <= 0) return AUDIO_QUALITY_CONFIG.METER_FLOOR_DBFS;
+  return Math.max(20 * Math.log10(amplitude), AUDIO_QUALITY_CONFIG.METER_FLOOR_DBFS);
+}
+
+/**
+ * Map a 0-1 amplitude onto a 0-1 meter position on a dB scale
+ */
+export function toMeterLevel(amplitude: number): number {
+  const floor = AUDIO_QUALITY_CONFIG.METER_FLOOR_DBFS;
+  return (toDbfs(amplitude) - floor) / -floor;
+}
+
+/**
+ * Measure each channel of a buffer of interleaved 16-bit little-endian PCM
+ */
+export function measureChannelLevels(pcm: Uint8Array, channels: number): AudioLevels[] {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const frameCount = Math.floor(samples.length / channels);
+
+  const levels: AudioLevels[] = [];
+  for (let c = 0; c < channels; c++) {
+    if (frameCount === 0) {
+      levels.push({ rms: 0, peak: 0 });
+      continue;
+    }
+
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < frameCount; i++) {
+      const value = Math.abs(samples[i * channels + c]) / 32768;
+      sumSquares += value * value;
+      if (value > peak) peak = value;
+    }
+    levels.push({ rms: Math.sqrt(sumSquares / frameCount), peak });
+  }
+  return levels;
+}
+
+/**
+ * Measure a buffer of mono 16-bit little-endian PCM
+ */
+export function measurePcmLevels(pcm: Uint8Array): AudioLevels {
+  return measureChannelLevels(pcm, 1)[0];
+}
+
+/**
+ * Start monitoring a new recording
+ */
+export function createAudioQualityMonitor(): AudioQualityMonitor {
+  return {
+    analyzedMs: 0,
+    sumSquares: 0,
+    sampleCount: 0,
+    peak: 0,
+    silenceMs: 0,
+    clippingMs: 0,
+    silenceStartMs: null,
+    clippingStartMs: null,
+    clippingLastMs: 0,
+    issues: [],
+  };
+}
+
+function endSilence(monitor: AudioQualityMonitor): void {
+  if (monitor.silenceStartMs === null) return;
+
+  const duration = monitor.analyzedMs - monitor.silenceStartMs;
+  if (duration >= AUDIO_QUALITY_CONFIG.SILENCE_WARNING_SECONDS * 1000) {
+    monitor.issues.push({ type: 'silence', start_ms: monitor.silenceStartMs, end_ms: monitor.analyzedMs });
+  }
+  monitor.silenceStartMs = null;
+}
+
+function endClipping(monitor: AudioQualityMonitor): void {
+  if (monitor.clippingStartMs === null) return;
+
+  const duration = monitor.clippingLastMs - monitor.clippingStartMs;
+  if (duration >= AUDIO_QUALITY_CONFIG.CLIPPING_WARNING_SECONDS * 1000) {
+    monitor.issues.push({ type: 'clipping', start_ms: monitor.clippingStartMs, end_ms: monitor.clippingLastMs });
+  }
+  monitor.clippingStartMs = null;
+}
+
+/**
+ * Record a measured buffer
+ * @param durationMs - Length of audio the buffer covers
+ * @returns The warning that currently applies, if any
+ */
+export function updateAudioQuality(
+  monitor: AudioQualityMonitor,
+  levels: AudioLevels,
+  sampleCount: number,
+  durationMs: number,
+): AudioQualityWarning | null {
+  const startMs = monitor.analyzedMs;
+  monitor.analyzedMs += durationMs;
+  monitor.sumSquares += levels.rms * levels.rms * sampleCount;
+  monitor.sampleCount += sampleCount;
+  monitor.peak = Math.max(monitor.peak, levels.peak);
+
+  // Silence - any buffer with signal ends the stretch
+  if (toDbfs(levels.rms) < AUDIO_QUALITY_CONFIG.SILENCE_THRESHOLD_DBFS) {
+    monitor.silenceMs += durationMs;
+    if (monitor.silenceStartMs === null) {
+      monitor.silenceStartMs = startMs;
+    }
+  } else {
+    endSilence(monitor);
+  }
+
+  // Clipping - short clean gaps between clipped buffers don't end the stretch
+  if (levels.peak >= AUDIO_QUALITY_CONFIG.CLIPPING_THRESHOLD) {
+    monitor.clippingMs += durationMs;
+    if (monitor.clippingStartMs === null) {
+      monitor.clippingStartMs = startMs;
+    }
+    monitor.clippingLastMs = monitor.analyzedMs;
+  } else if (
+    monitor.clippingStartMs !== null &&
+    monitor.analyzedMs - monitor.clippingLastMs > AUDIO_QUALITY_CONFIG.CLIPPING_GAP_TOLERANCE_MS
+  ) {
+    endClipping(monitor);
+  }
+
+  if (
+    monitor.silenceStartMs !== null &&
+    monitor.analyzedMs - monitor.silenceStartMs >= AUDIO_QUALITY_CONFIG.SILENCE_WARNING_SECONDS * 1000
+  ) {
+    return 'silence';
+  }
+  if (
+    monitor.clippingStartMs !== null &&
+    monitor.clippingLastMs - monitor.clippingStartMs >= AUDIO_QUALITY_CONFIG.CLIPPING_WARNING_SECONDS * 1000
+  ) {
+    return 'clipping';
+  }
+  return null;
+}
+
+/**
+ * Close any open stretches and summarize the recording
+ */
+export function buildAudioQualityReport(monitor: AudioQualityMonitor): AudioQualityReport {
+  endSilence(monitor);
+  endClipping(monitor);
+
+  const averageRms = monitor.sampleCount > 0 ? Math.sqrt(monitor.sumSquares / monitor.sampleCount) : 0;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    analyzed_ms: Math.round(monitor.analyzedMs),
+    average_rms_dbfs: round(toDbfs(averageRms)),
+    peak_dbfs: round(toDbfs(monitor.peak)),
+    silence_ms: Math.round(monitor.silenceMs),
+    clipping_ms: Math.round(monitor.clippingMs),
+    issues: [...monitor.issues].sort((a, b) => a.start_ms - b.start_ms),
+  };
+}
+
+/**
+ * Summarize a recording monitored per channel. Levels and totals are the
+ * worst channel's, and with more than one channel each issue notes the
+ * channel it was on.
+ */
+export function buildChannelQualityReport(monitors: AudioQualityMonitor[]): AudioQualityReport {
+  if (monitors.length === 1) return buildAudioQualityReport(monitors[0]);
+
+  const reports = monitors.map(buildAudioQualityReport);
+  return {
+    analyzed_ms: Math.max(...reports.map((report) => report.analyzed_ms)),
+    average_rms_dbfs: Math.min(...reports.map((report) => report.average_rms_dbfs)),
+    peak_dbfs: Math.max(...reports.map((report) => report.peak_dbfs)),
+    silence_ms: Math.max(...reports.map((report) => report.silence_ms)),
+    clipping_ms: Math.max(...reports.map((report) => report.clipping_ms)),
+    issues: reports
+      .flatMap((report, index) => report.issues.map((issue) => ({ ...issue, channel: index + 1 })))
+      .sort((a, b) => a.start_ms - b.start_ms),
+  };
+}
+
+/**
+ * Add the report of a part continued into a meeting to the meeting's report.
+ * The part's issues are moved to where it starts in the meeting's timeline.
+ */
+export function appendAudioQualityReport(
+  report: AudioQualityReport | null,
+  part: AudioQualityReport,
+  partStartMs: number,
+): AudioQualityReport {
+  const partIssues = part.issues.map((issue) => ({
+    ...issue,
+    start_ms: issue.start_ms + partStartMs,
+    end_ms: issue.end_ms + partStartMs,
+  }));
+  if (!report) return { ...part, issues: partIssues };
+
+  // Average the two by power, weighted by how much audio each covers
+  const analyzedMs = report.analyzed_ms + part.analyzed_ms;
+  const toPower = (dbfs: number) => Math.pow(10, dbfs / 10);
+  const averagePower = analyzedMs > 0
+    ? (toPower(report.average_rms_dbfs) * report.analyzed_ms + toPower(part.average_rms_dbfs) * part.analyzed_ms) / analyzedMs
+    : 0;
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return {
+    analyzed_ms: analyzedMs,
+    average_rms_dbfs: round(toDbfs(Math.sqrt(averagePower))),
+    peak_dbfs: Math.max(report.peak_dbfs, part.peak_dbfs),
+    silence_ms: report.silence_ms + part.silence_ms,
+    clipping_ms: report.clipping_ms + part.clipping_ms,
+    issues: [...report.issues, ...partIssues].sort((a, b) => a.start_ms - b.start_ms),
+  };
+}
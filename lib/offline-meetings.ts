@@ -0,0 +1,313 @@
+/**
+ * Offline Meetings
+ *
+ * Meetings recorded without a network connection. The meeting row can't be
+ * created in Supabase up front, so it is kept on the device under a
+ * client-generated id and shown in the meetings list as "pending upload".
+ * The upload queue creates it server-side (with the same id) right before
+ * uploading its audio, after which processing continues as for any recording.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '@/lib/supabase';
+import {
+  getDefaultMeetingTitle,
+  DEFAULT_TRANSCRIPTION_LANGUAGE,
+  type AudioQualityReport,
+  type ConsentMethod,
+  type MeetingWithContact,
+  type RecordingMode,
+  type TranscriptionLanguageSetting,
+} from '@/types';
+
+const LOG_PREFIX = '[OfflineMeetings]';
+
+const STORAGE_KEY = 'offline_meetings';
+
+/**
+ * A bookmark tapped while recording offline
+ */
+export interface OfflineBookmark {
+  offset_ms: number;
+  label: string | null;
+}
+
+/**
+ * Recording consent captured while offline
+ */
+export interface OfflineConsent {
+  method: ConsentMethod;
+  consented_by: string[];
+  statement: string | null;
+  jurisdiction: string | null;
+  consented_at: string;
+}
+
+/**
+ * A meeting that only exists on this device so far
+ */
+export interface OfflineMeeting {
+  id: string;
+  user_id: string;
+  title: string;
+  expected_speakers: number;
+  contact_id: string | null;
+  transcription_language: TranscriptionLanguageSetting;
+  recording_mode: RecordingMode;
+  duration_seconds: number;
+  recorded_at: string;
+  audio_quality_report: AudioQualityReport | null;
+  bookmarks: OfflineBookmark[];
+  consent: OfflineConsent | null;
+  created_at: string;
+}
+
+type OfflineMeetingsListener = (meetings: OfflineMeeting[]) => void;
+
+let meetings: OfflineMeeting[] | null = null;
+const listeners = new Set<OfflineMeetingsListener>();
+
+async function load(): Promise<OfflineMeeting[]> {
+  if (!meetings) {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      meetings = stored ? JSON.parse(stored) : [];
+    } catch (err) {
+      console.error(`${LOG_PREFIX} Failed to load offline meetings:`, err);
+      meetings = [];
+    }
+  }
+  return meetings as OfflineMeeting[];
+}
+
+async function save(next: OfflineMeeting[]): Promise<void> {
+  meetings = next;
+  const snapshot = [...next];
+  listeners.forEach((listener) => listener(snapshot));
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to persist offline meetings:`, err);
+  }
+}
+
+/**
+ * Whether an error from Supabase or fetch means the device couldn't reach the
+ * server, as opposed to the server rejecting the request
+ */
+export function isNetworkError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  return /network request failed|failed to fetch|network error|networkerror|timed? ?out|offline/i.test(message);
+}
+
+/**
+ * Create a meeting on the device only
+ */
+export async function createOfflineMeeting(
+  userId: string,
+  {
+    expectedSpeakers = 2,
+    contactId = null,
+    language = DEFAULT_TRANSCRIPTION_LANGUAGE,
+    recordingMode = 'standard',
+  }: {
+    expectedSpeakers?: number;
+    contactId?: string | null;
+    language?: TranscriptionLanguageSetting;
+    recordingMode?: RecordingMode;
+  } = {}
+): Promise<OfflineMeeting> {
+  const now = new Date();
+  const meeting: OfflineMeeting = {
+    id: Crypto.randomUUID(),
+    user_id: userId,
+    title: getDefaultMeetingTitle(now),
+    expected_speakers: expectedSpeakers,
+    contact_id: contactId,
+    transcription_language: language,
+    recording_mode: recordingMode,
+    duration_seconds: 0,
+    recorded_at: now.toISOString(),
+    audio_quality_report: null,
+    bookmarks: [],
+    consent: null,
+    created_at: now.toISOString(),
+  };
+
+  await save([...(await load()), meeting]);
+  console.log(`${LOG_PREFIX} Created offline meeting ${meeting.id}`);
+  return meeting;
+}
+
+/**
+ * Update an offline meeting. No-op if it has already been synced.
+ */
+export async function updateOfflineMeeting(
+  meetingId: string,
+  updates: Partial<Omit<OfflineMeeting, 'id' | 'user_id' | 'created_at'>>
+): Promise<void> {
+  const current = await load();
+  if (!current.some((m) => m.id === meetingId)) return;
+  await save(current.map((m) => (m.id === meetingId ? { ...m, ...updates } : m)));
+}
+
+/**
+ * Remove an offline meeting without syncing it
+ */
+export async function removeOfflineMeeting(meetingId: string): Promise<void> {
+  const current = await load();
+  if (!current.some((m) => m.id === meetingId)) return;
+  await save(current.filter((m) => m.id !== meetingId));
+}
+
+export async function getOfflineMeeting(meetingId: string): Promise<OfflineMeeting | null> {
+  return (await load()).find((m) => m.id === meetingId) ?? null;
+}
+
+export async function getOfflineMeetings(): Promise<OfflineMeeting[]> {
+  return [...(await load())];
+}
+
+/**
+ * Shape an offline meeting like a server row for the meetings list
+ */
+export function toPendingMeeting(meeting: OfflineMeeting): MeetingWithContact {
+  return {
+    id: meeting.id,
+    user_id: meeting.user_id,
+    title: meeting.title,
+    status: 'pending_upload',
+    raw_audio_path: null,
+    mp3_audio_path: null,
+    raw_audio_format: null,
+    duration_seconds: meeting.duration_seconds,
+    recorded_at: meeting.recorded_at,
+    expected_speakers: meeting.expected_speakers,
+    recording_mode: meeting.recording_mode ?? 'standard',
+    data_region: null,
+    detected_speakers: null,
+    speaker_mismatch: false,
+    speaker_names: null,
+    // Older offline meetings were stored before these fields existed
+    transcription_language: meeting.transcription_language ?? DEFAULT_TRANSCRIPTION_LANGUAGE,
+    transcription_provider: null,
+    speech_model_used: null,
+    detected_language: null,
+    language_confidence: null,
+    meeting_type_id: null,
+    contact_id: meeting.contact_id ?? null,
+    is_billable: false,
+    billable_hours: null,
+    billable_amount: null,
+    billable_amount_manual: false,
+    error_message: null,
+    live_transcript_data: null,
+    used_streaming_transcription: false,
+    audio_quality_report: meeting.audio_quality_report,
+    applied_vocabulary: null,
+    vocabulary_override: null,
+    created_at: meeting.created_at,
+    updated_at: meeting.created_at,
+    contact: null,
+  };
+}
+
+/**
+ * Whether an earlier sync attempt already saved rows for the meeting.
+ * Throws if it can't tell, so the sync is retried rather than saving twice.
+ */
+async function hasRowsForMeeting(table: 'meeting_bookmarks' | 'meeting_consents', meetingId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq('meeting_id', meetingId);
+
+  if (error) {
+    throw new Error(`Failed to check ${table}: ${error.message}`);
+  }
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Create an offline meeting, its bookmarks and consent in Supabase, then forget the
+ * local copy. Safe to retry: an existing meeting row is left as is, and
+ * bookmarks and consent already saved aren't added again.
+ */
+export async function syncOfflineMeeting(meetingId: string): Promise<void> {
+  const meeting = await getOfflineMeeting(meetingId);
+  if (!meeting) return;
+
+  console.log(`${LOG_PREFIX} Creating meeting ${meetingId} on the server`);
+
+  const { error: meetingError } = await supabase
+    .from('meetings')
+    .upsert(
+      {
+        id: meeting.id,
+        user_id: meeting.user_id,
+        title: meeting.title,
+        status: 'uploading',
+        duration_seconds: meeting.duration_seconds,
+        expected_speakers: meeting.expected_speakers,
+        contact_id: meeting.contact_id ?? null,
+        transcription_language: meeting.transcription_language ?? DEFAULT_TRANSCRIPTION_LANGUAGE,
+        recording_mode: meeting.recording_mode ?? 'standard',
+        recorded_at: meeting.recorded_at,
+        audio_quality_report: meeting.audio_quality_report,
+        created_at: meeting.created_at,
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (meetingError) {
+    throw new Error(`Failed to create meeting: ${meetingError.message}`);
+  }
+
+  // A retry after a partial sync must not flag the same moments twice
+  if (meeting.bookmarks.length > 0 && !(await hasRowsForMeeting('meeting_bookmarks', meeting.id))) {
+    const { error: bookmarksError } = await supabase
+      .from('meeting_bookmarks')
+      .insert(
+        meeting.bookmarks.map((bookmark) => ({
+          meeting_id: meeting.id,
+          user_id: meeting.user_id,
+          offset_ms: bookmark.offset_ms,
+          label: bookmark.label,
+        }))
+      );
+
+    if (bookmarksError) {
+      throw new Error(`Failed to save bookmarks: ${bookmarksError.message}`);
+    }
+  }
+
+  // Older offline meetings were stored before consent was captured
+  if (meeting.consent) {
+    // A retry after a partial sync must not log the same consent twice
+    if (!(await hasRowsForMeeting('meeting_consents', meeting.id))) {
+      const { error: consentError } = await supabase
+        .from('meeting_consents')
+        .insert({
+          meeting_id: meeting.id,
+          user_id: meeting.user_id,
+          ...meeting.consent,
+        });
+
+      if (consentError) {
+        throw new Error(`Failed to save consent: ${consentError.message}`);
+      }
+    }
+  }
+
+  await removeOfflineMeeting(meetingId);
+  console.log(`${LOG_PREFIX} Meeting ${meetingId} synced`);
+}
+
+export function subscribeToOfflineMeetings(listener: OfflineMeetingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,296 @@
+/**
+ * Recording Journal
+ *
+ * Crash-safe on-disk journal for live recordings. PCM chunks are appended to a
+ * WAV file in the document directory as they arrive, so audio captured before
+ * an app crash, OS kill or battery death survives and can be recovered on the
+ * next launch.
+ *
+ * Layout (Paths.document/recording-journals/), keyed by journal id - the
+ * meeting id, or the part id when recording is continued into a meeting:
+ * - {journalId}.wav  - 44-byte WAV header followed by raw PCM. The header sizes
+ *                      are only correct after finalizeJournal() patches them.
+ * - {journalId}.json - JournalMetadata sidecar written when the journal opens.
+ * - {journalId}.mp3  - Compressed copy encoded alongside the WAV for upload.
+ *                      Only complete once closeJournal() has flushed it, so
+ *                      crash recovery always uses the WAV.
+ *
+ * A journal is deleted once its audio has been uploaded. Any journal still on
+ * disk that isn't the active recording is treated as orphaned.
+ */
+
+import { Directory, File, Paths, type FileHandle } from 'expo-file-system';
+import {
+  createStreamingEncoder,
+  encodePcmChunk,
+  finishEncoder,
+  type StreamingAudioEncoder,
+} from '@/lib/audio-encoder';
+
+const LOG_PREFIX = '[RecordingJournal]';
+
+const JOURNAL_DIR_NAME = 'recording-journals';
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Metadata persisted alongside each journal
+ */
+export interface JournalMetadata {
+  meetingId: string;
+  /** Set when recording an additional part of an existing meeting */
+  partId?: string;
+  userId: string;
+  startedAt: string;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+/**
+ * An open journal that chunks can be appended to
+ */
+export interface RecordingJournal {
+  metadata: JournalMetadata;
+  file: File;
+  handle: FileHandle;
+  bytesWritten: number;
+  /** Compressed encoder, null if it couldn't be created */
+  encoder: StreamingAudioEncoder | null;
+}
+
+/**
+ * A journal left behind by a recording that never finished uploading
+ */
+export interface OrphanedJournal {
+  metadata: JournalMetadata;
+  file: File;
+  dataBytes: number;
+  durationSeconds: number;
+}
+
+/**
+ * Decode base64 string to Uint8Array
+ */
+export function base64ToUint8Array(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Create WAV header as Uint8Array
+ */
+export function createWavHeader(dataLength: number, sampleRate: number, channels: number, bitsPerSample: number): Uint8Array {
+  const header = new Uint8Array(WAV_HEADER_SIZE);
+  const view = new DataView(header.buffer);
+
+  const byteRate = sampleRate * channels * (bitsPerSample / 8);
+  const blockAlign = channels * (bitsPerSample / 8);
+
+  // "RIFF" chunk descriptor
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  view.setUint32(4, 36 + dataLength, true); // File size - 8
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+
+  // "fmt " sub-chunk
+  view.setUint32(12, 0x666d7420, false); // "fmt "
+  view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
+  view.setUint16(20, 1, true); // AudioFormat (1 for PCM)
+  view.setUint16(22, channels, true); // NumChannels
+  view.setUint32(24, sampleRate, true); // SampleRate
+  view.setUint32(28, byteRate, true); // ByteRate
+  view.setUint16(32, blockAlign, true); // BlockAlign
+  view.setUint16(34, bitsPerSample, true); // BitsPerSample
+
+  // "data" sub-chunk
+  view.setUint32(36, 0x64617461, false); // "data"
+  view.setUint32(40, dataLength, true); // Subchunk2Size
+
+  return header;
+}
+
+function getJournalDirectory(): Directory {
+  const dir = new Directory(Paths.document, JOURNAL_DIR_NAME);
+  if (!dir.exists) {
+    dir.create({ idempotent: true, intermediates: true });
+  }
+  return dir;
+}
+
+function getJournalFiles(journalId: string): { audio: File; meta: File; compressed: File } {
+  const dir = getJournalDirectory();
+  return {
+    audio: new File(dir, `${journalId}.wav`),
+    meta: new File(dir, `${journalId}.json`),
+    compressed: new File(dir, `${journalId}.mp3`),
+  };
+}
+
+/**
+ * The id a journal is stored under: its part for continued recordings,
+ * otherwise its meeting
+ */
+export function getJournalId(metadata: JournalMetadata): string {
+  return metadata.partId ?? metadata.meetingId;
+}
+
+function getDurationSeconds(dataBytes: number, metadata: JournalMetadata): number {
+  const bytesPerSecond = metadata.sampleRate * metadata.channels * (metadata.bitsPerSample / 8);
+  return bytesPerSecond > 0 ? Math.round(dataBytes / bytesPerSecond) : 0;
+}
+
+/**
+ * Open a new journal for a meeting (or part). Any previous journal with the
+ * same id is overwritten.
+ */
+export function openJournal(metadata: JournalMetadata): RecordingJournal {
+  const { audio, meta, compressed } = getJournalFiles(getJournalId(metadata));
+
+  meta.create({ overwrite: true });
+  meta.write(JSON.stringify(metadata));
+
+  audio.create({ overwrite: true });
+  audio.write(createWavHeader(0, metadata.sampleRate, metadata.channels, metadata.bitsPerSample));
+
+  const handle = audio.open();
+  handle.offset = WAV_HEADER_SIZE;
+
+  let encoder: StreamingAudioEncoder | null = null;
+  try {
+    encoder = createStreamingEncoder(compressed, metadata.sampleRate, metadata.channels);
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Failed to start compressed encoder, will upload WAV:`, err);
+  }
+
+  console.log(`${LOG_PREFIX} Opened journal for meeting ${metadata.meetingId}: ${audio.uri}`);
+
+  return { metadata, file: audio, handle, bytesWritten: 0, encoder };
+}
+
+/**
+ * Append a decoded PCM chunk to an open journal
+ */
+export function appendToJournal(journal: RecordingJournal, bytes: Uint8Array): void {
+  journal.handle.writeBytes(bytes);
+  journal.bytesWritten += bytes.length;
+
+  if (journal.encoder) {
+    encodePcmChunk(journal.encoder, bytes);
+  }
+}
+
+/**
+ * Close the journal's file handle without finalizing the WAV, and flush the
+ * compressed copy
+ */
+export function closeJournal(journal: RecordingJournal): void {
+  try {
+    journal.handle.close();
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Failed to close journal handle:`, err);
+  }
+
+  if (journal.encoder) {
+    finishEncoder(journal.encoder);
+  }
+}
+
+/**
+ * The flushed compressed copy of a closed journal, or null if encoding failed
+ */
+export function getCompressedJournal(journal: RecordingJournal): StreamingAudioEncoder | null {
+  const encoder = journal.encoder;
+  if (!encoder || !encoder.finished || encoder.failed || encoder.bytesWritten === 0) {
+    return null;
+  }
+  return encoder;
+}
+
+/**
+ * Patch the WAV header with the real data length so the journal file is a
+ * valid WAV. Safe to call on journals whose handle is already closed.
+ * @returns The finalized WAV file and its PCM data length in bytes
+ */
+export function finalizeJournal(file: File, metadata: JournalMetadata): { file: File; dataBytes: number } {
+  const dataBytes = Math.max(0, file.size - WAV_HEADER_SIZE);
+  const handle = file.open();
+  try {
+    handle.offset = 0;
+    handle.writeBytes(createWavHeader(dataBytes, metadata.sampleRate, metadata.channels, metadata.bitsPerSample));
+  } finally {
+    handle.close();
+  }
+
+  console.log(`${LOG_PREFIX} Finalized journal for meeting ${metadata.meetingId}: ${dataBytes} bytes of audio`);
+
+  return { file, dataBytes };
+}
+
+/**
+ * Delete a journal and its metadata
+ * @param journalId - Meeting id, or part id for a continued recording
+ */
+export function deleteJournal(journalId: string): void {
+  const { audio, meta, compressed } = getJournalFiles(journalId);
+  for (const file of [audio, meta, compressed]) {
+    try {
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (err) {
+      console.warn(`${LOG_PREFIX} Failed to delete ${file.uri}:`, err);
+    }
+  }
+}
+
+/**
+ * Find journals left on disk by recordings that crashed or never uploaded.
+ * Journals without readable metadata or without any audio are cleaned up.
+ * @param excludeMeetingId - Meeting currently being recorded, if any
+ */
+export async function findOrphanedJournals(excludeMeetingId?: string | null): Promise<OrphanedJournal[]> {
+  const orphans: OrphanedJournal[] = [];
+
+  let entries: (File | Directory)[];
+  try {
+    entries = getJournalDirectory().list();
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Failed to list journal directory:`, err);
+    return orphans;
+  }
+
+  for (const entry of entries) {
+    if (!(entry instanceof File) || !entry.name.endsWith('.json')) continue;
+
+    const journalId = entry.name.replace(/\.json$/, '');
+    if (journalId === excludeMeetingId) continue;
+
+    try {
+      const metadata = JSON.parse(await entry.text()) as JournalMetadata;
+      const { audio } = getJournalFiles(journalId);
+      const dataBytes = audio.exists ? Math.max(0, audio.size - WAV_HEADER_SIZE) : 0;
+
+      if (dataBytes === 0) {
+        console.log(`${LOG_PREFIX} Removing empty journal ${journalId}`);
+        deleteJournal(journalId);
+        continue;
+      }
+
+      orphans.push({
+        metadata,
+        file: audio,
+        dataBytes,
+        durationSeconds: getDurationSeconds(dataBytes, metadata),
+      });
+    } catch (err) {
+      console.warn(`${LOG_PREFIX} Unreadable journal ${journalId}, removing:`, err);
+      deleteJournal(journalId);
+    }
+  }
+
+  console.log(`${LOG_PREFIX} Found ${orphans.length} orphaned journal(s)`);
+  return orphans;
+}
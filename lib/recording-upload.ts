@@ -0,0 +1,135 @@
+/**
+ * Recording Upload
+ *
+ * Final step of an audio upload: points the meeting at its uploaded audio
+ * (or adds it as another recording part), queues it and triggers the
+ * process-recording edge function. Called by the upload queue once all bytes
+ * are in the meeting-audio bucket.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+const LOG_PREFIX = '[RecordingUpload]';
+
+export interface QueueMeetingParams {
+  meetingId: string;
+  audioPath: string;
+  audioFormat: string;
+  /** Only written to the meeting when provided */
+  durationSeconds?: number;
+  /** Only written to the meeting when provided */
+  recordedAt?: string;
+}
+
+export interface QueuePartParams {
+  meetingId: string;
+  partId: string;
+  userId: string;
+  audioPath: string;
+  audioFormat: string;
+  durationSeconds: number;
+  recordedAt: string;
+}
+
+/**
+ * Trigger the batch processing edge function. A failed invocation is logged
+ * only - the meeting is already queued and processing can be retried.
+ */
+async function triggerProcessing(meetingId: string): Promise<void> {
+  const { error: fnError } = await supabase.functions.invoke('process-recording', {
+    body: { meeting_id: meetingId },
+  });
+
+  if (fnError) {
+    console.error(`${LOG_PREFIX} Edge function error:`, fnError);
+    console.warn(`${LOG_PREFIX} Batch processing will be retried`);
+  } else {
+    console.log(`${LOG_PREFIX} Batch processing triggered successfully`);
+  }
+}
+
+/**
+ * Queue a meeting whose audio is in storage for batch processing.
+ * Throws if the meeting update fails. A failed edge function invocation is
+ * logged only, since the queued meeting can be retried.
+ */
+export async function queueMeetingForProcessing({
+  meetingId,
+  audioPath,
+  audioFormat,
+  durationSeconds,
+  recordedAt,
+}: QueueMeetingParams): Promise<void> {
+  // 1. Update meeting with audio path and queue for processing
+  const { error: updateError } = await supabase
+    .from('meetings')
+    .update({
+      raw_audio_path: audioPath,
+      raw_audio_format: audioFormat,
+      status: 'queued',
+      ...(durationSeconds !== undefined && { duration_seconds: durationSeconds }),
+      ...(recordedAt !== undefined && { recorded_at: recordedAt }),
+    })
+    .eq('id', meetingId);
+
+  if (updateError) {
+    console.error(`${LOG_PREFIX} Update error:`, updateError);
+    throw new Error(`Failed to update meeting: ${updateError.message}`);
+  }
+
+  console.log(`${LOG_PREFIX} Meeting updated, triggering batch processing...`);
+
+  // 2. Trigger batch processing edge function
+  await triggerProcessing(meetingId);
+}
+
+/**
+ * Add an uploaded recording part to its meeting and queue the meeting for
+ * reprocessing, which stitches all parts together. Safe to retry.
+ */
+export async function queuePartForProcessing({
+  meetingId,
+  partId,
+  userId,
+  audioPath,
+  audioFormat,
+  durationSeconds,
+  recordedAt,
+}: QueuePartParams): Promise<void> {
+  // 1. Record the part - an existing row from an earlier attempt is kept
+  const { error: partError } = await supabase
+    .from('meeting_recording_parts')
+    .upsert(
+      {
+        id: partId,
+        meeting_id: meetingId,
+        user_id: userId,
+        audio_path: audioPath,
+        audio_format: audioFormat,
+        duration_seconds: durationSeconds,
+        recorded_at: recordedAt,
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (partError) {
+    console.error(`${LOG_PREFIX} Part insert error:`, partError);
+    throw new Error(`Failed to add recording part: ${partError.message}`);
+  }
+
+  // 2. Queue the meeting for processing
+  const { error: updateError } = await supabase
+    .from('meetings')
+    .update({ status: 'queued', error_message: null })
+    .eq('id', meetingId);
+
+  if (updateError) {
+    console.error(`${LOG_PREFIX} Update error:`, updateError);
+    throw new Error(`Failed to update meeting: ${updateError.message}`);
+  }
+
+  console.log(`${LOG_PREFIX} Part ${partId} added, triggering batch processing...`);
+
+  // 3. Trigger batch processing edge function
+  await triggerProcessing(meetingId);
+}
@@ -0,0 +1,540 @@
+/**
+ * Upload Queue
+ *
+ * Persistent, resumable upload queue for meeting audio. Files are sent to the
+ * meeting-audio bucket with Supabase Storage's TUS endpoint in 6MB parts, so
+ * an interrupted upload continues from the last acknowledged byte instead of
+ * starting over. Tasks are persisted in AsyncStorage and survive app restarts
+ * and network changes; failed attempts are retried with exponential backoff
+ * until the meeting has its raw_audio_path and is queued for processing.
+ *
+ * Meetings recorded offline (lib/offline-meetings) are created in Supabase by
+ * the queue right before their audio is uploaded.
+ *
+ * The queue is a module-level singleton so the recording hook, crash recovery
+ * and the import flow can enqueue work without a React context.
+ * UploadQueueContext drives it from app lifecycle events and exposes progress.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { supabase, supabaseUrl, supabaseAnonKey } from '@/lib/supabase';
+import { deleteJournal } from '@/lib/recording-journal';
+import { queueMeetingForProcessing, queuePartForProcessing } from '@/lib/recording-upload';
+import { syncOfflineMeeting } from '@/lib/offline-meetings';
+
+const LOG_PREFIX = '[UploadQueue]';
+
+const QUEUE_STORAGE_KEY = 'upload_queue';
+const STAGING_DIR_NAME = 'upload-staging';
+const BUCKET_NAME = 'meeting-audio';
+
+// Supabase Storage requires exactly 6MB parts for TUS uploads
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * What to remove from the device once the upload is complete
+ * - journal: the recording journal and its metadata
+ * - file: the uploaded file itself
+ * - none: leave the file alone
+ */
+export type UploadCleanup = 'journal' | 'file' | 'none';
+
+export type UploadTaskStatus = 'pending' | 'uploading' | 'finalizing';
+
+/**
+ * A persisted upload task. Keyed by meeting, or by part for a recording
+ * continued into an existing meeting.
+ */
+export interface UploadTask {
+  id: string;
+  meetingId: string;
+  /** Set when the audio is an additional part of the meeting */
+  partId: string | null;
+  userId: string;
+  fileUri: string;
+  audioPath: string;
+  audioFormat: string;
+  contentType: string;
+  durationSeconds: number | null;
+  recordedAt: string | null;
+  cleanup: UploadCleanup;
+  /** TUS upload URL, null until the upload has been created on the server */
+  uploadUrl: string | null;
+  bytesUploaded: number;
+  totalBytes: number;
+  status: UploadTaskStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface EnqueueUploadParams {
+  meetingId: string;
+  /** Upload as an additional part of a meeting that already has audio */
+  partId?: string;
+  userId: string;
+  file: File;
+  audioFormat: string;
+  contentType: string;
+  durationSeconds?: number;
+  recordedAt?: string;
+  cleanup: UploadCleanup;
+  /**
+   * Copy the file into the queue's staging directory first. Use for files the
+   * OS may remove, such as temporary copies from the document picker.
+   */
+  stageFile?: boolean;
+}
+
+type UploadQueueListener = (tasks: UploadTask[]) => void;
+type UploadCompleteListener = (meetingId: string) => void;
+
+/**
+ * Error that should drop the task instead of retrying it
+ */
+class FatalUploadError extends Error {}
+
+let tasks: UploadTask[] = [];
+let loadPromise: Promise<void> | null = null;
+let processingPromise: Promise<void> | null = null;
+const listeners = new Set<UploadQueueListener>();
+const completeListeners = new Set<UploadCompleteListener>();
+
+function notify(): void {
+  const snapshot = [...tasks];
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+async function persist(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(tasks));
+  } catch (err) {
+    console.error(`${LOG_PREFIX} Failed to persist queue:`, err);
+  }
+}
+
+function loadQueue(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+        const storedTasks: UploadTask[] = stored ? JSON.parse(stored) : [];
+        // Tasks interrupted mid-upload resume from their last acknowledged offset
+        const loaded = storedTasks.map((task) => ({
+          ...task,
+          // Tasks persisted before parts existed
+          id: task.id ?? task.meetingId,
+          partId: task.partId ?? null,
+          status: 'pending' as const,
+        }));
+        // Keep anything enqueued while the stored queue was loading
+        tasks = [...loaded.filter((task) => !tasks.some((t) => t.id === task.id)), ...tasks];
+        console.log(`${LOG_PREFIX} Loaded ${tasks.length} queued upload(s)`);
+      } catch (err) {
+        console.error(`${LOG_PREFIX} Failed to load queue:`, err);
+      }
+      notify();
+    })();
+  }
+  return loadPromise;
+}
+
+function updateTask(taskId: string, updates: Partial<UploadTask>): void {
+  tasks = tasks.map((task) => (task.id === taskId ? { ...task, ...updates } : task));
+  notify();
+}
+
+function removeTask(taskId: string): void {
+  tasks = tasks.filter((task) => task.id !== taskId);
+  notify();
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: supabaseAnonKey,
+    'Tus-Resumable': '1.0.0',
+  };
+}
+
+/**
+ * Create the TUS upload on the server and return its URL
+ */
+async function createUpload(task: UploadTask, headers: Record<string, string>): Promise<string> {
+  const response = await fetch(`${supabaseUrl}/storage/v1/upload/resumable`, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'x-upsert': 'true',
+      'Upload-Length': String(task.totalBytes),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: BUCKET_NAME,
+        objectName: task.audioPath,
+        contentType: task.contentType,
+        cacheControl: '3600',
+      }),
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (!response.ok || !location) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Failed to create upload (${response.status}): ${body || response.statusText}`);
+  }
+
+  return location;
+}
+
+/**
+ * Ask the server how many bytes it already has. Returns null if the upload
+ * expired or is unknown and must be created again.
+ */
+async function getServerOffset(uploadUrl: string, headers: Record<string, string>): Promise<number | null> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers });
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to check upload offset (${response.status})`);
+  }
+
+  const offset = Number(response.headers.get('Upload-Offset'));
+  return Number.isFinite(offset) ? offset : null;
+}
+
+/**
+ * Send the file in parts from the server's current offset
+ */
+async function uploadFile(task: UploadTask, file: File): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  let uploadUrl = task.uploadUrl;
+  let offset: number | null = null;
+
+  if (uploadUrl) {
+    offset = await getServerOffset(uploadUrl, headers);
+    if (offset === null) {
+      console.log(`${LOG_PREFIX} Upload for ${task.meetingId} expired, starting over`);
+      uploadUrl = null;
+    }
+  }
+
+  if (!uploadUrl) {
+    uploadUrl = await createUpload(task, headers);
+    offset = 0;
+    updateTask(task.id, { uploadUrl, bytesUploaded: 0 });
+    await persist();
+  }
+
+  let bytesUploaded = offset ?? 0;
+  updateTask(task.id, { bytesUploaded });
+
+  const handle = file.open();
+  try {
+    while (bytesUploaded < task.totalBytes) {
+      handle.offset = bytesUploaded;
+      const chunk = handle.readBytes(Math.min(CHUNK_SIZE, task.totalBytes - bytesUploaded));
+
+      const response = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...headers,
+          'Upload-Offset': String(bytesUploaded),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+        body: chunk.buffer as ArrayBuffer,
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        // The server's offset moved on without us - re-sync on the next attempt
+        if (response.status === 409) {
+          throw new Error('Upload offset mismatch, will resume from server offset');
+        }
+        throw new Error(`Upload failed (${response.status}): ${body || response.statusText}`);
+      }
+
+      const serverOffset = Number(response.headers.get('Upload-Offset'));
+      bytesUploaded = Number.isFinite(serverOffset) && serverOffset > 0 ? serverOffset : bytesUploaded + chunk.length;
+
+      updateTask(task.id, { bytesUploaded });
+      await persist();
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+function cleanupLocalFile(task: UploadTask): void {
+  try {
+    if (task.cleanup === 'journal') {
+      deleteJournal(task.partId ?? task.meetingId);
+    } else if (task.cleanup === 'file') {
+      const file = new File(task.fileUri);
+      if (file.exists) {
+        file.delete();
+      }
+    }
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Failed to clean up local audio for ${task.meetingId}:`, err);
+  }
+}
+
+async function runTask(task: UploadTask): Promise<void> {
+  // Meetings recorded offline are created server-side first
+  await syncOfflineMeeting(task.meetingId);
+
+  // Skip meetings that were deleted or already received their audio.
+  // Parts are added to meetings that already have audio.
+  const { data: meeting, error: meetingError } = await supabase
+    .from('meetings')
+    .select('id, raw_audio_path, status')
+    .eq('id', task.meetingId)
+    .maybeSingle();
+
+  if (meetingError) {
+    throw new Error(`Failed to look up meeting: ${meetingError.message}`);
+  }
+  if (!meeting) {
+    throw new FatalUploadError('Meeting no longer exists');
+  }
+  if (!task.partId && meeting.raw_audio_path && meeting.status !== 'uploading') {
+    console.log(`${LOG_PREFIX} Meeting ${task.meetingId} already has audio, dropping task`);
+    return;
+  }
+
+  const file = new File(task.fileUri);
+  if (!file.exists) {
+    throw new FatalUploadError('Local audio file is missing');
+  }
+
+  updateTask(task.id, { status: 'uploading' });
+
+  if (task.bytesUploaded < task.totalBytes || !task.uploadUrl) {
+    await uploadFile(task, file);
+  }
+
+  updateTask(task.id, { status: 'finalizing', bytesUploaded: task.totalBytes });
+  await persist();
+
+  if (task.partId) {
+    await queuePartForProcessing({
+      meetingId: task.meetingId,
+      partId: task.partId,
+      userId: task.userId,
+      audioPath: task.audioPath,
+      audioFormat: task.audioFormat,
+      durationSeconds: task.durationSeconds ?? 0,
+      recordedAt: task.recordedAt ?? task.createdAt,
+    });
+    return;
+  }
+
+  await queueMeetingForProcessing({
+    meetingId: task.meetingId,
+    audioPath: task.audioPath,
+    audioFormat: task.audioFormat,
+    durationSeconds: task.durationSeconds ?? undefined,
+    recordedAt: task.recordedAt ?? undefined,
+  });
+}
+
+async function processQueue(): Promise<void> {
+  await loadQueue();
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const currentUserId = session?.user?.id;
+  if (!currentUserId) return;
+
+  // Process oldest first; re-read the queue each loop since tasks change
+  for (;;) {
+    const now = Date.now();
+    const task = tasks.find(
+      (t) => t.userId === currentUserId && t.status === 'pending' && t.nextAttemptAt <= now
+    );
+    if (!task) break;
+
+    console.log(`${LOG_PREFIX} Uploading ${task.meetingId} (attempt ${task.attempts + 1}, ${task.bytesUploaded}/${task.totalBytes} bytes)`);
+
+    try {
+      await runTask(task);
+
+      console.log(`${LOG_PREFIX} Upload complete for ${task.meetingId}`);
+      cleanupLocalFile(task);
+      removeTask(task.id);
+      await persist();
+      completeListeners.forEach((listener) => listener(task.meetingId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+
+      if (err instanceof FatalUploadError) {
+        console.error(`${LOG_PREFIX} Dropping upload for ${task.meetingId}: ${message}`);
+        removeTask(task.id);
+        await persist();
+        await supabase
+          .from('meetings')
+          .update({ status: 'failed', error_message: `Audio upload failed: ${message}` })
+          .eq('id', task.meetingId)
+          .eq('status', 'uploading');
+        continue;
+      }
+
+      const attempts = task.attempts + 1;
+      const delay = getRetryDelay(attempts);
+      console.warn(`${LOG_PREFIX} Upload for ${task.meetingId} failed, retrying in ${Math.round(delay / 1000)}s: ${message}`);
+
+      updateTask(task.id, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+        lastError: message,
+      });
+      await persist();
+    }
+  }
+}
+
+/**
+ * Work through all due uploads. Concurrent calls share a single run.
+ */
+export function processUploadQueue(): Promise<void> {
+  if (!processingPromise) {
+    processingPromise = processQueue()
+      .catch((err) => {
+        console.error(`${LOG_PREFIX} Queue run failed:`, err);
+      })
+      .finally(() => {
+        processingPromise = null;
+      });
+  }
+  return processingPromise;
+}
+
+/**
+ * Add a file to the upload queue and start processing. Re-enqueueing a
+ * meeting (or part) replaces its existing task.
+ */
+export async function enqueueUpload({
+  meetingId,
+  partId,
+  userId,
+  file,
+  audioFormat,
+  contentType,
+  durationSeconds,
+  recordedAt,
+  cleanup,
+  stageFile = false,
+}: EnqueueUploadParams): Promise<UploadTask> {
+  await loadQueue();
+
+  const taskId = partId ?? meetingId;
+  let uploadFile = file;
+  let taskCleanup = cleanup;
+  if (stageFile) {
+    const stagingDir = new Directory(Paths.document, STAGING_DIR_NAME);
+    if (!stagingDir.exists) {
+      stagingDir.create({ idempotent: true, intermediates: true });
+    }
+    uploadFile = new File(stagingDir, `${taskId}.${audioFormat}`);
+    if (uploadFile.exists) {
+      uploadFile.delete();
+    }
+    file.copy(uploadFile);
+    taskCleanup = 'file';
+  }
+
+  const task: UploadTask = {
+    id: taskId,
+    meetingId,
+    partId: partId ?? null,
+    userId,
+    fileUri: uploadFile.uri,
+    audioPath: partId
+      ? `${userId}/${meetingId}/parts/${partId}.${audioFormat}`
+      : `${userId}/${meetingId}/recording.${audioFormat}`,
+    audioFormat,
+    contentType,
+    durationSeconds: durationSeconds ?? null,
+    recordedAt: recordedAt ?? null,
+    cleanup: taskCleanup,
+    uploadUrl: null,
+    bytesUploaded: 0,
+    totalBytes: uploadFile.size,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  tasks = [...tasks.filter((t) => t.id !== taskId), task];
+  notify();
+  await persist();
+
+  console.log(`${LOG_PREFIX} Enqueued ${taskId}: ${task.totalBytes} bytes -> ${task.audioPath}`);
+
+  processUploadQueue();
+  return task;
+}
+
+/**
+ * Retry a meeting's waiting uploads immediately instead of after their backoff
+ */
+export async function retryUploadNow(meetingId: string): Promise<void> {
+  await loadQueue();
+  tasks
+    .filter((task) => task.meetingId === meetingId)
+    .forEach((task) => updateTask(task.id, { nextAttemptAt: 0 }));
+  await persist();
+  await processUploadQueue();
+}
+
+/**
+ * Current tasks, loading the persisted queue if needed
+ */
+export async function getUploadTasks(): Promise<UploadTask[]> {
+  await loadQueue();
+  return [...tasks];
+}
+
+/**
+ * The earliest time a waiting task becomes due, or null if none are waiting
+ */
+export function getNextAttemptAt(): number | null {
+  const waiting = tasks.filter((task) => task.status === 'pending').map((task) => task.nextAttemptAt);
+  return waiting.length > 0 ? Math.min(...waiting) : null;
+}
+
+export function subscribeToUploadQueue(listener: UploadQueueListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function subscribeToUploadComplete(listener: UploadCompleteListener): () => void {
+  completeListeners.add(listener);
+  return () => {
+    completeListeners.delete(listener);
+  };
+}
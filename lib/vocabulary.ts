@@ -0,0 +1,83 @@
+/**
+ * Custom Vocabulary
+ *
+ * Terms AssemblyAI should favour when transcribing - party names, case
+ * captions, Latin terms, local street names. Made up of the user's own list
+ * (managed in settings) plus terms derived from the meeting's contact.
+ * Live recordings send them as streaming keyterms; process-recording builds
+ * the same list for the batch transcription and saves it on the meeting.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { ASSEMBLYAI_STREAMING_CONFIG } from '@/lib/audio-config';
+import type { Contact } from '@/types';
+
+const LOG_PREFIX = '[Vocabulary]';
+
+/**
+ * Terms for a contact: full name, surname on its own (for "Mr. Smith") and
+ * company. Matches getContactTerms in process-recording.
+ */
+export function getContactTerms(contact: Pick<Contact, 'first_name' | 'last_name' | 'company'>): string[] {
+  const fullName = [contact.first_name, contact.last_name].filter(Boolean).join(' ');
+  return [fullName, contact.last_name, contact.company].filter((term): term is string => !!term?.trim());
+}
+
+/**
+ * Combine term lists in priority order, dropping blanks, duplicates (ignoring
+ * case) and terms that are too long, up to maxTerms
+ */
+export function mergeVocabulary(
+  lists: string[][],
+  maxTerms: number = ASSEMBLYAI_STREAMING_CONFIG.MAX_KEYTERMS,
+  maxLength: number = ASSEMBLYAI_STREAMING_CONFIG.KEYTERM_MAX_LENGTH
+): string[] {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+
+  for (const term of lists.flat()) {
+    const trimmed = term.trim().replace(/\s+/g, ' ');
+    const key = trimmed.toLowerCase();
+    if (!trimmed || trimmed.length > maxLength || seen.has(key)) continue;
+
+    seen.add(key);
+    terms.push(trimmed);
+    if (terms.length >= maxTerms) break;
+  }
+
+  return terms;
+}
+
+/**
+ * Vocabulary for a meeting: its contact's terms first, then the user's own.
+ * Returns an empty list on error - transcription works without it.
+ */
+export async function fetchMeetingVocabulary(meetingId: string, userId: string): Promise<string[]> {
+  try {
+    const [termsResult, meetingResult] = await Promise.all([
+      supabase
+        .from('vocabulary_terms')
+        .select('term')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('meetings')
+        .select('contact:contacts(first_name, last_name, company)')
+        .eq('id', meetingId)
+        .maybeSingle(),
+    ]);
+
+    if (termsResult.error) {
+      throw new Error(termsResult.error.message);
+    }
+
+    const userTerms = (termsResult.data || []).map((row: { term: string }) => row.term);
+    const contact = meetingResult.data?.contact as Pick<Contact, 'first_name' | 'last_name' | 'company'> | null | undefined;
+    const contactTerms = contact ? getContactTerms(contact) : [];
+
+    return mergeVocabulary([contactTerms, userTerms]);
+  } catch (err) {
+    console.warn(`${LOG_PREFIX} Failed to load vocabulary:`, err);
+    return [];
+  }
+}
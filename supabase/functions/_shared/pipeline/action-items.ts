@@ -0,0 +1,131 @@
+// Action items
+// Saves the summary's action items to action_items, each linked to the
+// transcript segment it was agreed in and, when they are the one
+// responsible, the meeting's contact.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type { SummaryActionItem } from "./summary.ts";
+
+const LOG_PREFIX = "[ActionItems]";
+
+// Share of the quote's words a segment must contain to count as its source
+// when the quote isn't found word for word
+const MIN_QUOTE_OVERLAP = 0.6;
+
+// Saved segment, as returned by the insert in finishPipeline
+export interface SavedSegment {
+  id: string;
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+export interface SaveActionItemsParams {
+  meetingId: string;
+  userId: string;
+  items: SummaryActionItem[];
+  segments: SavedSegment[];
+  contact: { id: string; first_name: string; last_name: string | null } | null;
+  // Regenerating the summary or reprocessing keeps items already marked
+  // done instead of replacing every item
+  keepDone?: boolean;
+}
+
+// Helper: Lowercase words without punctuation, for loose text matching
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Helper: The segment a quote came from - an exact match if there is one,
+// otherwise the segment sharing the most of its words
+export function findSourceSegment(quote: string | null, segments: SavedSegment[]): string | null {
+  if (!quote) return null;
+
+  const quoteWords = toWords(quote);
+  if (quoteWords.length === 0) return null;
+
+  const normalizedQuote = quoteWords.join(" ");
+  const exact = segments.find((segment) => toWords(segment.text).join(" ").includes(normalizedQuote));
+  if (exact) return exact.id;
+
+  let best: { id: string; overlap: number } | null = null;
+  for (const segment of segments) {
+    const segmentWords = new Set(toWords(segment.text));
+    const shared = quoteWords.filter((word) => segmentWords.has(word)).length;
+    const overlap = shared / quoteWords.length;
+    if (overlap >= MIN_QUOTE_OVERLAP && (!best || overlap > best.overlap)) {
+      best = { id: segment.id, overlap };
+    }
+  }
+  return best?.id ?? null;
+}
+
+// Helper: Whether the responsible party named in the meeting is the contact
+function isContact(owner: string | null, contact: SaveActionItemsParams["contact"]): boolean {
+  if (!owner || !contact) return false;
+  const ownerName = owner.toLowerCase();
+  const fullName = `${contact.first_name} ${contact.last_name || ""}`.trim().toLowerCase();
+  return ownerName.includes(fullName) || ownerName === contact.first_name.toLowerCase();
+}
+
+/**
+ * Replace the meeting's action items with the summary's. Failures are
+ * logged, not thrown - the summary is still saved without them.
+ */
+export async function saveActionItems(
+  supabase: ReturnType<typeof createClient>,
+  { meetingId, userId, items, segments, contact, keepDone = false }: SaveActionItemsParams
+): Promise<void> {
+  let doneDescriptions = new Set<string>();
+
+  if (keepDone) {
+    const { data: doneRows } = await supabase
+      .from("action_items")
+      .select("description")
+      .eq("meeting_id", meetingId)
+      .eq("status", "done");
+    doneDescriptions = new Set(
+      ((doneRows || []) as Array<{ description: string }>).map((row) => row.description.toLowerCase())
+    );
+  }
+
+  let deleteQuery = supabase.from("action_items").delete().eq("meeting_id", meetingId);
+  if (keepDone) {
+    deleteQuery = deleteQuery.eq("status", "open");
+  }
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    console.error(`${LOG_PREFIX} Error clearing action items:`, deleteError);
+    return;
+  }
+
+  const rows = items
+    .filter((item) => !doneDescriptions.has(item.text.toLowerCase()))
+    .map((item) => ({
+      meeting_id: meetingId,
+      user_id: userId,
+      description: item.text,
+      responsible_party: item.owner,
+      contact_id: isContact(item.owner, contact) ? contact!.id : null,
+      due_date: item.due_date,
+      source_segment_id: findSourceSegment(item.source_quote, segments),
+    }));
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.from("action_items").insert(rows);
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Error saving action items:`, error);
+    return;
+  }
+
+  console.log(`${LOG_PREFIX} Saved ${rows.length} action items for meeting ${meetingId}`);
+}
@@ -0,0 +1,162 @@
+// Chapters
+// Long meetings are split into topic chapters by the provider's LLM. Each
+// chapter starts at the segment its opening quote is found in and runs to
+// the next one, so together they cover the whole recording.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type { ProviderTranscript, TranscriptionProvider } from "../transcription/index.ts";
+import { findSourceSegment, type SavedSegment } from "./action-items.ts";
+
+const LOG_PREFIX = "[Chapters]";
+
+// Shorter meetings are one topic - chapters wouldn't help anyone find their
+// way around them
+const MIN_CHAPTERED_DURATION_MS = 5 * 60 * 1000;
+
+export interface GeneratedChapter {
+  title: string;
+  gist: string | null;
+  start_quote: string;    // Verbatim words the chapter opens with
+}
+
+// Helper: Trimmed string from a JSON value, or null if there's none
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Helper: Pull the chapter list out of the model's response (handles text
+// around it); null if there's no usable JSON
+function parseChapters(responseText: string): GeneratedChapter[] | null {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed.chapters)) return null;
+
+  return parsed.chapters
+    .map((item): GeneratedChapter | null => {
+      const title = toOptionalString(item?.title);
+      const startQuote = toOptionalString(item?.start_quote);
+      if (!title || !startQuote) return null;
+      return { title, gist: toOptionalString(item.gist), start_quote: startQuote };
+    })
+    .filter((chapter): chapter is GeneratedChapter => chapter !== null);
+}
+
+/**
+ * Generate chapters with the provider's LLM. Never throws - a meeting
+ * without chapters is still processed; an empty list is returned instead,
+ * as it is for meetings too short to need them.
+ */
+export async function generateChapters(
+  provider: TranscriptionProvider,
+  transcript: ProviderTranscript
+): Promise<GeneratedChapter[]> {
+  const durationMs = transcript.utterances.reduce((end, utterance) => Math.max(end, utterance.end), 0);
+  if (durationMs < MIN_CHAPTERED_DURATION_MS) {
+    console.log(`${LOG_PREFIX} Skipping chapters for a ${Math.round(durationMs / 1000)}s transcript`);
+    return [];
+  }
+
+  console.log(`${LOG_PREFIX} Generating chapters with ${provider.name}...`);
+
+  const prompt = `Split this meeting transcript into chapters, one per topic, as a JSON object:
+
+{
+  "chapters": [{"title": "A short topic title (2-6 words), e.g. \\"Fee agreement discussion\\"", "gist": "One sentence on what was covered", "start_quote": "The first few words of the chapter, verbatim from the transcript"}]
+}
+
+Guidelines:
+- List chapters in the order they happened, starting with the beginning of the meeting
+- Start a new chapter only when the topic changes - a chapter should cover at least a few minutes
+- Quote start_quote exactly as it appears in the transcript so it can be found again
+
+Return ONLY the JSON object, no other text or explanation.`;
+
+  let responseText: string;
+  try {
+    responseText = await provider.summarize(transcript, {
+      prompt,
+      context: "You are a legal documentation assistant organizing meeting transcripts for attorneys.",
+      maxOutputSize: 2000,
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Chapter error:`, error);
+    return [];
+  }
+
+  const chapters = parseChapters(responseText);
+  if (!chapters) {
+    console.error(`${LOG_PREFIX} Chapters response isn't valid JSON: ${responseText.substring(0, 200)}`);
+    return [];
+  }
+
+  console.log(`${LOG_PREFIX} Generated ${chapters.length} chapters`);
+  return chapters;
+}
+
+export interface SaveChaptersParams {
+  transcriptId: string;
+  meetingId: string;
+  userId: string;
+  chapters: GeneratedChapter[];
+  segments: SavedSegment[];
+}
+
+/**
+ * Place the chapters on the saved segments and save them. Chapters whose
+ * opening can't be found are dropped, and the first one is stretched back
+ * to the start of the recording. Failures are logged, not thrown.
+ */
+export async function saveChapters(
+  supabase: ReturnType<typeof createClient>,
+  { transcriptId, meetingId, userId, chapters, segments }: SaveChaptersParams
+): Promise<void> {
+  if (chapters.length === 0 || segments.length === 0) {
+    return;
+  }
+
+  const startMsById = new Map(segments.map((segment) => [segment.id, segment.start_ms]));
+  const placed: Array<{ title: string; gist: string | null; start_ms: number }> = [];
+  for (const chapter of chapters) {
+    const segmentId = findSourceSegment(chapter.start_quote, segments);
+    const startMs = segmentId ? startMsById.get(segmentId) : undefined;
+    // Two chapters opening in the same segment can't both be navigated to
+    if (startMs === undefined || placed.some((other) => other.start_ms === startMs)) continue;
+    placed.push({ title: chapter.title, gist: chapter.gist, start_ms: startMs });
+  }
+
+  if (placed.length === 0) {
+    console.warn(`${LOG_PREFIX} None of the ${chapters.length} chapters could be placed`);
+    return;
+  }
+
+  placed.sort((a, b) => a.start_ms - b.start_ms);
+  placed[0].start_ms = 0;
+  const endMs = segments.reduce((end, segment) => Math.max(end, segment.end_ms), 0);
+
+  const rows = placed.map((chapter, index) => ({
+    meeting_id: meetingId,
+    transcript_id: transcriptId,
+    user_id: userId,
+    title: chapter.title,
+    gist: chapter.gist,
+    start_ms: chapter.start_ms,
+    end_ms: index + 1 < placed.length ? placed[index + 1].start_ms : endMs,
+  }));
+
+  const { error } = await supabase.from("meeting_chapters").insert(rows);
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Error saving chapters:`, error);
+    return;
+  }
+
+  console.log(`${LOG_PREFIX} Saved ${rows.length} chapters for transcript ${transcriptId}`);
+}
@@ -0,0 +1,193 @@
+// Legal entities
+// Dates, deadlines, amounts, case and docket numbers, statute and rule
+// citations, and named people and organizations, extracted from each
+// transcript version by the provider's LLM and saved to transcript_entities
+// linked to the segment they were mentioned in.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type { ProviderTranscript, TranscriptionProvider } from "../transcription/index.ts";
+import { findSourceSegment, type SavedSegment } from "./action-items.ts";
+
+const LOG_PREFIX = "[Entities]";
+
+export const ENTITY_TYPES = [
+  "date",
+  "deadline",
+  "amount",
+  "case_number",
+  "citation",
+  "person",
+  "organization",
+] as const;
+
+export type EntityType = typeof ENTITY_TYPES[number];
+
+export interface ExtractedEntity {
+  type: EntityType;
+  text: string;                     // As it was said
+  value: string | null;             // Normalized - see ENTITY_PROMPTS
+  source_quote: string | null;      // Words from the transcript it was mentioned in
+}
+
+// What each type asks the model for
+const ENTITY_PROMPTS: Record<EntityType, string> = {
+  date: `"date": a date mentioned (a hearing, a meeting, when something happened). value: YYYY-MM-DD`,
+  deadline: `"deadline": a date something must be done by (filing, response, payment). value: YYYY-MM-DD`,
+  amount: `"amount": a monetary amount. value: the number and ISO currency code, e.g. "25000 USD"`,
+  case_number: `"case_number": a case, docket or matter number. value: the number as written in court documents`,
+  citation: `"citation": a statute, regulation or court rule. value: the standard citation, e.g. "42 U.S.C. § 1983" or "Fed. R. Civ. P. 12(b)(6)"`,
+  person: `"person": a person named in the meeting. value: their full name if it was given`,
+  organization: `"organization": a company, court, agency or firm. value: its full name if it was given`,
+};
+
+export interface EntityContext {
+  meetingDate: string;   // YYYY-MM-DD, for resolving relative dates
+}
+
+// Helper: Trimmed string from a JSON value, or null if there's none
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Helper: Normalized value for the type - dates and amounts that aren't in
+// the asked-for format are dropped rather than saved wrong
+function toNormalizedValue(type: EntityType, value: unknown): string | null {
+  const text = toOptionalString(value);
+  if (!text) return null;
+
+  if (type === "date" || type === "deadline") {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return null;
+    return isNaN(new Date(`${text}T00:00:00Z`).getTime()) ? null : text;
+  }
+  if (type === "amount") {
+    return /^\d+(\.\d+)? [A-Z]{3}$/.test(text) ? text : null;
+  }
+  return text;
+}
+
+function isEntityType(value: unknown): value is EntityType {
+  return typeof value === "string" && (ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+// Helper: Pull the entity list out of the model's response (handles text
+// around it). Each entity is kept once per type; null if there's no usable
+// JSON.
+function parseEntities(responseText: string): ExtractedEntity[] | null {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(parsed.entities)) return null;
+
+  const seen = new Set<string>();
+  const entities: ExtractedEntity[] = [];
+  for (const item of parsed.entities) {
+    if (!item || !isEntityType(item.type)) continue;
+    const text = toOptionalString(item.text);
+    if (!text) continue;
+
+    const value = toNormalizedValue(item.type, item.value);
+    const key = `${item.type}:${(value || text).toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    entities.push({ type: item.type, text, value, source_quote: toOptionalString(item.source_quote) });
+  }
+  return entities;
+}
+
+/**
+ * Extract entities with the provider's LLM. Never throws - a meeting without
+ * entities is still processed; an empty list is returned instead.
+ */
+export async function extractEntities(
+  provider: TranscriptionProvider,
+  transcript: ProviderTranscript,
+  { meetingDate }: EntityContext
+): Promise<ExtractedEntity[]> {
+  console.log(`${LOG_PREFIX} Extracting entities with ${provider.name}...`);
+
+  const prompt = `Extract the legal entities from this meeting transcript as a JSON object:
+
+{
+  "entities": [{"type": "one of the types below", "text": "The entity exactly as it was said", "value": "Normalized value, or null", "source_quote": "A short verbatim quote from the transcript where it was mentioned"}]
+}
+
+Types:
+${ENTITY_TYPES.map((type) => `- ${ENTITY_PROMPTS[type]}`).join("\n")}
+
+Guidelines:
+- List each entity once, where it was first mentioned
+- Resolve relative dates like "next Friday" against the meeting date (${meetingDate})
+- Only include entities actually mentioned - do not infer or make up any
+- Use an empty list if there are none
+
+Return ONLY the JSON object, no other text or explanation.`;
+
+  let responseText: string;
+  try {
+    responseText = await provider.summarize(transcript, {
+      prompt,
+      context: "You are a legal documentation assistant extracting entities from meeting transcripts for attorneys. Be precise with dates, numbers, and citations.",
+      maxOutputSize: 4000,
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Extraction error:`, error);
+    return [];
+  }
+
+  const entities = parseEntities(responseText);
+  if (!entities) {
+    console.error(`${LOG_PREFIX} Entities response isn't valid JSON: ${responseText.substring(0, 200)}`);
+    return [];
+  }
+
+  console.log(`${LOG_PREFIX} Extracted ${entities.length} entities`);
+  return entities;
+}
+
+export interface SaveEntitiesParams {
+  transcriptId: string;
+  meetingId: string;
+  userId: string;
+  entities: ExtractedEntity[];
+  segments: SavedSegment[];
+}
+
+/**
+ * Save a transcript version's entities, each linked to the segment it was
+ * mentioned in. Failures are logged, not thrown.
+ */
+export async function saveEntities(
+  supabase: ReturnType<typeof createClient>,
+  { transcriptId, meetingId, userId, entities, segments }: SaveEntitiesParams
+): Promise<void> {
+  if (entities.length === 0) {
+    return;
+  }
+
+  const rows = entities.map((entity) => ({
+    transcript_id: transcriptId,
+    meeting_id: meetingId,
+    user_id: userId,
+    entity_type: entity.type,
+    text: entity.text,
+    normalized_value: entity.value,
+    segment_id: findSourceSegment(entity.source_quote, segments) ?? findSourceSegment(entity.text, segments),
+  }));
+
+  const { error } = await supabase.from("transcript_entities").insert(rows);
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Error saving entities:`, error);
+    return;
+  }
+
+  console.log(`${LOG_PREFIX} Saved ${rows.length} entities for transcript ${transcriptId}`);
+}
@@ -0,0 +1,446 @@
+// Pipeline steps after transcription: speaker naming, summary, saving the
+// transcript as a new version with its action items, entities and chapters,
+// and recording usage. Run by process-recording
+// once a transcript is back, or by assemblyai-webhook when AssemblyAI calls
+// back.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type {
+  SpeakerMapping,
+  TranscriptionProvider,
+  TranscriptionResult,
+  TranscriptUtterance,
+} from "../transcription/index.ts";
+import {
+  enhanceTranscriptSpeakers,
+  generateSummary,
+  normalizeSummaryTemplate,
+  type FlaggedMoment,
+  type SummaryResult,
+} from "./summary.ts";
+import { recordUsageAndMeter, type UsageResult } from "./usage.ts";
+import { saveActionItems, type SavedSegment } from "./action-items.ts";
+import { extractEntities, saveEntities } from "./entities.ts";
+import { generateChapters, saveChapters } from "./chapters.ts";
+import { publishProgress, type ProgressStage } from "./progress.ts";
+
+const LOG_PREFIX = "[Pipeline]";
+
+// Bookmarks are tapped just after something important is said, so the
+// flagged range passed to the summary reaches back this far from the tap
+const BOOKMARK_LOOKBACK_MS = 30000;
+
+// Phone call recordings have the user on channel 1 and the other party on
+// channel 2. Multichannel utterances are labelled by channel number, so the
+// speakers are named from the channel rather than guessed by LeMUR.
+const PHONE_CALL_USER_SPEAKER = "Me";
+const PHONE_CALL_OTHER_SPEAKER = "Caller";
+
+// Bookmark flagged by the user while recording
+export interface MeetingBookmark {
+  id: string;
+  offset_ms: number;
+  label: string | null;
+}
+
+// A transcript turn with its speaker already named, as saved in
+// transcript_segments
+export interface NamedUtterance {
+  speaker: string;
+  text: string;
+  start_ms: number;
+  end_ms: number;
+}
+
+// Helper: Segment speaker for an utterance - the AI-identified name if there
+// is one, otherwise "Speaker X"
+export function getSpeakerLabel(utterance: TranscriptUtterance, speakerNames: SpeakerMapping): string {
+  // Format speaker label: "A" -> "Speaker A", "B" -> "Speaker B", etc.
+  const defaultLabel = utterance.speaker.toLowerCase().startsWith('speaker') 
+    ? utterance.speaker 
+    : `Speaker ${utterance.speaker}`;
+  return speakerNames[defaultLabel] || defaultLabel;
+}
+
+// Helper: Bookmarks for the meeting, in recording order
+export async function fetchBookmarks(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string
+): Promise<MeetingBookmark[]> {
+  const { data, error } = await supabase
+    .from("meeting_bookmarks")
+    .select("id, offset_ms, label")
+    .eq("meeting_id", meetingId)
+    .order("offset_ms", { ascending: true });
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Error fetching bookmarks:`, error);
+  }
+
+  return (data || []) as MeetingBookmark[];
+}
+
+// Helper: Collect the utterances around each bookmark for the summary prompt
+export function buildFlaggedMoments(
+  bookmarks: MeetingBookmark[],
+  utterances: NamedUtterance[]
+): FlaggedMoment[] {
+  return bookmarks.map((bookmark) => {
+    const startMs = Math.max(0, bookmark.offset_ms - BOOKMARK_LOOKBACK_MS);
+    const endMs = bookmark.offset_ms;
+
+    const excerpt = utterances
+      .filter((utterance) => utterance.end_ms >= startMs && utterance.start_ms <= endMs)
+      .map((utterance) => `${utterance.speaker}: ${utterance.text}`)
+      .join("\n");
+
+    return { startMs, endMs, label: bookmark.label, excerpt };
+  });
+}
+
+// Helper: Link bookmarks to the saved segment they fall in (or the last one
+// to finish before them). Matches findBookmarkSegment in the app.
+async function alignBookmarksToSegments(
+  supabase: ReturnType<typeof createClient>,
+  bookmarks: MeetingBookmark[],
+  segments: Array<{ id: string; start_ms: number; end_ms: number }>
+): Promise<void> {
+  for (const bookmark of bookmarks) {
+    let match: { id: string; start_ms: number; end_ms: number } | null = null;
+    for (const segment of segments) {
+      if (bookmark.offset_ms >= segment.start_ms && bookmark.offset_ms <= segment.end_ms) {
+        match = segment;
+        break;
+      }
+      if (segment.end_ms < bookmark.offset_ms && (!match || segment.end_ms > match.end_ms)) {
+        match = segment;
+      }
+    }
+
+    const { error } = await supabase
+      .from("meeting_bookmarks")
+      .update({ segment_id: match?.id ?? null })
+      .eq("id", bookmark.id);
+
+    if (error) {
+      console.error(`${LOG_PREFIX} Failed to align bookmark ${bookmark.id}:`, error);
+    }
+  }
+
+  console.log(`${LOG_PREFIX} Aligned ${bookmarks.length} bookmarks to transcript segments`);
+}
+
+// Helper: Speaker names for a phone call - fixed by channel
+function getPhoneCallSpeakerNames(contactName: string | null): SpeakerMapping {
+  return {
+    "Speaker 1": PHONE_CALL_USER_SPEAKER,
+    "Speaker 2": contactName || PHONE_CALL_OTHER_SPEAKER,
+  };
+}
+
+// Helper: Speaker names for a new version. Names from the current version
+// are re-applied to the speakers this run labelled the same way, so names
+// the user set survive reprocessing.
+function carryOverSpeakerNames(
+  speakerNames: SpeakerMapping,
+  previousNames: SpeakerMapping | null,
+  namedUtterances: NamedUtterance[]
+): SpeakerMapping {
+  const speakers = new Set(namedUtterances.map((utterance) => utterance.speaker));
+  const names: SpeakerMapping = { ...speakerNames };
+  for (const [label, name] of Object.entries(previousNames || {})) {
+    if (speakers.has(label)) {
+      names[label] = name;
+    }
+  }
+  return names;
+}
+
+// Meeting fields the steps need, with its contact and meeting type
+export interface PipelineMeeting {
+  id: string;
+  user_id: string;
+  title: string | null;
+  expected_speakers: number | null;
+  recording_mode: string | null;
+  meeting_type_id: string | null;
+  created_at: string;
+  contact: { id: string; first_name: string; last_name: string | null; company: string | null } | null;
+  meeting_type: { name: string; summary_template: unknown } | null;
+}
+
+export interface FinishPipelineParams {
+  meeting: PipelineMeeting;
+  provider: TranscriptionProvider;
+  result: TranscriptionResult;
+  vocabulary: string[];
+  durationSeconds: number;
+  polarAccessToken?: string;
+}
+
+export interface PipelineOutcome {
+  summary: SummaryResult;
+  speakerNames: SpeakerMapping;
+  usage: UsageResult | null;
+}
+
+// Helper: Contact's display name
+export function getContactName(contact: PipelineMeeting["contact"]): string | null {
+  return contact
+    ? `${contact.first_name}${contact.last_name ? " " + contact.last_name : ""}`.trim()
+    : null;
+}
+
+// Steps 4-8: everything after the transcript is back
+export async function finishPipeline(
+  supabase: ReturnType<typeof createClient>,
+  { meeting, provider, result, vocabulary, durationSeconds, polarAccessToken }: FinishPipelineParams
+): Promise<PipelineOutcome> {
+  const meetingId = meeting.id;
+  const contactName = getContactName(meeting.contact);
+  const contactCompany = meeting.contact?.company || null;
+  const meetingTypeName = meeting.meeting_type?.name || null;
+  const expectedSpeakers = meeting.expected_speakers || 2;
+  const isPhoneCall = meeting.recording_mode === "phone_call";
+
+  const { transcript, speechModel, language, detectedLanguage, languageConfidence, detectedSpeakers, speakerMismatch } = result;
+
+  const progress = (stage: ProgressStage, message: string | null = null) =>
+    publishProgress(supabase, { meetingId, userId: meeting.user_id, stage, durationSeconds, message });
+
+  await progress(
+    "diarization",
+    detectedSpeakers === null ? null : `${detectedSpeakers} speaker${detectedSpeakers === 1 ? "" : "s"} detected`
+  );
+
+  // ============================================
+  // STEP 4: Enhance speaker identification using AI
+  // (phone calls already know who is on each channel, and there is
+  // nothing to name when the provider can't diarize)
+  // ============================================
+  if (!isPhoneCall && detectedSpeakers !== null) {
+    await progress("speaker_naming");
+  }
+  const speakerNames: SpeakerMapping = isPhoneCall
+    ? getPhoneCallSpeakerNames(contactName)
+    : detectedSpeakers === null
+    ? {}
+    : await enhanceTranscriptSpeakers(
+        provider,
+        transcript,
+        {
+          contactName,
+          contactCompany,
+          expectedSpeakers,
+        }
+      );
+
+  // Utterances as they'll be saved as segments (with speaker names)
+  const namedUtterances: NamedUtterance[] = transcript.utterances.map((utterance) => ({
+    speaker: getSpeakerLabel(utterance, speakerNames),
+    text: utterance.text,
+    start_ms: utterance.start,
+    end_ms: utterance.end,
+  }));
+
+  // ============================================
+  // STEP 5: Generate summary with context, using the meeting type's template
+  // ============================================
+  await progress("summary");
+  const bookmarks = await fetchBookmarks(supabase, meetingId);
+  const flaggedMoments = buildFlaggedMoments(bookmarks, namedUtterances);
+  if (flaggedMoments.length > 0) {
+    console.log(`${LOG_PREFIX} Including ${flaggedMoments.length} flagged moments in summary`);
+  }
+
+  const summary = await generateSummary(
+    provider,
+    transcript,
+    {
+      title: meeting.title,
+      meetingDate: meeting.created_at.slice(0, 10),
+      contactName,
+      contactCompany,
+      meetingType: meetingTypeName,
+      expectedSpeakers,
+      speakerNames,
+      flaggedMoments,
+      template: normalizeSummaryTemplate(meeting.meeting_type?.summary_template),
+    }
+  );
+
+  // Earlier versions are kept - this run is saved as the next one
+  const { data: versionRows, error: versionsError } = await supabase
+    .from("transcripts")
+    .select("version, is_current, speaker_names")
+    .eq("meeting_id", meetingId);
+
+  if (versionsError) {
+    throw new Error(`Failed to load transcript versions: ${versionsError.message}`);
+  }
+
+  const versions = (versionRows || []) as Array<{ version: number; is_current: boolean; speaker_names: SpeakerMapping | null }>;
+  const version = versions.reduce((latest, row) => Math.max(latest, row.version), 0) + 1;
+  const versionSpeakerNames = carryOverSpeakerNames(
+    speakerNames,
+    versions.find((row) => row.is_current)?.speaker_names ?? null,
+    namedUtterances
+  );
+
+  // ============================================
+  // STEP 6: Update meeting with speaker validation results (speaker names
+  // are set when the new version becomes current)
+  // ============================================
+  console.log(`${LOG_PREFIX} Updating meeting with transcription metadata...`);
+  await supabase
+    .from("meetings")
+    .update({
+      detected_speakers: detectedSpeakers,
+      speaker_mismatch: speakerMismatch,
+      transcription_language: language,
+      speech_model_used: speechModel,
+      // Replaces the live estimate with detection over the whole recording
+      detected_language: detectedLanguage,
+      language_confidence: languageConfidence,
+      applied_vocabulary: vocabulary.length > 0 ? vocabulary : null,
+      transcription_provider: provider.name,
+      data_region: provider.dataRegion,
+    })
+    .eq("id", meetingId);
+
+  // ============================================
+  // STEP 7: Save transcript and segments
+  // ============================================
+  console.log(`${LOG_PREFIX} Saving transcript...`);
+  await progress("saving");
+
+  // Live streaming results are replaced by the processed transcript
+  await supabase.from("transcript_segments").delete().eq("meeting_id", meetingId).is("transcript_id", null);
+
+  // Save the transcript with its summary as a new version - made current
+  // once its segments are saved
+  const { data: savedTranscript, error: transcriptError } = await supabase
+    .from("transcripts")
+    .insert({
+      meeting_id: meetingId,
+      version,
+      is_current: false,
+      parameters: {
+        provider: provider.name,
+        speech_model: speechModel,
+        language,
+        expected_speakers: expectedSpeakers,
+        vocabulary,
+        multichannel: isPhoneCall,
+        data_region: provider.dataRegion,
+      },
+      speaker_names: Object.keys(versionSpeakerNames).length > 0 ? versionSpeakerNames : null,
+      full_text: transcript.text,
+      summary: summary.markdown,
+      summary_sections: summary.sections,
+      summary_status: summary.status,
+      summary_error_code: summary.errorCode,
+      summary_meeting_type_id: meeting.meeting_type_id,
+      summary_generated_at: new Date().toISOString(),
+      // Only AssemblyAI keeps transcripts on its side
+      assemblyai_transcript_id: provider.name === "assemblyai" ? transcript.id : null,
+    })
+    .select("id")
+    .single();
+
+  if (transcriptError || !savedTranscript) {
+    throw new Error(`Failed to save transcript: ${transcriptError?.message}`);
+  }
+
+  // Save transcript segments (utterances with speaker info)
+  // Use AI-identified speaker names if available, otherwise default to "Speaker X"
+  let savedSegments: SavedSegment[] = [];
+  if (transcript.utterances.length > 0) {
+    const segments = transcript.utterances.map((utterance, index) => ({
+      meeting_id: meetingId,
+      transcript_id: savedTranscript.id,
+      ...namedUtterances[index],
+      confidence: utterance.confidence,
+    }));
+
+    const { data: segmentRows, error: segmentsError } = await supabase
+      .from("transcript_segments")
+      .insert(segments)
+      .select("id, text, start_ms, end_ms");
+
+    if (segmentsError) {
+      console.error(`${LOG_PREFIX} Error saving segments:`, segmentsError);
+    } else {
+      console.log(`${LOG_PREFIX} Saved ${segments.length} transcript segments`);
+      savedSegments = (segmentRows || []) as SavedSegment[];
+
+      if (bookmarks.length > 0) {
+        await alignBookmarksToSegments(supabase, bookmarks, savedSegments);
+      }
+    }
+  }
+
+  const { error: currentError } = await supabase.rpc("set_current_transcript", {
+    p_transcript_id: savedTranscript.id,
+  });
+
+  if (currentError) {
+    await supabase.from("transcripts").delete().eq("id", savedTranscript.id);
+    throw new Error(`Failed to make transcript version ${version} current: ${currentError.message}`);
+  }
+
+  console.log(`${LOG_PREFIX} Saved transcript version ${version}`);
+
+  // Action items from the summary, linked to the segments just saved. Items
+  // already done on an earlier version are kept.
+  await saveActionItems(supabase, {
+    meetingId,
+    userId: meeting.user_id,
+    items: summary.sections?.action_items ?? [],
+    segments: savedSegments,
+    contact: meeting.contact,
+    keepDone: true,
+  });
+
+  // Dates, amounts, case numbers and the like - kept with this version,
+  // linked to its segments
+  const entities = await extractEntities(provider, transcript, {
+    meetingDate: meeting.created_at.slice(0, 10),
+  });
+  await saveEntities(supabase, {
+    transcriptId: savedTranscript.id,
+    meetingId,
+    userId: meeting.user_id,
+    entities,
+    segments: savedSegments,
+  });
+
+  // Topic chapters for finding your way around long meetings
+  const chapters = await generateChapters(provider, transcript);
+  await saveChapters(supabase, {
+    transcriptId: savedTranscript.id,
+    meetingId,
+    userId: meeting.user_id,
+    chapters,
+    segments: savedSegments,
+  });
+
+  // ============================================
+  // STEP 8: Record usage and send to Polar
+  // ============================================
+  let usage: UsageResult | null = null;
+  if (durationSeconds > 0) {
+    usage = await recordUsageAndMeter(
+      supabase,
+      meeting.user_id,
+      meetingId,
+      durationSeconds,
+      polarAccessToken
+    );
+    console.log(`${LOG_PREFIX} Usage result:`, usage);
+  } else {
+    console.log(`${LOG_PREFIX} Skipping usage recording (duration is 0)`);
+  }
+
+  return { summary, speakerNames, usage };
+}
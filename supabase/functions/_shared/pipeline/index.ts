@@ -0,0 +1,13 @@
+// Processing pipeline shared by process-recording and assemblyai-webhook,
+// with the steps regenerate-summary and redact-transcript rerun
+
+export * from "./action-items.ts";
+export * from "./chapters.ts";
+export * from "./entities.ts";
+export * from "./finish.ts";
+export * from "./jobs.ts";
+export * from "./progress.ts";
+export * from "./redaction.ts";
+export * from "./summary.ts";
+export * from "./usage.ts";
+export * from "./webhook.ts";
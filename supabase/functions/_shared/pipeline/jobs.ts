@@ -0,0 +1,134 @@
+// Processing job queue helpers
+// Every pipeline run is an attempt of the meeting's processing_jobs row:
+// claimed, then completed or failed through the queue functions (see
+// migration 20260101000010). A failed attempt is retried with backoff until
+// max_attempts, then dead-lettered.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
+const LOG_PREFIX = "[ProcessingJob]";
+
+// Errors that another attempt can't fix - the job is dead-lettered straight
+// away instead of being retried
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentError";
+  }
+}
+
+// Processing job row, as returned by claim_processing_job
+export interface ClaimedJob {
+  id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Helper: Claim the meeting's processing job. Returns null if there's nothing
+// to run - another invocation holds it, its retry isn't due yet, or it has
+// already finished.
+export async function claimJob(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string,
+  workerId: string
+): Promise<ClaimedJob | null> {
+  const { data, error } = await supabase.rpc("claim_processing_job", {
+    p_meeting_id: meetingId,
+    p_worker_id: workerId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim processing job: ${error.message}`);
+  }
+
+  const jobs = (data || []) as ClaimedJob[];
+  return jobs[0] ?? null;
+}
+
+// Helper: Update meeting status
+export async function updateMeetingStatus(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string,
+  status: string,
+  additionalData: Record<string, unknown> = {}
+) {
+  const { error } = await supabase
+    .from("meetings")
+    .update({ status, ...additionalData })
+    .eq("id", meetingId);
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to update status to ${status}:`, error);
+  }
+}
+
+// Helper: Update job status
+export async function updateJobStatus(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string,
+  status: string,
+  step: string | null,
+  error: string | null = null
+) {
+  const updates: Record<string, unknown> = { status, step };
+  if (error) updates.error = error;
+  if (status === "processing" && !updates.started_at) {
+    updates.started_at = new Date().toISOString();
+  }
+  if (status === "completed" || status === "dead_letter") {
+    updates.completed_at = new Date().toISOString();
+  }
+
+  await supabase
+    .from("processing_jobs")
+    .update(updates)
+    .eq("meeting_id", meetingId);
+}
+
+// Helper: Complete the claimed job and mark the meeting ready
+export async function completeJob(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string,
+  jobId: string,
+  workerId: string
+) {
+  const { error } = await supabase.rpc("complete_processing_job", {
+    p_job_id: jobId,
+    p_worker_id: workerId,
+  });
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to complete job:`, error);
+  }
+  await updateMeetingStatus(supabase, meetingId, "ready");
+}
+
+// Helper: Record a failed attempt. Returns the job's new status - "pending"
+// if another attempt is scheduled, "dead_letter" if the meeting has failed.
+// Falls back to failing the meeting outright if the queue can't be updated.
+export async function failJob(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string,
+  job: ClaimedJob,
+  workerId: string,
+  error: unknown
+): Promise<string | null> {
+  const errorMessage = error instanceof Error ? error.message : "Processing failed";
+
+  const { data, error: failError } = await supabase.rpc("fail_processing_job", {
+    p_job_id: job.id,
+    p_worker_id: workerId,
+    p_error: errorMessage,
+    p_retryable: !(error instanceof PermanentError),
+  });
+
+  if (failError) {
+    console.error(`${LOG_PREFIX} Failed to record failed attempt:`, failError);
+    await updateMeetingStatus(supabase, meetingId, "failed", { error_message: errorMessage });
+    await updateJobStatus(supabase, meetingId, "dead_letter", null, errorMessage);
+    return "dead_letter";
+  }
+
+  const jobStatus = data as string | null;
+  console.log(`${LOG_PREFIX} Attempt ${job.attempts} of ${job.max_attempts} failed, job is now: ${jobStatus}`);
+  return jobStatus;
+}
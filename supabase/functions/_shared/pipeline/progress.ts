@@ -0,0 +1,109 @@
+// Processing progress
+// Each pipeline step inserts a processing_events row, which the processing
+// screen receives over Supabase Realtime. Every event carries the share of
+// the pipeline done and an estimate of when the meeting will be ready.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
+const LOG_PREFIX = "[Progress]";
+
+export type ProgressStage =
+  | "converting"
+  | "converted"
+  | "transcribing"
+  | "transcription_submitted"
+  | "diarization"
+  | "speaker_naming"
+  | "summary"
+  | "saving";
+
+// Share of the pipeline done when each stage starts
+const STAGE_PROGRESS: Record<ProgressStage, number> = {
+  converting: 0.05,
+  converted: 0.2,
+  transcribing: 0.25,
+  transcription_submitted: 0.25,
+  diarization: 0.7,
+  speaker_naming: 0.75,
+  summary: 0.8,
+  saving: 0.95,
+};
+
+// Rough time each step takes, in seconds, for a recording of the given
+// length. Transcription dominates and grows with the audio.
+function getStepEstimates(durationSeconds: number) {
+  return {
+    conversion: Math.max(10, durationSeconds * 0.05),
+    transcription: Math.max(30, durationSeconds * 0.3),
+    speakerNaming: 15,
+    summary: 30,
+    saving: 5,
+  };
+}
+
+// Helper: Seconds left from the start of a stage
+function estimateRemainingSeconds(stage: ProgressStage, durationSeconds: number): number {
+  const estimates = getStepEstimates(durationSeconds);
+  const afterTranscription = estimates.speakerNaming + estimates.summary + estimates.saving;
+
+  switch (stage) {
+    case "converting":
+      return estimates.conversion + estimates.transcription + afterTranscription;
+    case "converted":
+    case "transcribing":
+    case "transcription_submitted":
+      return estimates.transcription + afterTranscription;
+    case "diarization":
+    case "speaker_naming":
+      return afterTranscription;
+    case "summary":
+      return estimates.summary + estimates.saving;
+    case "saving":
+      return estimates.saving;
+  }
+}
+
+export interface PublishProgressParams {
+  meetingId: string;
+  userId: string;
+  stage: ProgressStage;
+  durationSeconds: number;
+  message?: string | null;
+}
+
+/**
+ * Publish a progress event for the meeting. Failures are logged, not
+ * thrown - progress is only shown to the user, processing carries on.
+ */
+export async function publishProgress(
+  supabase: ReturnType<typeof createClient>,
+  { meetingId, userId, stage, durationSeconds, message = null }: PublishProgressParams
+): Promise<void> {
+  const etaAt = new Date(Date.now() + estimateRemainingSeconds(stage, durationSeconds) * 1000);
+
+  const { error } = await supabase.from("processing_events").insert({
+    meeting_id: meetingId,
+    user_id: userId,
+    stage,
+    progress: STAGE_PROGRESS[stage],
+    eta_at: etaAt.toISOString(),
+    message,
+  });
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to publish ${stage} for meeting ${meetingId}:`, error);
+  }
+}
+
+// Helper: Clear the events of earlier attempts, so a retry starts from
+// the beginning
+export async function clearProgress(
+  supabase: ReturnType<typeof createClient>,
+  meetingId: string
+): Promise<void> {
+  const { error } = await supabase.from("processing_events").delete().eq("meeting_id", meetingId);
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to clear progress for meeting ${meetingId}:`, error);
+  }
+}
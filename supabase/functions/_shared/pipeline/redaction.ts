@@ -0,0 +1,231 @@
+// PII redaction
+// redact-transcript submits the meeting's audio to be transcribed again with
+// the chosen PII redacted. The redacted transcript is finished here - by
+// redact-transcript when it polls, or by assemblyai-webhook when AssemblyAI
+// calls back: segments, a summary of the redacted text and the bleeped audio.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type {
+  DataRegion,
+  SpeakerMapping,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "../transcription/index.ts";
+import { generateSummary, normalizeSummaryTemplate } from "./summary.ts";
+import { getContactName, getSpeakerLabel, type NamedUtterance, type PipelineMeeting } from "./finish.ts";
+
+const LOG_PREFIX = "[Redaction]";
+
+// PII categories the app offers, as AssemblyAI policies
+export const PII_POLICIES = [
+  "us_social_security_number",
+  "account_number",
+  "banking_information",
+  "credit_card_number",
+  "date_of_birth",
+  "location",
+  "phone_number",
+  "email_address",
+  "person_name",
+  "drivers_license",
+  "passport_number",
+  "medical_condition",
+] as const;
+
+export type PiiPolicy = typeof PII_POLICIES[number];
+
+// Redacting names also keeps them out of the summary prompt and the segment
+// speakers - the redacted text alone would still name people there
+const NAME_POLICY: PiiPolicy = "person_name";
+
+// transcript_redactions.transcription_request
+export interface RedactionTranscription {
+  expected_speakers: number;
+  language: string;
+  vocabulary: string[];
+  multichannel: boolean;
+  data_region: DataRegion;
+}
+
+// Redaction row for a transcript being finished
+export interface PendingRedaction {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  policies: string[];
+  include_audio: boolean;
+  transcription_request: RedactionTranscription;
+}
+
+export function isPiiPolicy(value: unknown): value is PiiPolicy {
+  return typeof value === "string" && (PII_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Accept the webhook for a redacted transcript. Like acceptWebhook, only the
+ * first delivery gets the redaction.
+ */
+export async function acceptRedactionWebhook(
+  supabase: ReturnType<typeof createClient>,
+  transcriptId: string
+): Promise<PendingRedaction | null> {
+  const { data, error } = await supabase
+    .from("transcript_redactions")
+    .update({ webhook_received_at: new Date().toISOString() })
+    .eq("assemblyai_transcript_id", transcriptId)
+    .eq("status", "processing")
+    .is("webhook_received_at", null)
+    .select("id, meeting_id, user_id, policies, include_audio, transcription_request")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to accept redaction webhook: ${error.message}`);
+  }
+
+  return data as PendingRedaction | null;
+}
+
+// Helper: Whether a transcript was submitted for a redaction
+export async function isKnownRedactionTranscript(
+  supabase: ReturnType<typeof createClient>,
+  transcriptId: string
+): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("transcript_redactions")
+    .select("id", { count: "exact", head: true })
+    .eq("assemblyai_transcript_id", transcriptId);
+
+  if (error) {
+    throw new Error(`Failed to look up redaction transcript: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
+
+// Helper: Copy the bleeped audio into storage next to the original
+async function saveRedactedAudio(
+  supabase: ReturnType<typeof createClient>,
+  provider: TranscriptionProvider,
+  transcriptId: string,
+  storagePath: string
+): Promise<void> {
+  if (!provider.getRedactedAudioUrl) {
+    throw new Error(`${provider.name} can't redact audio`);
+  }
+
+  const audioUrl = await provider.getRedactedAudioUrl(transcriptId);
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download redacted audio: ${response.status}`);
+  }
+
+  const { error } = await supabase.storage
+    .from("meeting-audio")
+    .upload(storagePath, await response.blob(), {
+      contentType: "audio/mpeg",
+      upsert: true,
+    });
+
+  if (error) {
+    throw new Error(`Failed to save redacted audio: ${error.message}`);
+  }
+}
+
+export interface FinishRedactionParams {
+  redaction: PendingRedaction;
+  provider: TranscriptionProvider;
+  result: TranscriptionResult;
+}
+
+// Save the redacted transcript, its summary and (if requested) the bleeped
+// audio. Throws on failure - the caller marks the redaction failed.
+export async function finishRedaction(
+  supabase: ReturnType<typeof createClient>,
+  { redaction, provider, result }: FinishRedactionParams
+): Promise<void> {
+  const { data: meeting, error: meetingError } = await supabase
+    .from("meetings")
+    .select(`
+      id, user_id, title, expected_speakers, recording_mode, meeting_type_id, created_at, speaker_names,
+      contact:contacts(id, first_name, last_name, company),
+      meeting_type:meeting_types(name, summary_template)
+    `)
+    .eq("id", redaction.meeting_id)
+    .single();
+
+  if (meetingError || !meeting) {
+    throw new Error(`Meeting not found: ${meetingError?.message}`);
+  }
+
+  const pipelineMeeting = meeting as PipelineMeeting & { speaker_names: SpeakerMapping | null };
+  const redactsNames = redaction.policies.includes(NAME_POLICY);
+  const speakerNames: SpeakerMapping = redactsNames ? {} : pipelineMeeting.speaker_names || {};
+  const { transcript } = result;
+
+  const segments: NamedUtterance[] = transcript.utterances.map((utterance) => ({
+    speaker: getSpeakerLabel(utterance, speakerNames),
+    text: utterance.text,
+    start_ms: utterance.start,
+    end_ms: utterance.end,
+  }));
+
+  // Summarized from the redacted text. Bookmark labels aren't redacted, so
+  // flagged moments are left out.
+  const summary = await generateSummary(provider, transcript, {
+    title: redactsNames ? null : pipelineMeeting.title,
+    meetingDate: pipelineMeeting.created_at.slice(0, 10),
+    contactName: redactsNames ? null : getContactName(pipelineMeeting.contact),
+    contactCompany: redactsNames ? null : pipelineMeeting.contact?.company || null,
+    meetingType: pipelineMeeting.meeting_type?.name || null,
+    expectedSpeakers: pipelineMeeting.expected_speakers || 2,
+    speakerNames,
+    template: normalizeSummaryTemplate(pipelineMeeting.meeting_type?.summary_template),
+  });
+
+  let audioPath: string | null = null;
+  if (redaction.include_audio && transcript.id) {
+    audioPath = `${pipelineMeeting.user_id}/${pipelineMeeting.id}/redacted-${redaction.id}.mp3`;
+    await saveRedactedAudio(supabase, provider, transcript.id, audioPath);
+  }
+
+  const { error } = await supabase
+    .from("transcript_redactions")
+    .update({
+      status: "completed",
+      full_text: transcript.text,
+      segments,
+      summary: summary.markdown,
+      summary_sections: summary.sections,
+      summary_status: summary.status,
+      audio_path: audioPath,
+      error_message: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", redaction.id);
+
+  if (error) {
+    throw new Error(`Failed to save redaction: ${error.message}`);
+  }
+
+  console.log(`${LOG_PREFIX} Redaction ${redaction.id} complete for meeting ${redaction.meeting_id}`);
+}
+
+// Helper: Mark a redaction failed. Logs instead of throwing - it runs in
+// error handlers.
+export async function failRedaction(
+  supabase: ReturnType<typeof createClient>,
+  redactionId: string,
+  error: unknown
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`${LOG_PREFIX} Redaction ${redactionId} failed:`, message);
+
+  const { error: updateError } = await supabase
+    .from("transcript_redactions")
+    .update({ status: "failed", error_message: message })
+    .eq("id", redactionId);
+
+  if (updateError) {
+    console.error(`${LOG_PREFIX} Failed to mark redaction ${redactionId} failed:`, updateError);
+  }
+}
@@ -0,0 +1,397 @@
+// Summary and speaker identification prompts
+// Built here and run by the transcription provider's LLM (LeMUR for
+// AssemblyAI, the chat model for Whisper)
+
+import type {
+  ProviderTranscript,
+  SpeakerMapping,
+  TranscriptionProvider,
+} from "../transcription/index.ts";
+
+const LOG_PREFIX = "[Summary]";
+
+// Structured summary, saved to transcripts.summary_sections
+export interface SummaryActionItem {
+  text: string;
+  owner: string | null;         // Responsible party, if the meeting named one
+  due_date: string | null;      // YYYY-MM-DD, if a deadline was given
+  source_quote: string | null;  // Words from the transcript it was agreed in
+}
+
+export interface SummarySections {
+  overview: string;
+  discussion_points: string[];
+  decisions: string[];
+  action_items: SummaryActionItem[];
+  notable_statements: string[];
+  follow_ups: string[];
+}
+
+export type SummaryStatus = "completed" | "empty" | "failed";
+
+// Why a summary failed: the request to the model failed, or its output
+// couldn't be read as the summary JSON
+export type SummaryErrorCode = "provider_error" | "invalid_response";
+
+export interface SummaryResult {
+  status: SummaryStatus;
+  sections: SummarySections | null;
+  markdown: string | null;     // Rendered from sections, for transcripts.summary
+  errorCode: SummaryErrorCode | null;
+}
+
+// The list sections a summary can have - the overview is always included
+export type SummarySectionKey = Exclude<keyof SummarySections, "overview">;
+
+export type SummaryTone = "formal" | "concise" | "plain_language";
+
+// meeting_types.summary_template
+export interface SummaryTemplate {
+  sections: SummarySectionKey[];
+  instructions: string;
+  tone: SummaryTone;
+}
+
+// Used when the meeting has no type, or its type has no template
+export const DEFAULT_SUMMARY_TEMPLATE: SummaryTemplate = {
+  sections: ["discussion_points", "decisions", "action_items", "notable_statements", "follow_ups"],
+  instructions: "",
+  tone: "formal",
+};
+
+// What each section asks the model for, as a line of the JSON shape
+const SECTION_PROMPTS: Record<SummarySectionKey, string> = {
+  discussion_points: `"discussion_points": ["The main topics discussed, in order of importance"]`,
+  decisions: `"decisions": ["Decisions or agreements reached during the meeting"]`,
+  action_items: `"action_items": [{"text": "A clear action item", "owner": "Responsible party, or null if none was named", "due_date": "YYYY-MM-DD if a deadline was given (resolve relative dates like 'next Friday' against the meeting date), otherwise null", "source_quote": "A short verbatim quote from the transcript where the item was agreed"}]`,
+  notable_statements: `"notable_statements": ["Legally significant statements, admissions, or quotes worth highlighting"]`,
+  follow_ups: `"follow_ups": ["Items that need follow-up or further attention"]`,
+};
+
+const TONE_PROMPTS: Record<SummaryTone, string> = {
+  formal: "Keep the tone professional and objective, suitable for a case file",
+  concise: "Be brief: short, factual phrases rather than full sentences wherever possible",
+  plain_language: "Write in plain language a client could follow - explain legal terms rather than relying on them",
+};
+
+/**
+ * Read a stored template. Templates are edited in the app, so anything
+ * unrecognized falls back to the default rather than failing the summary.
+ */
+export function normalizeSummaryTemplate(value: unknown): SummaryTemplate {
+  if (!value || typeof value !== "object") {
+    return DEFAULT_SUMMARY_TEMPLATE;
+  }
+
+  const template = value as Record<string, unknown>;
+  const sections = Array.isArray(template.sections)
+    ? DEFAULT_SUMMARY_TEMPLATE.sections.filter((key) => (template.sections as unknown[]).includes(key))
+    : DEFAULT_SUMMARY_TEMPLATE.sections;
+
+  return {
+    sections,
+    instructions: typeof template.instructions === "string" ? template.instructions.trim() : "",
+    tone: typeof template.tone === "string" && template.tone in TONE_PROMPTS
+      ? template.tone as SummaryTone
+      : DEFAULT_SUMMARY_TEMPLATE.tone,
+  };
+}
+
+// Flagged range of the transcript, for the summary prompt
+export interface FlaggedMoment {
+  startMs: number;
+  endMs: number;
+  label: string | null;
+  excerpt: string;
+}
+
+// Meeting context for summary generation
+export interface MeetingContext {
+  title?: string | null;
+  meetingDate?: string | null;    // YYYY-MM-DD, for resolving relative due dates
+  contactName?: string | null;
+  contactCompany?: string | null;
+  meetingType?: string | null;
+  expectedSpeakers: number;
+  speakerNames?: SpeakerMapping;
+  flaggedMoments?: FlaggedMoment[];
+  template?: SummaryTemplate;
+}
+
+// Helper: Format milliseconds as m:ss for prompts
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Step 3: Generate summary with the provider's LLM (LeMUR for AssemblyAI)
+// Uses context-aware prompts and asks for the template's sections as JSON.
+// Never throws - a failed summary doesn't fail processing.
+export async function generateSummary(
+  provider: TranscriptionProvider,
+  transcript: ProviderTranscript,
+  meetingContext?: MeetingContext
+): Promise<SummaryResult> {
+  console.log(`${LOG_PREFIX} Generating summary with ${provider.name}...`);
+
+  const template = meetingContext?.template ?? DEFAULT_SUMMARY_TEMPLATE;
+
+  let responseText: string;
+  try {
+    // Build context section with meeting metadata
+    const contextParts: string[] = [];
+    
+    if (meetingContext?.title) {
+      contextParts.push(`Meeting Title: "${meetingContext.title}"`);
+    }
+    if (meetingContext?.meetingDate) {
+      contextParts.push(`Meeting Date: ${meetingContext.meetingDate}`);
+    }
+    if (meetingContext?.meetingType) {
+      contextParts.push(`Meeting Type: ${meetingContext.meetingType}`);
+    }
+    if (meetingContext?.contactName) {
+      const contactInfo = meetingContext.contactCompany 
+        ? `${meetingContext.contactName} (${meetingContext.contactCompany})`
+        : meetingContext.contactName;
+      contextParts.push(`Primary Contact/Client: ${contactInfo}`);
+    }
+    contextParts.push(`Number of Participants: ${meetingContext?.expectedSpeakers || 2}`);
+    
+    // Add speaker name mapping if available
+    if (meetingContext?.speakerNames && Object.keys(meetingContext.speakerNames).length > 0) {
+      const speakerList = Object.entries(meetingContext.speakerNames)
+        .map(([label, name]) => `${label} = ${name}`)
+        .join(', ');
+      contextParts.push(`Identified Speakers: ${speakerList}`);
+    }
+
+    // Point the summary at moments the attorney flagged while recording
+    if (meetingContext?.flaggedMoments && meetingContext.flaggedMoments.length > 0) {
+      const flaggedList = meetingContext.flaggedMoments
+        .map((moment) => {
+          const range = `${formatOffset(moment.startMs)}-${formatOffset(moment.endMs)}`;
+          const heading = moment.label ? `[${range}] ${moment.label}` : `[${range}]`;
+          return moment.excerpt ? `${heading}\n${moment.excerpt}` : heading;
+        })
+        .join('\n\n');
+      contextParts.push(`Moments Flagged by the Attorney During the Meeting:\n${flaggedList}`);
+    }
+
+    const contextSection = contextParts.length > 0 
+      ? `\n\nMeeting Context:\n${contextParts.join('\n')}\n` 
+      : '';
+
+    const systemContext = `You are a legal documentation assistant specializing in meeting summaries for attorneys and legal professionals. Your summaries must be accurate, professional, and suitable for case files.${contextSection}`;
+
+    const jsonShape = [
+      `"overview": "A 2-3 sentence high-level summary of the meeting purpose and outcome."`,
+      ...template.sections.map((key) => SECTION_PROMPTS[key]),
+    ].join(",\n  ");
+
+    const guidelines = [
+      'Use an empty list for any section with nothing to report - do not write placeholders like "None"',
+      'Use the identified speaker names when referring to participants (e.g., "John Smith" instead of "Speaker A")',
+      "Be precise with dates, numbers, and legal terminology mentioned",
+      TONE_PROMPTS[template.tone],
+    ];
+    if (template.sections.includes("follow_ups")) {
+      guidelines.push("Flag any potential concerns or issues for attorney review under follow_ups");
+    }
+    guidelines.push(
+      "If the context lists moments flagged by the attorney, treat them as legally significant: make sure each one is covered in the overview or the relevant section, quoting the key words where possible"
+    );
+
+    // The attorney's own instructions for this kind of meeting
+    const instructionsSection = template.instructions
+      ? `\n\nInstructions for this type of meeting:\n${template.instructions}`
+      : "";
+
+    const prompt = `Analyze this legal meeting transcript and summarize it as a JSON object with exactly these keys:
+
+{
+  ${jsonShape}
+}
+
+Guidelines:
+${guidelines.map((line) => `- ${line}`).join("\n")}${instructionsSection}
+
+Return ONLY the JSON object, no other text or explanation.`;
+    
+    console.log(`${LOG_PREFIX} Summary context:`, systemContext.substring(0, 200) + "...");
+
+    responseText = await provider.summarize(transcript, {
+      prompt,
+      context: systemContext,
+      maxOutputSize: 4000,
+    });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Summary error:`, error);
+    return { status: "failed", sections: null, markdown: null, errorCode: "provider_error" };
+  }
+
+  if (!responseText.trim()) {
+    console.warn(`${LOG_PREFIX} Provider returned empty summary`);
+    return { status: "empty", sections: null, markdown: null, errorCode: null };
+  }
+
+  const sections = parseSummarySections(responseText, template);
+  if (!sections) {
+    console.error(`${LOG_PREFIX} Summary response isn't valid JSON: ${responseText.substring(0, 200)}`);
+    return { status: "failed", sections: null, markdown: null, errorCode: "invalid_response" };
+  }
+
+  console.log(`${LOG_PREFIX} Summary generated successfully: ${sections.overview.substring(0, 100)}...`);
+  return { status: "completed", sections, markdown: formatSummaryMarkdown(sections, template), errorCode: null };
+}
+
+// Helper: Trimmed string from a JSON value, or null if there's none
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Helper: A YYYY-MM-DD date from a JSON value, or null if it isn't one
+function toDueDate(value: unknown): string | null {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return isNaN(new Date(`${value}T00:00:00Z`).getTime()) ? null : value;
+}
+
+// Helper: List of non-empty strings from a JSON value
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Helper: Pull the summary JSON out of the model's response (handles text
+// around it). Missing sections, and any the template leaves out, are empty;
+// null if there's no usable JSON.
+function parseSummarySections(responseText: string, template: SummaryTemplate): SummarySections | null {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+
+  const overview = typeof parsed.overview === "string" ? parsed.overview.trim() : "";
+  if (!overview) return null;
+
+  const included = (key: SummarySectionKey): unknown =>
+    template.sections.includes(key) ? parsed[key] : undefined;
+  const actionItems = included("action_items");
+
+  return {
+    overview,
+    discussion_points: toStringList(included("discussion_points")),
+    decisions: toStringList(included("decisions")),
+    action_items: (Array.isArray(actionItems) ? actionItems : [])
+      .map((item): SummaryActionItem | null => {
+        // Models sometimes return plain strings here
+        if (typeof item === "string") {
+          return item.trim() ? { text: item.trim(), owner: null, due_date: null, source_quote: null } : null;
+        }
+        if (!item || typeof item.text !== "string" || !item.text.trim()) return null;
+        return {
+          text: item.text.trim(),
+          owner: toOptionalString(item.owner),
+          due_date: toDueDate(item.due_date),
+          source_quote: toOptionalString(item.source_quote),
+        };
+      })
+      .filter((item): item is SummaryActionItem => item !== null),
+    notable_statements: toStringList(included("notable_statements")),
+    follow_ups: toStringList(included("follow_ups")),
+  };
+}
+
+// Helper: Markdown rendering of the sections - kept in transcripts.summary
+// for clients that don't read summary_sections. Sections the template
+// leaves out are left out here too.
+function formatSummaryMarkdown(sections: SummarySections, template: SummaryTemplate): string {
+  const list = (items: string[], none: string) =>
+    items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : none;
+  const has = (key: SummarySectionKey) => template.sections.includes(key);
+
+  const parts = [`## Meeting Overview\n${sections.overview}`];
+  if (has("discussion_points")) {
+    parts.push(`## Key Discussion Points\n${list(sections.discussion_points, "No discussion points recorded.")}`);
+  }
+  if (has("decisions")) {
+    parts.push(`## Decisions Made\n${list(sections.decisions, "No formal decisions recorded.")}`);
+  }
+  if (has("action_items")) {
+    parts.push(`## Action Items\n${list(
+      sections.action_items.map((item) => {
+        const details = [item.owner, item.due_date && `due ${item.due_date}`].filter(Boolean);
+        return details.length > 0 ? `${item.text} (${details.join(", ")})` : item.text;
+      }),
+      "No action items identified."
+    )}`);
+  }
+  if (sections.notable_statements.length > 0) {
+    parts.push(`## Notable Statements\n${list(sections.notable_statements, "")}`);
+  }
+  if (has("follow_ups")) {
+    parts.push(`## Follow-up Required\n${list(sections.follow_ups, "No immediate follow-up required.")}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+// Step 3.5: Enhance speaker identification with the provider's LLM
+// Analyzes transcript to identify speakers by name from context clues
+export async function enhanceTranscriptSpeakers(
+  provider: TranscriptionProvider,
+  transcript: ProviderTranscript,
+  meetingContext: {
+    contactName?: string | null;
+    contactCompany?: string | null;
+    expectedSpeakers: number;
+  }
+): Promise<SpeakerMapping> {
+  console.log(`${LOG_PREFIX} Enhancing speaker identification with ${provider.name}...`);
+
+  const contextHints: string[] = [];
+  if (meetingContext.contactName) {
+    contextHints.push(`Known participant: ${meetingContext.contactName}${meetingContext.contactCompany ? ` (${meetingContext.contactCompany})` : ''}`);
+  }
+  contextHints.push(`Expected number of speakers: ${meetingContext.expectedSpeakers}`);
+
+  const prompt = `Analyze this transcript and identify the speakers based on contextual clues.
+
+Look for:
+1. Self-introductions ("Hi, I'm John Smith...", "This is Jane from...")
+2. How speakers address each other by name ("Thanks, Michael", "John, can you...")
+3. Role indicators (attorney-client dynamics, expert testimony patterns)
+4. Professional identifiers mentioned ("As your attorney...", "Speaking as the defendant...")
+
+${contextHints.join('\n')}
+
+Return ONLY a valid JSON object mapping speaker labels to identified names/roles.
+Format: {"Speaker A": "Name or Role", "Speaker B": "Name or Role"}
+
+Rules:
+- If you can confidently identify a speaker's name, use it
+- If you can only identify their role, use a descriptive label like "Attorney", "Client", "Witness"
+- If you cannot identify anything about a speaker, keep the original label like "Speaker A"
+- Do not make up names - only use names that are explicitly mentioned in the transcript
+
+Return ONLY the JSON object, no other text or explanation.`;
+
+  try {
+    const mapping = await provider.identifySpeakers(transcript, { prompt, maxOutputSize: 500 });
+    console.log(`${LOG_PREFIX} Speaker mapping identified:`, JSON.stringify(mapping));
+    return mapping;
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Speaker enhancement error:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,98 @@
+// Usage recording for analytics and billing
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
+const LOG_PREFIX = "[Usage]";
+
+// Step 4: Record usage for analytics
+// Note: Trial is now time-based (7 days unlimited), not minute-based
+export interface UsageResult {
+  success: boolean;
+  minutes_recorded: number;
+  has_subscription: boolean;
+  polar_event_id?: string;
+  error?: string;
+}
+
+export async function recordUsageAndMeter(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  meetingId: string,
+  durationSeconds: number,
+  polarAccessToken?: string
+): Promise<UsageResult> {
+  console.log(`${LOG_PREFIX} Recording usage for meeting...`);
+  
+  // Round up to nearest minute for billing
+  const durationMinutes = Math.ceil(durationSeconds / 60);
+  console.log(`${LOG_PREFIX} Duration: ${durationSeconds}s = ${durationMinutes} minutes (rounded up)`);
+
+  // Only record minutes not already recorded for this meeting - a continued
+  // meeting is reprocessed as a whole, as is a retry
+  const { data: previousUsage, error: previousUsageError } = await supabase
+    .from("usage_transactions")
+    .select("minutes")
+    .eq("meeting_id", meetingId);
+
+  if (previousUsageError) {
+    console.error(`${LOG_PREFIX} Error fetching previous usage:`, previousUsageError);
+  }
+
+  const previousMinutes = (previousUsage || []).reduce(
+    (total: number, row: { minutes: number }) => total + (row.minutes || 0),
+    0
+  );
+  const newMinutes = durationMinutes - previousMinutes;
+
+  // Check if user has active subscription
+  const { data: subscription } = await supabase
+    .from("subscriptions")
+    .select("status, polar_customer_id")
+    .eq("user_id", userId)
+    .eq("status", "active")
+    .single();
+
+  const hasActiveSubscription = !!subscription;
+  const polarCustomerId = subscription?.polar_customer_id;
+
+  if (newMinutes <= 0) {
+    console.log(`${LOG_PREFIX} ${previousMinutes} minutes already recorded for this meeting, nothing to add`);
+    return {
+      success: true,
+      minutes_recorded: 0,
+      has_subscription: hasActiveSubscription,
+    };
+  }
+
+  if (previousMinutes > 0) {
+    console.log(`${LOG_PREFIX} ${previousMinutes} minutes already recorded, adding ${newMinutes}`);
+  }
+
+  // Record usage in our database using the stored procedure (for analytics)
+  let polarEventId: string | undefined;
+  
+  try {
+    const { data: usageResult, error: usageError } = await supabase.rpc("record_usage", {
+      p_user_id: userId,
+      p_meeting_id: meetingId,
+      p_minutes: newMinutes,
+      p_is_free_trial: false, // Kept for backward compatibility
+      p_polar_event_id: polarEventId || null,
+    });
+
+    if (usageError) {
+      console.error(`${LOG_PREFIX} Error recording usage:`, usageError);
+    } else {
+      console.log(`${LOG_PREFIX} Usage recorded in database:`, usageResult);
+    }
+  } catch (rpcError) {
+    console.error(`${LOG_PREFIX} RPC error:`, rpcError);
+  }
+
+  return {
+    success: true,
+    minutes_recorded: newMinutes,
+    has_subscription: hasActiveSubscription,
+    polar_event_id: polarEventId,
+  };
+}
@@ -0,0 +1,119 @@
+// Transcription webhook state
+// process-recording submits the transcript with a webhook when the provider
+// supports it and ASSEMBLYAI_WEBHOOK_SECRET is set, then saves what it
+// submitted on the job. assemblyai-webhook picks the job up from there.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import type { DataRegion, TranscriptWebhook } from "../transcription/index.ts";
+
+const LOG_PREFIX = "[TranscriptionWebhook]";
+
+// Header AssemblyAI sends back on the callback, holding the shared secret
+export const WEBHOOK_AUTH_HEADER = "X-Webhook-Secret";
+
+const WEBHOOK_FUNCTION = "assemblyai-webhook";
+
+// processing_jobs.transcription_request
+export interface SubmittedTranscription {
+  expected_speakers: number;
+  language: string;
+  vocabulary: string[];
+  multichannel: boolean;
+  data_region: DataRegion;
+  duration_seconds: number;
+}
+
+// Job row for a transcript that has called back
+export interface WebhookJob {
+  id: string;
+  meeting_id: string;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string;
+  transcription_request: SubmittedTranscription;
+}
+
+/**
+ * Webhook to submit transcripts with, or null to poll instead (no secret
+ * configured).
+ */
+export function getTranscriptWebhook(supabaseUrl: string): TranscriptWebhook | null {
+  const secret = Deno.env.get("ASSEMBLYAI_WEBHOOK_SECRET");
+  if (!secret) {
+    return null;
+  }
+
+  return {
+    url: `${supabaseUrl}/functions/v1/${WEBHOOK_FUNCTION}`,
+    authHeaderName: WEBHOOK_AUTH_HEADER,
+    authHeaderValue: secret,
+  };
+}
+
+// Helper: Record the submitted transcript on the claimed job
+export async function saveSubmittedTranscript(
+  supabase: ReturnType<typeof createClient>,
+  jobId: string,
+  workerId: string,
+  transcriptId: string,
+  request: SubmittedTranscription
+): Promise<void> {
+  const { error } = await supabase
+    .from("processing_jobs")
+    .update({
+      pending_transcript_id: transcriptId,
+      transcription_request: request,
+      transcription_submitted_at: new Date().toISOString(),
+      webhook_received_at: null,
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    throw new Error(`Failed to save submitted transcript: ${error.message}`);
+  }
+
+  console.log(`${LOG_PREFIX} Job ${jobId} waiting on transcript ${transcriptId}`);
+}
+
+/**
+ * Accept the webhook for a transcript. Only the first delivery gets the job -
+ * the update is conditional on webhook_received_at being unset, so retries
+ * and duplicate deliveries get null.
+ */
+export async function acceptWebhook(
+  supabase: ReturnType<typeof createClient>,
+  transcriptId: string
+): Promise<WebhookJob | null> {
+  const { data, error } = await supabase
+    .from("processing_jobs")
+    .update({ webhook_received_at: new Date().toISOString() })
+    .eq("pending_transcript_id", transcriptId)
+    .eq("status", "processing")
+    .is("webhook_received_at", null)
+    .select("id, meeting_id, attempts, max_attempts, locked_by, transcription_request")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to accept webhook: ${error.message}`);
+  }
+
+  return data as WebhookJob | null;
+}
+
+// Helper: Whether a transcript is one an attempt is (or was) waiting on
+export async function isKnownTranscript(
+  supabase: ReturnType<typeof createClient>,
+  transcriptId: string
+): Promise<boolean> {
+  const { count, error } = await supabase
+    .from("processing_jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("pending_transcript_id", transcriptId);
+
+  if (error) {
+    throw new Error(`Failed to look up transcript: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
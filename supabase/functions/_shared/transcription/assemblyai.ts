@@ -0,0 +1,329 @@
+// AssemblyAI transcription provider
+// Batch transcription with diarization (or multichannel) and optional PII
+// redaction, LeMUR for the summary and speaker identification. Transcripts
+// can be polled for within the invocation or submitted with a webhook (see
+// assemblyai-webhook).
+
+import {
+  parseSpeakerMapping,
+  validateSpeakers,
+  type DataRegion,
+  type ProviderTranscript,
+  type SpeakerMapping,
+  type TranscribeRequest,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+  type TranscriptPrompt,
+  type TranscriptWebhook,
+} from "./types.ts";
+
+const LOG_PREFIX = "[AssemblyAI]";
+
+// AssemblyAI API by the user's data region (profiles.data_region). EU
+// requests are processed and stored by AssemblyAI in the EU.
+export const ASSEMBLYAI_API_URLS: Record<DataRegion, string> = {
+  us: "https://api.assemblyai.com",
+  eu: "https://api.eu.assemblyai.com",
+};
+
+// Poll every 5 seconds for up to 10 minutes
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_ATTEMPTS = 120;
+
+// Bleeped audio is generated after the transcript completes - usually within
+// a minute or two
+const MAX_REDACTED_AUDIO_POLL_ATTEMPTS = 36;
+
+// LeMUR models: the summary gets the strongest model, speaker naming is a
+// small task so Haiku is faster/cheaper
+const SUMMARY_MODEL = "anthropic/claude-3-opus";
+const SPEAKERS_MODEL = "anthropic/claude-3-haiku";
+
+// AssemblyAI transcript response
+interface AssemblyAITranscript {
+  id: string;
+  status: string;
+  text?: string;
+  language_code?: string;        // When language detection enabled
+  language_confidence?: number;  // Language detection confidence (0-1)
+  utterances?: Array<{
+    speaker: string;
+    text: string;
+    start: number;
+    end: number;
+    confidence: number;
+  }>;
+  error?: string;
+}
+
+// Redacted audio response - a 400 while the audio is still being generated
+interface AssemblyAIRedactedAudio {
+  status: string;
+  redacted_audio_url?: string;
+}
+
+export function createAssemblyAIProvider(apiKey: string, dataRegion: DataRegion): TranscriptionProvider {
+  const apiUrl = ASSEMBLYAI_API_URLS[dataRegion];
+
+  // Speech model for the request language
+  // SLAM-1: English only, highest accuracy for English content
+  // 'best': Universal model, supports 99+ languages (and detection)
+  function getSpeechModel(language: string): string {
+    return language === "en" ? "slam-1" : "best";
+  }
+
+  // Per AssemblyAI documentation:
+  // - SLAM-1: Best accuracy for English audio
+  // - 'best': Universal model for 99+ languages
+  // - language 'auto': language_detection picks the language (Universal model)
+  // - multichannel: each channel transcribed separately, no diarization needed
+  // - speakers_expected: Exact count for best diarization accuracy
+  async function submitTranscript(
+    { audioUrl, expectedSpeakers, language, vocabulary, multichannel, redaction }: TranscribeRequest,
+    webhook?: TranscriptWebhook
+  ): Promise<string> {
+    console.log(`${LOG_PREFIX} Submitting for transcription (${dataRegion})...`);
+    console.log(`${LOG_PREFIX} Expected speakers: ${expectedSpeakers}, Language: ${language}`);
+
+    const detectLanguage = language === "auto";
+    const speechModel = getSpeechModel(language);
+    console.log(`${LOG_PREFIX} Using speech model: ${speechModel}`);
+
+    // Build request body per AssemblyAI documentation
+    // https://www.assemblyai.com/docs/pre-recorded-audio/speaker-diarization
+    // https://www.assemblyai.com/docs/pre-recorded-audio/select-the-speech-model
+    // NOTE: Using LeMUR for summarization separately (works with all models including SLAM-1)
+    const requestBody: Record<string, unknown> = {
+      audio_url: audioUrl,
+      // Speech model selection
+      speech_model: speechModel,
+      ...(detectLanguage
+        ? { language_detection: true }
+        : { language_code: language }),
+      // Phone calls have one speaker per channel. Otherwise speaker diarization
+      // with exact count per docs
+      // "speakers_expected gives best accuracy when you know the count"
+      ...(multichannel
+        ? { multichannel: true }
+        : { speaker_labels: true, speakers_expected: expectedSpeakers }),
+    };
+
+    // Custom vocabulary: SLAM-1 takes key terms as a prompt, the Universal
+    // model uses word boost
+    // https://www.assemblyai.com/docs/pre-recorded-audio/improving-transcript-accuracy
+    if (vocabulary.length > 0) {
+      if (speechModel === "slam-1") {
+        requestBody.keyterms_prompt = vocabulary;
+      } else {
+        requestBody.word_boost = vocabulary;
+        requestBody.boost_param = "high";
+      }
+      console.log(`${LOG_PREFIX} Applying ${vocabulary.length} vocabulary terms`);
+    }
+
+    // PII redaction replaces each entity with its type, e.g. "[PERSON_NAME]"
+    // https://www.assemblyai.com/docs/audio-intelligence/pii-redaction
+    if (redaction) {
+      requestBody.redact_pii = true;
+      requestBody.redact_pii_policies = redaction.policies;
+      requestBody.redact_pii_sub = "entity_name";
+      if (redaction.audio) {
+        requestBody.redact_pii_audio = true;
+        requestBody.redact_pii_audio_quality = "mp3";
+      }
+      console.log(`${LOG_PREFIX} Redacting PII: ${redaction.policies.join(", ")}${redaction.audio ? " (with audio)" : ""}`);
+    }
+
+    // AssemblyAI POSTs {transcript_id, status} to the webhook when done
+    // https://www.assemblyai.com/docs/deployment/webhooks
+    if (webhook) {
+      requestBody.webhook_url = webhook.url;
+      requestBody.webhook_auth_header_name = webhook.authHeaderName;
+      requestBody.webhook_auth_header_value = webhook.authHeaderValue;
+    }
+
+    console.log(`${LOG_PREFIX} Request config: speech_model=${speechModel}, ${multichannel ? "multichannel" : `speakers_expected=${expectedSpeakers}`}`);
+
+    // Submit transcription job
+    const submitResponse = await fetch(`${apiUrl}/v2/transcript`, {
+      method: "POST",
+      headers: {
+        Authorization: apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!submitResponse.ok) {
+      const errorText = await submitResponse.text();
+      throw new Error(`AssemblyAI submission failed: ${errorText}`);
+    }
+
+    const submission = await submitResponse.json() as AssemblyAITranscript;
+    console.log(`${LOG_PREFIX} Transcript ID: ${submission.id}`);
+    return submission.id;
+  }
+
+  async function fetchTranscript(transcriptId: string): Promise<AssemblyAITranscript> {
+    const statusResponse = await fetch(`${apiUrl}/v2/transcript/${transcriptId}`, {
+      headers: { Authorization: apiKey },
+    });
+
+    if (!statusResponse.ok) {
+      const errorText = await statusResponse.text();
+      throw new Error(`Failed to fetch AssemblyAI transcript: ${errorText}`);
+    }
+
+    return await statusResponse.json() as AssemblyAITranscript;
+  }
+
+  // Normalize a completed transcript and validate the speaker count
+  function toResult(
+    transcript: AssemblyAITranscript,
+    { expectedSpeakers, language, multichannel }: Omit<TranscribeRequest, "audioUrl">
+  ): TranscriptionResult {
+    console.log(`${LOG_PREFIX} Transcription complete`);
+
+    const detectLanguage = language === "auto";
+    const utterances = transcript.utterances || [];
+    const { detectedSpeakers, speakerMismatch } = validateSpeakers(utterances, expectedSpeakers, multichannel);
+
+    if (speakerMismatch) {
+      console.warn(`${LOG_PREFIX} Speaker mismatch detected: expected ${expectedSpeakers}, detected ${detectedSpeakers}`);
+    } else {
+      console.log(`${LOG_PREFIX} Speaker count matches: ${detectedSpeakers}`);
+    }
+
+    if (detectLanguage) {
+      console.log(`${LOG_PREFIX} Detected language: ${transcript.language_code} (confidence ${transcript.language_confidence})`);
+    }
+
+    return {
+      transcript: {
+        id: transcript.id,
+        text: transcript.text || "",
+        utterances,
+      },
+      speechModel: getSpeechModel(language),
+      language,
+      detectedLanguage: detectLanguage ? transcript.language_code ?? null : null,
+      languageConfidence: detectLanguage ? transcript.language_confidence ?? null : null,
+      detectedSpeakers,
+      speakerMismatch,
+    };
+  }
+
+  // Submit and poll for completion within the invocation
+  async function transcribe(request: TranscribeRequest): Promise<TranscriptionResult> {
+    const transcriptId = await submitTranscript(request);
+
+    for (let attempt = 1; attempt <= MAX_POLL_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+      const transcript = await fetchTranscript(transcriptId);
+
+      if (transcript.status === "completed") {
+        return toResult(transcript, request);
+      }
+
+      if (transcript.status === "error") {
+        throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
+      }
+
+      console.log(`${LOG_PREFIX} Status: ${transcript.status}, attempt ${attempt}`);
+    }
+
+    throw new Error("AssemblyAI transcription timed out");
+  }
+
+  // Result of a transcript submitted with a webhook, once it has called back
+  async function getTranscript(
+    transcriptId: string,
+    request: Omit<TranscribeRequest, "audioUrl">
+  ): Promise<TranscriptionResult> {
+    const transcript = await fetchTranscript(transcriptId);
+
+    if (transcript.status === "error") {
+      throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
+    }
+
+    if (transcript.status !== "completed") {
+      throw new Error(`AssemblyAI transcript ${transcriptId} is not complete: ${transcript.status}`);
+    }
+
+    return toResult(transcript, request);
+  }
+
+  // Bleeped audio for a transcript submitted with redact_pii_audio
+  async function getRedactedAudioUrl(transcriptId: string): Promise<string> {
+    for (let attempt = 1; attempt <= MAX_REDACTED_AUDIO_POLL_ATTEMPTS; attempt++) {
+      const response = await fetch(`${apiUrl}/v2/transcript/${transcriptId}/redacted-audio`, {
+        headers: { Authorization: apiKey },
+      });
+
+      if (response.ok) {
+        const audio = await response.json() as AssemblyAIRedactedAudio;
+        if (audio.status === "redacted_audio_ready" && audio.redacted_audio_url) {
+          return audio.redacted_audio_url;
+        }
+      } else if (response.status !== 400) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch AssemblyAI redacted audio: ${errorText}`);
+      }
+
+      console.log(`${LOG_PREFIX} Redacted audio not ready, attempt ${attempt}`);
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    throw new Error("AssemblyAI redacted audio timed out");
+  }
+
+  // Run a LeMUR task over the transcript and return the response text
+  async function runLemurTask(
+    transcript: ProviderTranscript,
+    { prompt, context, maxOutputSize }: TranscriptPrompt,
+    finalModel: string
+  ): Promise<string> {
+    if (!transcript.id) {
+      throw new Error("LeMUR needs an AssemblyAI transcript ID");
+    }
+
+    // Use LeMUR Task endpoint for more flexible prompting
+    const response = await fetch(`${apiUrl}/lemur/v3/generate/task`, {
+      method: "POST",
+      headers: {
+        Authorization: apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        transcript_ids: [transcript.id],
+        prompt,
+        ...(context ? { context } : {}),
+        final_model: finalModel,
+        max_output_size: maxOutputSize,
+      }),
+    });
+
+    const responseText = await response.text();
+    console.log(`${LOG_PREFIX} LeMUR response status: ${response.status}`);
+
+    if (!response.ok) {
+      throw new Error(`LeMUR request failed: ${responseText}`);
+    }
+
+    const result = JSON.parse(responseText) as { response?: string; summary?: string };
+    return result.response || result.summary || "";
+  }
+
+  return {
+    name: "assemblyai",
+    dataRegion,
+    transcribe,
+    submit: submitTranscript,
+    getTranscript,
+    getRedactedAudioUrl,
+    summarize: (transcript, request) => runLemurTask(transcript, request, SUMMARY_MODEL),
+    identifySpeakers: async (transcript, request): Promise<SpeakerMapping> =>
+      parseSpeakerMapping(await runLemurTask(transcript, request, SPEAKERS_MODEL)),
+  };
+}
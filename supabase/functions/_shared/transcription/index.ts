@@ -0,0 +1,84 @@
+// Transcription provider selection
+// The provider comes from app_config (key "transcription_provider"), so
+// vendors can be switched - or a local stand-in used - without a deploy:
+//   { "provider": "assemblyai" }
+//   { "provider": "whisper", "whisper": { "base_url": "http://...", "model": "...", "chat_model": "..." } }
+// app_config is readable by every signed-in user, so API keys stay in
+// environment variables (ASSEMBLYAI_API_KEY, WHISPER_API_KEY).
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { createAssemblyAIProvider } from "./assemblyai.ts";
+import { createWhisperProvider, type WhisperConfig } from "./whisper.ts";
+import type { DataRegion, TranscriptionProvider, TranscriptionProviderName } from "./types.ts";
+
+export * from "./types.ts";
+
+const LOG_PREFIX = "[TranscriptionProvider]";
+
+const CONFIG_KEY = "transcription_provider";
+const DEFAULT_PROVIDER: TranscriptionProviderName = "assemblyai";
+
+interface TranscriptionProviderConfig {
+  provider?: TranscriptionProviderName;
+  whisper?: WhisperConfig;
+}
+
+// Helper: Read the provider config. Missing config means AssemblyAI; an
+// unreadable one fails rather than silently picking a vendor.
+async function getProviderConfig(
+  supabase: ReturnType<typeof createClient>
+): Promise<TranscriptionProviderConfig> {
+  const { data, error } = await supabase
+    .from("app_config")
+    .select("value")
+    .eq("key", CONFIG_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to read transcription provider config: ${error.message}`);
+  }
+
+  return (data?.value || {}) as TranscriptionProviderConfig;
+}
+
+// Helper: AssemblyAI in the given region
+function getAssemblyAIProvider(dataRegion: DataRegion): TranscriptionProvider {
+  const apiKey = Deno.env.get("ASSEMBLYAI_API_KEY");
+  if (!apiKey) {
+    throw new Error("ASSEMBLYAI_API_KEY not configured");
+  }
+  return createAssemblyAIProvider(apiKey, dataRegion);
+}
+
+/**
+ * The configured transcription provider. dataRegion is the user's
+ * profiles.data_region - AssemblyAI uses the matching endpoints. A Whisper
+ * server has no region, so EU users are sent to AssemblyAI EU instead.
+ */
+export async function getTranscriptionProvider(
+  supabase: ReturnType<typeof createClient>,
+  dataRegion: DataRegion
+): Promise<TranscriptionProvider> {
+  const config = await getProviderConfig(supabase);
+  const providerName = config.provider || DEFAULT_PROVIDER;
+  console.log(`${LOG_PREFIX} Using provider: ${providerName}`);
+
+  switch (providerName) {
+    case "assemblyai":
+      return getAssemblyAIProvider(dataRegion);
+    case "whisper": {
+      // Audio from EU users must stay in the EU
+      if (dataRegion === "eu") {
+        console.warn(`${LOG_PREFIX} Whisper has no EU endpoint, using AssemblyAI (eu)`);
+        return getAssemblyAIProvider(dataRegion);
+      }
+      if (!config.whisper?.base_url) {
+        throw new Error("transcription_provider.whisper.base_url not configured");
+      }
+      // Optional - a server on a private network may not need one
+      return createWhisperProvider(config.whisper, Deno.env.get("WHISPER_API_KEY"));
+    }
+    default:
+      throw new Error(`Unknown transcription provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,114 @@
+// Transcription provider interface
+// process-recording builds the prompts and owns the pipeline; a provider only
+// talks to its vendor. Implementations: assemblyai.ts, whisper.ts
+
+export type DataRegion = "us" | "eu";
+
+export type TranscriptionProviderName = "assemblyai" | "whisper";
+
+// One speaker turn, in the shape process-recording saves as a segment
+export interface TranscriptUtterance {
+  speaker: string;     // Provider label, e.g. "A" or "1" (multichannel)
+  text: string;
+  start: number;       // ms
+  end: number;         // ms
+  confidence: number;  // 0-1
+}
+
+// A finished transcript, normalized across providers
+export interface ProviderTranscript {
+  id: string | null;   // Vendor transcript ID, if the vendor keeps one
+  text: string;
+  utterances: TranscriptUtterance[];
+}
+
+// PII to redact while transcribing. Redacted text shows the entity type in
+// brackets (e.g. "[PERSON_NAME]"), and the audio can be bleeped to match.
+export interface RedactionRequest {
+  policies: string[];  // Vendor PII policies, e.g. "us_social_security_number"
+  audio: boolean;
+}
+
+export interface TranscribeRequest {
+  audioUrl: string;
+  expectedSpeakers: number;
+  language: string;    // Language code, or "auto" to detect
+  vocabulary: string[];
+  multichannel: boolean;
+  // Only for providers with getRedactedAudioUrl - others ignore it
+  redaction?: RedactionRequest;
+}
+
+// Transcription result with validation data
+export interface TranscriptionResult {
+  transcript: ProviderTranscript;
+  speechModel: string;
+  language: string;
+  detectedLanguage: string | null;
+  languageConfidence: number | null;
+  detectedSpeakers: number | null;  // null when the provider can't diarize
+  speakerMismatch: boolean;
+}
+
+// Where a provider calls back once a submitted transcript is done. The
+// header is sent with the callback so it can be verified.
+export interface TranscriptWebhook {
+  url: string;
+  authHeaderName: string;
+  authHeaderValue: string;
+}
+
+// Prompt for a generation task over the transcript
+export interface TranscriptPrompt {
+  prompt: string;
+  context?: string;
+  maxOutputSize: number;
+}
+
+export interface SpeakerMapping {
+  [key: string]: string; // e.g., {"Speaker A": "John Smith (Attorney)", "Speaker B": "Client"}
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  // AssemblyAI region the audio is processed in, or null for providers
+  // without regions (a self-hosted server runs wherever it is deployed)
+  dataRegion: DataRegion | null;
+  transcribe(request: TranscribeRequest): Promise<TranscriptionResult>;
+  // Providers with webhooks can submit and return straight away, with the
+  // result fetched when the callback arrives. getTranscript takes the same
+  // request the transcript was submitted with.
+  submit?(request: TranscribeRequest, webhook: TranscriptWebhook): Promise<string>;
+  getTranscript?(transcriptId: string, request: Omit<TranscribeRequest, "audioUrl">): Promise<TranscriptionResult>;
+  // Providers that can redact PII while transcribing. Returns where to
+  // download the bleeped audio of a transcript submitted with
+  // redaction.audio, once it is ready.
+  getRedactedAudioUrl?(transcriptId: string): Promise<string>;
+  // Both throw on failure - the caller decides what to fall back to
+  summarize(transcript: ProviderTranscript, request: TranscriptPrompt): Promise<string>;
+  identifySpeakers(transcript: ProviderTranscript, request: TranscriptPrompt): Promise<SpeakerMapping>;
+}
+
+// Helper: Pull the speaker mapping JSON out of an LLM response (handles
+// text around it)
+export function parseSpeakerMapping(responseText: string): SpeakerMapping {
+  const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("No valid JSON in speaker identification response");
+  }
+  return JSON.parse(jsonMatch[0]) as SpeakerMapping;
+}
+
+// Helper: Count speakers and compare against the expected count. A silent
+// channel isn't a diarization error, so multichannel never mismatches.
+export function validateSpeakers(
+  utterances: TranscriptUtterance[],
+  expectedSpeakers: number,
+  multichannel: boolean
+): { detectedSpeakers: number; speakerMismatch: boolean } {
+  const detectedSpeakers = new Set(utterances.map((u) => u.speaker)).size;
+  return {
+    detectedSpeakers,
+    speakerMismatch: !multichannel && detectedSpeakers !== expectedSpeakers,
+  };
+}
@@ -0,0 +1,193 @@
+// Whisper-compatible transcription provider
+// Targets a self-hosted server exposing the OpenAI audio API
+// (POST /v1/audio/transcriptions), e.g. faster-whisper-server or whisper.cpp.
+// Whisper doesn't diarize, so every utterance is one speaker. The summary and
+// speaker naming go to an OpenAI-compatible chat completions endpoint when
+// one is configured.
+
+import {
+  parseSpeakerMapping,
+  type ProviderTranscript,
+  type SpeakerMapping,
+  type TranscribeRequest,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+  type TranscriptPrompt,
+} from "./types.ts";
+
+const LOG_PREFIX = "[Whisper]";
+
+// Whisper's initial prompt is limited to ~224 tokens, so vocabulary is cut
+// off well before that
+const MAX_PROMPT_LENGTH = 800;
+
+// Whisper has no speaker labels - everything is attributed to one speaker
+const SINGLE_SPEAKER_LABEL = "A";
+
+// OpenAI's API reports the detected language by name, most self-hosted
+// servers by code. Names are mapped for the languages the app offers.
+const LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  portuguese: "pt",
+  japanese: "ja",
+  chinese: "zh",
+  korean: "ko",
+};
+
+// app_config transcription_provider.whisper
+export interface WhisperConfig {
+  base_url: string;
+  model?: string;
+  // Chat completions server for the summary and speaker naming - defaults
+  // to base_url. Without chat_model neither runs.
+  chat_base_url?: string;
+  chat_model?: string;
+}
+
+// verbose_json response
+interface WhisperTranscription {
+  text: string;
+  language?: string;
+  segments?: Array<{
+    start: number;       // seconds
+    end: number;         // seconds
+    text: string;
+    avg_logprob?: number;
+  }>;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+export function createWhisperProvider(config: WhisperConfig, apiKey: string | undefined): TranscriptionProvider {
+  const baseUrl = config.base_url.replace(/\/+$/, "");
+  const chatBaseUrl = (config.chat_base_url || config.base_url).replace(/\/+$/, "");
+  const model = config.model || "whisper-1";
+  const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  async function transcribe({
+    audioUrl,
+    language,
+    vocabulary,
+    multichannel,
+  }: TranscribeRequest): Promise<TranscriptionResult> {
+    console.log(`${LOG_PREFIX} Transcribing with ${model} at ${baseUrl}, language: ${language}`);
+    if (multichannel) {
+      console.warn(`${LOG_PREFIX} Multichannel isn't supported - channels are transcribed together`);
+    }
+
+    // The server needs the file itself, not a URL
+    const audioResponse = await fetch(audioUrl);
+    if (!audioResponse.ok) {
+      throw new Error(`Failed to download audio for Whisper: ${audioResponse.status}`);
+    }
+    const audioBlob = await audioResponse.blob();
+
+    const form = new FormData();
+    form.append("file", audioBlob, "audio.mp3");
+    form.append("model", model);
+    form.append("response_format", "verbose_json");
+    if (language !== "auto") {
+      form.append("language", language);
+    }
+    // Custom vocabulary goes in the initial prompt, which biases spelling
+    if (vocabulary.length > 0) {
+      form.append("prompt", vocabulary.join(", ").slice(0, MAX_PROMPT_LENGTH));
+      console.log(`${LOG_PREFIX} Applying ${vocabulary.length} vocabulary terms`);
+    }
+
+    const response = await fetch(`${baseUrl}/v1/audio/transcriptions`, {
+      method: "POST",
+      headers: authHeaders,
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Whisper transcription failed: ${errorText}`);
+    }
+
+    const result = await response.json() as WhisperTranscription;
+    const utterances = (result.segments || [])
+      .filter((segment) => segment.text.trim())
+      .map((segment) => ({
+        speaker: SINGLE_SPEAKER_LABEL,
+        text: segment.text.trim(),
+        start: Math.round(segment.start * 1000),
+        end: Math.round(segment.end * 1000),
+        // avg_logprob is a log probability - map it back onto 0-1
+        confidence: segment.avg_logprob != null ? Math.min(1, Math.exp(segment.avg_logprob)) : 0,
+      }));
+
+    const reportedLanguage = result.language?.toLowerCase() ?? null;
+    const detectedLanguage = language === "auto" && reportedLanguage
+      ? LANGUAGE_CODES[reportedLanguage] ?? reportedLanguage
+      : null;
+
+    console.log(`${LOG_PREFIX} Transcription complete: ${utterances.length} segments`);
+
+    return {
+      transcript: {
+        id: null,
+        text: result.text?.trim() || utterances.map((u) => u.text).join(" "),
+        utterances,
+      },
+      speechModel: model,
+      language,
+      detectedLanguage,
+      // Whisper doesn't report how sure it is of the language
+      languageConfidence: null,
+      detectedSpeakers: null,
+      speakerMismatch: false,
+    };
+  }
+
+  // Run a prompt over the transcript text with the chat model
+  async function runChatTask(
+    transcript: ProviderTranscript,
+    { prompt, context, maxOutputSize }: TranscriptPrompt
+  ): Promise<string> {
+    if (!config.chat_model) {
+      throw new Error("No chat_model configured for the Whisper provider");
+    }
+
+    const transcriptText = transcript.utterances.length > 0
+      ? transcript.utterances.map((u) => `Speaker ${u.speaker}: ${u.text}`).join("\n")
+      : transcript.text;
+
+    const response = await fetch(`${chatBaseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { ...authHeaders, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: config.chat_model,
+        max_tokens: maxOutputSize,
+        messages: [
+          ...(context ? [{ role: "system", content: context }] : []),
+          { role: "user", content: `${prompt}\n\nTranscript:\n${transcriptText}` },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Chat completion failed: ${errorText}`);
+    }
+
+    const result = await response.json() as ChatCompletion;
+    return result.choices?.[0]?.message?.content || "";
+  }
+
+  return {
+    name: "whisper",
+    dataRegion: null,
+    transcribe,
+    summarize: runChatTask,
+    identifySpeakers: async (transcript, request): Promise<SpeakerMapping> =>
+      parseSpeakerMapping(await runChatTask(transcript, request)),
+  };
+}
@@ -0,0 +1,218 @@
+// Supabase Edge Function: assemblyai-webhook
+// Called by AssemblyAI when a transcript submitted by process-recording is
+// done. Finishes the pipeline for the meeting: speaker naming, summary,
+// transcript and segments, usage metering. Redacted transcripts submitted by
+// redact-transcript are finished as redactions instead.
+//
+// Auth: the X-Webhook-Secret header must match ASSEMBLYAI_WEBHOOK_SECRET.
+// Deploy with --no-verify-jwt - AssemblyAI doesn't send a Supabase JWT.
+// Idempotent: only the first delivery for a transcript runs the pipeline.
+
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { createAssemblyAIProvider } from "../_shared/transcription/assemblyai.ts";
+import {
+  acceptRedactionWebhook,
+  acceptWebhook,
+  completeJob,
+  failJob,
+  failRedaction,
+  finishPipeline,
+  finishRedaction,
+  isKnownRedactionTranscript,
+  isKnownTranscript,
+  PermanentError,
+  WEBHOOK_AUTH_HEADER,
+  type PendingRedaction,
+  type PipelineMeeting,
+  type WebhookJob,
+} from "../_shared/pipeline/index.ts";
+
+const LOG_PREFIX = "[AssemblyAIWebhook]";
+
+// AssemblyAI webhook body
+// https://www.assemblyai.com/docs/deployment/webhooks
+interface WebhookPayload {
+  transcript_id?: string;
+  status?: "completed" | "error";
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Helper: Compare secrets without leaking where they differ through timing
+function secretsMatch(received: string, expected: string): boolean {
+  const encoder = new TextEncoder();
+  const a = encoder.encode(received);
+  const b = encoder.encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+// Fetch the transcript and run the rest of the pipeline. Failures go back to
+// the job queue like any other failed attempt.
+async function resumePipeline(
+  supabase: ReturnType<typeof createClient>,
+  job: WebhookJob,
+  transcriptId: string
+): Promise<void> {
+  const meetingId = job.meeting_id;
+  const request = job.transcription_request;
+
+  try {
+    const apiKey = Deno.env.get("ASSEMBLYAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("ASSEMBLYAI_API_KEY not configured");
+    }
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select(`
+        id, user_id, title, expected_speakers, recording_mode, meeting_type_id, created_at,
+        contact:contacts(id, first_name, last_name, company),
+        meeting_type:meeting_types(name, summary_template)
+      `)
+      .eq("id", meetingId)
+      .single();
+
+    if (meetingError || !meeting) {
+      throw new PermanentError(`Meeting not found: ${meetingError?.message}`);
+    }
+
+    // Same region the transcript was submitted to
+    const provider = createAssemblyAIProvider(apiKey, request.data_region);
+
+    // Throws if AssemblyAI reports the transcript failed
+    const result = await provider.getTranscript!(transcriptId, {
+      expectedSpeakers: request.expected_speakers,
+      language: request.language,
+      vocabulary: request.vocabulary,
+      multichannel: request.multichannel,
+    });
+
+    await finishPipeline(supabase, {
+      meeting: meeting as PipelineMeeting,
+      provider,
+      result,
+      vocabulary: request.vocabulary,
+      durationSeconds: request.duration_seconds,
+      polarAccessToken: Deno.env.get("POLAR_ACCESS_TOKEN"),
+    });
+
+    await completeJob(supabase, meetingId, job.id, job.locked_by);
+    console.log(`${LOG_PREFIX} Pipeline complete for meeting: ${meetingId}`);
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Pipeline error:`, error);
+    try {
+      await failJob(supabase, meetingId, job, job.locked_by, error);
+    } catch (updateError) {
+      console.error(`${LOG_PREFIX} Failed to update error status:`, updateError);
+    }
+  }
+}
+
+// Fetch the redacted transcript and save the redaction. Failures are
+// recorded on the redaction - there is no job to retry it.
+async function resumeRedaction(
+  supabase: ReturnType<typeof createClient>,
+  redaction: PendingRedaction,
+  transcriptId: string
+): Promise<void> {
+  const request = redaction.transcription_request;
+
+  try {
+    const apiKey = Deno.env.get("ASSEMBLYAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("ASSEMBLYAI_API_KEY not configured");
+    }
+
+    const provider = createAssemblyAIProvider(apiKey, request.data_region);
+    const result = await provider.getTranscript!(transcriptId, {
+      expectedSpeakers: request.expected_speakers,
+      language: request.language,
+      vocabulary: request.vocabulary,
+      multichannel: request.multichannel,
+    });
+
+    await finishRedaction(supabase, { redaction, provider, result });
+  } catch (error) {
+    await failRedaction(supabase, redaction.id, error);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const webhookSecret = Deno.env.get("ASSEMBLYAI_WEBHOOK_SECRET");
+  if (!webhookSecret) {
+    console.error(`${LOG_PREFIX} ASSEMBLYAI_WEBHOOK_SECRET not set`);
+    return new Response("Configuration error", { status: 500 });
+  }
+
+  const receivedSecret = req.headers.get(WEBHOOK_AUTH_HEADER);
+  if (!receivedSecret || !secretsMatch(receivedSecret, webhookSecret)) {
+    console.error(`${LOG_PREFIX} Invalid webhook secret`);
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const payload = await req.json() as WebhookPayload;
+    const transcriptId = payload.transcript_id;
+
+    if (!transcriptId) {
+      return jsonResponse({ error: "Missing transcript_id" }, 400);
+    }
+
+    console.log(`${LOG_PREFIX} Transcript ${transcriptId}: ${payload.status}`);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const job = await acceptWebhook(supabase, transcriptId);
+    if (!job) {
+      const redaction = await acceptRedactionWebhook(supabase, transcriptId);
+      if (redaction) {
+        EdgeRuntime.waitUntil(resumeRedaction(supabase, redaction, transcriptId));
+        return jsonResponse({ accepted: true, redaction_id: redaction.id });
+      }
+
+      // Already handled (a retried or duplicate delivery), or for an attempt
+      // that has since timed out - nothing more to do
+      if (
+        await isKnownTranscript(supabase, transcriptId) ||
+        await isKnownRedactionTranscript(supabase, transcriptId)
+      ) {
+        console.log(`${LOG_PREFIX} Transcript ${transcriptId} already handled - ignoring`);
+        return jsonResponse({ duplicate: true });
+      }
+
+      // Possibly the callback beat process-recording saving the transcript
+      // ID - a non-2xx response makes AssemblyAI deliver it again
+      console.warn(`${LOG_PREFIX} No job waiting on transcript ${transcriptId}`);
+      return jsonResponse({ error: "Unknown transcript" }, 404);
+    }
+
+    // Acknowledge straight away and finish in the background - the summary
+    // can take longer than AssemblyAI waits for a response
+    EdgeRuntime.waitUntil(resumePipeline(supabase, job, transcriptId));
+
+    return jsonResponse({ accepted: true, meeting_id: job.meeting_id });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Webhook error:`, error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Webhook failed" },
+      500
+    );
+  }
+});
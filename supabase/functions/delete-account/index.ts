@@ -96,6 +96,15 @@ Deno.serve(async (req) => {
     const meetingIds = meetings?.map(m => m.id) || [];
     const audioPaths = meetings?.filter(m => m.audio_path).map(m => m.audio_path) || [];
 
+    // Bleeped copies made for redacted shares
+    const { data: redactions } = await supabaseAdmin
+      .from("transcript_redactions")
+      .select("audio_path")
+      .eq("user_id", userId)
+      .not("audio_path", "is", null);
+
+    audioPaths.push(...(redactions?.map(r => r.audio_path) || []));
+
     console.log(`[DeleteAccount] Found ${meetingIds.length} meetings, ${audioPaths.length} audio files`);
 
     // Step 2: Delete audio files from storage
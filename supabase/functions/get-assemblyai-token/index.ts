@@ -12,8 +12,11 @@
  * - Requires valid Authorization header (user must be logged in)
  * - Per-user rate limiting (60 requests/minute)
  * - Returns API key for WebSocket connection
+ * - Returns the WebSocket URL for the user's data region (profiles.data_region)
  */
 
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
 const LOG_PREFIX = '[get-assemblyai-token]';
 
 console.log(`${LOG_PREFIX} ========================================`);
@@ -29,6 +32,13 @@ const buckets = new Map<string, RateBucket>();
 // Token validity duration in seconds (1 hour)
 const TOKEN_EXPIRES_IN = 3600;
 
+// Streaming endpoint by data region - EU audio is processed in the EU
+type DataRegion = 'us' | 'eu';
+const WEBSOCKET_URLS: Record<DataRegion, string> = {
+  us: 'wss://streaming.assemblyai.com/v3/ws',
+  eu: 'wss://streaming.eu.assemblyai.com/v3/ws',
+};
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -139,6 +149,33 @@ function checkRateLimit(userId: string): { allowed: boolean; debugInfo: object }
   return { allowed: false, debugInfo: { reason: 'exceeded', count: bucket.count } };
 }
 
+/**
+ * Look up the user's data region. Returns null if it can't be read, so the
+ * caller fails rather than sending EU audio to the US endpoint.
+ */
+async function getUserDataRegion(userId: string): Promise<DataRegion | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error(`${LOG_PREFIX} Supabase service credentials not configured`);
+    return null;
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('data_region')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to fetch data region:`, error.message);
+    return null;
+  }
+
+  return profile?.data_region === 'eu' ? 'eu' : 'us';
+}
+
 console.info(`${LOG_PREFIX} Deno.serve starting...`);
 
 Deno.serve(async (req: Request) => {
@@ -211,7 +248,21 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    // Step 5: Return API key for v3 Streaming API
+    // Step 5: Resolve the user's data region
+    const dataRegion = await getUserDataRegion(userId);
+    if (!dataRegion) {
+      return new Response(JSON.stringify({ 
+        error: 'region_unavailable',
+        message: 'Could not determine data region',
+        request_id: requestId,
+      }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    console.log(`${LOG_PREFIX} [${requestId}] Data region: ${dataRegion}`);
+
+    // Step 6: Return API key for v3 Streaming API
     // In v3, the API key can be used directly in the token query parameter
     // or Authorization header when connecting to WebSocket
     const expiresAt = new Date(Date.now() + TOKEN_EXPIRES_IN * 1000).toISOString();
@@ -225,7 +276,8 @@ Deno.serve(async (req: Request) => {
         token: assemblyApiKey,
         expires_at: expiresAt,
         // v3 Streaming API configuration
-        websocket_url: 'wss://streaming.assemblyai.com/v3/ws',
+        websocket_url: WEBSOCKET_URLS[dataRegion],
+        data_region: dataRegion,
         sample_rate: 16000,
         encoding: 'pcm_s16le',
         // User info for tracking
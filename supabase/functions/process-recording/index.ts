@@ -1,11 +1,34 @@
 // Supabase Edge Function: process-recording
-// Unified pipeline: CloudConvert (audio conversion) + AssemblyAI (transcription with diarization)
-// Uses SLAM-1 model for best English accuracy with built-in summarization
+// Unified pipeline: CloudConvert (audio conversion, skipped for playable uploads) + transcription provider
+// (AssemblyAI by default, or a Whisper-compatible server - see _shared/transcription)
 // Includes Polar usage metering for subscription billing
+// Each run is one attempt of the meeting's processing job - failures are
+// retried with backoff by the job queue (see migration 20260101000010)
 
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import {
+  getTranscriptionProvider,
+  type DataRegion,
+  type TranscribeRequest,
+} from "../_shared/transcription/index.ts";
+import {
+  claimJob,
+  clearProgress,
+  completeJob,
+  failJob,
+  finishPipeline,
+  getContactName,
+  getTranscriptWebhook,
+  PermanentError,
+  publishProgress,
+  saveSubmittedTranscript,
+  updateJobStatus,
+  updateMeetingStatus,
+  type ClaimedJob,
+  type ProgressStage,
+} from "../_shared/pipeline/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,9 +38,17 @@ const corsHeaders = {
 
 // API URLs
 const CLOUDCONVERT_API_URL = "https://api.cloudconvert.com/v2";
-const ASSEMBLYAI_API_URL = "https://api.assemblyai.com/v2";
 const POLAR_API_URL = "https://api.polar.sh/v1";
 
+// Formats that play on iOS/Android and that transcription accepts as-is.
+// Uploads in these formats skip the CloudConvert step entirely.
+const PLAYABLE_AUDIO_FORMATS = ["mp3", "m4a", "mp4", "aac"];
+
+// Custom vocabulary limits - same as live streaming in the app, so both
+// transcriptions get the same terms
+const MAX_VOCABULARY_TERMS = 100;
+const MAX_VOCABULARY_TERM_LENGTH = 50;
+
 // Types
 interface ProcessRequest {
   meeting_id: string;
@@ -42,77 +73,34 @@ interface CloudConvertJob {
     };
   }>;
 }
-
-// AssemblyAI transcript response with summary field
-interface AssemblyAITranscript {
+// Recording continued into the meeting after its first recording
+interface RecordingPart {
   id: string;
-  status: string;
-  text?: string;
-  summary?: string;  // From built-in summarization feature
-  utterances?: Array<{
-    speaker: string;
-    text: string;
-    start: number;
-    end: number;
-    confidence: number;
-  }>;
-  error?: string;
+  audio_path: string;
+  audio_format: string;
+  recorded_at: string;
 }
 
-// Transcription result with validation data
-interface TranscriptionResult {
-  transcript: AssemblyAITranscript;
-  speechModel: string;
-  language: string;
-  detectedSpeakers: number;
-  speakerMismatch: boolean;
-}
-
-// Helper: Update meeting status
-async function updateMeetingStatus(
-  supabase: ReturnType<typeof createClient>,
-  meetingId: string,
-  status: string,
-  additionalData: Record<string, unknown> = {}
-) {
-  const { error } = await supabase
-    .from("meetings")
-    .update({ status, ...additionalData })
-    .eq("id", meetingId);
-
-  if (error) {
-    console.error(`[ProcessRecording] Failed to update status to ${status}:`, error);
-  }
+// Playable MP3 stream: frame data only, without tags or VBR info frames
+interface Mp3Audio {
+  data: Uint8Array;
+  durationMs: number;
+  sampleRate: number;
+  channels: number;
 }
 
-// Helper: Update job status
-async function updateJobStatus(
-  supabase: ReturnType<typeof createClient>,
-  meetingId: string,
-  status: string,
-  step: string | null,
-  error: string | null = null
-) {
-  const updates: Record<string, unknown> = { status, step };
-  if (error) updates.error = error;
-  if (status === "processing" && !updates.started_at) {
-    updates.started_at = new Date().toISOString();
-  }
-  if (status === "completed" || status === "failed") {
-    updates.completed_at = new Date().toISOString();
-  }
-
-  await supabase
-    .from("processing_jobs")
-    .update(updates)
-    .eq("meeting_id", meetingId);
+// Output settings for CloudConvert, to match parts being stitched together
+interface Mp3ConversionOptions {
+  sampleRate?: number;
+  channels?: number;
 }
 
 // Step 1: Convert audio to MP3 using CloudConvert
 async function convertToMp3(
   audioBlob: Blob,
   originalFormat: string,
-  cloudConvertApiKey: string
+  cloudConvertApiKey: string,
+  options: Mp3ConversionOptions = {}
 ): Promise<Blob> {
   console.log("[ProcessRecording] Starting CloudConvert conversion...");
 
@@ -134,6 +122,8 @@ async function convertToMp3(
           output_format: "mp3",
           audio_codec: "mp3",
           audio_bitrate: 128,
+          ...(options.sampleRate && { audio_frequency: options.sampleRate }),
+          ...(options.channels && { audio_channels: options.channels }),
         },
         "export-audio": {
           operation: "export/url",
@@ -239,381 +229,300 @@ async function convertToMp3(
   return await mp3Response.blob();
 }
 
-// Step 2: Transcribe with AssemblyAI using SLAM-1 model
-// Per AssemblyAI documentation:
-// - SLAM-1: Best accuracy for English audio
-// - 'best': Universal model for 99+ languages
-// - speakers_expected: Exact count for best diarization accuracy
-async function transcribeAudio(
-  audioUrl: string,
-  assemblyAIKey: string,
-  expectedSpeakers: number = 2,
-  language: string = "en"
-): Promise<TranscriptionResult> {
-  console.log("[ProcessRecording] Submitting to AssemblyAI for transcription...");
-  console.log(`[ProcessRecording] Expected speakers: ${expectedSpeakers}, Language: ${language}`);
-
-  // Determine speech model based on language
-  // SLAM-1: English only, highest accuracy for English content
-  // 'best': Universal model, supports 99+ languages
-  const speechModel = (language === "en") ? "slam-1" : "best";
-  console.log(`[ProcessRecording] Using speech model: ${speechModel}`);
-
-  // Build request body per AssemblyAI documentation
-  // https://www.assemblyai.com/docs/pre-recorded-audio/speaker-diarization
-  // https://www.assemblyai.com/docs/pre-recorded-audio/select-the-speech-model
-  // NOTE: Using LeMUR for summarization separately (works with all models including SLAM-1)
-  const requestBody: Record<string, unknown> = {
-    audio_url: audioUrl,
-    // Speech model selection
-    speech_model: speechModel,
-    language_code: language,
-    // Speaker diarization with exact count per docs
-    // "speakers_expected gives best accuracy when you know the count"
-    speaker_labels: true,
-    speakers_expected: expectedSpeakers,
-    // Additional features
-    auto_highlights: true,
-  };
-
-  console.log(`[ProcessRecording] Request config: speech_model=${speechModel}, speakers_expected=${expectedSpeakers}`);
+// Bitrates (kbps) by header index for MPEG-1 and MPEG-2/2.5 Layer III
+const MP3_BITRATES_V1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_BITRATES_V2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
 
-  // Submit transcription job
-  const submitResponse = await fetch(`${ASSEMBLYAI_API_URL}/transcript`, {
-    method: "POST",
-    headers: {
-      Authorization: assemblyAIKey,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(requestBody),
-  });
+// Sample rates by header version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
 
-  if (!submitResponse.ok) {
-    const errorText = await submitResponse.text();
-    throw new Error(`AssemblyAI submission failed: ${errorText}`);
+// Helper: Walk the frames of an MP3 file. ID3 tags and Xing/Info/VBRI frames
+// are dropped - they describe the whole file and would be wrong (or play as
+// a glitch) in the middle of stitched audio.
+function parseMp3(bytes: Uint8Array): Mp3Audio {
+  let offset = 0;
+  let end = bytes.length;
+
+  // ID3v2 tag at the start (size is syncsafe, optional 10-byte footer)
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33 && bytes.length >= 10) {
+    const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+    offset = 10 + size + (bytes[5] & 0x10 ? 10 : 0);
   }
 
-  const submission = await submitResponse.json() as AssemblyAITranscript;
-  console.log(`[ProcessRecording] AssemblyAI transcript ID: ${submission.id}`);
-
-  // Poll for completion
-  let attempts = 0;
-  const maxAttempts = 120; // 10 minutes max
-
-  while (attempts < maxAttempts) {
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+  // ID3v1 tag at the end
+  if (end >= 128 && bytes[end - 128] === 0x54 && bytes[end - 127] === 0x41 && bytes[end - 126] === 0x47) {
+    end -= 128;
+  }
 
-    const statusResponse = await fetch(
-      `${ASSEMBLYAI_API_URL}/transcript/${submission.id}`,
-      {
-        headers: { Authorization: assemblyAIKey },
-      }
-    );
+  const frames: Uint8Array[] = [];
+  let totalLength = 0;
+  let totalSamples = 0;
+  let sampleRate = 0;
+  let channels = 0;
+
+  while (offset + 4 <= end) {
+    const b1 = bytes[offset + 1];
+    const b2 = bytes[offset + 2];
+    const version = (b1 >> 3) & 0x03;
+    const layer = (b1 >> 1) & 0x03;
+    const bitrateIndex = b2 >> 4;
+    const sampleRateIndex = (b2 >> 2) & 0x03;
+
+    // Not a Layer III frame header - resync on the next byte
+    if (
+      bytes[offset] !== 0xff ||
+      (b1 & 0xe0) !== 0xe0 ||
+      version === 1 ||
+      layer !== 1 ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15 ||
+      sampleRateIndex === 3
+    ) {
+      offset++;
+      continue;
+    }
 
-    const transcript = await statusResponse.json() as AssemblyAITranscript;
-
-    if (transcript.status === "completed") {
-      console.log("[ProcessRecording] AssemblyAI transcription complete");
-      
-      // Post-transcription validation: count unique speakers detected
-      const detectedSpeakers = transcript.utterances 
-        ? new Set(transcript.utterances.map(u => u.speaker)).size 
-        : 0;
-      const speakerMismatch = detectedSpeakers !== expectedSpeakers;
-      
-      if (speakerMismatch) {
-        console.warn(`[ProcessRecording] Speaker mismatch detected: expected ${expectedSpeakers}, detected ${detectedSpeakers}`);
-      } else {
-        console.log(`[ProcessRecording] Speaker count matches: ${detectedSpeakers}`);
+    const isMpeg1 = version === 3;
+    const bitrate = (isMpeg1 ? MP3_BITRATES_V1 : MP3_BITRATES_V2)[bitrateIndex] * 1000;
+    const frameSampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+    const padding = (b2 >> 1) & 0x01;
+    const samplesPerFrame = isMpeg1 ? 1152 : 576;
+    const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / frameSampleRate) + padding;
+    const isMono = (bytes[offset + 3] >> 6) === 3;
+
+    if (offset + frameLength > end) break;
+
+    // Xing/Info sit after the side info, VBRI at a fixed offset
+    const sideInfoLength = isMpeg1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+    const tagOffset = offset + 4 + ((b1 & 0x01) === 0 ? 2 : 0) + sideInfoLength;
+    const tag = String.fromCharCode(...bytes.subarray(tagOffset, tagOffset + 4));
+    const vbriTag = String.fromCharCode(...bytes.subarray(offset + 36, offset + 40));
+    const isInfoFrame = tag === "Xing" || tag === "Info" || vbriTag === "VBRI";
+
+    if (!isInfoFrame) {
+      frames.push(bytes.subarray(offset, offset + frameLength));
+      totalLength += frameLength;
+      totalSamples += samplesPerFrame;
+      if (!sampleRate) {
+        sampleRate = frameSampleRate;
+        channels = isMono ? 1 : 2;
       }
-
-      return {
-        transcript,
-        speechModel,
-        language,
-        detectedSpeakers,
-        speakerMismatch,
-      };
     }
 
-    if (transcript.status === "error") {
-      throw new Error(`AssemblyAI transcription failed: ${transcript.error}`);
-    }
+    offset += frameLength;
+  }
 
-    console.log(`[ProcessRecording] AssemblyAI status: ${transcript.status}, attempt ${attempts + 1}`);
-    attempts++;
+  if (frames.length === 0) {
+    throw new Error("No MP3 audio frames found");
   }
 
-  throw new Error("AssemblyAI transcription timed out");
-}
+  const data = new Uint8Array(totalLength);
+  let position = 0;
+  for (const frame of frames) {
+    data.set(frame, position);
+    position += frame.length;
+  }
 
-// Meeting context for summary generation
-interface MeetingContext {
-  title?: string | null;
-  contactName?: string | null;
-  contactCompany?: string | null;
-  meetingType?: string | null;
-  expectedSpeakers: number;
-  speakerNames?: SpeakerMapping;
+  return {
+    data,
+    durationMs: Math.round((totalSamples / sampleRate) * 1000),
+    sampleRate,
+    channels,
+  };
 }
 
-// Step 3: Generate summary using LeMUR
-// LeMUR is AssemblyAI's LLM that works with any transcript, regardless of speech model
-// Now uses context-aware prompts with structured output format
-async function generateSummaryWithLemur(
-  transcriptId: string,
-  assemblyAIKey: string,
-  meetingContext?: MeetingContext
-): Promise<string> {
-  console.log("[ProcessRecording] Generating summary with LeMUR...");
-  console.log(`[ProcessRecording] Transcript ID for summary: ${transcriptId}`);
-
-  try {
-    // Build context section with meeting metadata
-    const contextParts: string[] = [];
-    
-    if (meetingContext?.title) {
-      contextParts.push(`Meeting Title: "${meetingContext.title}"`);
-    }
-    if (meetingContext?.meetingType) {
-      contextParts.push(`Meeting Type: ${meetingContext.meetingType}`);
-    }
-    if (meetingContext?.contactName) {
-      const contactInfo = meetingContext.contactCompany 
-        ? `${meetingContext.contactName} (${meetingContext.contactCompany})`
-        : meetingContext.contactName;
-      contextParts.push(`Primary Contact/Client: ${contactInfo}`);
-    }
-    contextParts.push(`Number of Participants: ${meetingContext?.expectedSpeakers || 2}`);
-    
-    // Add speaker name mapping if available
-    if (meetingContext?.speakerNames && Object.keys(meetingContext.speakerNames).length > 0) {
-      const speakerList = Object.entries(meetingContext.speakerNames)
-        .map(([label, name]) => `${label} = ${name}`)
-        .join(', ');
-      contextParts.push(`Identified Speakers: ${speakerList}`);
-    }
+// Helper: Get one recording as MP3 frames. MP3 uploads are used as-is when
+// they match the stitch target, anything else goes through CloudConvert.
+async function getRecordingMp3(
+  supabase: ReturnType<typeof createClient>,
+  audioPath: string,
+  audioFormat: string,
+  cloudConvertApiKey: string | undefined,
+  target: Mp3ConversionOptions = {}
+): Promise<Mp3Audio> {
+  const { data: audioBlob, error: downloadError } = await supabase.storage
+    .from("meeting-audio")
+    .download(audioPath);
+
+  if (downloadError || !audioBlob) {
+    throw new Error(`Failed to download audio: ${downloadError?.message}`);
+  }
 
-    const contextSection = contextParts.length > 0 
-      ? `\n\nMeeting Context:\n${contextParts.join('\n')}\n` 
-      : '';
+  console.log(`[ProcessRecording] Downloaded ${audioPath}, size: ${audioBlob.size} bytes`);
 
-    const systemContext = `You are a legal documentation assistant specializing in meeting summaries for attorneys and legal professionals. Your summaries must be accurate, professional, and suitable for case files.${contextSection}`;
+  if (audioFormat === "mp3") {
+    const audio = parseMp3(new Uint8Array(await audioBlob.arrayBuffer()));
+    const matchesTarget =
+      (!target.sampleRate || audio.sampleRate === target.sampleRate) &&
+      (!target.channels || audio.channels === target.channels);
+    if (matchesTarget) return audio;
+    console.log(`[ProcessRecording] ${audioPath} is ${audio.sampleRate} Hz/${audio.channels}ch, re-encoding to match`);
+  }
 
-    const prompt = `Analyze this legal meeting transcript and provide a comprehensive summary with the following structure:
+  if (!cloudConvertApiKey) {
+    throw new Error("CLOUDCONVERT_API_KEY not configured");
+  }
 
-## Meeting Overview
-A 2-3 sentence high-level summary of the meeting purpose and outcome.
+  const mp3Blob = await convertToMp3(audioBlob, audioFormat, cloudConvertApiKey, target);
+  return parseMp3(new Uint8Array(await mp3Blob.arrayBuffer()));
+}
 
-## Key Discussion Points
-Bullet points of the main topics discussed, in order of importance.
+// Step 1-2 (continued meetings): Stitch the first recording and each part
+// into one MP3, in recording order. Frames are concatenated directly, so
+// every part is first brought to the first recording's sample rate and
+// channel count. Sets each part's start_ms in the stitched audio.
+async function stitchRecordingParts(
+  supabase: ReturnType<typeof createClient>,
+  meeting: { id: string; user_id: string; raw_audio_path: string; raw_audio_format: string | null },
+  parts: RecordingPart[],
+  cloudConvertApiKey: string | undefined
+): Promise<{ mp3Path: string; durationSeconds: number }> {
+  console.log(`[ProcessRecording] Stitching first recording and ${parts.length} continued part(s)...`);
+
+  const first = await getRecordingMp3(
+    supabase,
+    meeting.raw_audio_path,
+    meeting.raw_audio_format || "webm",
+    cloudConvertApiKey
+  );
+  const target = { sampleRate: first.sampleRate, channels: first.channels };
 
-## Decisions Made
-Any decisions or agreements reached during the meeting. If none, write "No formal decisions recorded."
+  const pieces: Uint8Array[] = [first.data];
+  let totalMs = first.durationMs;
 
-## Action Items
-Clear action items with responsible parties (use identified speaker names when available). If none, write "No action items identified."
+  for (const part of parts) {
+    const audio = await getRecordingMp3(supabase, part.audio_path, part.audio_format, cloudConvertApiKey, target);
 
-## Notable Statements
-Any legally significant statements, admissions, or quotes worth highlighting. If none, omit this section.
+    const { error: partError } = await supabase
+      .from("meeting_recording_parts")
+      .update({ start_ms: totalMs })
+      .eq("id", part.id);
 
-## Follow-up Required
-Items that need follow-up or further attention. If none, write "No immediate follow-up required."
+    if (partError) {
+      console.error(`[ProcessRecording] Failed to set start of part ${part.id}:`, partError);
+    }
 
-Guidelines:
-- Use the identified speaker names when referring to participants (e.g., "John Smith" instead of "Speaker A")
-- Be precise with dates, numbers, and legal terminology mentioned
-- Keep the tone professional and objective
-- Flag any potential concerns or issues for attorney review`;
-    
-    console.log("[ProcessRecording] LeMUR context:", systemContext.substring(0, 200) + "...");
+    pieces.push(audio.data);
+    totalMs += audio.durationMs;
+  }
 
-    // Use LeMUR Task endpoint for more flexible prompting
-    const response = await fetch("https://api.assemblyai.com/lemur/v3/generate/task", {
-      method: "POST",
-      headers: {
-        Authorization: assemblyAIKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        transcript_ids: [transcriptId],
-        prompt: prompt,
-        context: systemContext,
-        final_model: "anthropic/claude-3-opus",
-        max_output_size: 4000,
-      }),
+  const stitched = new Blob(pieces, { type: "audio/mpeg" });
+  const mp3Path = `${meeting.user_id}/${meeting.id}/stitched.mp3`;
+  const { error: uploadError } = await supabase.storage
+    .from("meeting-audio")
+    .upload(mp3Path, stitched, {
+      contentType: "audio/mpeg",
+      upsert: true,
     });
 
-    const responseText = await response.text();
-    console.log(`[ProcessRecording] LeMUR response status: ${response.status}`);
-    console.log(`[ProcessRecording] LeMUR response: ${responseText.substring(0, 500)}`);
-
-    if (!response.ok) {
-      console.error("[ProcessRecording] LeMUR summary failed:", responseText);
-      return "Summary generation failed. Please retry processing.";
-    }
+  if (uploadError) {
+    throw new Error(`Failed to upload stitched MP3: ${uploadError.message}`);
+  }
 
-    const result = JSON.parse(responseText) as { response?: string; summary?: string };
-    const summary = result.response || result.summary;
-    
-    if (summary) {
-      console.log(`[ProcessRecording] LeMUR summary generated successfully: ${summary.substring(0, 100)}...`);
-      return summary;
-    }
+  console.log(`[ProcessRecording] Stitched MP3 uploaded to: ${mp3Path} (${stitched.size} bytes, ${totalMs}ms)`);
 
-    console.warn("[ProcessRecording] LeMUR returned empty summary, response:", JSON.stringify(result));
-    return "Summary not available.";
-  } catch (error) {
-    console.error("[ProcessRecording] LeMUR error:", error);
-    return "Summary generation encountered an error.";
-  }
+  return { mp3Path, durationSeconds: Math.round(totalMs / 1000) };
 }
 
-// Step 3.5: Enhance speaker identification using LeMUR
-// Analyzes transcript to identify speakers by name from context clues
-interface SpeakerMapping {
-  [key: string]: string; // e.g., {"Speaker A": "John Smith (Attorney)", "Speaker B": "Client"}
+// Helper: Terms for a contact - full name, surname on its own (for
+// "Mr. Smith") and company. Matches getContactTerms in the app.
+function getContactTerms(contact: { first_name: string; last_name: string | null; company: string | null }): string[] {
+  const fullName = [contact.first_name, contact.last_name].filter(Boolean).join(" ");
+  return [fullName, contact.last_name, contact.company].filter((term): term is string => !!term?.trim());
 }
 
-async function enhanceTranscriptSpeakers(
-  transcriptId: string,
-  assemblyAIKey: string,
-  meetingContext: {
-    contactName?: string | null;
-    contactCompany?: string | null;
-    expectedSpeakers: number;
-  }
-): Promise<SpeakerMapping> {
-  console.log("[ProcessRecording] Enhancing speaker identification with LeMUR...");
+// Helper: The meeting's vocabulary - contact terms first, then the user's
+// own list - without blanks, duplicates (ignoring case) or overlong terms
+async function getMeetingVocabulary(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  contact: { first_name: string; last_name: string | null; company: string | null } | null
+): Promise<string[]> {
+  const { data: termRows, error } = await supabase
+    .from("vocabulary_terms")
+    .select("term")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
 
-  const contextHints: string[] = [];
-  if (meetingContext.contactName) {
-    contextHints.push(`Known participant: ${meetingContext.contactName}${meetingContext.contactCompany ? ` (${meetingContext.contactCompany})` : ''}`);
+  if (error) {
+    console.error("[ProcessRecording] Error fetching vocabulary:", error);
   }
-  contextHints.push(`Expected number of speakers: ${meetingContext.expectedSpeakers}`);
-
-  const prompt = `Analyze this transcript and identify the speakers based on contextual clues.
-
-Look for:
-1. Self-introductions ("Hi, I'm John Smith...", "This is Jane from...")
-2. How speakers address each other by name ("Thanks, Michael", "John, can you...")
-3. Role indicators (attorney-client dynamics, expert testimony patterns)
-4. Professional identifiers mentioned ("As your attorney...", "Speaking as the defendant...")
-
-${contextHints.join('\n')}
-
-Return ONLY a valid JSON object mapping speaker labels to identified names/roles.
-Format: {"Speaker A": "Name or Role", "Speaker B": "Name or Role"}
 
-Rules:
-- If you can confidently identify a speaker's name, use it
-- If you can only identify their role, use a descriptive label like "Attorney", "Client", "Witness"
-- If you cannot identify anything about a speaker, keep the original label like "Speaker A"
-- Do not make up names - only use names that are explicitly mentioned in the transcript
+  const userTerms = (termRows || []).map((row: { term: string }) => row.term);
+  const contactTerms = contact ? getContactTerms(contact) : [];
 
-Return ONLY the JSON object, no other text or explanation.`;
+  const seen = new Set<string>();
+  const vocabulary: string[] = [];
+  for (const term of [...contactTerms, ...userTerms]) {
+    const trimmed = term.trim().replace(/\s+/g, " ");
+    const key = trimmed.toLowerCase();
+    if (!trimmed || trimmed.length > MAX_VOCABULARY_TERM_LENGTH || seen.has(key)) continue;
 
-  try {
-    const response = await fetch("https://api.assemblyai.com/lemur/v3/generate/task", {
-      method: "POST",
-      headers: {
-        Authorization: assemblyAIKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        transcript_ids: [transcriptId],
-        prompt: prompt,
-        final_model: "anthropic/claude-3-haiku", // Haiku is faster/cheaper for this task
-        max_output_size: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn("[ProcessRecording] Speaker enhancement failed:", errorText);
-      return {};
-    }
-
-    const result = await response.json() as { response?: string };
-    const responseText = result.response || "";
-    
-    // Extract JSON from response (handle potential text around it)
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.warn("[ProcessRecording] No valid JSON in speaker enhancement response");
-      return {};
-    }
-
-    const mapping = JSON.parse(jsonMatch[0]) as SpeakerMapping;
-    console.log("[ProcessRecording] Speaker mapping identified:", JSON.stringify(mapping));
-    return mapping;
-  } catch (error) {
-    console.warn("[ProcessRecording] Speaker enhancement error:", error);
-    return {};
+    seen.add(key);
+    vocabulary.push(trimmed);
+    if (vocabulary.length >= MAX_VOCABULARY_TERMS) break;
   }
-}
 
-// Step 4: Record usage for analytics
-// Note: Trial is now time-based (7 days unlimited), not minute-based
-interface UsageResult {
-  success: boolean;
-  minutes_recorded: number;
-  has_subscription: boolean;
-  polar_event_id?: string;
-  error?: string;
+  return vocabulary;
 }
 
-async function recordUsageAndMeter(
+// Helper: The user's data region. Throws if it can't be read rather than
+// falling back to US, so EU audio is never sent to the US endpoint.
+async function getUserDataRegion(
   supabase: ReturnType<typeof createClient>,
-  userId: string,
-  meetingId: string,
-  durationSeconds: number,
-  polarAccessToken?: string
-): Promise<UsageResult> {
-  console.log("[ProcessRecording] Recording usage for meeting...");
-  
-  // Round up to nearest minute for billing
-  const durationMinutes = Math.ceil(durationSeconds / 60);
-  console.log(`[ProcessRecording] Duration: ${durationSeconds}s = ${durationMinutes} minutes (rounded up)`);
-
-  // Check if user has active subscription
-  const { data: subscription } = await supabase
-    .from("subscriptions")
-    .select("status, polar_customer_id")
-    .eq("user_id", userId)
-    .eq("status", "active")
+  userId: string
+): Promise<DataRegion> {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("data_region")
+    .eq("id", userId)
     .single();
 
-  const hasActiveSubscription = !!subscription;
-  const polarCustomerId = subscription?.polar_customer_id;
+  if (error) {
+    throw new Error(`Failed to fetch data region: ${error.message}`);
+  }
 
-  // Record usage in our database using the stored procedure (for analytics)
-  let polarEventId: string | undefined;
-  
-  try {
-    const { data: usageResult, error: usageError } = await supabase.rpc("record_usage", {
-      p_user_id: userId,
-      p_meeting_id: meetingId,
-      p_minutes: durationMinutes,
-      p_is_free_trial: false, // Kept for backward compatibility
-      p_polar_event_id: polarEventId || null,
-    });
+  return profile?.data_region === "eu" ? "eu" : "us";
+}
 
-    if (usageError) {
-      console.error("[ProcessRecording] Error recording usage:", usageError);
-    } else {
-      console.log("[ProcessRecording] Usage recorded in database:", usageResult);
-    }
-  } catch (rpcError) {
-    console.error("[ProcessRecording] RPC error:", rpcError);
+// Helper: Billable time for a meeting whose duration changed (parts were
+// stitched in). Only billing still at the duration-based default is updated -
+// hours the user entered are left alone. The amount keeps the same hourly rate.
+function getUpdatedBilling(
+  meeting: {
+    duration_seconds: number;
+    is_billable: boolean;
+    billable_hours: number | null;
+    billable_amount: number | null;
+  },
+  durationSeconds: number
+): Record<string, unknown> {
+  const previousHours = secondsToHoursRoundUp(meeting.duration_seconds);
+  if (!meeting.is_billable || meeting.billable_hours === null || meeting.billable_hours !== previousHours) {
+    return {};
   }
 
-  return {
-    success: true,
-    minutes_recorded: durationMinutes,
-    has_subscription: hasActiveSubscription,
-    polar_event_id: polarEventId,
-  };
+  const billableHours = secondsToHoursRoundUp(durationSeconds);
+  const updates: Record<string, unknown> = { billable_hours: billableHours };
+  if (meeting.billable_amount !== null && previousHours > 0) {
+    const rate = meeting.billable_amount / previousHours;
+    updates.billable_amount = Math.round(billableHours * rate * 100) / 100;
+  }
+
+  console.log(`[ProcessRecording] Billable hours updated: ${previousHours} -> ${billableHours}`);
+  return updates;
+}
+
+// Helper: Seconds to billable hours, rounded up to the minute.
+// Matches secondsToHoursRoundUp in the app.
+function secondsToHoursRoundUp(seconds: number): number {
+  if (seconds <= 0) return 0;
+  const minutes = Math.ceil(seconds / 60);
+  return Math.round((minutes / 60) * 100) / 100;
 }
 
 // Main handler
@@ -625,6 +534,8 @@ Deno.serve(async (req: Request) => {
 
   const startTime = Date.now();
   let meetingId: string | null = null;
+  let job: ClaimedJob | null = null;
+  const workerId = crypto.randomUUID();
 
   try {
     const body = await req.json() as ProcessRequest;
@@ -643,16 +554,8 @@ Deno.serve(async (req: Request) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const cloudConvertApiKey = Deno.env.get("CLOUDCONVERT_API_KEY");
-    const assemblyAIKey = Deno.env.get("ASSEMBLYAI_API_KEY");
     const polarAccessToken = Deno.env.get("POLAR_ACCESS_TOKEN");
 
-    if (!cloudConvertApiKey) {
-      throw new Error("CLOUDCONVERT_API_KEY not configured");
-    }
-    if (!assemblyAIKey) {
-      throw new Error("ASSEMBLYAI_API_KEY not configured");
-    }
-    
     // Note: POLAR_ACCESS_TOKEN is optional - usage won't be metered if not set
     if (!polarAccessToken) {
       console.warn("[ProcessRecording] POLAR_ACCESS_TOKEN not configured - usage metering disabled");
@@ -661,30 +564,52 @@ Deno.serve(async (req: Request) => {
     // Initialize Supabase client
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Claim the job so concurrent invocations (app, trigger, dispatcher)
+    // don't process the same meeting twice
+    job = await claimJob(supabase, meetingId, workerId);
+    if (!job) {
+      console.log(`[ProcessRecording] No claimable job for meeting ${meetingId} - skipping`);
+      return new Response(
+        JSON.stringify({ skipped: true, meeting_id: meetingId }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.log(`[ProcessRecording] Claimed job ${job.id}, attempt ${job.attempts} of ${job.max_attempts}`);
+
     // Fetch meeting details with related data for context-aware processing
     const { data: meeting, error: meetingError } = await supabase
       .from("meetings")
       .select(`
         *,
         contact:contacts(id, first_name, last_name, company),
-        meeting_type:meeting_types(id, name)
+        meeting_type:meeting_types(id, name, summary_template)
       `)
       .eq("id", meetingId)
       .single();
 
     if (meetingError || !meeting) {
-      throw new Error(`Meeting not found: ${meetingError?.message}`);
+      throw new PermanentError(`Meeting not found: ${meetingError?.message}`);
     }
 
     if (!meeting.raw_audio_path) {
-      throw new Error("Meeting has no audio file");
+      throw new PermanentError("Meeting has no audio file");
+    }
+
+    // Recordings continued into this meeting, stitched after the first one
+    const { data: partRows, error: partsError } = await supabase
+      .from("meeting_recording_parts")
+      .select("id, audio_path, audio_format, recorded_at")
+      .eq("meeting_id", meetingId)
+      .order("recorded_at", { ascending: true });
+
+    if (partsError) {
+      throw new Error(`Failed to fetch recording parts: ${partsError.message}`);
     }
 
+    const parts = (partRows || []) as RecordingPart[];
+
     // Build meeting context for AI processing
-    const contactName = meeting.contact 
-      ? `${meeting.contact.first_name}${meeting.contact.last_name ? ' ' + meeting.contact.last_name : ''}`.trim()
-      : null;
-    const contactCompany = meeting.contact?.company || null;
+    const contactName = getContactName(meeting.contact);
     const meetingTypeName = meeting.meeting_type?.name || null;
 
     console.log(`[ProcessRecording] Found meeting, audio: ${meeting.raw_audio_path}`);
@@ -693,56 +618,97 @@ Deno.serve(async (req: Request) => {
     // Get expected speakers and language from meeting (with defaults)
     const expectedSpeakers = meeting.expected_speakers || 2;
     const language = meeting.transcription_language || "en";
+    const isPhoneCall = meeting.recording_mode === "phone_call";
+
+    const originalFormat = meeting.raw_audio_format || "webm";
+    let mp3Path: string;
+    let durationSeconds: number = meeting.duration_seconds;
+
+    // Progress for the processing screen, starting over for this attempt
+    const progress = (stage: ProgressStage, message: string | null = null) =>
+      publishProgress(supabase, { meetingId: meeting.id, userId: meeting.user_id, stage, durationSeconds, message });
+    await clearProgress(supabase, meetingId);
 
     // Update job status to processing
     await updateJobStatus(supabase, meetingId, "processing", "converting");
-
-    // ============================================
-    // STEP 1: Download raw audio
-    // ============================================
-    console.log("[ProcessRecording] Downloading raw audio...");
     await updateMeetingStatus(supabase, meetingId, "converting");
+    await progress(
+      "converting",
+      parts.length > 0 ? `Joining ${parts.length + 1} recordings` : null
+    );
 
-    const { data: audioBlob, error: downloadError } = await supabase.storage
-      .from("meeting-audio")
-      .download(meeting.raw_audio_path);
+    if (parts.length > 0) {
+      // ============================================
+      // STEPS 1-2: Continued meeting - stitch all parts into one MP3
+      // ============================================
+      const stitched = await stitchRecordingParts(supabase, meeting, parts, cloudConvertApiKey);
+      mp3Path = stitched.mp3Path;
+      durationSeconds = stitched.durationSeconds;
+    } else if (PLAYABLE_AUDIO_FORMATS.includes(originalFormat)) {
+      // ============================================
+      // STEPS 1-2: Already playable - use the upload as the playback file
+      // ============================================
+      console.log(`[ProcessRecording] Audio is already ${originalFormat}, skipping conversion`);
+      mp3Path = meeting.raw_audio_path;
+    } else {
+      if (!cloudConvertApiKey) {
+        throw new Error("CLOUDCONVERT_API_KEY not configured");
+      }
 
-    if (downloadError || !audioBlob) {
-      throw new Error(`Failed to download audio: ${downloadError?.message}`);
-    }
+      // ============================================
+      // STEP 1: Download raw audio
+      // ============================================
+      console.log("[ProcessRecording] Downloading raw audio...");
 
-    console.log(`[ProcessRecording] Downloaded audio, size: ${audioBlob.size} bytes`);
+      const { data: audioBlob, error: downloadError } = await supabase.storage
+        .from("meeting-audio")
+        .download(meeting.raw_audio_path);
 
-    // ============================================
-    // STEP 2: Convert to MP3 using CloudConvert
-    // ============================================
-    const originalFormat = meeting.raw_audio_format || "webm";
-    const mp3Blob = await convertToMp3(audioBlob, originalFormat, cloudConvertApiKey);
-    console.log(`[ProcessRecording] Converted to MP3, size: ${mp3Blob.size} bytes`);
+      if (downloadError || !audioBlob) {
+        throw new Error(`Failed to download audio: ${downloadError?.message}`);
+      }
 
-    // Upload MP3 to Supabase Storage
-    const mp3Path = meeting.raw_audio_path.replace(/\.[^/.]+$/, ".mp3");
-    const { error: uploadError } = await supabase.storage
-      .from("meeting-audio")
-      .upload(mp3Path, mp3Blob, {
-        contentType: "audio/mpeg",
-        upsert: true,
-      });
+      console.log(`[ProcessRecording] Downloaded audio, size: ${audioBlob.size} bytes`);
+
+      // ============================================
+      // STEP 2: Convert to MP3 using CloudConvert
+      // ============================================
+      const mp3Blob = await convertToMp3(audioBlob, originalFormat, cloudConvertApiKey);
+      console.log(`[ProcessRecording] Converted to MP3, size: ${mp3Blob.size} bytes`);
+
+      // Upload MP3 to Supabase Storage
+      mp3Path = meeting.raw_audio_path.replace(/\.[^/.]+$/, ".mp3");
+      const { error: uploadError } = await supabase.storage
+        .from("meeting-audio")
+        .upload(mp3Path, mp3Blob, {
+          contentType: "audio/mpeg",
+          upsert: true,
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload MP3: ${uploadError.message}`);
+      }
 
-    if (uploadError) {
-      throw new Error(`Failed to upload MP3: ${uploadError.message}`);
+      console.log(`[ProcessRecording] MP3 uploaded to: ${mp3Path}`);
     }
 
-    console.log(`[ProcessRecording] MP3 uploaded to: ${mp3Path}`);
+    // Update meeting with the playback path, and the total duration and
+    // billable time if parts were stitched in
+    const playbackUpdates: Record<string, unknown> = { mp3_audio_path: mp3Path };
+    if (durationSeconds !== meeting.duration_seconds) {
+      playbackUpdates.duration_seconds = durationSeconds;
+      Object.assign(playbackUpdates, getUpdatedBilling(meeting, durationSeconds));
+    }
 
-    // Update meeting with MP3 path
     await supabase
       .from("meetings")
-      .update({ mp3_audio_path: mp3Path })
+      .update(playbackUpdates)
       .eq("id", meetingId);
 
+    await progress("converted");
+
     // ============================================
-    // STEP 3: Transcribe with AssemblyAI (includes summarization)
+    // STEP 3: Transcribe with the configured provider
     // ============================================
     await updateJobStatus(supabase, meetingId, "processing", "transcribing");
     await updateMeetingStatus(supabase, meetingId, "transcribing");
@@ -756,138 +722,76 @@ Deno.serve(async (req: Request) => {
       throw new Error(`Failed to get signed URL: ${signedUrlError?.message}`);
     }
 
-    // Transcribe with SLAM-1 model and built-in summarization
-    const transcriptionResult = await transcribeAudio(
-      signedUrlData.signedUrl,
-      assemblyAIKey,
-      expectedSpeakers,
-      language
-    );
+    // Custom vocabulary from settings plus the contact's name and company,
+    // unless the meeting is being reprocessed with an edited list
+    const vocabulary: string[] = meeting.vocabulary_override
+      ?? await getMeetingVocabulary(supabase, meeting.user_id, meeting.contact || null);
 
-    const { transcript, speechModel, detectedSpeakers, speakerMismatch } = transcriptionResult;
+    // EU users are transcribed (and summarized) on AssemblyAI's EU endpoint
+    const dataRegion = await getUserDataRegion(supabase, meeting.user_id);
+    console.log(`[ProcessRecording] Data region: ${dataRegion}`);
 
-    // ============================================
-    // STEP 4: Enhance speaker identification using AI
-    // ============================================
-    const speakerNames = await enhanceTranscriptSpeakers(
-      transcript.id,
-      assemblyAIKey,
-      {
-        contactName,
-        contactCompany,
-        expectedSpeakers,
-      }
-    );
+    // Vendor comes from app_config - AssemblyAI unless configured otherwise
+    const provider = await getTranscriptionProvider(supabase, dataRegion);
 
-    // ============================================
-    // STEP 5: Generate summary using LeMUR with context
-    // ============================================
-    const summary = await generateSummaryWithLemur(
-      transcript.id,
-      assemblyAIKey,
-      {
-        title: meeting.title,
-        contactName,
-        contactCompany,
-        meetingType: meetingTypeName,
-        expectedSpeakers,
-        speakerNames,
-      }
-    );
+    await progress("transcribing");
 
-    // ============================================
-    // STEP 6: Update meeting with speaker validation results and AI speaker names
-    // ============================================
-    console.log("[ProcessRecording] Updating meeting with transcription metadata...");
-    await supabase
-      .from("meetings")
-      .update({
-        detected_speakers: detectedSpeakers,
-        speaker_mismatch: speakerMismatch,
-        transcription_language: language,
-        speech_model_used: speechModel,
-        speaker_names: Object.keys(speakerNames).length > 0 ? speakerNames : null,
-      })
-      .eq("id", meetingId);
-
-    // ============================================
-    // STEP 7: Save transcript and segments
-    // ============================================
-    console.log("[ProcessRecording] Saving transcript...");
-
-    // Delete existing transcript/segments for this meeting (in case of retry)
-    await supabase.from("transcript_segments").delete().eq("meeting_id", meetingId);
-    await supabase.from("transcripts").delete().eq("meeting_id", meetingId);
+    const transcribeRequest: TranscribeRequest = {
+      audioUrl: signedUrlData.signedUrl,
+      expectedSpeakers,
+      language,
+      vocabulary,
+      multichannel: isPhoneCall,
+    };
 
-    // Save main transcript with summary from LeMUR
-    const { error: transcriptError } = await supabase
-      .from("transcripts")
-      .insert({
-        meeting_id: meetingId,
-        full_text: transcript.text || "",
-        summary: summary,
-        assemblyai_transcript_id: transcript.id,
+    // Providers with webhooks hand off here - assemblyai-webhook finishes the
+    // pipeline when the transcript is done, so long recordings don't run
+    // into the function's wall-clock limit while polling
+    const webhook = provider.submit ? getTranscriptWebhook(supabaseUrl) : null;
+    if (provider.submit && webhook) {
+      const transcriptId = await provider.submit(transcribeRequest, webhook);
+      await saveSubmittedTranscript(supabase, job.id, workerId, transcriptId, {
+        expected_speakers: expectedSpeakers,
+        language,
+        vocabulary,
+        multichannel: isPhoneCall,
+        data_region: dataRegion,
+        duration_seconds: durationSeconds,
       });
+      await progress("transcription_submitted");
 
-    if (transcriptError) {
-      console.error("[ProcessRecording] Error saving transcript:", transcriptError);
-    }
+      const submitTime = ((Date.now() - startTime) / 1000).toFixed(2);
+      console.log(`[ProcessRecording] Transcript submitted in ${submitTime}s, waiting on webhook for meeting: ${meetingId}`);
 
-    // Save transcript segments (utterances with speaker info)
-    // Use AI-identified speaker names if available, otherwise default to "Speaker X"
-    if (transcript.utterances && transcript.utterances.length > 0) {
-      const segments = transcript.utterances.map((utterance) => {
-        // Format speaker label: "A" -> "Speaker A", "B" -> "Speaker B", etc.
-        const defaultLabel = utterance.speaker.toLowerCase().startsWith('speaker') 
-          ? utterance.speaker 
-          : `Speaker ${utterance.speaker}`;
-        
-        // Use AI-identified name if available
-        const speakerLabel = speakerNames[defaultLabel] || defaultLabel;
-        
-        return {
+      return new Response(
+        JSON.stringify({
+          awaiting_webhook: true,
           meeting_id: meetingId,
-          speaker: speakerLabel,
-          text: utterance.text,
-          start_ms: utterance.start,
-          end_ms: utterance.end,
-          confidence: utterance.confidence,
-        };
-      });
-
-      const { error: segmentsError } = await supabase
-        .from("transcript_segments")
-        .insert(segments);
-
-      if (segmentsError) {
-        console.error("[ProcessRecording] Error saving segments:", segmentsError);
-      } else {
-        console.log(`[ProcessRecording] Saved ${segments.length} transcript segments`);
-      }
+          transcript_id: transcriptId,
+        }),
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    const transcriptionResult = await provider.transcribe(transcribeRequest);
+    const { transcript, speechModel, detectedLanguage, detectedSpeakers, speakerMismatch } = transcriptionResult;
+
     // ============================================
-    // STEP 8: Record usage and send to Polar
+    // STEPS 4-8: Speakers, summary, transcript and usage
     // ============================================
-    let usageResult: UsageResult | null = null;
-    if (meeting.duration_seconds > 0) {
-      usageResult = await recordUsageAndMeter(
-        supabase,
-        meeting.user_id,
-        meetingId,
-        meeting.duration_seconds,
-        polarAccessToken
-      );
-      console.log("[ProcessRecording] Usage result:", usageResult);
-    } else {
-      console.log("[ProcessRecording] Skipping usage recording (duration is 0)");
-    }
+    const { summary, speakerNames, usage: usageResult } = await finishPipeline(supabase, {
+      meeting,
+      provider,
+      result: transcriptionResult,
+      vocabulary,
+      durationSeconds,
+      polarAccessToken,
+    });
 
     // ============================================
     // STEP 9: Update status to ready
     // ============================================
-    await updateJobStatus(supabase, meetingId, "completed", null);
-    await updateMeetingStatus(supabase, meetingId, "ready");
+    await completeJob(supabase, meetingId, job.id, workerId);
 
     const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
     console.log(`[ProcessRecording] Pipeline complete in ${processingTime}s for meeting: ${meetingId}`);
@@ -899,9 +803,9 @@ Deno.serve(async (req: Request) => {
         transcript_id: transcript.id,
         processing_time_seconds: parseFloat(processingTime),
         stats: {
-          segments: transcript.utterances?.length || 0,
-          text_length: transcript.text?.length || 0,
-          has_summary: summary !== "Summary not available." && summary !== "Summary generation failed. Please retry processing." && summary !== "Summary generation encountered an error.",
+          segments: transcript.utterances.length,
+          text_length: transcript.text.length,
+          has_summary: summary.status === "completed",
         },
         speaker_validation: {
           expected: expectedSpeakers,
@@ -910,8 +814,11 @@ Deno.serve(async (req: Request) => {
           identified_names: Object.keys(speakerNames).length > 0 ? speakerNames : null,
         },
         model: {
+          provider: provider.name,
           speech_model: speechModel,
           language: language,
+          detected_language: detectedLanguage,
+          data_region: provider.dataRegion,
         },
         usage: usageResult ? {
           minutes_recorded: usageResult.minutes_recorded,
@@ -925,17 +832,19 @@ Deno.serve(async (req: Request) => {
   } catch (error) {
     console.error("[ProcessRecording] Pipeline error:", error);
 
-    // Update status to failed
-    if (meetingId) {
+    const errorMessage = error instanceof Error ? error.message : "Processing failed";
+    let jobStatus: string | null = null;
+
+    // Record the failed attempt - the job is retried with backoff, or
+    // dead-lettered (and the meeting failed) once attempts run out. Without
+    // a claimed job the attempt never started, so nothing is settled.
+    if (meetingId && job) {
       try {
         const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
         const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-        const errorMessage = error instanceof Error ? error.message : "Processing failed";
-        
-        await updateMeetingStatus(supabase, meetingId, "failed", { error_message: errorMessage });
-        await updateJobStatus(supabase, meetingId, "failed", null, errorMessage);
+        jobStatus = await failJob(supabase, meetingId, job, workerId, error);
       } catch (updateError) {
         console.error("[ProcessRecording] Failed to update error status:", updateError);
       }
@@ -943,7 +852,8 @@ Deno.serve(async (req: Request) => {
 
     return new Response(
       JSON.stringify({
-        error: error instanceof Error ? error.message : "Processing failed",
+        error: errorMessage,
+        job_status: jobStatus,
       }),
       {
         status: 500,
@@ -0,0 +1,279 @@
+/**
+ * Supabase Edge Function: redact-transcript
+ *
+ * Makes a redacted copy of a finished meeting for sharing outside the firm.
+ * The recording is transcribed again with the chosen PII categories
+ * redacted (and optionally bleeped in the audio), then summarized from the
+ * redacted text. The original transcript, summary and audio are untouched.
+ * Redaction needs AssemblyAI - the configured provider must support it.
+ *
+ * With ASSEMBLYAI_WEBHOOK_SECRET set, assemblyai-webhook finishes the
+ * redaction when the transcript is done; otherwise it is polled for in the
+ * background. Either way the response comes straight back and the app
+ * watches transcript_redactions.status.
+ *
+ * Endpoint: POST /redact-transcript
+ * Auth: Required (Bearer token)
+ * Body: { meeting_id, policies: string[], include_audio? }
+ */
+
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import {
+  getTranscriptionProvider,
+  type DataRegion,
+  type TranscribeRequest,
+  type TranscriptionProvider,
+} from "../_shared/transcription/index.ts";
+import {
+  failRedaction,
+  finishRedaction,
+  getTranscriptWebhook,
+  isPiiPolicy,
+  type PendingRedaction,
+  type RedactionTranscription,
+} from "../_shared/pipeline/index.ts";
+
+const LOG_PREFIX = "[redact-transcript]";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface RedactRequest {
+  meeting_id: string;
+  policies: string[];
+  include_audio?: boolean;
+}
+
+// What the current transcript version was processed with
+interface VersionParameters {
+  language?: string | null;
+  expected_speakers?: number | null;
+  vocabulary?: string[] | null;
+  multichannel?: boolean | null;
+  data_region?: DataRegion | null;
+}
+
+// Helper to create JSON response
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Helper to create error response
+function errorResponse(message: string, status = 400) {
+  console.error(`${LOG_PREFIX} Error (${status}): ${message}`);
+  return jsonResponse({ success: false, error: message }, status);
+}
+
+// Transcribe with redaction and finish within the invocation, for when there
+// is no webhook to hand off to
+async function pollRedaction(
+  supabase: ReturnType<typeof createClient>,
+  provider: TranscriptionProvider,
+  redaction: PendingRedaction,
+  request: TranscribeRequest
+): Promise<void> {
+  try {
+    const result = await provider.transcribe(request);
+
+    await supabase
+      .from("transcript_redactions")
+      .update({ assemblyai_transcript_id: result.transcript.id })
+      .eq("id", redaction.id);
+
+    await finishRedaction(supabase, { redaction, provider, result });
+  } catch (error) {
+    await failRedaction(supabase, redaction.id, error);
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return errorResponse("Server configuration error: Missing Supabase credentials", 500);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return errorResponse("Missing or invalid Authorization header", 401);
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      console.error(`${LOG_PREFIX} Auth error:`, userError);
+      return errorResponse("Authentication failed", 401);
+    }
+
+    let body: RedactRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    if (!body.meeting_id) {
+      return errorResponse("Missing required field: meeting_id", 400);
+    }
+
+    if (!Array.isArray(body.policies) || body.policies.length === 0) {
+      return errorResponse("Choose at least one kind of information to redact", 400);
+    }
+
+    const invalidPolicy = body.policies.find((policy) => !isPiiPolicy(policy));
+    if (invalidPolicy !== undefined) {
+      return errorResponse(`Unknown PII category: ${invalidPolicy}`, 400);
+    }
+
+    const policies = [...new Set(body.policies)];
+    const includeAudio = body.include_audio === true;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select("id, user_id, status, mp3_audio_path, expected_speakers, recording_mode, transcription_language, data_region")
+      .eq("id", body.meeting_id)
+      .single();
+
+    if (meetingError || !meeting) {
+      return errorResponse("Meeting not found", 404);
+    }
+
+    if (meeting.user_id !== user.id) {
+      return errorResponse("You don't have permission to change this meeting", 403);
+    }
+
+    if (meeting.status !== "ready" || !meeting.mp3_audio_path) {
+      return errorResponse("The meeting hasn't finished processing", 409);
+    }
+
+    // Transcribe the way the current version was, so the redacted copy
+    // matches what the user has been reading
+    const { data: transcriptRow } = await supabase
+      .from("transcripts")
+      .select("parameters")
+      .eq("meeting_id", meeting.id)
+      .eq("is_current", true)
+      .maybeSingle();
+
+    const parameters = (transcriptRow?.parameters || {}) as VersionParameters;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("data_region")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const dataRegion: DataRegion =
+      parameters.data_region || meeting.data_region || (profile?.data_region as DataRegion | undefined) || "us";
+
+    const provider = await getTranscriptionProvider(supabase, dataRegion);
+    if (!provider.getRedactedAudioUrl) {
+      return errorResponse("PII redaction isn't available with the configured transcription provider", 409);
+    }
+
+    const { data: signedUrlData, error: signedUrlError } = await supabase.storage
+      .from("meeting-audio")
+      .createSignedUrl(meeting.mp3_audio_path, 3600); // 1 hour expiry
+
+    if (signedUrlError || !signedUrlData?.signedUrl) {
+      throw new Error(`Failed to get signed URL: ${signedUrlError?.message}`);
+    }
+
+    const transcription: RedactionTranscription = {
+      expected_speakers: parameters.expected_speakers || meeting.expected_speakers || 2,
+      language: parameters.language || meeting.transcription_language || "en",
+      vocabulary: parameters.vocabulary || [],
+      multichannel: parameters.multichannel ?? meeting.recording_mode === "phone_call",
+      data_region: dataRegion,
+    };
+
+    const { data: redactionRow, error: insertError } = await supabase
+      .from("transcript_redactions")
+      .insert({
+        meeting_id: meeting.id,
+        user_id: user.id,
+        policies,
+        include_audio: includeAudio,
+        status: "processing",
+        transcription_request: transcription,
+      })
+      .select("id, meeting_id, user_id, policies, include_audio, transcription_request")
+      .single();
+
+    if (insertError || !redactionRow) {
+      throw new Error(`Failed to create redaction: ${insertError?.message}`);
+    }
+
+    const redaction = redactionRow as PendingRedaction;
+
+    const request: TranscribeRequest = {
+      audioUrl: signedUrlData.signedUrl,
+      expectedSpeakers: transcription.expected_speakers,
+      language: transcription.language,
+      vocabulary: transcription.vocabulary,
+      multichannel: transcription.multichannel,
+      redaction: { policies, audio: includeAudio },
+    };
+
+    console.log(`${LOG_PREFIX} Redacting meeting ${meeting.id}: ${policies.join(", ")}`);
+
+    const webhook = provider.submit ? getTranscriptWebhook(supabaseUrl) : null;
+    if (provider.submit && webhook) {
+      try {
+        const transcriptId = await provider.submit(request, webhook);
+        const { error: updateError } = await supabase
+          .from("transcript_redactions")
+          .update({ assemblyai_transcript_id: transcriptId })
+          .eq("id", redaction.id);
+
+        if (updateError) {
+          throw new Error(`Failed to save redaction transcript: ${updateError.message}`);
+        }
+      } catch (error) {
+        await failRedaction(supabase, redaction.id, error);
+        throw error;
+      }
+    } else {
+      EdgeRuntime.waitUntil(pollRedaction(supabase, provider, redaction, request));
+    }
+
+    return jsonResponse({ success: true, redaction_id: redaction.id }, 202);
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Unexpected error:`, error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Internal server error",
+      500
+    );
+  }
+});
@@ -0,0 +1,305 @@
+/**
+ * Supabase Edge Function: regenerate-summary
+ *
+ * Reruns only the summary step of processing for a finished meeting, with
+ * the summary template of a chosen meeting type. The current transcript
+ * version and its segments are summarized again - nothing is re-transcribed or re-metered.
+ * Open action items are replaced with the new summary's; done ones are kept.
+ * A failed attempt leaves the existing summary in place.
+ *
+ * Endpoint: POST /regenerate-summary
+ * Auth: Required (Bearer token)
+ * Body: { meeting_id, meeting_type_id? }
+ *   meeting_type_id - type whose template to use; null for the default
+ *   template, omitted for the meeting's own type
+ */
+
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { createAssemblyAIProvider } from "../_shared/transcription/assemblyai.ts";
+import {
+  getTranscriptionProvider,
+  type DataRegion,
+  type ProviderTranscript,
+  type SpeakerMapping,
+  type TranscriptionProvider,
+} from "../_shared/transcription/index.ts";
+import {
+  buildFlaggedMoments,
+  fetchBookmarks,
+  generateSummary,
+  getContactName,
+  normalizeSummaryTemplate,
+  saveActionItems,
+  type NamedUtterance,
+} from "../_shared/pipeline/index.ts";
+
+const LOG_PREFIX = "[regenerate-summary]";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface RegenerateRequest {
+  meeting_id: string;
+  meeting_type_id?: string | null;
+}
+
+interface TranscriptSegmentRow extends NamedUtterance {
+  id: string;
+  confidence: number | null;
+}
+
+// Helper to create JSON response
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Helper to create error response
+function errorResponse(message: string, status = 400) {
+  console.error(`${LOG_PREFIX} Error (${status}): ${message}`);
+  return jsonResponse({ success: false, error: message }, status);
+}
+
+// Helper: The provider the meeting was transcribed with. LeMUR works from
+// AssemblyAI's copy of the transcript, in the region it was processed in;
+// other providers summarize the saved text with the configured provider.
+async function getSummaryProvider(
+  supabase: ReturnType<typeof createClient>,
+  meeting: { transcription_provider: string | null; data_region: DataRegion | null },
+  assemblyaiTranscriptId: string | null,
+  fallbackRegion: DataRegion
+): Promise<TranscriptionProvider> {
+  if (meeting.transcription_provider === "assemblyai" && assemblyaiTranscriptId) {
+    const apiKey = Deno.env.get("ASSEMBLYAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("ASSEMBLYAI_API_KEY not configured");
+    }
+    return createAssemblyAIProvider(apiKey, meeting.data_region || fallbackRegion);
+  }
+  return await getTranscriptionProvider(supabase, meeting.data_region || fallbackRegion);
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse("Method not allowed", 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+      return errorResponse("Server configuration error: Missing Supabase credentials", 500);
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+      return errorResponse("Missing or invalid Authorization header", 401);
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (userError || !user) {
+      console.error(`${LOG_PREFIX} Auth error:`, userError);
+      return errorResponse("Authentication failed", 401);
+    }
+
+    let body: RegenerateRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("Invalid JSON in request body", 400);
+    }
+
+    if (!body.meeting_id) {
+      return errorResponse("Missing required field: meeting_id", 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select(`
+        id, user_id, title, status, expected_speakers, meeting_type_id, created_at,
+        speaker_names, transcription_provider, data_region,
+        contact:contacts(id, first_name, last_name, company),
+        meeting_type:meeting_types(name, summary_template)
+      `)
+      .eq("id", body.meeting_id)
+      .single();
+
+    if (meetingError || !meeting) {
+      return errorResponse("Meeting not found", 404);
+    }
+
+    if (meeting.user_id !== user.id) {
+      return errorResponse("You don't have permission to change this meeting", 403);
+    }
+
+    if (meeting.status !== "ready") {
+      return errorResponse("The meeting hasn't finished processing", 409);
+    }
+
+    // The type whose template to use - the meeting's own unless one was chosen
+    let meetingTypeId: string | null = meeting.meeting_type_id;
+    let meetingType: { name: string; summary_template: unknown } | null = meeting.meeting_type;
+
+    if (body.meeting_type_id !== undefined && body.meeting_type_id !== meeting.meeting_type_id) {
+      meetingTypeId = body.meeting_type_id;
+      meetingType = null;
+
+      if (meetingTypeId) {
+        const { data: chosenType, error: typeError } = await supabase
+          .from("meeting_types")
+          .select("name, summary_template")
+          .eq("id", meetingTypeId)
+          .eq("user_id", user.id)
+          .maybeSingle();
+
+        if (typeError || !chosenType) {
+          return errorResponse("Meeting type not found", 404);
+        }
+        meetingType = chosenType;
+      }
+    }
+
+    const { data: transcriptRow, error: transcriptError } = await supabase
+      .from("transcripts")
+      .select("id, full_text, assemblyai_transcript_id, parameters")
+      .eq("meeting_id", meeting.id)
+      .eq("is_current", true)
+      .maybeSingle();
+
+    if (transcriptError || !transcriptRow?.full_text) {
+      return errorResponse("The meeting has no transcript to summarize", 409);
+    }
+
+    const { data: segmentRows, error: segmentsError } = await supabase
+      .from("transcript_segments")
+      .select("id, speaker, text, start_ms, end_ms, confidence")
+      .eq("transcript_id", transcriptRow.id)
+      .order("start_ms", { ascending: true });
+
+    if (segmentsError) {
+      throw new Error(`Failed to load transcript segments: ${segmentsError.message}`);
+    }
+
+    const segments = (segmentRows || []) as TranscriptSegmentRow[];
+
+    // Segments already carry speaker names, so the labels are used as-is
+    const transcript: ProviderTranscript = {
+      id: transcriptRow.assemblyai_transcript_id,
+      text: transcriptRow.full_text,
+      utterances: segments.map((segment) => ({
+        speaker: segment.speaker,
+        text: segment.text,
+        start: segment.start_ms,
+        end: segment.end_ms,
+        confidence: segment.confidence ?? 0,
+      })),
+    };
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("data_region")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    // The current version may be from an earlier run than the meeting's
+    // latest, with another provider or region
+    const parameters = (transcriptRow.parameters || {}) as { provider?: string; data_region?: DataRegion };
+    const provider = await getSummaryProvider(
+      supabase,
+      {
+        transcription_provider: parameters.provider ?? meeting.transcription_provider,
+        data_region: parameters.data_region ?? meeting.data_region,
+      },
+      transcriptRow.assemblyai_transcript_id,
+      (profile?.data_region as DataRegion | undefined) || "us"
+    );
+
+    const bookmarks = await fetchBookmarks(supabase, meeting.id);
+
+    console.log(`${LOG_PREFIX} Regenerating summary for meeting ${meeting.id} with template of type: ${meetingType?.name || "default"}`);
+
+    const summary = await generateSummary(provider, transcript, {
+      title: meeting.title,
+      meetingDate: meeting.created_at.slice(0, 10),
+      contactName: getContactName(meeting.contact),
+      contactCompany: meeting.contact?.company || null,
+      meetingType: meetingType?.name || null,
+      expectedSpeakers: meeting.expected_speakers || 2,
+      speakerNames: (meeting.speaker_names || {}) as SpeakerMapping,
+      flaggedMoments: buildFlaggedMoments(bookmarks, segments),
+      template: normalizeSummaryTemplate(meetingType?.summary_template),
+    });
+
+    // Keep the summary the meeting already has rather than replace it with
+    // nothing. Sent as a 200 so the app can show the message.
+    if (summary.status !== "completed") {
+      return jsonResponse({
+        success: false,
+        error: "The summary couldn't be regenerated. The existing summary was kept.",
+        summary_status: summary.status,
+        summary_error_code: summary.errorCode,
+      });
+    }
+
+    const { error: updateError } = await supabase
+      .from("transcripts")
+      .update({
+        summary: summary.markdown,
+        summary_sections: summary.sections,
+        summary_status: summary.status,
+        summary_error_code: null,
+        summary_meeting_type_id: meetingTypeId,
+        summary_generated_at: new Date().toISOString(),
+      })
+      .eq("id", transcriptRow.id);
+
+    if (updateError) {
+      throw new Error(`Failed to save summary: ${updateError.message}`);
+    }
+
+    // Items already marked done stay as they are
+    await saveActionItems(supabase, {
+      meetingId: meeting.id,
+      userId: user.id,
+      items: summary.sections?.action_items ?? [],
+      segments,
+      contact: meeting.contact,
+      keepDone: true,
+    });
+
+    console.log(`${LOG_PREFIX} Summary regenerated for meeting ${meeting.id}`);
+    return jsonResponse({ success: true, summary_status: summary.status });
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Unexpected error:`, error);
+    return errorResponse(
+      error instanceof Error ? error.message : "Internal server error",
+      500
+    );
+  }
+});
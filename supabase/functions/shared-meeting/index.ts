@@ -11,6 +11,9 @@
  * - GET ?token=xxx - Returns meeting data as JSON
  * - GET ?token=xxx&mode=embed - Returns embeddable HTML (base64 encoded in JSON)
  * - POST ?token=xxx - Validate password, returns meeting data as JSON
+ *
+ * Redacted-only shares return the meeting's latest completed redaction in
+ * place of the transcript, summary and audio.
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
@@ -27,6 +30,7 @@ interface MeetingShare {
   view_count: number;
   last_viewed_at: string | null;
   expires_at: string | null;
+  redacted_only: boolean;
   created_at: string;
 }
 
@@ -42,13 +46,51 @@ interface Meeting {
   speaker_names: Record<string, string> | null;
 }
 
+interface SummarySections {
+  overview: string;
+  discussion_points: string[];
+  decisions: string[];
+  action_items: { text: string; owner: string | null }[];
+  notable_statements: string[];
+  follow_ups: string[];
+}
+
 interface Transcript {
   id: string;
   meeting_id: string;
   full_text: string | null;
   summary: string | null;
+  summary_sections: SummarySections | null;
+  summary_status: 'completed' | 'empty' | 'failed' | null;
 }
 
+// Summary sections as returned to viewers
+interface SharedSummarySections {
+  overview: string;
+  discussionPoints: string[];
+  decisions: string[];
+  actionItems: { text: string; owner: string | null }[];
+  notableStatements: string[];
+  followUps: string[];
+}
+
+// Redacted copy of the meeting (transcript_redactions)
+interface Redaction {
+  policies: string[];
+  full_text: string | null;
+  segments: { speaker: string; text: string; start_ms: number; end_ms: number }[] | null;
+  summary: string | null;
+  summary_sections: SummarySections | null;
+  summary_status: 'completed' | 'empty' | 'failed' | null;
+  audio_path: string | null;
+}
+
+// Names are redacted - the title, contact and who consented are left out too
+const NAME_POLICY = 'person_name';
+
+// Shown instead of the meeting's title, which is often named after the client
+const REDACTED_TITLE = 'Redacted meeting';
+
 interface TranscriptSegment {
   id: string;
   meeting_id: string;
@@ -71,6 +113,19 @@ interface Contact {
   last_name: string | null;
 }
 
+interface MeetingConsent {
+  method: 'verbal' | 'written' | 'pre_existing';
+  consented_by: string[];
+  jurisdiction: string | null;
+  consented_at: string;
+}
+
+const CONSENT_METHOD_LABELS: Record<MeetingConsent['method'], string> = {
+  verbal: 'Verbal',
+  written: 'Written',
+  pre_existing: 'Pre-existing',
+};
+
 // CORS headers for JSON responses
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -200,19 +255,43 @@ Deno.serve(async (req: Request) => {
 
     const meetingData = meeting as Meeting & { meeting_type_id: string | null; contact_id: string | null; speaker_names: Record<string, string> | null };
 
-    // Fetch transcript
-    const { data: transcript } = await supabase
-      .from('transcripts')
-      .select('id, meeting_id, full_text, summary')
-      .eq('meeting_id', meetingData.id)
-      .single();
+    // Redacted-only shares never fall back to the original
+    let redaction: Redaction | null = null;
+    if (shareData.redacted_only) {
+      const { data: redactionData } = await supabase
+        .from('transcript_redactions')
+        .select('policies, full_text, segments, summary, summary_sections, summary_status, audio_path')
+        .eq('meeting_id', meetingData.id)
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (!redactionData) {
+        return errorResponse('REDACTION_UNAVAILABLE', 'The redacted version of this meeting is not available.', 404);
+      }
+      redaction = redactionData as Redaction;
+    }
+    const namesRedacted = !!redaction?.policies.includes(NAME_POLICY);
 
-    // Fetch transcript segments
-    const { data: segments } = await supabase
-      .from('transcript_segments')
-      .select('id, meeting_id, speaker, text, start_ms, end_ms, confidence')
-      .eq('meeting_id', meetingData.id)
-      .order('start_ms', { ascending: true });
+    // Fetch transcript
+    const { data: transcript } = redaction
+      ? { data: null }
+      : await supabase
+          .from('transcripts')
+          .select('id, meeting_id, full_text, summary, summary_sections, summary_status')
+          .eq('meeting_id', meetingData.id)
+          .eq('is_current', true)
+          .maybeSingle();
+
+    // Fetch the current version's segments
+    const { data: segments } = transcript
+      ? await supabase
+          .from('transcript_segments')
+          .select('id, meeting_id, speaker, text, start_ms, end_ms, confidence')
+          .eq('transcript_id', transcript.id)
+          .order('start_ms', { ascending: true })
+      : { data: [] };
 
     // Fetch meeting type if exists
     let meetingType: MeetingType | null = null;
@@ -227,7 +306,7 @@ Deno.serve(async (req: Request) => {
 
     // Fetch contact if exists
     let contact: Contact | null = null;
-    if (meetingData.contact_id) {
+    if (meetingData.contact_id && !namesRedacted) {
       const { data: contactData } = await supabase
         .from('contacts')
         .select('id, first_name, last_name')
@@ -236,9 +315,19 @@ Deno.serve(async (req: Request) => {
       contact = contactData as Contact | null;
     }
 
-    // Generate signed URL for audio (1 hour expiration)
+    // Fetch consent to record - shown on every shared view
+    const { data: consents } = await supabase
+      .from('meeting_consents')
+      .select('method, consented_by, jurisdiction, consented_at')
+      .eq('meeting_id', meetingData.id)
+      .order('consented_at', { ascending: true });
+
+    // Generate signed URL for audio (1 hour expiration) - the bleeped copy
+    // for redacted shares, or none if it wasn't made
     let audioUrl: string | null = null;
-    const audioPath = meetingData.mp3_audio_path || meetingData.raw_audio_path;
+    const audioPath = redaction
+      ? redaction.audio_path
+      : meetingData.mp3_audio_path || meetingData.raw_audio_path;
     if (audioPath) {
       const { data: signedData } = await supabase.storage
         .from('meeting-audio')
@@ -254,18 +343,26 @@ Deno.serve(async (req: Request) => {
       success: true,
       meeting: {
         id: meetingData.id,
-        title: meetingData.title,
+        title: namesRedacted ? REDACTED_TITLE : meetingData.title,
         status: meetingData.status,
         durationSeconds: meetingData.duration_seconds,
         recordedAt: meetingData.recorded_at,
         createdAt: meetingData.created_at,
-        speakerNames: meetingData.speaker_names,
+        speakerNames: redaction ? null : meetingData.speaker_names,
       },
-      transcript: transcript ? {
+      redacted: !!redaction,
+      transcript: redaction ? {
+        fullText: redaction.full_text,
+        summary: redaction.summary,
+        summaryStatus: redaction.summary_status,
+        summarySections: toSharedSummarySections(redaction.summary_sections),
+      } : transcript ? {
         fullText: (transcript as Transcript).full_text,
         summary: (transcript as Transcript).summary,
+        summaryStatus: (transcript as Transcript).summary_status,
+        summarySections: toSharedSummarySections((transcript as Transcript).summary_sections),
       } : null,
-      segments: ((segments as TranscriptSegment[]) || []).map(seg => ({
+      segments: (redaction ? redaction.segments || [] : (segments as TranscriptSegment[]) || []).map(seg => ({
         speaker: seg.speaker,
         text: seg.text,
         startMs: seg.start_ms,
@@ -279,6 +376,13 @@ Deno.serve(async (req: Request) => {
         firstName: contact.first_name,
         lastName: contact.last_name,
       } : null,
+      consents: ((consents as MeetingConsent[]) || []).map(consent => ({
+        method: consent.method,
+        methodLabel: CONSENT_METHOD_LABELS[consent.method],
+        consentedBy: namesRedacted ? [] : consent.consented_by,
+        jurisdiction: consent.jurisdiction,
+        consentedAt: consent.consented_at,
+      })),
       audioUrl,
       viewCount: shareData.view_count + 1,
     };
@@ -301,15 +405,32 @@ Deno.serve(async (req: Request) => {
   }
 });
 
+/**
+ * Summary sections with camelCase keys, like the rest of the response
+ */
+function toSharedSummarySections(sections: SummarySections | null): SharedSummarySections | null {
+  if (!sections) return null;
+  return {
+    overview: sections.overview,
+    discussionPoints: sections.discussion_points,
+    decisions: sections.decisions,
+    actionItems: sections.action_items,
+    notableStatements: sections.notable_statements,
+    followUps: sections.follow_ups,
+  };
+}
+
 /**
  * Generate embeddable HTML for the meeting
  */
 function generateEmbedHtml(data: {
   meeting: { title: string; durationSeconds: number; recordedAt: string | null; createdAt: string };
-  transcript: { fullText: string | null; summary: string | null } | null;
+  redacted: boolean;
+  transcript: { fullText: string | null; summary: string | null; summarySections: SharedSummarySections | null } | null;
   segments: { speaker: string; text: string; startMs: number }[];
   meetingType: { name: string; color: string } | null;
   contact: { firstName: string; lastName: string | null } | null;
+  consents: { methodLabel: string; consentedBy: string[]; jurisdiction: string | null; consentedAt: string }[];
   audioUrl: string | null;
 }): string {
   const formatDuration = (seconds: number): string => {
@@ -359,6 +480,38 @@ function generateEmbedHtml(data: {
     return '#f59e0b';
   };
 
+  const consentHtml = data.consents.length > 0
+    ? data.consents.map(consent => `
+      <div style="font-size:13px;color:#d1d5db;">
+        ${escapeHtml([`${consent.methodLabel} consent`, consent.consentedBy.join(', '), consent.jurisdiction].filter(Boolean).join(' · '))}
+        <span style="color:#6b7280;"> · ${formatDate(consent.consentedAt)}</span>
+      </div>
+    `).join('')
+    : '<div style="font-size:13px;color:#f59e0b;">No consent to record was logged for this meeting</div>';
+
+  // Overview, then each section with something in it. Summaries from
+  // before sections were stored show as text.
+  const sections = data.transcript?.summarySections;
+  const summaryHtml = sections
+    ? `<p style="font-size:16px;color:#d1d5db;line-height:1.7;">${escapeHtml(sections.overview)}</p>` +
+      [
+        { title: 'Key Discussion Points', items: sections.discussionPoints },
+        { title: 'Decisions Made', items: sections.decisions },
+        { title: 'Action Items', items: sections.actionItems.map(item => item.owner ? `${item.text} (${item.owner})` : item.text) },
+        { title: 'Notable Statements', items: sections.notableStatements },
+        { title: 'Follow-up Required', items: sections.followUps },
+      ]
+        .filter(section => section.items.length > 0)
+        .map(section => `
+          <h3 style="font-size:15px;font-weight:600;color:#fff;margin:20px 0 8px;">${section.title}</h3>
+          <ul style="padding-left:20px;font-size:15px;color:#d1d5db;line-height:1.7;">
+            ${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}
+          </ul>
+        `).join('')
+    : data.transcript?.summary
+      ? `<p style="font-size:16px;color:#d1d5db;line-height:1.7;">${escapeHtml(data.transcript.summary)}</p>`
+      : '';
+
   const transcriptHtml = data.segments.length > 0
     ? data.segments.map(seg => `
       <div style="display:flex;background:#252b3d;border-radius:12px;overflow:hidden;margin-bottom:12px;">
@@ -391,6 +544,7 @@ function generateEmbedHtml(data: {
     <div style="display:flex;flex-wrap:wrap;gap:16px;align-items:center;margin-bottom:32px;">
       <span style="background:rgba(99,102,241,0.15);color:#818cf8;padding:6px 12px;border-radius:20px;font-weight:600;font-size:14px;">${formatDuration(data.meeting.durationSeconds)}</span>
       <span style="color:#9ca3af;font-size:14px;">${formatDate(data.meeting.recordedAt || data.meeting.createdAt)}</span>
+      ${data.redacted ? '<span style="background:rgba(245,158,11,0.15);color:#f59e0b;padding:6px 12px;border-radius:8px;font-size:13px;font-weight:600;">Redacted copy</span>' : ''}
       ${data.meetingType ? `<span style="background:${data.meetingType.color}20;color:${data.meetingType.color};padding:6px 12px;border-radius:8px;font-size:13px;font-weight:600;">${escapeHtml(data.meetingType.name)}</span>` : ''}
     </div>
     ${data.contact ? `
@@ -399,16 +553,20 @@ function generateEmbedHtml(data: {
         <span style="font-size:14px;color:#fff;font-weight:500;">${escapeHtml(data.contact.firstName)}${data.contact.lastName ? ' ' + escapeHtml(data.contact.lastName) : ''}</span>
       </div>
     ` : ''}
+    <div style="background:rgba(16,185,129,0.08);border-radius:12px;padding:16px;margin-bottom:24px;border:1px solid rgba(16,185,129,0.3);">
+      <div style="font-size:12px;font-weight:700;text-transform:uppercase;color:#10b981;margin-bottom:6px;">Recording Consent</div>
+      ${consentHtml}
+    </div>
     ${data.audioUrl ? `
       <div style="background:#1e2433;border-radius:16px;padding:20px;margin-bottom:24px;border:1px solid #2d3548;">
         <h2 style="font-size:18px;font-weight:600;color:#fff;margin-bottom:16px;">Audio Recording</h2>
         <audio controls style="width:100%;" src="${escapeHtml(data.audioUrl)}"></audio>
       </div>
     ` : ''}
-    ${data.transcript?.summary ? `
+    ${summaryHtml ? `
       <div style="background:#1e2433;border-radius:16px;padding:24px;margin-bottom:24px;border:1px solid #2d3548;">
         <h2 style="font-size:18px;font-weight:600;color:#fff;margin-bottom:16px;">Summary</h2>
-        <p style="font-size:16px;color:#d1d5db;line-height:1.7;">${escapeHtml(data.transcript.summary)}</p>
+        ${summaryHtml}
       </div>
     ` : ''}
     <div style="background:#1e2433;border-radius:16px;padding:24px;border:1px solid #2d3548;">
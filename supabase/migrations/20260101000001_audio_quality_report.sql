@@ -0,0 +1,15 @@
+-- ============================================
+-- AUDIO QUALITY REPORT MIGRATION
+-- Stores input quality measured on-device during live recordings
+-- ============================================
+
+-- ============================================
+-- ADD audio_quality_report COLUMN
+-- Example value: {"analyzed_ms": 600000, "average_rms_dbfs": -28.4, "peak_dbfs": -0.1,
+--   "silence_ms": 42000, "clipping_ms": 3200,
+--   "issues": [{"type": "silence", "start_ms": 120000, "end_ms": 162000}]}
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS audio_quality_report JSONB;
+
+COMMENT ON COLUMN meetings.audio_quality_report IS 'Input levels measured while recording live: average/peak dBFS, total silence and clipping, and flagged silent or clipped stretches (issues). NULL for imported files.';
@@ -0,0 +1,65 @@
+-- ============================================
+-- MEETING BOOKMARKS MIGRATION
+-- Moments flagged by the user while recording (admissions, dates, numbers)
+-- ============================================
+
+-- ============================================
+-- MEETING BOOKMARKS TABLE
+-- offset_ms is measured from the start of the recording. segment_id is set by
+-- process-recording once the final transcript segments exist, and cleared
+-- automatically when segments are replaced on reprocessing.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meeting_bookmarks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  offset_ms INTEGER NOT NULL CHECK (offset_ms >= 0),
+  label TEXT,
+  segment_id UUID REFERENCES transcript_segments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE meeting_bookmarks IS 'Moments flagged during recording, aligned to transcript segments after processing';
+COMMENT ON COLUMN meeting_bookmarks.offset_ms IS 'Recording time when the bookmark was tapped, in milliseconds';
+COMMENT ON COLUMN meeting_bookmarks.segment_id IS 'Transcript segment the bookmark falls in, set by process-recording';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_meeting_bookmarks_meeting_id ON meeting_bookmarks(meeting_id, offset_ms);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE meeting_bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Users can view bookmarks on their own meetings
+CREATE POLICY "Users can view own meeting bookmarks" ON meeting_bookmarks
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can bookmark their own meetings
+CREATE POLICY "Users can create own meeting bookmarks" ON meeting_bookmarks
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM meetings
+      WHERE meetings.id = meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+-- Users can relabel their own bookmarks
+CREATE POLICY "Users can update own meeting bookmarks" ON meeting_bookmarks
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own bookmarks
+CREATE POLICY "Users can delete own meeting bookmarks" ON meeting_bookmarks
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to meeting bookmarks" ON meeting_bookmarks
+  FOR ALL USING (auth.role() = 'service_role');
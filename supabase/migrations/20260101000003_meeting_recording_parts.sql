@@ -0,0 +1,65 @@
+-- ============================================
+-- MEETING RECORDING PARTS MIGRATION
+-- Additional recordings continued into an existing meeting (after a break,
+-- a dropped call, etc.)
+-- ============================================
+
+-- ============================================
+-- MEETING RECORDING PARTS TABLE
+-- The meeting's first recording stays in meetings.raw_audio_path. Each part
+-- recorded afterwards gets a row here once its audio is in storage.
+-- process-recording stitches all parts (ordered by recorded_at) into one
+-- playback file and transcript, and sets start_ms to where the part begins.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meeting_recording_parts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  audio_path TEXT NOT NULL,
+  audio_format TEXT NOT NULL,
+  duration_seconds INTEGER NOT NULL DEFAULT 0 CHECK (duration_seconds >= 0),
+  start_ms INTEGER CHECK (start_ms >= 0),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE meeting_recording_parts IS 'Recordings continued into an existing meeting, stitched after the first recording by process-recording';
+COMMENT ON COLUMN meeting_recording_parts.duration_seconds IS 'Part duration as measured on the device';
+COMMENT ON COLUMN meeting_recording_parts.start_ms IS 'Offset of the part within the stitched audio, set by process-recording';
+COMMENT ON COLUMN meeting_recording_parts.recorded_at IS 'When recording of the part started - parts are stitched in this order';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_meeting_recording_parts_meeting_id ON meeting_recording_parts(meeting_id, recorded_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE meeting_recording_parts ENABLE ROW LEVEL SECURITY;
+
+-- Users can view parts of their own meetings
+CREATE POLICY "Users can view own recording parts" ON meeting_recording_parts
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can add parts to their own meetings
+CREATE POLICY "Users can create own recording parts" ON meeting_recording_parts
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM meetings
+      WHERE meetings.id = meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+-- Users can delete their own parts
+CREATE POLICY "Users can delete own recording parts" ON meeting_recording_parts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to recording parts" ON meeting_recording_parts
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,54 @@
+-- ============================================
+-- CUSTOM VOCABULARY MIGRATION
+-- Terms AssemblyAI should favour when transcribing: party names, case
+-- captions, Latin terms, local street names
+-- ============================================
+
+-- ============================================
+-- VOCABULARY TERMS TABLE
+-- The user's own terms, managed in settings. Terms from the meeting's
+-- contact (name and company) are added at transcription time and not stored.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vocabulary_terms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  term TEXT NOT NULL CHECK (char_length(btrim(term)) BETWEEN 1 AND 50),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE vocabulary_terms IS 'Custom vocabulary sent to AssemblyAI as key terms / word boost for all of the user''s meetings';
+COMMENT ON COLUMN vocabulary_terms.term IS 'Word or phrase as it should be spelled in the transcript (max 50 characters)';
+
+-- One copy of each term per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vocabulary_terms_user_term ON vocabulary_terms(user_id, lower(term));
+
+-- ============================================
+-- ADD applied_vocabulary COLUMN
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS applied_vocabulary TEXT[];
+
+COMMENT ON COLUMN meetings.applied_vocabulary IS 'Vocabulary (user terms plus contact terms) sent with the batch transcription, set by process-recording. NULL if none was applied.';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE vocabulary_terms ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own terms
+CREATE POLICY "Users can view own vocabulary terms" ON vocabulary_terms
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can add their own terms
+CREATE POLICY "Users can create own vocabulary terms" ON vocabulary_terms
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can delete their own terms
+CREATE POLICY "Users can delete own vocabulary terms" ON vocabulary_terms
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to vocabulary terms" ON vocabulary_terms
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,28 @@
+-- ============================================
+-- TRANSCRIPTION LANGUAGE MIGRATION
+-- Language chosen before recording (or auto-detected), with a per-contact
+-- default
+-- ============================================
+
+-- ============================================
+-- MEETINGS: 'auto' LANGUAGE AND DETECTION RESULTS
+-- transcription_language now also accepts 'auto', which turns on language
+-- detection in streaming and batch transcription
+-- ============================================
+
+COMMENT ON COLUMN meetings.transcription_language IS
+  'Language code chosen for transcription (default: en), or auto to detect it. Used to determine speech model.';
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS detected_language TEXT;
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS language_confidence REAL CHECK (language_confidence BETWEEN 0 AND 1);
+
+COMMENT ON COLUMN meetings.detected_language IS 'Language code detected when transcription_language is auto - from live streaming, then replaced by process-recording';
+COMMENT ON COLUMN meetings.language_confidence IS 'Confidence of detected_language (0-1)';
+
+-- ============================================
+-- CONTACTS: DEFAULT LANGUAGE
+-- ============================================
+
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS default_language TEXT;
+
+COMMENT ON COLUMN contacts.default_language IS 'Language preselected when recording with this contact (language code or auto). NULL uses the app default.';
@@ -0,0 +1,18 @@
+-- ============================================
+-- PHONE CALL RECORDING MIGRATION
+-- Two-channel recordings of phone calls, with the user's mic and the call
+-- audio on separate channels
+-- ============================================
+
+-- ============================================
+-- MEETINGS: RECORDING MODE
+-- 'phone_call' recordings are stereo: channel 1 is the user, channel 2 the
+-- other party. process-recording transcribes each channel separately
+-- (multichannel) instead of using speaker diarization, and names the
+-- speakers "Me" and the meeting's contact.
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS recording_mode TEXT NOT NULL DEFAULT 'standard'
+  CHECK (recording_mode IN ('standard', 'phone_call'));
+
+COMMENT ON COLUMN meetings.recording_mode IS 'standard (mono, diarized) or phone_call (stereo, one speaker per channel)';
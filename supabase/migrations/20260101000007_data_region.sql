@@ -0,0 +1,25 @@
+-- ============================================
+-- DATA REGION MIGRATION
+-- Per-user choice of where AssemblyAI processes audio (EU data residency)
+-- ============================================
+
+-- ============================================
+-- PROFILES: DATA REGION
+-- Routes streaming tokens (get-assemblyai-token), the live WebSocket, batch
+-- transcription and LeMUR (process-recording) to the region's endpoints.
+-- Supabase storage stays in the project's region.
+-- ============================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS data_region TEXT NOT NULL DEFAULT 'us'
+  CHECK (data_region IN ('us', 'eu'));
+
+COMMENT ON COLUMN profiles.data_region IS 'AssemblyAI processing region: us or eu';
+
+-- ============================================
+-- MEETINGS: REGION USED
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS data_region TEXT
+  CHECK (data_region IN ('us', 'eu'));
+
+COMMENT ON COLUMN meetings.data_region IS 'AssemblyAI region the meeting was transcribed in - set by live streaming, then by process-recording';
@@ -0,0 +1,74 @@
+-- ============================================
+-- RECORDING CONSENT MIGRATION
+-- Consent to record, captured before recording starts. Many jurisdictions
+-- require every party's consent, so each meeting keeps a log of who consented,
+-- how, where and when.
+-- ============================================
+
+-- ============================================
+-- MEETING CONSENTS TABLE
+-- One row per consent captured. A meeting continued in several parts gets a
+-- row for each part, since the people present may change.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meeting_consents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('verbal', 'written', 'pre_existing')),
+  consented_by TEXT[] NOT NULL DEFAULT '{}',
+  statement TEXT,
+  jurisdiction TEXT,
+  consented_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE meeting_consents IS 'Consent to record captured before each recording of a meeting';
+COMMENT ON COLUMN meeting_consents.method IS 'How consent was given: verbal, written, or pre_existing (e.g. an engagement letter)';
+COMMENT ON COLUMN meeting_consents.consented_by IS 'Names of the people who consented';
+COMMENT ON COLUMN meeting_consents.statement IS 'Consent statement shown (and read out) at the time';
+COMMENT ON COLUMN meeting_consents.jurisdiction IS 'Where the recording took place, e.g. "California, US"';
+
+-- ============================================
+-- PROFILE DEFAULTS
+-- ============================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS consent_statement TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS consent_jurisdiction TEXT;
+
+COMMENT ON COLUMN profiles.consent_statement IS 'Custom consent statement - NULL uses the app default';
+COMMENT ON COLUMN profiles.consent_jurisdiction IS 'Jurisdiction last used for consent, prefilled for the next recording';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_meeting_consents_meeting_id ON meeting_consents(meeting_id, consented_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE meeting_consents ENABLE ROW LEVEL SECURITY;
+
+-- Users can view consent for their own meetings
+CREATE POLICY "Users can view own consents" ON meeting_consents
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can record consent for their own meetings
+CREATE POLICY "Users can create own consents" ON meeting_consents
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM meetings
+      WHERE meetings.id = meeting_id
+      AND meetings.user_id = auth.uid()
+    )
+  );
+
+-- No update or delete policies - the log is the firm's record of consent.
+-- Rows go when their meeting is deleted (ON DELETE CASCADE).
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to consents" ON meeting_consents
+  FOR ALL USING (auth.role() = 'service_role');
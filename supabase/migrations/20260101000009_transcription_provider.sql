@@ -0,0 +1,33 @@
+-- ============================================
+-- TRANSCRIPTION PROVIDER MIGRATION
+-- process-recording picks its transcription vendor from app_config, so it
+-- can be switched (or pointed at a local stand-in) without a deploy
+-- ============================================
+
+-- ============================================
+-- APP CONFIG
+-- provider: 'assemblyai' (default) or 'whisper' - a self-hosted server with
+-- the OpenAI audio API. app_config is readable by signed-in users, so API
+-- keys stay in Edge Function secrets (ASSEMBLYAI_API_KEY, WHISPER_API_KEY).
+-- ============================================
+
+INSERT INTO app_config (key, value, description) VALUES
+  ('transcription_provider', '{
+    "provider": "assemblyai",
+    "whisper": {
+      "base_url": null,
+      "model": "whisper-1",
+      "chat_base_url": null,
+      "chat_model": null
+    }
+  }', 'Transcription vendor used by process-recording. whisper needs base_url; chat_model enables summaries and speaker naming (chat_base_url defaults to base_url).')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- MEETINGS
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS transcription_provider TEXT;
+
+COMMENT ON COLUMN meetings.transcription_provider IS 'Provider that produced the transcript: assemblyai or whisper';
+COMMENT ON COLUMN meetings.data_region IS 'AssemblyAI region the meeting was transcribed in - NULL for providers without regions';
@@ -0,0 +1,297 @@
+-- ============================================
+-- PROCESSING JOB QUEUE MIGRATION
+-- Turns processing_jobs into a durable queue: process-recording claims a job
+-- under a row lock, failed attempts are retried with exponential backoff,
+-- and jobs that keep failing are dead-lettered with every error they hit.
+-- A dispatcher runs every minute to start due retries and to sweep jobs
+-- and meetings stuck mid-processing.
+-- ============================================
+
+-- ============================================
+-- 1. ONE JOB PER MEETING
+-- Retries used to insert extra rows - keep the newest for each meeting
+-- ============================================
+
+DELETE FROM processing_jobs j
+USING processing_jobs newer
+WHERE j.meeting_id = newer.meeting_id
+  AND (j.created_at, j.id) < (newer.created_at, newer.id);
+
+ALTER TABLE processing_jobs
+  ADD CONSTRAINT processing_jobs_meeting_id_key UNIQUE (meeting_id);
+
+-- ============================================
+-- 2. QUEUE COLUMNS
+-- ============================================
+
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+ALTER TABLE processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'dead_letter'));
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS error_chain JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN processing_jobs.status IS 'pending (waiting for run_after), processing (claimed), completed, failed (legacy), dead_letter (gave up)';
+COMMENT ON COLUMN processing_jobs.attempts IS 'Attempts claimed so far, including the current one';
+COMMENT ON COLUMN processing_jobs.run_after IS 'Earliest time the job may be claimed - pushed back after each failed attempt';
+COMMENT ON COLUMN processing_jobs.locked_at IS 'When the current attempt claimed the job';
+COMMENT ON COLUMN processing_jobs.locked_by IS 'Worker ID of the current attempt';
+COMMENT ON COLUMN processing_jobs.error_chain IS 'Every failed attempt: [{attempt, step, error, retryable, failed_at}]';
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_due ON processing_jobs(run_after)
+  WHERE status = 'pending';
+
+-- ============================================
+-- 3. ENQUEUE
+-- Queuing a meeting resets its job, unless the job is already waiting or
+-- running (a retry sets the meeting back to 'queued' itself)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.create_processing_job()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'queued' AND (OLD.status IS NULL OR OLD.status != 'queued') THEN
+    INSERT INTO public.processing_jobs (meeting_id, status)
+    VALUES (NEW.id, 'pending')
+    ON CONFLICT (meeting_id) DO UPDATE SET
+      status = 'pending',
+      step = NULL,
+      attempts = 0,
+      error = NULL,
+      error_chain = '[]',
+      run_after = NOW(),
+      locked_at = NULL,
+      locked_by = NULL,
+      started_at = NULL,
+      completed_at = NULL,
+      dead_lettered_at = NULL
+    WHERE processing_jobs.status NOT IN ('pending', 'processing');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. CLAIM
+-- Takes the meeting's job if it is due, under a row lock so two invocations
+-- for the same meeting never both run. Returns no row if there is nothing
+-- to do (not due yet, already running, or finished).
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_meeting_id UUID, p_worker_id TEXT)
+RETURNS SETOF public.processing_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'processing',
+      attempts = attempts + 1,
+      locked_at = NOW(),
+      locked_by = p_worker_id,
+      started_at = NOW(),
+      completed_at = NULL,
+      error = NULL
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE meeting_id = p_meeting_id
+      AND status = 'pending'
+      AND run_after <= NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 5. COMPLETE
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.complete_processing_job(p_job_id UUID, p_worker_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'completed',
+      step = NULL,
+      locked_at = NULL,
+      locked_by = NULL,
+      completed_at = NOW()
+  WHERE id = p_job_id
+    AND locked_by = p_worker_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 6. FAIL
+-- Records the error in the chain, then either schedules a retry
+-- (30s, 1m, 2m, 4m... capped at 30m) and puts the meeting back in 'queued',
+-- or - when the error isn't retryable or attempts are used up - dead-letters
+-- the job and fails the meeting. p_worker_id NULL is the sweeper acting on
+-- an abandoned attempt. Returns the job's new status.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.fail_processing_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_job public.processing_jobs;
+  v_dead BOOLEAN;
+BEGIN
+  SELECT * INTO v_job
+  FROM public.processing_jobs
+  WHERE id = p_job_id
+    AND status = 'processing'
+    AND (p_worker_id IS NULL OR locked_by = p_worker_id)
+  FOR UPDATE;
+
+  -- Someone else settled the attempt (or the sweeper already reclaimed it)
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_dead := NOT p_retryable OR v_job.attempts >= v_job.max_attempts;
+
+  UPDATE public.processing_jobs
+  SET status = CASE WHEN v_dead THEN 'dead_letter' ELSE 'pending' END,
+      error = p_error,
+      error_chain = error_chain || jsonb_build_array(jsonb_build_object(
+        'attempt', v_job.attempts,
+        'step', v_job.step,
+        'error', p_error,
+        'retryable', p_retryable,
+        'failed_at', NOW()
+      )),
+      run_after = CASE
+        WHEN v_dead THEN run_after
+        ELSE NOW() + LEAST(INTERVAL '30 minutes', INTERVAL '30 seconds' * POWER(2, v_job.attempts - 1))
+      END,
+      locked_at = NULL,
+      locked_by = NULL,
+      completed_at = CASE WHEN v_dead THEN NOW() ELSE NULL END,
+      dead_lettered_at = CASE WHEN v_dead THEN NOW() ELSE NULL END
+  WHERE id = p_job_id;
+
+  IF v_dead THEN
+    UPDATE public.meetings
+    SET status = 'failed', error_message = p_error
+    WHERE id = v_job.meeting_id;
+  ELSE
+    -- The job is pending, so this doesn't reset it
+    UPDATE public.meetings
+    SET status = 'queued', error_message = NULL
+    WHERE id = v_job.meeting_id;
+  END IF;
+
+  RETURN CASE WHEN v_dead THEN 'dead_letter' ELSE 'pending' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 7. SWEEP
+-- Attempts still locked after the timeout were cut off (function wall-clock
+-- limit, crash) and count as failed. Meetings left in converting or
+-- transcribing with no running job are queued again.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.sweep_stuck_processing(p_timeout INTERVAL DEFAULT INTERVAL '20 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+  v_job RECORD;
+  v_count INTEGER := 0;
+  v_meetings INTEGER;
+BEGIN
+  FOR v_job IN
+    SELECT id, step FROM public.processing_jobs
+    WHERE status = 'processing'
+      AND locked_at < NOW() - p_timeout
+  LOOP
+    PERFORM public.fail_processing_job(
+      v_job.id,
+      NULL,
+      'Timed out while ' || COALESCE(v_job.step, 'processing')
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.meetings m
+  SET status = 'queued', error_message = NULL
+  WHERE m.status IN ('converting', 'transcribing')
+    AND m.updated_at < NOW() - p_timeout
+    AND NOT EXISTS (
+      SELECT 1 FROM public.processing_jobs j
+      WHERE j.meeting_id = m.id
+        AND j.status IN ('pending', 'processing')
+    );
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  IF v_count + v_meetings > 0 THEN
+    RAISE LOG 'Swept % stuck processing jobs and % stuck meetings', v_count, v_meetings;
+  END IF;
+
+  RETURN v_count + v_meetings;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 8. DISPATCH
+-- Sweeps, then invokes process-recording for jobs that are due. Requests
+-- are async (pg_net) and the function claims the job itself, so a job that
+-- was also triggered by the app only runs once.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.dispatch_processing_jobs(p_limit INTEGER DEFAULT 5)
+RETURNS INTEGER AS $$
+DECLARE
+  v_job RECORD;
+  v_count INTEGER := 0;
+  function_url TEXT;
+  supabase_anon_key TEXT;
+BEGIN
+  PERFORM public.sweep_stuck_processing();
+
+  function_url := current_setting('app.settings.supabase_url', true) || '/functions/v1/process-recording';
+  supabase_anon_key := current_setting('app.settings.supabase_anon_key', true);
+
+  FOR v_job IN
+    SELECT meeting_id FROM public.processing_jobs
+    WHERE status = 'pending'
+      AND run_after <= NOW()
+    ORDER BY run_after
+    LIMIT p_limit
+  LOOP
+    PERFORM net.http_post(
+      url := function_url,
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'apikey', supabase_anon_key
+      ),
+      body := jsonb_build_object('meeting_id', v_job.meeting_id::text)
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Queue functions are for Edge Functions and cron only
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_processing_job(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_processing_job(UUID, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sweep_stuck_processing(INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dispatch_processing_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 9. SCHEDULE
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'dispatch-processing-jobs';
+SELECT cron.schedule('dispatch-processing-jobs', '* * * * *', 'SELECT public.dispatch_processing_jobs()');
@@ -0,0 +1,119 @@
+-- ============================================
+-- TRANSCRIPTION WEBHOOK MIGRATION
+-- With ASSEMBLYAI_WEBHOOK_SECRET set, process-recording submits the
+-- transcript with a webhook and returns instead of polling. The attempt
+-- stays claimed until assemblyai-webhook finishes the pipeline.
+-- ============================================
+
+-- ============================================
+-- 1. SUBMITTED TRANSCRIPT
+-- ============================================
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS pending_transcript_id TEXT;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS transcription_request JSONB;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS transcription_submitted_at TIMESTAMPTZ;
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS webhook_received_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN processing_jobs.pending_transcript_id IS 'Provider transcript the current attempt is waiting on a webhook for';
+COMMENT ON COLUMN processing_jobs.transcription_request IS 'What the transcript was submitted with, to finish the pipeline from the webhook: {expected_speakers, language, vocabulary, multichannel, data_region, duration_seconds}';
+COMMENT ON COLUMN processing_jobs.transcription_submitted_at IS 'When the transcript was submitted with a webhook';
+COMMENT ON COLUMN processing_jobs.webhook_received_at IS 'When the webhook was first accepted - later deliveries are ignored';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_pending_transcript_id
+  ON processing_jobs(pending_transcript_id)
+  WHERE pending_transcript_id IS NOT NULL;
+
+-- ============================================
+-- 2. CLAIM
+-- A new attempt forgets the previous attempt's transcript, so a late
+-- webhook for it doesn't match
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_meeting_id UUID, p_worker_id TEXT)
+RETURNS SETOF public.processing_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'processing',
+      attempts = attempts + 1,
+      locked_at = NOW(),
+      locked_by = p_worker_id,
+      started_at = NOW(),
+      completed_at = NULL,
+      error = NULL,
+      pending_transcript_id = NULL,
+      transcription_request = NULL,
+      transcription_submitted_at = NULL,
+      webhook_received_at = NULL
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE meeting_id = p_meeting_id
+      AND status = 'pending'
+      AND run_after <= NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 3. SWEEP
+-- An attempt waiting on a webhook isn't running, so it gets longer before
+-- it counts as lost (webhook never delivered, or the provider gave up)
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.sweep_stuck_processing(INTERVAL);
+
+CREATE OR REPLACE FUNCTION public.sweep_stuck_processing(
+  p_timeout INTERVAL DEFAULT INTERVAL '20 minutes',
+  p_webhook_timeout INTERVAL DEFAULT INTERVAL '3 hours'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_job RECORD;
+  v_count INTEGER := 0;
+  v_meetings INTEGER;
+BEGIN
+  FOR v_job IN
+    SELECT id, step, transcription_submitted_at, webhook_received_at
+    FROM public.processing_jobs
+    WHERE status = 'processing'
+      AND (
+        (transcription_submitted_at IS NULL AND locked_at < NOW() - p_timeout)
+        OR (transcription_submitted_at IS NOT NULL AND webhook_received_at IS NULL
+            AND transcription_submitted_at < NOW() - p_webhook_timeout)
+        OR (webhook_received_at IS NOT NULL AND webhook_received_at < NOW() - p_timeout)
+      )
+  LOOP
+    PERFORM public.fail_processing_job(
+      v_job.id,
+      NULL,
+      CASE
+        WHEN v_job.transcription_submitted_at IS NOT NULL AND v_job.webhook_received_at IS NULL
+          THEN 'Timed out waiting for the transcription webhook'
+        ELSE 'Timed out while ' || COALESCE(v_job.step, 'processing')
+      END
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.meetings m
+  SET status = 'queued', error_message = NULL
+  WHERE m.status IN ('converting', 'transcribing')
+    AND m.updated_at < NOW() - p_timeout
+    AND NOT EXISTS (
+      SELECT 1 FROM public.processing_jobs j
+      WHERE j.meeting_id = m.id
+        AND j.status IN ('pending', 'processing')
+    );
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  IF v_count + v_meetings > 0 THEN
+    RAISE LOG 'Swept % stuck processing jobs and % stuck meetings', v_count, v_meetings;
+  END IF;
+
+  RETURN v_count + v_meetings;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.sweep_stuck_processing(INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
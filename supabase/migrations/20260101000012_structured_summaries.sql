@@ -0,0 +1,42 @@
+-- ============================================
+-- STRUCTURED SUMMARIES MIGRATION
+-- Summaries are generated as sections (overview, discussion points,
+-- decisions, action items, notable statements, follow-ups) instead of one
+-- markdown string, and failures are recorded as a status and error code
+-- instead of placeholder text in transcripts.summary
+-- ============================================
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS summary_sections JSONB;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS summary_status TEXT
+  CHECK (summary_status IN ('completed', 'empty', 'failed'));
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS summary_error_code TEXT
+  CHECK (summary_error_code IN ('provider_error', 'invalid_response'));
+
+COMMENT ON COLUMN transcripts.summary IS 'Summary as markdown, rendered from summary_sections (free text on summaries from before sections)';
+COMMENT ON COLUMN transcripts.summary_sections IS 'Structured summary: {overview, discussion_points[], decisions[], action_items[{text, owner}], notable_statements[], follow_ups[]}';
+COMMENT ON COLUMN transcripts.summary_status IS 'completed, empty (the model returned nothing) or failed';
+COMMENT ON COLUMN transcripts.summary_error_code IS 'Why a failed summary failed: provider_error (request failed) or invalid_response (unreadable output)';
+
+-- ============================================
+-- BACKFILL
+-- Placeholder text from earlier versions becomes a status
+-- ============================================
+
+UPDATE transcripts
+SET summary_status = 'empty',
+    summary = NULL
+WHERE summary = 'Summary not available.';
+
+UPDATE transcripts
+SET summary_status = 'failed',
+    summary_error_code = 'provider_error',
+    summary = NULL
+WHERE summary IN (
+  'Summary generation failed. Please retry processing.',
+  'Summary generation encountered an error.'
+);
+
+UPDATE transcripts
+SET summary_status = 'completed'
+WHERE summary_status IS NULL
+  AND summary IS NOT NULL;
@@ -0,0 +1,28 @@
+-- ============================================
+-- SUMMARY TEMPLATES MIGRATION
+-- Each meeting type can carry a summary template - which sections to
+-- include, extra instructions and a tone - used for the summaries of its
+-- meetings. A summary can be regenerated with another type's template.
+-- ============================================
+
+-- { "sections": ["discussion_points", "decisions", "action_items",
+--                "notable_statements", "follow_ups"],
+--   "instructions": "...", "tone": "formal" | "concise" | "plain_language" }
+-- NULL means the default template: every section, formal tone
+ALTER TABLE meeting_types ADD COLUMN IF NOT EXISTS summary_template JSONB;
+
+COMMENT ON COLUMN meeting_types.summary_template IS 'Summary template for meetings of this type: {sections[], instructions, tone}. NULL uses the default template';
+
+-- Which type's template the summary was generated with (NULL: the default
+-- template, or the type has since been deleted)
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS summary_meeting_type_id UUID
+  REFERENCES meeting_types(id) ON DELETE SET NULL;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS summary_generated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN transcripts.summary_meeting_type_id IS 'Meeting type whose summary template the summary was generated with';
+COMMENT ON COLUMN transcripts.summary_generated_at IS 'When the summary was last generated - set again when it is regenerated';
+
+UPDATE transcripts
+SET summary_generated_at = created_at
+WHERE summary_generated_at IS NULL
+  AND summary_status IS NOT NULL;
@@ -0,0 +1,79 @@
+-- ============================================
+-- ACTION ITEMS MIGRATION
+-- Action items from meeting summaries get their own rows, so they can be
+-- tracked to done across meetings: who is responsible, when it is due and
+-- where in the transcript it was agreed.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS action_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  responsible_party TEXT,
+  contact_id UUID REFERENCES contacts(id) ON DELETE SET NULL,
+  due_date DATE,
+  source_segment_id UUID REFERENCES transcript_segments(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE action_items IS 'Action items extracted from meeting summaries';
+COMMENT ON COLUMN action_items.responsible_party IS 'Who the item was assigned to, as named in the meeting (a speaker, the contact, or a role)';
+COMMENT ON COLUMN action_items.contact_id IS 'The meeting''s contact, when they are the responsible party';
+COMMENT ON COLUMN action_items.due_date IS 'Deadline given in the meeting, with relative dates resolved against the meeting date';
+COMMENT ON COLUMN action_items.source_segment_id IS 'Transcript segment the item was agreed in';
+COMMENT ON COLUMN action_items.status IS 'open or done';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_action_items_meeting_id ON action_items(meeting_id);
+CREATE INDEX IF NOT EXISTS idx_action_items_user_open ON action_items(user_id, due_date)
+  WHERE status = 'open';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Items are created by processing; users mark them done or remove them
+-- ============================================
+
+ALTER TABLE action_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own action items" ON action_items
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own action items" ON action_items
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own action items" ON action_items
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to action items" ON action_items
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+-- Auto-update updated_at timestamp for action_items
+CREATE TRIGGER action_items_updated_at
+  BEFORE UPDATE ON action_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- BACKFILL
+-- Items already in structured summaries, without due dates or segments
+-- ============================================
+
+INSERT INTO action_items (meeting_id, user_id, description, responsible_party)
+SELECT m.id, m.user_id, item->>'text', NULLIF(item->>'owner', '')
+FROM transcripts t
+JOIN meetings m ON m.id = t.meeting_id
+CROSS JOIN LATERAL jsonb_array_elements(t.summary_sections->'action_items') AS item
+WHERE t.summary_sections IS NOT NULL
+  AND jsonb_typeof(t.summary_sections->'action_items') = 'array'
+  AND COALESCE(item->>'text', '') <> '';
@@ -0,0 +1,68 @@
+-- ============================================
+-- PROCESSING PROGRESS MIGRATION
+-- process-recording and assemblyai-webhook publish an event as each step
+-- of processing starts, with the share done and an estimated finish. The
+-- processing screen subscribes to them, and to its meeting and job, over
+-- Supabase Realtime instead of polling.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS processing_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN (
+    'converting', 'converted', 'transcribing', 'transcription_submitted',
+    'diarization', 'speaker_naming', 'summary', 'saving'
+  )),
+  progress NUMERIC(4, 3) CHECK (progress >= 0 AND progress <= 1),
+  eta_at TIMESTAMPTZ,
+  message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE processing_events IS 'Progress of the current processing attempt, one row per step started. Cleared when a new attempt starts';
+COMMENT ON COLUMN processing_events.stage IS 'Step that started: converting, converted, transcribing, transcription_submitted, diarization, speaker_naming, summary, saving';
+COMMENT ON COLUMN processing_events.progress IS 'Share of processing done when the step started (0-1)';
+COMMENT ON COLUMN processing_events.eta_at IS 'Estimated time the meeting will be ready, from the recording length';
+COMMENT ON COLUMN processing_events.message IS 'Optional detail for the user (e.g., "3 speakers detected")';
+
+CREATE INDEX IF NOT EXISTS idx_processing_events_meeting_id ON processing_events(meeting_id, created_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE processing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own processing events" ON processing_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to processing events" ON processing_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- REALTIME
+-- Changes are delivered to subscribers that can select the row under RLS
+-- ============================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['processing_events', 'meetings', 'processing_jobs']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,119 @@
+-- ============================================
+-- TRANSCRIPT VERSIONS MIGRATION
+-- Every processing run saves a new transcript version with the parameters
+-- it ran with, instead of replacing the meeting's transcript. One version
+-- is current - the one the app, shares and summaries use - and the user
+-- can switch back to an earlier one.
+-- ============================================
+
+-- ============================================
+-- 1. VERSIONS
+-- ============================================
+
+ALTER TABLE transcripts DROP CONSTRAINT IF EXISTS transcripts_meeting_id_key;
+
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS parameters JSONB;
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS speaker_names JSONB;
+
+COMMENT ON COLUMN transcripts.version IS 'Processing run the transcript came from, counting from 1 for each meeting';
+COMMENT ON COLUMN transcripts.is_current IS 'Whether this is the version shown for the meeting - one per meeting';
+COMMENT ON COLUMN transcripts.parameters IS 'What the run used: {provider, speech_model, language, expected_speakers, vocabulary[], multichannel, data_region}';
+COMMENT ON COLUMN transcripts.speaker_names IS 'Speaker names for this version - copied to meetings.speaker_names when it becomes current';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_meeting_version ON transcripts(meeting_id, version);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcripts_current ON transcripts(meeting_id) WHERE is_current;
+
+-- Existing transcripts are version 1, with what the meeting was processed with
+UPDATE transcripts t
+SET parameters = jsonb_build_object(
+      'provider', m.transcription_provider,
+      'speech_model', m.speech_model_used,
+      'language', m.transcription_language,
+      'expected_speakers', m.expected_speakers,
+      'vocabulary', COALESCE(to_jsonb(m.applied_vocabulary), '[]'::jsonb),
+      'multichannel', m.recording_mode = 'phone_call',
+      'data_region', m.data_region
+    ),
+    speaker_names = m.speaker_names
+FROM meetings m
+WHERE m.id = t.meeting_id
+  AND t.parameters IS NULL;
+
+-- Speaker names are edited on the current version
+CREATE POLICY "Users can update own transcripts" ON transcripts
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM meetings WHERE meetings.id = meeting_id AND meetings.user_id = auth.uid())
+  );
+
+-- ============================================
+-- 2. SEGMENTS BELONG TO A VERSION
+-- Live streaming results have no transcript until processing replaces them
+-- ============================================
+
+ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS transcript_id UUID
+  REFERENCES transcripts(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN transcript_segments.transcript_id IS 'Transcript version the segment belongs to. NULL for live streaming results';
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_transcript_id ON transcript_segments(transcript_id, start_ms);
+
+UPDATE transcript_segments s
+SET transcript_id = t.id
+FROM transcripts t
+WHERE t.meeting_id = s.meeting_id
+  AND s.transcript_id IS NULL
+  AND COALESCE(s.is_streaming_result, FALSE) = FALSE;
+
+-- ============================================
+-- 3. REPROCESSING OPTIONS
+-- expected_speakers and transcription_language are already on the meeting
+-- ============================================
+
+ALTER TABLE meetings ADD COLUMN IF NOT EXISTS vocabulary_override TEXT[];
+
+COMMENT ON COLUMN meetings.vocabulary_override IS 'Vocabulary to transcribe with instead of the user and contact terms, set when reprocessing with an edited list. NULL uses the terms';
+
+-- ============================================
+-- 4. SWITCH CURRENT VERSION
+-- Makes the transcript its meeting's current version and applies its
+-- speaker names to the meeting
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.set_current_transcript(p_transcript_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_meeting_id UUID;
+  v_user_id UUID;
+  v_speaker_names JSONB;
+BEGIN
+  SELECT t.meeting_id, m.user_id, t.speaker_names
+  INTO v_meeting_id, v_user_id, v_speaker_names
+  FROM public.transcripts t
+  JOIN public.meetings m ON m.id = t.meeting_id
+  WHERE t.id = p_transcript_id;
+
+  IF v_meeting_id IS NULL THEN
+    RAISE EXCEPTION 'Transcript not found';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND v_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to change this meeting';
+  END IF;
+
+  UPDATE public.transcripts
+  SET is_current = FALSE
+  WHERE meeting_id = v_meeting_id
+    AND is_current
+    AND id != p_transcript_id;
+
+  UPDATE public.transcripts
+  SET is_current = TRUE
+  WHERE id = p_transcript_id;
+
+  UPDATE public.meetings
+  SET speaker_names = v_speaker_names
+  WHERE id = v_meeting_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
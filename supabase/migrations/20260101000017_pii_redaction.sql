@@ -0,0 +1,69 @@
+-- ============================================
+-- PII REDACTION MIGRATION
+-- Redacted copies of a meeting for sending outside the firm: the recording
+-- is transcribed again with the chosen PII categories replaced by their
+-- type (e.g. "[US_SOCIAL_SECURITY_NUMBER]"), summarized from that text, and
+-- optionally bleeped in the audio. Originals are never changed.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS transcript_redactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  policies TEXT[] NOT NULL,
+  include_audio BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  full_text TEXT,
+  segments JSONB,
+  summary TEXT,
+  summary_sections JSONB,
+  summary_status TEXT CHECK (summary_status IN ('completed', 'empty', 'failed')),
+  audio_path TEXT,
+  assemblyai_transcript_id TEXT,
+  transcription_request JSONB,
+  webhook_received_at TIMESTAMPTZ,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE transcript_redactions IS 'Redacted transcripts, summaries and audio of a meeting, made for sharing';
+COMMENT ON COLUMN transcript_redactions.policies IS 'AssemblyAI PII policies redacted, e.g. us_social_security_number, date_of_birth, location';
+COMMENT ON COLUMN transcript_redactions.include_audio IS 'Whether a bleeped copy of the audio was requested';
+COMMENT ON COLUMN transcript_redactions.segments IS 'Redacted segments: [{speaker, text, start_ms, end_ms}], with speaker names unless names are redacted';
+COMMENT ON COLUMN transcript_redactions.summary_status IS 'Summary of the redacted text: completed, empty or failed, as on transcripts';
+COMMENT ON COLUMN transcript_redactions.audio_path IS 'Bleeped audio in the meeting-audio bucket';
+COMMENT ON COLUMN transcript_redactions.transcription_request IS 'What the redacted transcript was submitted with, for finishing it from the webhook';
+COMMENT ON COLUMN transcript_redactions.webhook_received_at IS 'When AssemblyAI called back - set once, so duplicate deliveries are ignored';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_transcript_redactions_meeting_id ON transcript_redactions(meeting_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transcript_redactions_assemblyai_id ON transcript_redactions(assemblyai_transcript_id)
+  WHERE assemblyai_transcript_id IS NOT NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Redactions are made by the redact-transcript function
+-- ============================================
+
+ALTER TABLE transcript_redactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own redactions" ON transcript_redactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to redactions" ON transcript_redactions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- REDACTED SHARES
+-- A redacted-only share serves the latest completed redaction - never the
+-- original transcript, summary or audio
+-- ============================================
+
+ALTER TABLE meeting_shares ADD COLUMN IF NOT EXISTS redacted_only BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN meeting_shares.redacted_only IS 'Serve only the meeting''s latest completed redaction';
@@ -0,0 +1,47 @@
+-- ============================================
+-- TRANSCRIPT ENTITIES MIGRATION
+-- Dates, deadlines, amounts, case numbers, statute and rule citations, and
+-- the people and organizations named in a meeting - extracted from each
+-- transcript version and linked to the segment they were mentioned in.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS transcript_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'date', 'deadline', 'amount', 'case_number', 'citation', 'person', 'organization'
+  )),
+  text TEXT NOT NULL,
+  normalized_value TEXT,
+  segment_id UUID REFERENCES transcript_segments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE transcript_entities IS 'Legal entities extracted from a transcript version';
+COMMENT ON COLUMN transcript_entities.entity_type IS 'date, deadline, amount, case_number, citation (statute or rule), person or organization';
+COMMENT ON COLUMN transcript_entities.text IS 'The entity as it was said';
+COMMENT ON COLUMN transcript_entities.normalized_value IS 'YYYY-MM-DD for dates and deadlines, "<amount> <currency>" for amounts, the full name or citation otherwise';
+COMMENT ON COLUMN transcript_entities.segment_id IS 'Transcript segment the entity was mentioned in';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_transcript_entities_transcript_id ON transcript_entities(transcript_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_entities_meeting_id ON transcript_entities(meeting_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Entities are extracted by processing
+-- ============================================
+
+ALTER TABLE transcript_entities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own transcript entities" ON transcript_entities
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to transcript entities" ON transcript_entities
+  FOR ALL USING (auth.role() = 'service_role');
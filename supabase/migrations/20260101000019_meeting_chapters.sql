@@ -0,0 +1,46 @@
+-- ============================================
+-- MEETING CHAPTERS MIGRATION
+-- Long meetings are split into chapters by topic during processing: a
+-- title, a one-sentence gist and the part of the recording each covers.
+-- Chapters belong to the transcript version they were generated from.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS meeting_chapters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES meetings(id) ON DELETE CASCADE,
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  gist TEXT,
+  start_ms INTEGER NOT NULL,
+  end_ms INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_ms > start_ms)
+);
+
+COMMENT ON TABLE meeting_chapters IS 'Topic chapters of a meeting, generated from a transcript version';
+COMMENT ON COLUMN meeting_chapters.title IS 'Short topic title, e.g. "Fee agreement discussion"';
+COMMENT ON COLUMN meeting_chapters.gist IS 'One sentence on what was covered';
+COMMENT ON COLUMN meeting_chapters.start_ms IS 'Start of the chapter''s first segment (0 for the first chapter)';
+COMMENT ON COLUMN meeting_chapters.end_ms IS 'Start of the next chapter, or the end of the last segment';
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_meeting_chapters_transcript_id ON meeting_chapters(transcript_id, start_ms);
+CREATE INDEX IF NOT EXISTS idx_meeting_chapters_meeting_id ON meeting_chapters(meeting_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Chapters are generated by processing
+-- ============================================
+
+ALTER TABLE meeting_chapters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chapters" ON meeting_chapters
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Service role has full access (for Edge Functions)
+CREATE POLICY "Service role full access to chapters" ON meeting_chapters
+  FOR ALL USING (auth.role() = 'service_role');
@@ -14,15 +14,48 @@ import * as Crypto from 'expo-crypto';
 // Status Types
 // =============================================================================
 
-/** Meeting processing status */
-export type MeetingStatus = 'uploading' | 'queued' | 'converting' | 'transcribing' | 'ready' | 'failed';
+/**
+ * Meeting processing status.
+ * 'pending_upload' is client-only: a meeting recorded offline that hasn't been
+ * created on the server yet (see lib/offline-meetings.ts).
+ */
+export type MeetingStatus = 'pending_upload' | 'uploading' | 'queued' | 'converting' | 'transcribing' | 'ready' | 'failed';
 
-/** Processing job status */
-export type ProcessingJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+/**
+ * Processing job status. A failed attempt goes back to 'pending' until
+ * max_attempts is used up, then the job is dead-lettered. 'failed' is only
+ * on jobs from before the retry queue.
+ */
+export type ProcessingJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter';
 
 /** Processing step indicator */
 export type ProcessingStep = 'converting' | 'transcribing' | null;
 
+/**
+ * How a meeting was recorded: 'standard' is mono with speaker diarization,
+ * 'phone_call' is stereo with the user on channel 1 and the other party on
+ * channel 2
+ */
+export type RecordingMode = 'standard' | 'phone_call';
+
+/**
+ * Where AssemblyAI processes a user's audio: streaming, batch transcription
+ * and LeMUR all use the region's endpoints
+ */
+export type DataRegion = 'us' | 'eu';
+
+/**
+ * Vendor that transcribed a meeting, chosen server-side via app_config
+ * (transcription_provider)
+ */
+export type TranscriptionProviderName = 'assemblyai' | 'whisper';
+
+/**
+ * How recording consent was given: said aloud at the start of the recording,
+ * signed, or already on file (e.g. in an engagement letter)
+ */
+export type ConsentMethod = 'verbal' | 'written' | 'pre_existing';
+
 /** Streaming session status */
 export type StreamingSessionStatus = 'active' | 'completed' | 'failed' | 'expired';
 
@@ -39,6 +72,11 @@ export interface Profile {
   polar_customer_id: string | null;
   // Time-based trial (7 days from signup)
   trial_started_at: string | null;
+  // AssemblyAI processing region
+  data_region: DataRegion;
+  // Recording consent - NULL statement uses DEFAULT_CONSENT_STATEMENT
+  consent_statement: string | null;
+  consent_jurisdiction: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -523,10 +561,19 @@ export interface MeetingType {
   color: string;
   is_default: boolean;
   display_order: number;
+  summary_template: SummaryTemplate | null;   // null uses DEFAULT_SUMMARY_TEMPLATE
   created_at: string;
   updated_at: string;
 }
 
+// Custom vocabulary term (party names, Latin terms, local street names...)
+export interface VocabularyTerm {
+  id: string;
+  user_id: string;
+  term: string;
+  created_at: string;
+}
+
 // =============================================================================
 // Contact Types
 // =============================================================================
@@ -557,6 +604,8 @@ export interface Contact {
   email: string | null;
   phone: string | null;
   notes: string | null;
+  // Language preselected when recording with this contact
+  default_language: TranscriptionLanguageSetting | null;
   // Future CRM integration fields
   external_id: string | null;
   external_source: ExternalContactSource;
@@ -596,6 +645,7 @@ export interface MeetingShare {
   view_count: number;
   last_viewed_at: string | null;
   expires_at: string | null;
+  redacted_only: boolean;    // Serves only the latest completed redaction
   created_at: string;
   updated_at: string;
 }
@@ -605,6 +655,7 @@ export interface CreateMeetingShareInput {
   meetingId: string;
   password?: string; // Optional password (will be hashed before storage)
   expiresAt?: string; // Optional expiration date
+  redactedOnly?: boolean; // Share the redacted version only
 }
 
 /** Share link data returned to the client */
@@ -612,6 +663,7 @@ export interface MeetingShareLink {
   id: string;
   shareUrl: string;
   hasPassword: boolean;
+  redactedOnly: boolean;
   isActive: boolean;
   viewCount: number;
   lastViewedAt: string | null;
@@ -670,6 +722,36 @@ export type TranscriptionLanguage =
   | 'zh'  // Chinese
   | 'ko'; // Korean
 
+/**
+ * Language chosen for a meeting: a language, or 'auto' to detect it
+ * (streaming and batch both run language detection)
+ */
+export type TranscriptionLanguageSetting = TranscriptionLanguage | 'auto';
+
+export const DEFAULT_TRANSCRIPTION_LANGUAGE: TranscriptionLanguage = 'en';
+
+// Options for the language pickers, in display order
+export const TRANSCRIPTION_LANGUAGE_OPTIONS: { code: TranscriptionLanguageSetting; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'auto', label: 'Auto-detect' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ko', label: 'Korean' },
+];
+
+// Display name for a language code - falls back to the code itself for
+// languages detected outside the picker list
+export function getLanguageLabel(code: string | null | undefined): string {
+  if (!code) return TRANSCRIPTION_LANGUAGE_OPTIONS[0].label;
+  const option = TRANSCRIPTION_LANGUAGE_OPTIONS.find((o) => o.code === code);
+  return option ? option.label : code.toUpperCase();
+}
+
 /**
  * Summary model options per AssemblyAI docs
  * Used with built-in summarization feature
@@ -719,6 +801,31 @@ export interface SpeakerFeedback {
   updated_at: string;
 }
 
+/**
+ * A stretch of a recording flagged by the live quality monitor
+ */
+export interface AudioQualityIssue {
+  type: 'silence' | 'clipping';
+  start_ms: number;
+  end_ms: number;
+  /** Channel the issue was on in a phone call recording (1 = the user, 2 = the other party) */
+  channel?: number;
+}
+
+/**
+ * Input quality measured during a live recording
+ * Levels are in dBFS (0 = full scale); issues only include stretches long
+ * enough to have raised a warning
+ */
+export interface AudioQualityReport {
+  analyzed_ms: number;
+  average_rms_dbfs: number;
+  peak_dbfs: number;
+  silence_ms: number;
+  clipping_ms: number;
+  issues: AudioQualityIssue[];
+}
+
 // Meeting
 export interface Meeting {
   id: string;
@@ -739,8 +846,14 @@ export interface Meeting {
   // 1 = solo (single speaker), 2 = two people (default), 3 = three or more
   expected_speakers: number;
   
+  // Phone calls are transcribed per channel instead of diarized
+  recording_mode: RecordingMode;
+  
+  // AssemblyAI region the audio was processed in (null until transcribed)
+  data_region: DataRegion | null;
+  
   // Speaker diarization validation (populated after transcription)
-  detected_speakers: number | null;      // Actual speakers detected by AssemblyAI
+  detected_speakers: number | null;      // Actual speakers detected (null if the provider can't diarize)
   speaker_mismatch: boolean;             // True if detected != expected
   
   // Custom speaker names (set by user or AI)
@@ -748,8 +861,11 @@ export interface Meeting {
   speaker_names: Record<string, string> | null;
   
   // Transcription settings
-  transcription_language: string;        // Language code (default: 'en')
-  speech_model_used: string | null;      // Model used: 'slam-1' or 'best'
+  transcription_language: string;        // Language code (default: 'en') or 'auto'
+  transcription_provider: TranscriptionProviderName | null;
+  speech_model_used: string | null;      // Model used: 'slam-1' or 'best' (AssemblyAI), or the Whisper model
+  detected_language: string | null;      // Detected language code (auto only)
+  language_confidence: number | null;    // Detection confidence (0-1)
   
   // Meeting type
   meeting_type_id: string | null;
@@ -770,24 +886,139 @@ export interface Meeting {
   live_transcript_data: Record<string, unknown> | null;
   used_streaming_transcription: boolean;
   
+  // Input quality measured while recording (live recordings only)
+  audio_quality_report: AudioQualityReport | null;
+  
+  // Custom vocabulary sent with the batch transcription (user + contact terms)
+  applied_vocabulary: string[] | null;
+  // Vocabulary to reprocess with instead of the terms (null uses the terms)
+  vocabulary_override: string[] | null;
+  
   created_at: string;
   updated_at: string;
 }
 
+// Structured summary (transcripts.summary_sections)
+export interface SummaryActionItem {
+  text: string;
+  owner: string | null;
+  due_date?: string | null;        // YYYY-MM-DD - not on summaries from before action item tracking
+  source_quote?: string | null;
+}
+
+export interface SummarySections {
+  overview: string;
+  discussion_points: string[];
+  decisions: string[];
+  action_items: SummaryActionItem[];
+  notable_statements: string[];
+  follow_ups: string[];
+}
+
+/** The list sections a summary can have - the overview is always included */
+export type SummarySectionKey = Exclude<keyof SummarySections, 'overview'>;
+
+export const SUMMARY_SECTION_TITLES: Record<SummarySectionKey, string> = {
+  discussion_points: 'Key Discussion Points',
+  decisions: 'Decisions Made',
+  action_items: 'Action Items',
+  notable_statements: 'Notable Statements',
+  follow_ups: 'Follow-up Required',
+};
+
+export type SummaryTone = 'formal' | 'concise' | 'plain_language';
+
+export const SUMMARY_TONE_LABELS: Record<SummaryTone, string> = {
+  formal: 'Formal',
+  concise: 'Concise',
+  plain_language: 'Plain Language',
+};
+
+// Summary template (meeting_types.summary_template)
+export interface SummaryTemplate {
+  sections: SummarySectionKey[];   // In display order
+  instructions: string;            // Extra instructions for the model
+  tone: SummaryTone;
+}
+
+// Used for meetings without a type, and types without a template
+export const DEFAULT_SUMMARY_TEMPLATE: SummaryTemplate = {
+  sections: ['discussion_points', 'decisions', 'action_items', 'notable_statements', 'follow_ups'],
+  instructions: '',
+  tone: 'formal',
+};
+
+/** completed, empty (the model returned nothing) or failed */
+export type SummaryStatus = 'completed' | 'empty' | 'failed';
+
+/** Why a summary failed: the model request failed, or its output was unreadable */
+export type SummaryErrorCode = 'provider_error' | 'invalid_response';
+
 // Transcript
+// What a processing run used (transcripts.parameters)
+export interface TranscriptParameters {
+  provider: TranscriptionProviderName | null;
+  speech_model: string | null;
+  language: string | null;
+  expected_speakers: number | null;
+  vocabulary: string[];
+  multichannel: boolean;
+  data_region: string | null;
+}
+
+// One transcript version per processing run - the current one is shown
 export interface Transcript {
   id: string;
   meeting_id: string;
+  version: number;
+  is_current: boolean;
+  parameters: TranscriptParameters | null;
+  speaker_names: Record<string, string> | null;
   full_text: string | null;
-  summary: string | null;
+  summary: string | null;                      // Markdown - free text on summaries from before sections
+  summary_sections: SummarySections | null;
+  summary_status: SummaryStatus | null;        // null until processed
+  summary_error_code: SummaryErrorCode | null;
+  summary_meeting_type_id: string | null;     // Type whose template the summary used
+  summary_generated_at: string | null;
   assemblyai_transcript_id: string | null;
   created_at: string;
 }
 
+/** One summary section as a titled list, in display order */
+export interface SummarySectionItems {
+  key: SummarySectionKey;
+  title: string;
+  items: string[];
+}
+
+/**
+ * The list sections of a summary with something in them, in display order.
+ * Action items show their owner after the text.
+ */
+export function getSummarySectionItems(sections: SummarySections): SummarySectionItems[] {
+  const all: SummarySectionItems[] = [
+    { key: 'discussion_points', title: SUMMARY_SECTION_TITLES.discussion_points, items: sections.discussion_points },
+    { key: 'decisions', title: SUMMARY_SECTION_TITLES.decisions, items: sections.decisions },
+    {
+      key: 'action_items',
+      title: SUMMARY_SECTION_TITLES.action_items,
+      items: sections.action_items.map((item) => {
+        const details = [item.owner, item.due_date && `due ${formatDueDate(item.due_date)}`].filter(Boolean);
+        return details.length > 0 ? `${item.text} (${details.join(', ')})` : item.text;
+      }),
+    },
+    { key: 'notable_statements', title: SUMMARY_SECTION_TITLES.notable_statements, items: sections.notable_statements },
+    { key: 'follow_ups', title: SUMMARY_SECTION_TITLES.follow_ups, items: sections.follow_ups },
+  ];
+  return all.filter((section) => section.items.length > 0);
+}
+
 // Transcript segment (with speaker diarization)
 export interface TranscriptSegment {
   id: string;
   meeting_id: string;
+  transcript_id: string | null;          // Version it belongs to (null for live streaming results)
   speaker: string;
   text: string;
   start_ms: number;
@@ -801,6 +1032,400 @@ export interface TranscriptSegment {
   created_at: string;
 }
 
+// Transcript version without its text, for the versions list
+export type TranscriptVersion = Pick<
+  Transcript,
+  'id' | 'meeting_id' | 'version' | 'is_current' | 'parameters' | 'speaker_names' | 'summary_status' | 'created_at'
+>;
+
+// Helper: One line describing what a version was processed with,
+// e.g. "3 speakers · Spanish · 12 terms"
+export function formatTranscriptParameters(parameters: TranscriptParameters | null): string {
+  if (!parameters) return 'Original processing';
+  const details: string[] = [];
+  if (parameters.multichannel) {
+    details.push('Phone call');
+  } else if (parameters.expected_speakers) {
+    details.push(`${parameters.expected_speakers} speaker${parameters.expected_speakers === 1 ? '' : 's'}`);
+  }
+  if (parameters.language) {
+    details.push(getLanguageLabel(parameters.language));
+  }
+  const terms = parameters.vocabulary?.length || 0;
+  details.push(terms === 0 ? 'No vocabulary' : `${terms} term${terms === 1 ? '' : 's'}`);
+  return details.join(' · ');
+}
+
+// One difference between two transcript versions
+export interface TranscriptDiffEntry {
+  type: 'removed' | 'added' | 'speaker';
+  start_ms: number;
+  before: Pick<TranscriptSegment, 'speaker' | 'text'> | null;
+  after: Pick<TranscriptSegment, 'speaker' | 'text'> | null;
+}
+
+// Longest transcripts compared segment by segment - beyond this the
+// comparison table would use too much memory on a phone
+const MAX_DIFF_CELLS = 2_000_000;
+
+function normalizeSegmentText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare two versions segment by segment: segments whose text is only in
+ * one version are removed or added, and segments with the same text but
+ * another speaker are speaker changes. Returns null when the transcripts
+ * are too long to compare.
+ */
+export function diffTranscriptSegments<T extends Pick<TranscriptSegment, 'speaker' | 'text' | 'start_ms'>>(
+  before: T[],
+  after: T[]
+): TranscriptDiffEntry[] | null {
+  const a = before.map((segment) => normalizeSegmentText(segment.text));
+  const b = after.map((segment) => normalizeSegmentText(segment.text));
+
+  // Skip the unchanged start and end
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) return null;
+
+  // Longest common subsequence of the changed middle
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const entries: TranscriptDiffEntry[] = [];
+  const toSide = (segment: T) => ({ speaker: segment.speaker, text: segment.text });
+  const compareSpeakers = (i: number, j: number) => {
+    if (before[i].speaker !== after[j].speaker) {
+      entries.push({ type: 'speaker', start_ms: after[j].start_ms, before: toSide(before[i]), after: toSide(after[j]) });
+    }
+  };
+
+  for (let k = 0; k < start; k++) compareSpeakers(k, k);
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      compareSpeakers(start + i, start + j);
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      const segment = after[start + j];
+      entries.push({ type: 'added', start_ms: segment.start_ms, before: null, after: toSide(segment) });
+      j++;
+    } else {
+      const segment = before[start + i];
+      entries.push({ type: 'removed', start_ms: segment.start_ms, before: toSide(segment), after: null });
+      i++;
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) compareSpeakers(endA + k, endB + k);
+
+  return entries;
+}
+
+/**
+ * PII categories that can be redacted, as AssemblyAI redaction policies.
+ * Must match PII_POLICIES in the redact-transcript pipeline.
+ */
+export type PiiCategory =
+  | 'us_social_security_number'
+  | 'account_number'
+  | 'banking_information'
+  | 'credit_card_number'
+  | 'date_of_birth'
+  | 'location'
+  | 'phone_number'
+  | 'email_address'
+  | 'person_name'
+  | 'drivers_license'
+  | 'passport_number'
+  | 'medical_condition';
+
+// Options for the redaction picker, in display order
+export const PII_CATEGORY_OPTIONS: { value: PiiCategory; label: string }[] = [
+  { value: 'us_social_security_number', label: 'Social Security numbers' },
+  { value: 'account_number', label: 'Account numbers' },
+  { value: 'banking_information', label: 'Bank details' },
+  { value: 'credit_card_number', label: 'Card numbers' },
+  { value: 'date_of_birth', label: 'Dates of birth' },
+  { value: 'location', label: 'Addresses and places' },
+  { value: 'phone_number', label: 'Phone numbers' },
+  { value: 'email_address', label: 'Email addresses' },
+  { value: 'person_name', label: 'Names' },
+  { value: 'drivers_license', label: "Driver's licenses" },
+  { value: 'passport_number', label: 'Passport numbers' },
+  { value: 'medical_condition', label: 'Medical conditions' },
+];
+
+// Categories picked by default - the ones blacked out by hand most often
+export const DEFAULT_PII_CATEGORIES: PiiCategory[] = [
+  'us_social_security_number',
+  'account_number',
+  'date_of_birth',
+  'location',
+];
+
+export type RedactionStatus = 'processing' | 'completed' | 'failed';
+
+// Redacted copy of a meeting for sharing - the originals are untouched
+export interface TranscriptRedaction {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  policies: PiiCategory[];
+  include_audio: boolean;                // Bleeped audio requested
+  status: RedactionStatus;
+  full_text: string | null;
+  segments: Pick<TranscriptSegment, 'speaker' | 'text' | 'start_ms' | 'end_ms'>[] | null;
+  summary: string | null;
+  summary_sections: SummarySections | null;
+  summary_status: SummaryStatus | null;
+  audio_path: string | null;             // Bleeped audio in meeting-audio storage
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// Helper: Labels of the redacted categories, e.g. "Names, Dates of birth"
+export function formatPiiCategories(policies: PiiCategory[]): string {
+  return PII_CATEGORY_OPTIONS
+    .filter((option) => policies.includes(option.value))
+    .map((option) => option.label)
+    .join(', ');
+}
+
+// Legal entity extracted from a transcript version
+export type EntityType =
+  | 'date'
+  | 'deadline'
+  | 'amount'
+  | 'case_number'
+  | 'citation'
+  | 'person'
+  | 'organization';
+
+export interface TranscriptEntity {
+  id: string;
+  transcript_id: string;
+  meeting_id: string;
+  user_id: string;
+  entity_type: EntityType;
+  text: string;                          // As it was said
+  normalized_value: string | null;       // YYYY-MM-DD, "<amount> <currency>", or the full name/citation
+  segment_id: string | null;             // Transcript segment it was mentioned in
+  created_at: string;
+}
+
+// Entity types in the order the entities panel groups them
+export const ENTITY_TYPE_OPTIONS: { value: EntityType; label: string }[] = [
+  { value: 'deadline', label: 'Deadlines' },
+  { value: 'date', label: 'Dates' },
+  { value: 'amount', label: 'Amounts' },
+  { value: 'case_number', label: 'Case Numbers' },
+  { value: 'citation', label: 'Statutes & Rules' },
+  { value: 'person', label: 'People' },
+  { value: 'organization', label: 'Organizations' },
+];
+
+/**
+ * Normalized value for display, or null when it would only repeat the
+ * entity as it was said - e.g. "Mar 14" for "next Friday", "$25,000.00"
+ * for "twenty-five grand"
+ */
+export function formatEntityValue(entity: Pick<TranscriptEntity, 'entity_type' | 'text' | 'normalized_value'>): string | null {
+  const value = entity.normalized_value;
+  if (!value) return null;
+
+  let formatted = value;
+  if (entity.entity_type === 'date' || entity.entity_type === 'deadline') {
+    formatted = formatDueDate(value);
+  } else if (entity.entity_type === 'amount') {
+    const [amount, currency] = value.split(' ');
+    try {
+      formatted = Number(amount).toLocaleString(undefined, { style: 'currency', currency });
+    } catch {
+      formatted = value;
+    }
+  }
+
+  return formatted.toLowerCase() === entity.text.toLowerCase() ? null : formatted;
+}
+
+// Topic chapter of a meeting, generated from a transcript version
+export interface MeetingChapter {
+  id: string;
+  meeting_id: string;
+  transcript_id: string;
+  user_id: string;
+  title: string;
+  gist: string | null;                   // One sentence on what was covered
+  start_ms: number;                      // 0 for the first chapter
+  end_ms: number;                        // Start of the next chapter
+  created_at: string;
+}
+
+// Bookmark flagged during recording
+export interface MeetingBookmark {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  offset_ms: number;                     // Recording time when flagged
+  label: string | null;
+  segment_id: string | null;             // Set once aligned to the final transcript
+  created_at: string;
+}
+
+// Consent to record, captured before each recording of a meeting
+export interface MeetingConsent {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  method: ConsentMethod;
+  consented_by: string[];                // Names of the people who consented
+  statement: string | null;              // Statement shown at the time
+  jurisdiction: string | null;           // Where the recording took place
+  consented_at: string;
+  created_at: string;
+}
+
+export const CONSENT_METHOD_LABELS: Record<ConsentMethod, string> = {
+  verbal: 'Verbal',
+  written: 'Written',
+  pre_existing: 'Pre-existing',
+};
+
+export const DEFAULT_CONSENT_STATEMENT =
+  'This conversation is being recorded and transcribed. Do all parties consent to the recording?';
+
+/**
+ * One-line consent marker, e.g. "Verbal consent · Jane Doe, John Smith · California, US"
+ */
+export function formatConsentSummary(consent: MeetingConsent): string {
+  const parts = [`${CONSENT_METHOD_LABELS[consent.method]} consent`];
+  if (consent.consented_by.length > 0) parts.push(consent.consented_by.join(', '));
+  if (consent.jurisdiction) parts.push(consent.jurisdiction);
+  return parts.join(' · ');
+}
+
+// Action item extracted from a meeting summary
+export type ActionItemStatus = 'open' | 'done';
+
+export interface ActionItem {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  description: string;
+  responsible_party: string | null;      // As named in the meeting
+  contact_id: string | null;             // Set when the meeting's contact is responsible
+  due_date: string | null;               // YYYY-MM-DD
+  source_segment_id: string | null;      // Transcript segment it was agreed in
+  status: ActionItemStatus;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Open action item with its meeting and contact, for the tasks view
+export interface ActionItemWithMeeting extends ActionItem {
+  meeting: { id: string; title: string; created_at: string; contact_id: string | null } | null;
+  contact: { id: string; first_name: string; last_name: string | null } | null;
+}
+
+export type ActionItemDueFilter = 'all' | 'overdue' | 'this_week' | 'no_date';
+
+export const ACTION_ITEM_DUE_FILTER_LABELS: Record<ActionItemDueFilter, string> = {
+  all: 'Any Date',
+  overdue: 'Overdue',
+  this_week: 'Due This Week',
+  no_date: 'No Due Date',
+};
+
+// Helper: Parse a YYYY-MM-DD due date as a local date (not UTC midnight)
+function parseDueDate(dueDate: string): Date {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Due date for display, e.g. "Mar 14"
+ */
+export function formatDueDate(dueDate: string): string {
+  const date = parseDueDate(dueDate);
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric', ...(sameYear ? {} : { year: 'numeric' }) });
+}
+
+/**
+ * Whether an open item is past its due date
+ */
+export function isActionItemOverdue(item: Pick<ActionItem, 'due_date' | 'status'>, now = new Date()): boolean {
+  if (!item.due_date || item.status === 'done') return false;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return parseDueDate(item.due_date) < today;
+}
+
+/**
+ * Whether an item passes the due date filter. "This week" is the next 7 days,
+ * overdue items included.
+ */
+export function matchesDueFilter(item: ActionItem, filter: ActionItemDueFilter, now = new Date()): boolean {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'no_date':
+      return !item.due_date;
+    case 'overdue':
+      return isActionItemOverdue(item, now);
+    case 'this_week': {
+      if (!item.due_date) return false;
+      const weekEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 7);
+      return parseDueDate(item.due_date) <= weekEnd;
+    }
+  }
+}
+
+// Recording continued into an existing meeting
+export interface MeetingRecordingPart {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  audio_path: string;
+  audio_format: string;
+  duration_seconds: number;              // As measured on the device
+  start_ms: number | null;               // Offset in the stitched audio, set once processed
+  recorded_at: string;
+  created_at: string;
+}
+
+// One failed processing attempt (processing_jobs.error_chain)
+export interface ProcessingJobError {
+  attempt: number;
+  step: ProcessingStep;
+  error: string;
+  retryable: boolean;
+  failed_at: string;
+}
+
 // Processing job
 export interface ProcessingJob {
   id: string;
@@ -808,13 +1433,62 @@ export interface ProcessingJob {
   status: ProcessingJobStatus;
   step: ProcessingStep;
   attempts: number;
+  max_attempts: number;
+  run_after: string;                     // Earliest time the next attempt can start
+  locked_at: string | null;
+  locked_by: string | null;
   error: string | null;
+  error_chain: ProcessingJobError[];
   started_at: string | null;
   completed_at: string | null;
+  dead_lettered_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Step of processing that has started (processing_events.stage)
+export type ProcessingStage =
+  | 'converting'
+  | 'converted'
+  | 'transcribing'
+  | 'transcription_submitted'
+  | 'diarization'
+  | 'speaker_naming'
+  | 'summary'
+  | 'saving';
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  converting: 'Converting audio',
+  converted: 'Audio converted',
+  transcribing: 'Transcribing audio',
+  transcription_submitted: 'Waiting for the transcript',
+  diarization: 'Separating speakers',
+  speaker_naming: 'Identifying speakers',
+  summary: 'Writing the summary',
+  saving: 'Saving the transcript',
+};
+
+// Progress event published by the pipeline as each step starts, received
+// over Realtime on the processing screen
+export interface ProcessingEvent {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  stage: ProcessingStage;
+  progress: number | null;               // Share of processing done (0-1)
+  eta_at: string | null;                 // Estimated time the meeting will be ready
+  message: string | null;
+  created_at: string;
+}
+
+// Helper: Time left until an estimated finish, e.g. "About 4 min left"
+export function formatEta(etaAt: string, now: Date = new Date()): string {
+  const secondsLeft = Math.round((new Date(etaAt).getTime() - now.getTime()) / 1000);
+  if (secondsLeft <= 30) return 'Almost done';
+  if (secondsLeft < 90) return 'About a minute left';
+  return `About ${Math.round(secondsLeft / 60)} min left`;
+}
+
 // Meeting with contact info (used in list views)
 export interface MeetingWithContact extends Meeting {
   contact?: {
@@ -834,6 +1508,12 @@ export interface MeetingWithContact extends Meeting {
 export interface MeetingWithDetails extends Meeting {
   transcript?: Transcript;
   segments?: TranscriptSegment[];
+  bookmarks?: MeetingBookmark[];
+  parts?: MeetingRecordingPart[];
+  consents?: MeetingConsent[];
+  action_items?: ActionItem[];
+  entities?: TranscriptEntity[];
+  chapters?: MeetingChapter[];
   processing_job?: ProcessingJob;
   meeting_type?: MeetingType;
   contact?: ContactWithCategory;
@@ -842,6 +1522,8 @@ export interface MeetingWithDetails extends Meeting {
 // Helper function to get status display info
 export function getStatusInfo(status: MeetingStatus): { label: string; color: string } {
   switch (status) {
+    case 'pending_upload':
+      return { label: 'Pending Upload', color: '#F59E0B' };
     case 'uploading':
       return { label: 'Uploading', color: '#F59E0B' };
     case 'queued':
@@ -859,6 +1541,11 @@ export function getStatusInfo(status: MeetingStatus): { label: string; color: st
   }
 }
 
+// Default title for a newly recorded meeting
+export function getDefaultMeetingTitle(date: Date = new Date()): string {
+  return `Meeting ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
 // Helper to format duration with clear unit labels
 export function formatDuration(seconds: number): string {
   if (seconds <= 0) return '0s';
@@ -881,6 +1568,33 @@ export function formatDuration(seconds: number): string {
   return mins > 0 ? `${hrs}h ${mins}m` : `${hrs}h`;
 }
 
+/**
+ * Find the transcript segment a bookmark belongs to. Uses the aligned
+ * segment_id when set, otherwise the segment playing at the bookmark's offset,
+ * or the last one to finish before it (the flag is usually tapped just after
+ * the moment that mattered).
+ */
+export function findBookmarkSegment<T extends { id: string; start_ms: number; end_ms: number }>(
+  bookmark: Pick<MeetingBookmark, 'offset_ms' | 'segment_id'>,
+  segments: T[]
+): T | null {
+  if (bookmark.segment_id) {
+    const aligned = segments.find((segment) => segment.id === bookmark.segment_id);
+    if (aligned) return aligned;
+  }
+  
+  let previous: T | null = null;
+  for (const segment of segments) {
+    if (bookmark.offset_ms >= segment.start_ms && bookmark.offset_ms <= segment.end_ms) {
+      return segment;
+    }
+    if (segment.end_ms < bookmark.offset_ms && (!previous || segment.end_ms > previous.end_ms)) {
+      previous = segment;
+    }
+  }
+  return previous;
+}
+
 // Helper to format timestamp from milliseconds to readable time
 export function formatTimestamp(ms: number): string {
   const totalSeconds = Math.floor(ms / 1000);